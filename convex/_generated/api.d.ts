@@ -13,6 +13,11 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as auditEvents from "../auditEvents.js";
+import type * as compensationRecords from "../compensationRecords.js";
+import type * as recordRevisions from "../recordRevisions.js";
+import type * as userPreferences from "../userPreferences.js";
+import type * as vaults from "../vaults.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -22,7 +27,13 @@ import type {
  * const myFunctionReference = api.myModule.myFunction;
  * ```
  */
-declare const fullApi: ApiFromModules<{}>;
+declare const fullApi: ApiFromModules<{
+  auditEvents: typeof auditEvents;
+  compensationRecords: typeof compensationRecords;
+  recordRevisions: typeof recordRevisions;
+  userPreferences: typeof userPreferences;
+  vaults: typeof vaults;
+}>;
 export declare const api: FilterApi<
   typeof fullApi,
   FunctionReference<any, "public">
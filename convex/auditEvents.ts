@@ -0,0 +1,45 @@
+import { mutation, query } from './_generated/server';
+import { v } from 'convex/values';
+
+const encryptedDataValidator = v.object({
+  data: v.string(),
+  iv: v.string(),
+  salt: v.string(),
+  kdfVersion: v.optional(v.number()),
+  keyDerivation: v.optional(v.union(v.literal('Argon2id'), v.literal('DataKey'))),
+});
+
+// Events are only ever inserted; there is deliberately no update or delete
+export const addAuditEvent = mutation({
+  args: {
+    userId: v.string(),
+    eventUid: v.string(),
+    timestamp: v.number(),
+    encryptedData: encryptedDataValidator,
+  },
+  handler: async (ctx, args) => {
+    // A retried push returns the event stored the first time
+    const existing = await ctx.db
+      .query('auditEvents')
+      .withIndex('by_event_uid', (q) => q.eq('eventUid', args.eventUid))
+      .first();
+    if (existing) {
+      return existing._id;
+    }
+
+    return await ctx.db.insert('auditEvents', args);
+  },
+});
+
+export const getAuditEvents = query({
+  args: {
+    userId: v.string(),
+    since: v.optional(v.number()), // Only events stored after this `_creationTime`
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('auditEvents')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId).gt('_creationTime', args.since ?? 0))
+      .collect();
+  },
+});
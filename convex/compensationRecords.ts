@@ -4,13 +4,16 @@ import { v } from 'convex/values';
 export const createCompensationRecord = mutation({
   args: {
     userId: v.string(),
-    type: v.union(v.literal('salary'), v.literal('bonus'), v.literal('equity')),
+    type: v.union(v.literal('salary'), v.literal('bonus'), v.literal('equity'), v.literal('valuation'), v.literal('exercise'), v.literal('shareLot'), v.literal('shareSale'), v.literal('espp')),
     encryptedData: v.object({
       data: v.string(),
       iv: v.string(),
       salt: v.string(),
+      kdfVersion: v.optional(v.number()),
+      keyDerivation: v.optional(v.union(v.literal('Argon2id'), v.literal('DataKey'))),
     }),
     currency: v.string(),
+    deletedAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -31,15 +34,18 @@ export const updateCompensationRecord = mutation({
       data: v.string(),
       iv: v.string(),
       salt: v.string(),
+      kdfVersion: v.optional(v.number()),
+      keyDerivation: v.optional(v.union(v.literal('Argon2id'), v.literal('DataKey'))),
     }),
     currency: v.string(),
     version: v.number(),
+    deletedAt: v.optional(v.number()), // Absent restores the record from the trash
   },
   handler: async (ctx, args) => {
-    const { id, version, ...updates } = args;
+    const { id, version, deletedAt, ...updates } = args;
     
     const existing = await ctx.db.get(id);
-    if (!existing) {
+    if (!existing || existing.purgedAt) {
       throw new Error('Record not found');
     }
     
@@ -50,6 +56,7 @@ export const updateCompensationRecord = mutation({
     
     return await ctx.db.patch(id, {
       ...updates,
+      deletedAt,
       updatedAt: Date.now(),
       version: version + 1,
       syncStatus: 'synced',
@@ -57,19 +64,42 @@ export const updateCompensationRecord = mutation({
   },
 });
 
+// Permanently delete a record and its revisions. The row stays behind as a tombstone
+// with its encrypted data wiped, so devices pulling later drop their copy too.
 export const deleteCompensationRecord = mutation({
   args: {
     id: v.id('compensationRecords'),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.delete(args.id);
+    const existing = await ctx.db.get(args.id);
+    if (!existing || existing.purgedAt) {
+      return null;
+    }
+
+    // Revisions hold earlier copies of the same data, so they go too
+    const revisions = await ctx.db
+      .query('recordRevisions')
+      .withIndex('by_record_and_version', (q) => q.eq('recordId', args.id))
+      .collect();
+    for (const revision of revisions) {
+      await ctx.db.delete(revision._id);
+    }
+
+    const now = Date.now();
+    return await ctx.db.patch(args.id, {
+      encryptedData: { data: '', iv: '', salt: '' },
+      deletedAt: existing.deletedAt ?? now,
+      purgedAt: now,
+      updatedAt: now,
+      version: existing.version + 1,
+    });
   },
 });
 
 export const getCompensationRecords = query({
   args: {
     userId: v.string(),
-    type: v.optional(v.union(v.literal('salary'), v.literal('bonus'), v.literal('equity'))),
+    type: v.optional(v.union(v.literal('salary'), v.literal('bonus'), v.literal('equity'), v.literal('valuation'), v.literal('exercise'), v.literal('shareLot'), v.literal('shareSale'), v.literal('espp'))),
   },
   handler: async (ctx, args) => {
     let query = ctx.db
@@ -79,6 +109,9 @@ export const getCompensationRecords = query({
     if (args.type) {
       query = query.filter((q) => q.eq(q.field('type'), args.type));
     }
+
+    // Records in the trash and purged tombstones are only seen through the incremental pull
+    query = query.filter((q) => q.eq(q.field('deletedAt'), undefined));
     
     return await query
       .order('desc')
@@ -86,6 +119,32 @@ export const getCompensationRecords = query({
   },
 });
 
+export const getCompensationRecord = query({
+  args: {
+    id: v.id('compensationRecords'),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const getCompensationRecordsUpdatedSince = query({
+  args: {
+    userId: v.string(),
+    since: v.number(),
+  },
+  handler: async (ctx, args) => {
+    // Incremental pull: everything touched after the client's watermark
+    return await ctx.db
+      .query('compensationRecords')
+      .withIndex('by_user_and_updated', (q) => 
+        q.eq('userId', args.userId).gt('updatedAt', args.since)
+      )
+      .order('asc')
+      .collect();
+  },
+});
+
 export const getPendingSyncRecords = query({
   args: {
     userId: v.string(),
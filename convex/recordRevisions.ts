@@ -0,0 +1,52 @@
+import { mutation, query } from './_generated/server';
+import { v } from 'convex/values';
+
+const encryptedDataValidator = v.object({
+  data: v.string(),
+  iv: v.string(),
+  salt: v.string(),
+  kdfVersion: v.optional(v.number()),
+  keyDerivation: v.optional(v.union(v.literal('Argon2id'), v.literal('DataKey'))),
+});
+
+export const addRevision = mutation({
+  args: {
+    userId: v.string(),
+    recordId: v.id('compensationRecords'),
+    revisionUid: v.string(),
+    version: v.number(),
+    encryptedData: encryptedDataValidator,
+    currency: v.string(),
+    createdAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    // A retried push returns the revision stored the first time
+    const existing = await ctx.db
+      .query('recordRevisions')
+      .withIndex('by_revision_uid', (q) => q.eq('revisionUid', args.revisionUid))
+      .first();
+    if (existing) {
+      return existing._id;
+    }
+
+    const record = await ctx.db.get(args.recordId);
+    if (!record || record.purgedAt) {
+      throw new Error('Record not found');
+    }
+
+    return await ctx.db.insert('recordRevisions', args);
+  },
+});
+
+export const getRevisions = query({
+  args: {
+    recordId: v.id('compensationRecords'),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('recordRevisions')
+      .withIndex('by_record_and_version', (q) => q.eq('recordId', args.recordId))
+      .order('desc')
+      .collect();
+  },
+});
@@ -10,12 +10,14 @@ export default defineSchema({
 
   compensationRecords: defineTable({
     userId: v.string(),
-    type: v.union(v.literal("salary"), v.literal("bonus"), v.literal("equity")),
+    type: v.union(v.literal("salary"), v.literal("bonus"), v.literal("equity"), v.literal("valuation"), v.literal("exercise"), v.literal("shareLot"), v.literal("shareSale"), v.literal("espp")),
     // All sensitive data is encrypted and stored in encryptedData
     encryptedData: v.object({
       data: v.string(), // base64 encoded encrypted data
       iv: v.string(), // initialization vector
       salt: v.string(), // salt for key derivation
+      kdfVersion: v.optional(v.number()), // key derivation function version (absent = legacy PBKDF2)
+      keyDerivation: v.optional(v.union(v.literal("Argon2id"), v.literal("DataKey"))), // absent = Argon2id
     }),
     // Metadata (non-sensitive)
     currency: v.string(),
@@ -25,9 +27,85 @@ export default defineSchema({
     syncStatus: v.union(v.literal("pending"), v.literal("synced"), v.literal("conflict"), v.literal("error")),
     lastSyncAt: v.optional(v.number()),
     version: v.number(),
+    // Tombstones: deletedAt while in the trash; purgedAt once permanently deleted,
+    // when encryptedData is wiped and the row only tells other devices to drop it
+    deletedAt: v.optional(v.number()),
+    purgedAt: v.optional(v.number()),
   })
     .index("by_user", ["userId"])
     .index("by_user_and_type", ["userId", "type"])
     .index("by_user_and_date", ["userId", "createdAt"])
+    .index("by_user_and_updated", ["userId", "updatedAt"])
     .index("by_user_and_sync_status", ["userId", "syncStatus"]),
+
+  // Prior payloads of compensation records, still encrypted client-side
+  recordRevisions: defineTable({
+    userId: v.string(),
+    recordId: v.id("compensationRecords"),
+    revisionUid: v.string(), // client-generated, makes pushes idempotent
+    version: v.number(), // record version the payload belonged to
+    encryptedData: v.object({
+      data: v.string(),
+      iv: v.string(),
+      salt: v.string(),
+      kdfVersion: v.optional(v.number()),
+      keyDerivation: v.optional(v.union(v.literal("Argon2id"), v.literal("DataKey"))),
+    }),
+    currency: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_record_and_version", ["recordId", "version"])
+    .index("by_revision_uid", ["revisionUid"]),
+
+  // Append-only audit log; the server only sees when each event happened
+  auditEvents: defineTable({
+    userId: v.string(),
+    eventUid: v.string(), // client-generated, makes pushes idempotent
+    timestamp: v.number(), // when the event happened on the client
+    encryptedData: v.object({
+      data: v.string(),
+      iv: v.string(),
+      salt: v.string(),
+      kdfVersion: v.optional(v.number()),
+      keyDerivation: v.optional(v.union(v.literal("Argon2id"), v.literal("DataKey"))),
+    }),
+  })
+    .index("by_user", ["userId"])
+    .index("by_event_uid", ["eventUid"]),
+
+  // Per-user data key, wrapped client-side by the master password key
+  vaults: defineTable({
+    userId: v.string(),
+    wrappedKey: v.object({
+      data: v.string(), // base64 encoded wrapped data key
+      iv: v.string(), // initialization vector
+      salt: v.string(), // salt for password key derivation
+      kdfVersion: v.optional(v.number()),
+    }),
+    // Same data key wrapped by the recovery phrase key, for password resets
+    recoveryKey: v.optional(v.object({
+      data: v.string(),
+      iv: v.string(),
+      salt: v.string(),
+      kdfVersion: v.optional(v.number()),
+    })),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    version: v.number(),
+  }).index("by_user", ["userId"]),
+
+  // Display and security settings, encrypted client-side with the data key
+  userPreferences: defineTable({
+    userId: v.string(),
+    encryptedData: v.object({
+      data: v.string(),
+      iv: v.string(),
+      salt: v.string(),
+      kdfVersion: v.optional(v.number()),
+      keyDerivation: v.optional(v.union(v.literal("Argon2id"), v.literal("DataKey"))),
+    }),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    version: v.number(),
+  }).index("by_user", ["userId"]),
 });
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { mutation, query } from './_generated/server';
+import { v } from 'convex/values';
+
+const encryptedDataValidator = v.object({
+  data: v.string(),
+  iv: v.string(),
+  salt: v.string(),
+  kdfVersion: v.optional(v.number()),
+  keyDerivation: v.optional(v.union(v.literal('Argon2id'), v.literal('DataKey'))),
+});
+
+export const getPreferences = query({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('userPreferences')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first();
+  },
+});
+
+export const savePreferences = mutation({
+  args: {
+    userId: v.string(),
+    encryptedData: encryptedDataValidator,
+    // Server version the client last saw; omitted for a user's first save
+    version: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('userPreferences')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first();
+
+    const now = Date.now();
+    if (!existing) {
+      await ctx.db.insert('userPreferences', {
+        userId: args.userId,
+        encryptedData: args.encryptedData,
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+      });
+      return 1;
+    }
+
+    if (existing.version !== args.version) {
+      throw new Error('Version conflict - preferences have been modified');
+    }
+
+    await ctx.db.patch(existing._id, {
+      encryptedData: args.encryptedData,
+      updatedAt: now,
+      version: existing.version + 1,
+    });
+    return existing.version + 1;
+  },
+});
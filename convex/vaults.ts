@@ -0,0 +1,77 @@
+import { mutation, query } from './_generated/server';
+import { v } from 'convex/values';
+
+const wrappedKeyValidator = v.object({
+  data: v.string(),
+  iv: v.string(),
+  salt: v.string(),
+  kdfVersion: v.optional(v.number()),
+});
+
+export const getVault = query({
+  args: {
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('vaults')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first();
+  },
+});
+
+export const createVault = mutation({
+  args: {
+    userId: v.string(),
+    wrappedKey: wrappedKeyValidator,
+    recoveryKey: v.optional(wrappedKeyValidator),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('vaults')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first();
+
+    // A second data key would make records from other devices unreadable
+    if (existing) {
+      throw new Error('Vault already exists');
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert('vaults', {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    });
+  },
+});
+
+export const updateWrappedKey = mutation({
+  args: {
+    userId: v.string(),
+    wrappedKey: wrappedKeyValidator,
+    recoveryKey: v.optional(wrappedKeyValidator),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('vaults')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .first();
+    if (!existing) {
+      throw new Error('Vault not found');
+    }
+
+    if (existing.version !== args.version) {
+      throw new Error('Version conflict - vault has been modified');
+    }
+
+    return await ctx.db.patch(existing._id, {
+      wrappedKey: args.wrappedKey,
+      recoveryKey: args.recoveryKey ?? existing.recoveryKey,
+      updatedAt: Date.now(),
+      version: args.version + 1,
+    });
+  },
+});
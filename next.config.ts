@@ -8,7 +8,7 @@ const nextConfig: NextConfig = {
       // Exclude argon2-browser from server-side builds
       if (isServer) {
         config.externals = config.externals || [];
-        config.externals.push('argon2-browser');
+        config.externals.push('argon2-browser', 'argon2-browser/dist/argon2-bundled.min.js');
       }
 
       return config;
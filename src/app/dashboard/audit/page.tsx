@@ -0,0 +1,14 @@
+import { AuditLogView } from '@/components/features/audit';
+
+export default function AuditPage() {
+  return (
+    <div className="container mx-auto px-6 py-8">
+      <AuditLogView />
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'Audit Log | CompTrails',
+  description: 'Review changes, exports and security events on your account',
+};
@@ -0,0 +1,9 @@
+import { VaultGate } from '@/components/features/vault';
+
+export default function DashboardRouteLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <VaultGate>{children}</VaultGate>;
+}
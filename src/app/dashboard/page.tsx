@@ -21,7 +21,7 @@ export default function DashboardPage() {
 
   if (loading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -42,14 +42,14 @@ export default function DashboardPage() {
             <CardContent className="p-4">
               <div className="grid grid-cols-3 gap-4 text-xs">
                 <div>
-                  <div className="font-medium text-gray-600">Connection</div>
+                  <div className="font-medium text-gray-600 dark:text-gray-400">Connection</div>
                   <div className={`${isOnline ? 'text-green-600' : 'text-red-600'}`}>
                     {isOnline ? '🟢 Online' : '🔴 Offline'}
                   </div>
                 </div>
                 <div>
-                  <div className="font-medium text-gray-600">Sync Status</div>
-                  <div className="text-gray-600">
+                  <div className="font-medium text-gray-600 dark:text-gray-400">Sync Status</div>
+                  <div className="text-gray-600 dark:text-gray-400">
                     {syncStatus === 'idle' && '⏸️ Idle'}
                     {syncStatus === 'syncing' && '🔄 Syncing'}
                     {syncStatus === 'offline' && '📱 Offline'}
@@ -57,8 +57,8 @@ export default function DashboardPage() {
                   </div>
                 </div>
                 <div>
-                  <div className="font-medium text-gray-600">Service Worker</div>
-                  <div className="text-gray-600">
+                  <div className="font-medium text-gray-600 dark:text-gray-400">Service Worker</div>
+                  <div className="text-gray-600 dark:text-gray-400">
                     {serviceWorkerStatus === 'activated' && '✅ Active'}
                     {serviceWorkerStatus === 'installing' && '⏳ Installing'}
                     {serviceWorkerStatus === 'unsupported' && '❌ Unsupported'}
@@ -0,0 +1,14 @@
+import { ReportsView } from '@/components/features/reports';
+
+export default function ReportsPage() {
+  return (
+    <div className="container mx-auto px-6 py-8">
+      <ReportsView />
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'Reports | CompTrails',
+  description: 'Year-over-year, employer, raise, bonus and equity reports on your compensation',
+};
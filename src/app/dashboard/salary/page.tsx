@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
@@ -8,14 +8,22 @@ import { DashboardLayout } from '@/components/layouts/dashboard-layout';
 import { Button } from '@/components/ui/button';
 import { AddSalaryForm } from '@/components/features/salary/add-salary-form';
 import { SalaryList } from '@/components/features/salary/salary-list';
+import { DisplayCurrencySelect } from '@/components/features/fx';
+import { useUndoableDelete, UndoDeleteToast, RecordHistoryDialog } from '@/components/features/records';
+import type { CompensationRecord, DecryptedSalaryData } from '@/lib/db/types';
 import { Plus } from 'lucide-react';
 
 export default function SalaryPage() {
   const [showAddForm, setShowAddForm] = useState(false);
+  const [editingSalary, setEditingSalary] = useState<(CompensationRecord & { decryptedData: DecryptedSalaryData }) | null>(null);
+  const [historySalary, setHistorySalary] = useState<(CompensationRecord & { decryptedData: DecryptedSalaryData }) | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const { user, loading } = useAuth();
   const router = useRouter();
 
+  const refresh = useCallback(() => setRefreshTrigger(prev => prev + 1), []);
+  const { deleted, deleteRecord, undo, dismiss } = useUndoableDelete(refresh);
+
   useEffect(() => {
     if (!loading && !user) {
       router.push('/login');
@@ -24,7 +32,7 @@ export default function SalaryPage() {
 
   if (loading) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
       </div>
     );
@@ -34,46 +42,56 @@ export default function SalaryPage() {
     return null;
   }
 
-  const handleAddSuccess = () => {
-    setRefreshTrigger(prev => prev + 1);
-  };
-
   return (
     <DashboardLayout>
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold text-gray-900">Salary Records</h1>
-            <p className="mt-2 text-gray-600">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Salary Records</h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">
               Track your salary history and compensation changes over time.
             </p>
           </div>
-          <Button
-            onClick={() => setShowAddForm(true)}
-            className="bg-blue-600 hover:bg-blue-700"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Salary
-          </Button>
+          <div className="flex items-center gap-4">
+            <DisplayCurrencySelect />
+            <Button
+              onClick={() => setShowAddForm(true)}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Salary
+            </Button>
+          </div>
         </div>
 
         <SalaryList
           refreshTrigger={refreshTrigger}
-          onEdit={(record) => {
-            // TODO: Implement edit functionality
-            console.log('Edit salary:', record);
-          }}
-          onDelete={(record) => {
-            // TODO: Implement delete functionality
-            console.log('Delete salary:', record);
-          }}
+          onEdit={setEditingSalary}
+          onHistory={setHistorySalary}
+          onDelete={(record) =>
+            deleteRecord(record, `the ${record.decryptedData.title} salary at ${record.decryptedData.company}`)
+          }
         />
 
         <AddSalaryForm
-          isOpen={showAddForm}
-          onClose={() => setShowAddForm(false)}
-          onSuccess={handleAddSuccess}
+          isOpen={showAddForm || editingSalary !== null}
+          onClose={() => {
+            setShowAddForm(false);
+            setEditingSalary(null);
+          }}
+          onSuccess={refresh}
+          record={editingSalary ?? undefined}
+        />
+
+        <RecordHistoryDialog
+          isOpen={historySalary !== null}
+          onClose={() => setHistorySalary(null)}
+          onReverted={refresh}
+          record={historySalary}
+          title={historySalary ? `${historySalary.decryptedData.title} at ${historySalary.decryptedData.company}` : undefined}
         />
+
+        <UndoDeleteToast deleted={deleted} onUndo={undo} onDismiss={dismiss} />
       </div>
     </DashboardLayout>
   );
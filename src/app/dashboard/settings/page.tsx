@@ -0,0 +1,16 @@
+import { SettingsView } from '@/components/features/settings';
+import { FxRatesView } from '@/components/features/fx';
+
+export default function SettingsPage() {
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <SettingsView />
+      <FxRatesView />
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'Settings | CompTrails',
+  description: 'Theme, currency, formats, exchange rates and security preferences',
+};
@@ -0,0 +1,14 @@
+import { TrashView } from '@/components/features/trash';
+
+export default function TrashPage() {
+  return (
+    <div className="container mx-auto px-6 py-8">
+      <TrashView />
+    </div>
+  );
+}
+
+export const metadata = {
+  title: 'Trash | CompTrails',
+  description: 'Restore or permanently delete compensation records',
+};
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormItem, FormControl } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Database, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { AuditService } from '@/services/auditService';
+import { SyncService } from '@/services/syncService';
+import { AuditLog, AUDIT_EVENT_LABELS, type AuditLogEntry } from '@/lib/audit';
+import { CSVExporter, JSONExporter, exportUtils } from '@/utils/exporters';
+import type { AuditEventType } from '@/lib/db/types';
+
+const EVENT_TYPES = Object.keys(AUDIT_EVENT_LABELS) as AuditEventType[];
+
+/**
+ * The audit log, decrypted on this device, filterable by event type and date
+ */
+export function AuditLogView() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [eventType, setEventType] = useState<AuditEventType | 'all'>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const { user } = useAuth();
+  const { decryptData } = useVault();
+  const { formatDate } = usePreferences();
+
+  const loadEvents = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      // Events recorded on other devices are only fetched when the log is opened
+      await SyncService.pullAuditEvents(user.id);
+      const events = await AuditService.getEvents(user.id);
+
+      const decrypted = await Promise.all(
+        events.map(async (event): Promise<AuditLogEntry> => {
+          try {
+            const decryptionResult = await decryptData(event.encryptedData);
+            if (!decryptionResult.success) {
+              console.error('Failed to decrypt audit event:', decryptionResult.error);
+              return { eventUid: event.eventUid, timestamp: event.timestamp, data: null };
+            }
+            return { eventUid: event.eventUid, timestamp: event.timestamp, data: JSON.parse(decryptionResult.data) };
+          } catch (error) {
+            console.error('Failed to decrypt audit event:', error);
+            return { eventUid: event.eventUid, timestamp: event.timestamp, data: null };
+          }
+        })
+      );
+
+      setEntries(decrypted);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, decryptData]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const filteredEntries = useMemo(
+    () => AuditLog.filter(entries, { type: eventType, from: from || undefined, to: to || undefined }),
+    [entries, eventType, from, to]
+  );
+
+  const handleExport = async (exportFormat: 'csv' | 'json') => {
+    if (!user) return;
+
+    const { columns, rows } = AuditLog.toTable(filteredEntries);
+    const filename = exportUtils.generateFilename('audit-log', exportFormat);
+    if (exportFormat === 'csv') {
+      CSVExporter.downloadTable(rows, columns, filename);
+    } else {
+      JSONExporter.downloadTable({ id: 'audit-log', title: 'Audit Log', columns, rows }, filename);
+    }
+
+    await AuditService.log(user.id, 'export', `${rows.length} audit events as ${exportFormat.toUpperCase()}`);
+    await loadEvents();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-2xl font-bold">Audit Log</h2>
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="py-4">
+              <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-2/3"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Audit Log</h2>
+          <p className="text-sm text-gray-500">
+            Changes, exports and security events from all your devices. Details are encrypted; the server only sees when each event happened.
+          </p>
+        </div>
+        <div className="flex shrink-0 space-x-2">
+          <Button variant="outline" size="sm" disabled={filteredEntries.length === 0} onClick={() => handleExport('csv')}>
+            <FileText className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" disabled={filteredEntries.length === 0} onClick={() => handleExport('json')}>
+            <Database className="h-4 w-4 mr-1" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormItem>
+              <FormLabel>Event</FormLabel>
+              <Select value={eventType} onValueChange={(value) => setEventType(value as AuditEventType | 'all')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All events</SelectItem>
+                  {EVENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>
+                      {AUDIT_EVENT_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+            <FormItem>
+              <FormLabel>From</FormLabel>
+              <FormControl>
+                <Input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+              </FormControl>
+            </FormItem>
+            <FormItem>
+              <FormLabel>To</FormLabel>
+              <FormControl>
+                <Input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+              </FormControl>
+            </FormItem>
+          </div>
+        </CardContent>
+      </Card>
+
+      {filteredEntries.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">
+              {entries.length === 0 ? 'No events have been recorded yet.' : 'No events match these filters.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">{filteredEntries.length} event{filteredEntries.length > 1 ? 's' : ''}</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {filteredEntries.map(({ eventUid, timestamp, data }) => (
+              <div key={eventUid} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    {data && <Badge variant="secondary">{AUDIT_EVENT_LABELS[data.type]}</Badge>}
+                    <span className="text-sm truncate">
+                      {data ? AuditLog.describe(data) : <span className="text-gray-500">Could not be decrypted</span>}
+                    </span>
+                  </div>
+                  {data?.details && <p className="text-xs text-gray-500">{data.details}</p>}
+                </div>
+                <span className="shrink-0 text-xs text-gray-500">
+                  {formatDate(new Date(timestamp))} {format(timestamp, 'HH:mm')}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
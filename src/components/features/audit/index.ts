@@ -0,0 +1 @@
+export { AuditLogView } from './AuditLogView';
\ No newline at end of file
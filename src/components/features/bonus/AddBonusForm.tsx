@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
@@ -10,62 +10,86 @@ import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
 import { FormLabel } from '@/components/ui/form-label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { bonusSchema, type BonusFormData, bonusTypeOptions, currencyOptions } from '@/lib/validations/bonus';
+import { bonusSchema, type BonusFormData, bonusTypeOptions } from '@/lib/validations/bonus';
+import type { CompensationRecord, DecryptedBonusData } from '@/lib/db/types';
 import { useAuth } from '@/contexts/AuthContext';
-import { EncryptionService } from '@/services/encryptionService';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import { LocalStorageService } from '@/services/localStorageService';
 import { format } from 'date-fns';
+import { CurrencyPicker } from '../currency';
 
 interface AddBonusFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  record?: CompensationRecord & { decryptedData: DecryptedBonusData }; // Edits this bonus instead of adding one
 }
 
-export function AddBonusForm({ isOpen, onClose, onSuccess }: AddBonusFormProps) {
+const emptyValues = (currency: string): BonusFormData => ({
+  company: '',
+  type: 'performance',
+  amount: 0,
+  currency,
+  date: format(new Date(), 'yyyy-MM-dd'),
+  payrollDate: '',
+  description: '',
+  notes: '',
+});
+
+export function AddBonusForm({ isOpen, onClose, onSuccess, record }: AddBonusFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences } = usePreferences();
   
   const form = useForm<BonusFormData>({
     resolver: zodResolver(bonusSchema),
-    defaultValues: {
-      company: '',
-      type: 'performance',
-      amount: 0,
-      currency: 'USD',
-      date: format(new Date(), 'yyyy-MM-dd'),
-      payrollDate: '',
-      description: '',
-      notes: '',
-    },
+    defaultValues: emptyValues(preferences.currency),
   });
 
+  // Prefill from the record being edited each time the dialog opens
+  useEffect(() => {
+    if (isOpen && record) {
+      form.reset({ ...emptyValues(record.decryptedData.currency), ...record.decryptedData });
+    }
+  }, [isOpen, record, form]);
+
+  const handleClose = () => {
+    form.reset(emptyValues(preferences.currency));
+    onClose();
+  };
+
   const onSubmit = async (data: BonusFormData) => {
     if (!user) return;
     
     setIsLoading(true);
     try {
-      // For now, we'll use a default password. In a real app, this would come from user authentication
-      const userPassword = 'default-password'; // TODO: Get from secure context
-      
       // Encrypt the sensitive data
-      const encryptedData = await EncryptionService.encryptData(JSON.stringify(data), userPassword);
+      const encryptedData = await encryptData(JSON.stringify(data));
       
       // Store locally first (local-first architecture)
-      await LocalStorageService.addCompensationRecord({
-        userId: user.id,
-        type: 'bonus',
-        encryptedData,
-        currency: data.currency,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-        syncStatus: 'pending',
-        version: 1,
-      });
+      if (record?.id !== undefined) {
+        await LocalStorageService.updateCompensationRecord(record.id, {
+          encryptedData,
+          currency: data.currency,
+          version: record.version,
+        });
+      } else {
+        await LocalStorageService.addCompensationRecord({
+          userId: user.id,
+          type: 'bonus',
+          encryptedData,
+          currency: data.currency,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          syncStatus: 'pending',
+          version: 1,
+        });
+      }
 
       onSuccess();
-      onClose();
-      form.reset();
+      handleClose();
     } catch (error) {
       console.error('Error saving bonus:', error);
     } finally {
@@ -74,10 +98,10 @@ export function AddBonusForm({ isOpen, onClose, onSuccess }: AddBonusFormProps)
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Add New Bonus</DialogTitle>
+          <DialogTitle>{record ? 'Edit Bonus' : 'Add New Bonus'}</DialogTitle>
         </DialogHeader>
         
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -102,7 +126,7 @@ export function AddBonusForm({ isOpen, onClose, onSuccess }: AddBonusFormProps)
               render={({ field, fieldState }) => (
                 <FormItem>
                   <FormLabel>Bonus Type</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select bonus type" />
@@ -148,20 +172,9 @@ export function AddBonusForm({ isOpen, onClose, onSuccess }: AddBonusFormProps)
               render={({ field, fieldState }) => (
                 <FormItem>
                   <FormLabel>Currency</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select currency" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {currencyOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label} {option.value}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <FormControl>
+                    <CurrencyPicker {...field} />
+                  </FormControl>
                   {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
                 </FormItem>
               )}
@@ -231,7 +244,7 @@ export function AddBonusForm({ isOpen, onClose, onSuccess }: AddBonusFormProps)
           />
 
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={onClose}>
+            <Button type="button" variant="outline" onClick={handleClose}>
               Cancel
             </Button>
             <Button type="submit" disabled={isLoading}>
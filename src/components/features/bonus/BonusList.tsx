@@ -6,14 +6,17 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Plus, Search, Filter } from 'lucide-react';
+import { Plus, Search, Filter, Edit, History, Trash2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { LocalStorageService } from '@/services/localStorageService';
-import { EncryptionService } from '@/services/encryptionService';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { AddBonusForm } from './AddBonusForm';
+import { DisplayCurrencySelect } from '../fx';
+import { useUndoableDelete, UndoDeleteToast, RecordHistoryDialog } from '../records';
 import type { CompensationRecord, DecryptedBonusData } from '@/lib/db/types';
 import { bonusTypeOptions } from '@/lib/validations/bonus';
-import { format } from 'date-fns';
 
 export function BonusList() {
   const [bonuses, setBonuses] = useState<Array<CompensationRecord & { decryptedData: DecryptedBonusData }>>([]);
@@ -21,7 +24,12 @@ export function BonusList() {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [showAddForm, setShowAddForm] = useState(false);
+  const [editingBonus, setEditingBonus] = useState<(CompensationRecord & { decryptedData: DecryptedBonusData }) | null>(null);
+  const [historyBonus, setHistoryBonus] = useState<(CompensationRecord & { decryptedData: DecryptedBonusData }) | null>(null);
   const { user } = useAuth();
+  const { decryptData } = useVault();
+  const { formatCurrency, formatDate } = usePreferences();
+  const { displayCurrency, convert } = useCurrency();
 
   const loadBonuses = useCallback(async () => {
     if (!user) return;
@@ -29,12 +37,10 @@ export function BonusList() {
     setIsLoading(true);
     try {
       const records = await LocalStorageService.getCompensationRecords(user.id, 'bonus');
-      const userPassword = 'default-password'; // TODO: Get from secure context
-      
       const decryptedBonuses = await Promise.all(
         records.map(async (record) => {
           try {
-            const decryptionResult = await EncryptionService.decryptData(record.encryptedData, userPassword);
+            const decryptionResult = await decryptData(record.encryptedData);
             if (!decryptionResult.success) {
               console.error('Failed to decrypt bonus record:', decryptionResult.error);
               return null;
@@ -54,12 +60,14 @@ export function BonusList() {
     } finally {
       setIsLoading(false);
     }
-  }, [user]);
+  }, [user, decryptData]);
 
   useEffect(() => {
     loadBonuses();
   }, [loadBonuses]);
 
+  const { deleted, deleteRecord, undo, dismiss } = useUndoableDelete(loadBonuses);
+
   const filteredBonuses = useMemo(() => {
     return bonuses.filter(bonus => {
       const matchesSearch = searchTerm === '' || 
@@ -90,26 +98,39 @@ export function BonusList() {
     return grouped;
   }, [filteredBonuses]);
 
+  // Bonuses convert at the rate on their own date; those without a rate keep their currency
+  const convertBonus = useCallback((bonus: DecryptedBonusData) => {
+    const conversion = bonus.currency === displayCurrency ? null : convert(bonus.amount, bonus.currency, bonus.date);
+    return conversion
+      ? { amount: conversion.amount, currency: conversion.currency, isConverted: true }
+      : { amount: bonus.amount, currency: bonus.currency, isConverted: false };
+  }, [displayCurrency, convert]);
+
   const yearlyTotals = useMemo(() => {
     const totals: Record<number, Record<string, number>> = {};
+    const converted = new Set<string>(); // `${year}:${currency}` totals that include converted amounts
     
     Object.entries(bonusesByYear).forEach(([year, yearBonuses]) => {
       totals[Number(year)] = {};
       
       yearBonuses.forEach(bonus => {
-        const currency = bonus.decryptedData.currency;
+        const { amount, currency, isConverted } = convertBonus(bonus.decryptedData);
         if (!totals[Number(year)][currency]) {
           totals[Number(year)][currency] = 0;
         }
-        totals[Number(year)][currency] += bonus.decryptedData.amount;
+        totals[Number(year)][currency] += amount;
+        if (isConverted) converted.add(`${year}:${currency}`);
       });
     });
     
-    return totals;
-  }, [bonusesByYear]);
+    return { totals, converted };
+  }, [bonusesByYear, convertBonus]);
+
+  const formatTotal = (year: number | string, currency: string, total: number) =>
+    `${yearlyTotals.converted.has(`${year}:${currency}`) ? '≈ ' : ''}${formatCurrency(total, currency)}`;
 
   const currentYear = new Date().getFullYear();
-  const ytdTotal = yearlyTotals[currentYear] || {};
+  const ytdTotal = yearlyTotals.totals[currentYear] || {};
 
   const getBonusTypeBadgeColor = (type: string) => {
     const colors = {
@@ -118,18 +139,11 @@ export function BonusList() {
       retention: 'bg-purple-100 text-purple-800',
       spot: 'bg-yellow-100 text-yellow-800',
       annual: 'bg-orange-100 text-orange-800',
-      other: 'bg-gray-100 text-gray-800',
+      other: 'bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200',
     };
     return colors[type as keyof typeof colors] || colors.other;
   };
 
-  const formatCurrency = (amount: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(amount);
-  };
-
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -144,12 +158,12 @@ export function BonusList() {
           {[...Array(3)].map((_, i) => (
             <Card key={i} className="animate-pulse">
               <CardHeader className="pb-2">
-                <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-3/4"></div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  <div className="h-3 bg-gray-200 rounded w-full"></div>
-                  <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                  <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-full"></div>
+                  <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-1/2"></div>
                 </div>
               </CardContent>
             </Card>
@@ -163,10 +177,13 @@ export function BonusList() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Bonuses</h2>
-        <Button onClick={() => setShowAddForm(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Bonus
-        </Button>
+        <div className="flex items-center gap-4">
+          <DisplayCurrencySelect />
+          <Button onClick={() => setShowAddForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Bonus
+          </Button>
+        </div>
       </div>
 
       {/* YTD Summary */}
@@ -179,10 +196,15 @@ export function BonusList() {
             <div className="flex flex-wrap gap-4">
               {Object.entries(ytdTotal).map(([currency, total]) => (
                 <div key={currency} className="text-2xl font-bold text-green-600">
-                  {formatCurrency(total, currency)}
+                  {formatTotal(currentYear, currency, total)}
                 </div>
               ))}
             </div>
+            {displayCurrency && yearlyTotals.converted.size > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                ≈ Converted to {displayCurrency} at the rate on each bonus date
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
@@ -232,48 +254,82 @@ export function BonusList() {
                 <div className="flex justify-between items-center">
                   <h3 className="text-xl font-semibold">{year}</h3>
                   <div className="flex flex-wrap gap-2">
-                    {Object.entries(yearlyTotals[Number(year)] || {}).map(([currency, total]) => (
+                    {Object.entries(yearlyTotals.totals[Number(year)] || {}).map(([currency, total]) => (
                       <div key={currency} className="text-lg font-medium text-green-600">
-                        {formatCurrency(total, currency)}
+                        {formatTotal(year, currency, total)}
                       </div>
                     ))}
                   </div>
                 </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {yearBonuses.map((bonus) => (
-                    <Card key={bonus.id} className="hover:shadow-md transition-shadow">
-                      <CardHeader className="pb-3">
-                        <div className="flex justify-between items-start">
-                          <div>
-                            <CardTitle className="text-lg">{bonus.decryptedData.company}</CardTitle>
-                            <p className="text-sm text-gray-500">
-                              {format(new Date(bonus.decryptedData.date), 'MMM dd, yyyy')}
-                            </p>
+                  {yearBonuses.map((bonus) => {
+                    const converted = convertBonus(bonus.decryptedData);
+                    return (
+                      <Card key={bonus.id} className="hover:shadow-md transition-shadow">
+                        <CardHeader className="pb-3">
+                          <div className="flex justify-between items-start">
+                            <div>
+                              <CardTitle className="text-lg">{bonus.decryptedData.company}</CardTitle>
+                              <p className="text-sm text-gray-500">
+                                {formatDate(bonus.decryptedData.date)}
+                              </p>
+                            </div>
+                            <Badge className={getBonusTypeBadgeColor(bonus.decryptedData.type)}>
+                              {bonusTypeOptions.find(opt => opt.value === bonus.decryptedData.type)?.label}
+                            </Badge>
                           </div>
-                          <Badge className={getBonusTypeBadgeColor(bonus.decryptedData.type)}>
-                            {bonusTypeOptions.find(opt => opt.value === bonus.decryptedData.type)?.label}
-                          </Badge>
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-2">
-                          <div className="text-2xl font-bold text-green-600">
-                            {formatCurrency(bonus.decryptedData.amount, bonus.decryptedData.currency)}
+                        </CardHeader>
+                        <CardContent>
+                          <div className="space-y-2">
+                            <div className="text-2xl font-bold text-green-600">
+                              {formatCurrency(bonus.decryptedData.amount, bonus.decryptedData.currency)}
+                            </div>
+                            {converted.isConverted && (
+                              <p className="text-sm text-gray-500">
+                                ≈ {formatCurrency(converted.amount, converted.currency)} converted
+                              </p>
+                            )}
+                            <p className="text-sm text-gray-600 dark:text-gray-400">{bonus.decryptedData.description}</p>
+                            {bonus.decryptedData.payrollDate && (
+                              <p className="text-xs text-gray-500">
+                                Payroll: {formatDate(bonus.decryptedData.payrollDate)}
+                              </p>
+                            )}
+                            {bonus.decryptedData.notes && (
+                              <p className="text-xs text-gray-500">{bonus.decryptedData.notes}</p>
+                            )}
+                            <div className="flex justify-end space-x-2 pt-2">
+                              <Button variant="outline" size="sm" onClick={() => setHistoryBonus(bonus)}>
+                                <History className="h-4 w-4 mr-1" />
+                                History
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setEditingBonus(bonus)}
+                                className="text-blue-600 hover:text-blue-700"
+                              >
+                                <Edit className="h-4 w-4 mr-1" />
+                                Edit
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() =>
+                                  deleteRecord(bonus, `the ${formatDate(bonus.decryptedData.date)} ${bonus.decryptedData.company} bonus`)
+                                }
+                                className="text-red-600 hover:text-red-700"
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Delete
+                              </Button>
+                            </div>
                           </div>
-                          <p className="text-sm text-gray-600">{bonus.decryptedData.description}</p>
-                          {bonus.decryptedData.payrollDate && (
-                            <p className="text-xs text-gray-500">
-                              Payroll: {format(new Date(bonus.decryptedData.payrollDate), 'MMM dd, yyyy')}
-                            </p>
-                          )}
-                          {bonus.decryptedData.notes && (
-                            <p className="text-xs text-gray-500">{bonus.decryptedData.notes}</p>
-                          )}
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
                 </div>
               </div>
             ))}
@@ -281,10 +337,24 @@ export function BonusList() {
       )}
 
       <AddBonusForm
-        isOpen={showAddForm}
-        onClose={() => setShowAddForm(false)}
+        isOpen={showAddForm || editingBonus !== null}
+        onClose={() => {
+          setShowAddForm(false);
+          setEditingBonus(null);
+        }}
         onSuccess={loadBonuses}
+        record={editingBonus ?? undefined}
       />
+
+      <RecordHistoryDialog
+        isOpen={historyBonus !== null}
+        onClose={() => setHistoryBonus(null)}
+        onReverted={loadBonuses}
+        record={historyBonus}
+        title={historyBonus ? `${historyBonus.decryptedData.company} ${historyBonus.decryptedData.type} bonus` : undefined}
+      />
+
+      <UndoDeleteToast deleted={deleted} onUndo={undo} onDismiss={dismiss} />
     </div>
   );
 }
\ No newline at end of file
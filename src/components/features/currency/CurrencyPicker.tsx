@@ -0,0 +1,161 @@
+'use client';
+
+import { forwardRef, useId, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { Check, ChevronDown } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Currency } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+interface CurrencyPickerProps {
+  value?: string;
+  onChange: (code: string) => void;
+  onBlur?: () => void;
+  name?: string;
+  codes?: string[]; // Limits the choices, e.g. to currencies with exchange rates
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MAX_RESULTS = 50;
+
+const describe = (code: string) => {
+  const currency = Currency.get(code);
+  return currency ? `${code} · ${currency.name}` : code;
+};
+
+/**
+ * Searchable ISO 4217 currency combobox: type a code or part of a name,
+ * then pick with the mouse or the arrow and Enter keys
+ */
+export const CurrencyPicker = forwardRef<HTMLInputElement, CurrencyPickerProps>(
+  ({ value, onChange, onBlur, name, codes, placeholder = 'Search currencies', disabled, className }, ref) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [highlighted, setHighlighted] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+    const listId = useId();
+
+    const results = useMemo(() => Currency.search(query, codes).slice(0, MAX_RESULTS), [query, codes]);
+
+    const open = () => {
+      setQuery('');
+      setHighlighted(Math.max(0, Currency.search('', codes).findIndex(currency => currency.code === value)));
+      setIsOpen(true);
+    };
+
+    const close = () => {
+      setIsOpen(false);
+      setQuery('');
+    };
+
+    const select = (code: string) => {
+      onChange(code);
+      close();
+    };
+
+    const moveHighlight = (index: number) => {
+      setHighlighted(index);
+      listRef.current?.children[index]?.scrollIntoView({ block: 'nearest' });
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+      if (!isOpen) {
+        if (event.key === 'ArrowDown' || event.key === 'Enter') {
+          event.preventDefault();
+          open();
+        }
+        return;
+      }
+
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          moveHighlight(Math.min(highlighted + 1, results.length - 1));
+          break;
+        case 'ArrowUp':
+          event.preventDefault();
+          moveHighlight(Math.max(highlighted - 1, 0));
+          break;
+        case 'Enter':
+          // Never submit the surrounding form while the list is open
+          event.preventDefault();
+          if (results[highlighted]) select(results[highlighted].code);
+          break;
+        case 'Escape':
+          event.preventDefault();
+          close();
+          break;
+      }
+    };
+
+    return (
+      <div className={cn('relative', className)}>
+        <Input
+          ref={ref}
+          name={name}
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={isOpen && results[highlighted] ? `${listId}-${results[highlighted].code}` : undefined}
+          autoComplete="off"
+          className="pr-8"
+          disabled={disabled}
+          placeholder={isOpen ? placeholder : 'Select currency'}
+          value={isOpen ? query : value ? describe(value) : ''}
+          onFocus={open}
+          onClick={() => !isOpen && open()}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+            setIsOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => {
+            close();
+            onBlur?.();
+          }}
+        />
+        <ChevronDown className="pointer-events-none absolute right-3 top-3 h-4 w-4 opacity-50" />
+
+        {isOpen && (
+          <ul
+            ref={listRef}
+            id={listId}
+            role="listbox"
+            className="absolute z-50 mt-1 max-h-60 w-full overflow-y-auto rounded-md border bg-popover py-1 text-sm text-popover-foreground shadow-md"
+          >
+            {results.length === 0 ? (
+              <li className="px-3 py-2 text-gray-500">No currency matches &quot;{query}&quot;</li>
+            ) : (
+              results.map((currency, index) => (
+                <li
+                  key={currency.code}
+                  id={`${listId}-${currency.code}`}
+                  role="option"
+                  aria-selected={currency.code === value}
+                  className={cn(
+                    'flex cursor-default items-center justify-between px-3 py-1.5',
+                    index === highlighted && 'bg-accent text-accent-foreground'
+                  )}
+                  // Keep focus in the input so the blur doesn't close the list before the click lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setHighlighted(index)}
+                  onClick={() => select(currency.code)}
+                >
+                  <span>
+                    <span className="font-medium">{currency.code}</span>
+                    <span className="ml-2 text-gray-500">{currency.name}</span>
+                  </span>
+                  {currency.code === value && <Check className="h-4 w-4" />}
+                </li>
+              ))
+            )}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+CurrencyPicker.displayName = 'CurrencyPicker';
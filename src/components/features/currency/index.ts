@@ -0,0 +1 @@
+export { CurrencyPicker } from './CurrencyPicker';
\ No newline at end of file
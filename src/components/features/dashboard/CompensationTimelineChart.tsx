@@ -0,0 +1,195 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BarChart3 } from 'lucide-react';
+import {
+  CompensationTimeline,
+  COMP_COMPONENTS,
+  type CompComponent,
+  type CompGrouping,
+  type CompPeriod,
+  type CompTimelineInput,
+} from '@/lib/compensation';
+import { cn } from '@/lib/utils';
+import { usePreferences } from '@/contexts/PreferencesContext';
+
+interface CompensationTimelineChartProps {
+  input: CompTimelineInput;
+  currency: string;
+}
+
+const COMPONENT_STYLES: Record<CompComponent, { label: string; color: string }> = {
+  salary: { label: 'Salary', color: 'bg-blue-500' },
+  bonus: { label: 'Bonuses', color: 'bg-green-500' },
+  equity: { label: 'Equity', color: 'bg-purple-500' },
+  espp: { label: 'ESPP', color: 'bg-yellow-500' },
+};
+
+/**
+ * Salary, bonuses, vested equity and ESPP discount stacked per year or month
+ */
+export function CompensationTimelineChart({ input, currency }: CompensationTimelineChartProps) {
+  const { formatCurrency } = usePreferences();
+  const [groupBy, setGroupBy] = useState<CompGrouping>('year');
+  const [hiddenComponents, setHiddenComponents] = useState<CompComponent[]>([]);
+  const [hiddenCompanies, setHiddenCompanies] = useState<string[]>([]);
+
+  const companies = useMemo(() => CompensationTimeline.getCompanies(input), [input]);
+  const components = useMemo(
+    () => COMP_COMPONENTS.filter(component => !hiddenComponents.includes(component)),
+    [hiddenComponents]
+  );
+
+  const timeline = useMemo(
+    () => CompensationTimeline.build(input, {
+      groupBy,
+      currency,
+      components,
+      companies: companies.filter(company => !hiddenCompanies.includes(company)),
+    }),
+    [input, groupBy, currency, components, hiddenCompanies, companies]
+  );
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Compensation Timeline
+          </CardTitle>
+          <div className="flex gap-1">
+            <Button
+              variant={groupBy === 'year' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setGroupBy('year')}
+            >
+              Yearly
+            </Button>
+            <Button
+              variant={groupBy === 'month' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setGroupBy('month')}
+            >
+              Monthly
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Component and company toggles */}
+        <div className="flex flex-wrap gap-2">
+          {COMP_COMPONENTS.map((component) => (
+            <Button
+              key={component}
+              variant={hiddenComponents.includes(component) ? 'outline' : 'secondary'}
+              size="sm"
+              aria-pressed={!hiddenComponents.includes(component)}
+              onClick={() => setHiddenComponents(toggle(hiddenComponents, component))}
+            >
+              <span className={cn('h-2 w-3 rounded-sm mr-2', COMPONENT_STYLES[component].color)} />
+              {COMPONENT_STYLES[component].label}
+              <span className="ml-2 text-xs text-gray-500">
+                {formatCurrency(timeline.totals[component], currency, { maximumFractionDigits: 0 })}
+              </span>
+            </Button>
+          ))}
+        </div>
+        {companies.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {companies.map((company) => (
+              <Button
+                key={company}
+                variant={hiddenCompanies.includes(company) ? 'outline' : 'secondary'}
+                size="sm"
+                aria-pressed={!hiddenCompanies.includes(company)}
+                onClick={() => setHiddenCompanies(toggle(hiddenCompanies, company))}
+              >
+                {company}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {timeline.periods.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No compensation in {currency} matches the current selection.</p>
+          </div>
+        ) : (
+          <StackedChart periods={timeline.periods} components={components} currency={currency} />
+        )}
+
+        {(timeline.otherCurrencyRecords > 0 || timeline.unpricedVests > 0) && (
+          <p className="text-xs text-gray-500">
+            Showing amounts in {currency}.
+            {timeline.otherCurrencyRecords > 0 &&
+              ` ${timeline.otherCurrencyRecords} record${timeline.otherCurrencyRecords > 1 ? 's' : ''} in other currencies left out.`}
+            {timeline.unpricedVests > 0 &&
+              ` ${timeline.unpricedVests} vest${timeline.unpricedVests > 1 ? 's' : ''} without a ${currency} share price left out.`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * One bar per period, stacked by component; projected periods are faded
+ */
+function StackedChart({
+  periods,
+  components,
+  currency,
+}: {
+  periods: CompPeriod[];
+  components: CompComponent[];
+  currency: string;
+}) {
+  const { formatCurrency } = usePreferences();
+  const maxTotal = Math.max(...periods.map(period => period.total), 1);
+  // Label roughly every sixth period so long timelines stay readable
+  const labelEvery = Math.max(1, Math.ceil(periods.length / 6));
+
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+        <span>{formatCurrency(maxTotal, currency, { maximumFractionDigits: 0 })}</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-gray-400 opacity-40" /> Projected</span>
+      </div>
+      <div className="h-56 flex items-end gap-px border-b">
+        {periods.map((period) => (
+          <div
+            key={period.key}
+            className={cn('flex-1 h-full flex flex-col-reverse', period.isProjected && 'opacity-40')}
+            title={[
+              `${period.label}: ${formatCurrency(period.total, currency, { maximumFractionDigits: 0 })}`,
+              ...components
+                .filter(component => period.amounts[component] > 0)
+                .map(component => `${COMPONENT_STYLES[component].label}: ${formatCurrency(period.amounts[component], currency, { maximumFractionDigits: 0 })}`),
+            ].join('\n')}
+          >
+            {components.map((component) => (
+              <div
+                key={component}
+                className={cn('w-full', COMPONENT_STYLES[component].color)}
+                style={{ height: `${(Math.max(0, period.amounts[component]) / maxTotal) * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-1 text-[10px] text-gray-500">
+        {periods.map((period, index) => (
+          <div key={period.key} className="flex-1 text-center whitespace-nowrap overflow-visible">
+            {index % labelEvery === 0 ? period.label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { SummaryCard } from './SummaryCard';
+import { CompensationTimelineChart } from './CompensationTimelineChart';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,32 +14,59 @@ import {
   Building2, 
   Plus,
   Activity,
-  Download
+  Download,
+  Upload,
+  AlertTriangle
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { LocalStorageService } from '@/services/localStorageService';
-import { EncryptionService } from '@/services/encryptionService';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { ExportDialog } from '../export';
+import { ImportRecordsDialog } from '../import';
+import { ConflictResolutionDialog } from '../sync';
+import { DisplayCurrencySelect } from '../fx';
 import type { 
+  CompensationRecord,
+  CompensationType,
   DecryptedSalaryData, 
   DecryptedBonusData, 
-  DecryptedEquityData 
+  DecryptedEquityData,
+  DecryptedValuationData,
+  DecryptedExerciseData,
+  DecryptedShareSaleData,
+  DecryptedEsppData,
+  DecryptedPriceHistoryData
 } from '@/lib/db/types';
+import { VestingSchedule, type VestEvent } from '@/lib/vesting';
+import { EquityValuation } from '@/lib/valuation';
+import { PriceHistory } from '@/lib/prices';
+import { EsppCalculator } from '@/lib/espp';
+import { CompensationTimeline, type CompTimelineInput } from '@/lib/compensation';
+import { valuationSourceOptions } from '@/lib/validations/valuation';
 import { format } from 'date-fns';
 
 interface DecryptedRecord {
   id: number;
-  type: 'salary' | 'bonus' | 'equity';
-  data: DecryptedSalaryData | DecryptedBonusData | DecryptedEquityData;
+  type: CompensationType;
+  data: DecryptedSalaryData | DecryptedBonusData | DecryptedEquityData | DecryptedValuationData | DecryptedExerciseData | DecryptedShareSaleData | DecryptedEsppData;
   createdAt: number;
   currency: string;
 }
 
 export function DashboardOverview() {
   const [allRecords, setAllRecords] = useState<DecryptedRecord[]>([]);
+  const [priceHistories, setPriceHistories] = useState<DecryptedPriceHistoryData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [conflictedRecords, setConflictedRecords] = useState<CompensationRecord[]>([]);
+  const [resolvingRecord, setResolvingRecord] = useState<CompensationRecord | null>(null);
   const { user } = useAuth();
+  const { decryptData } = useVault();
+  const { preferences, formatCurrency, formatNumber, formatDate } = usePreferences();
+  const { displayCurrency, normalize } = useCurrency();
   const router = useRouter();
 
   const loadAllCompensationData = useCallback(async () => {
@@ -46,21 +74,26 @@ export function DashboardOverview() {
     
     setIsLoading(true);
     try {
-      const userPassword = 'default-password'; // TODO: Get from secure context
-      
       // Load all compensation types
-      const [salaries, bonuses, equity] = await Promise.all([
+      const [salaries, bonuses, equity, valuations, exercises, sales, espp, conflicts, histories] = await Promise.all([
         LocalStorageService.getCompensationRecords(user.id, 'salary'),
         LocalStorageService.getCompensationRecords(user.id, 'bonus'),
         LocalStorageService.getCompensationRecords(user.id, 'equity'),
+        LocalStorageService.getCompensationRecords(user.id, 'valuation'),
+        LocalStorageService.getCompensationRecords(user.id, 'exercise'),
+        LocalStorageService.getCompensationRecords(user.id, 'shareSale'),
+        LocalStorageService.getCompensationRecords(user.id, 'espp'),
+        LocalStorageService.getConflictedRecords(user.id),
+        LocalStorageService.getPriceHistories(user.id),
       ]);
+      setConflictedRecords(conflicts);
 
       // Decrypt all records
       const decryptedRecords: DecryptedRecord[] = [];
       
-      for (const record of [...salaries, ...bonuses, ...equity]) {
+      for (const record of [...salaries, ...bonuses, ...equity, ...valuations, ...exercises, ...sales, ...espp]) {
         try {
-          const decryptionResult = await EncryptionService.decryptData(record.encryptedData, userPassword);
+          const decryptionResult = await decryptData(record.encryptedData);
           if (decryptionResult.success) {
             const data = JSON.parse(decryptionResult.data);
             decryptedRecords.push({
@@ -79,33 +112,63 @@ export function DashboardOverview() {
       // Sort by creation date (newest first)
       decryptedRecords.sort((a, b) => b.createdAt - a.createdAt);
       setAllRecords(decryptedRecords);
+
+      const decryptedHistories: DecryptedPriceHistoryData[] = [];
+      for (const record of histories) {
+        try {
+          const decryptionResult = await decryptData(record.encryptedData);
+          if (decryptionResult.success) {
+            decryptedHistories.push(JSON.parse(decryptionResult.data));
+          }
+        } catch (error) {
+          console.error('Failed to decrypt price history:', error);
+        }
+      }
+      setPriceHistories(decryptedHistories);
     } catch (error) {
       console.error('Error loading compensation data:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [user]);
+  }, [user, decryptData]);
 
   useEffect(() => {
     loadAllCompensationData();
   }, [loadAllCompensationData]);
 
+  // Every record that feeds the compensation timeline, decrypted above
+  const timelineInput = useMemo((): CompTimelineInput => {
+    const dataOf = <T,>(type: CompensationType) =>
+      allRecords.filter(r => r.type === type).map(r => r.data as T);
+
+    return {
+      salaries: dataOf<DecryptedSalaryData>('salary'),
+      bonuses: dataOf<DecryptedBonusData>('bonus'),
+      grants: dataOf<DecryptedEquityData>('equity'),
+      esppPlans: dataOf<DecryptedEsppData>('espp'),
+      valuations: dataOf<DecryptedValuationData>('valuation').concat(PriceHistory.toValuations(priceHistories)),
+    };
+  }, [allRecords, priceHistories]);
+
+  // The same records with amounts converted when a display currency is chosen
+  const displayInput = useMemo(
+    () => normalize(timelineInput) ?? { input: timelineInput, convertedRecords: 0, missingRates: 0 },
+    [normalize, timelineInput]
+  );
+  const isConverted = displayInput.convertedRecords > 0;
+  const approx = (value: string) => (isConverted ? `≈ ${value}` : value);
+
   // Calculate current salary
   const currentSalary = useMemo(() => {
-    const salaryRecords = allRecords
-      .filter(r => r.type === 'salary')
-      .map(r => r.data as DecryptedSalaryData)
-      .filter(s => s.isCurrentPosition);
+    const salaryRecords = displayInput.input.salaries.filter(s => s.isCurrentPosition);
     
     return salaryRecords.length > 0 ? salaryRecords[0] : null;
-  }, [allRecords]);
+  }, [displayInput]);
 
   // Calculate YTD bonuses
   const ytdBonuses = useMemo(() => {
     const currentYear = new Date().getFullYear();
-    const bonusRecords = allRecords
-      .filter(r => r.type === 'bonus')
-      .map(r => r.data as DecryptedBonusData)
+    const bonusRecords = displayInput.input.bonuses
       .filter(b => new Date(b.date).getFullYear() === currentYear);
 
     const totalsByCurrency = bonusRecords.reduce((acc, bonus) => {
@@ -119,46 +182,46 @@ export function DashboardOverview() {
       totalsByCurrency: totalsByCurrency,
       records: bonusRecords,
     };
-  }, [allRecords]);
+  }, [displayInput]);
 
   // Calculate equity summary
   const equitySummary = useMemo(() => {
-    const equityRecords = allRecords
-      .filter(r => r.type === 'equity')
-      .map(r => r.data as DecryptedEquityData);
+    const { grants: equityRecords, valuations } = displayInput.input;
 
+    const now = new Date();
     const summary = equityRecords.reduce((acc, equity) => {
+      const vesting = VestingSchedule.getVestingProgress(equity, now);
       acc.totalShares += equity.shares;
-      
-      // Simple vesting calculation (this could be more sophisticated)
-      const now = new Date();
-      const vestingStart = new Date(equity.vestingStart);
-      const vestingEnd = new Date(vestingStart);
-      vestingEnd.setMonth(vestingEnd.getMonth() + equity.vestingPeriod);
-      
-      if (now >= vestingEnd) {
-        acc.vestedShares += equity.shares;
-      } else if (now >= vestingStart) {
-        const totalPeriod = equity.vestingPeriod;
-        const elapsedMonths = Math.floor((now.getTime() - vestingStart.getTime()) / (1000 * 60 * 60 * 24 * 30));
-        const vestedPortion = Math.min(elapsedMonths / totalPeriod, 1);
-        acc.vestedShares += Math.floor(equity.shares * vestedPortion);
+      acc.vestedShares += vesting.vestedShares;
+
+      if (vesting.nextVestEvent && (!acc.nextVestEvent || vesting.nextVestEvent.date < acc.nextVestEvent.date)) {
+        acc.nextVestEvent = { ...vesting.nextVestEvent, company: equity.company };
       }
-      
+
       return acc;
-    }, { totalShares: 0, vestedShares: 0 });
+    }, {
+      totalShares: 0,
+      vestedShares: 0,
+      nextVestEvent: null as (VestEvent & { company: string }) | null,
+    });
 
     return {
       ...summary,
       unvestedShares: summary.totalShares - summary.vestedShares,
       count: equityRecords.length,
+      value: EquityValuation.getPortfolioValue(equityRecords, valuations, now),
     };
-  }, [allRecords]);
+  }, [displayInput]);
+
+  // ESPP discount gains on this year's purchases
+  const ytdEsppGains = useMemo(() => {
+    return EsppCalculator.getGainsForYear(displayInput.input.esppPlans, new Date().getFullYear());
+  }, [displayInput]);
 
   // Calculate total compensation (simplified)
   const totalCompensation = useMemo(() => {
     let total = 0;
-    const currency = currentSalary?.currency || 'USD';
+    const currency = displayCurrency || currentSalary?.currency || preferences.currency;
     
     // Add current salary
     if (currentSalary) {
@@ -169,27 +232,41 @@ export function DashboardOverview() {
     const ytdTotal = ytdBonuses.totalsByCurrency[currency] || 0;
     total += ytdTotal;
     
-    // For equity, we'd need market price data, so we'll just show share count for now
+    // Add the ESPP discount captured this year in the same currency
+    const esppTotal = ytdEsppGains[currency] || 0;
+    total += esppTotal;
+
+    // Add this year's vests at the share price on each vest date, like the timeline
+    const now = new Date();
+    const timeline = CompensationTimeline.build(displayInput.input, {
+      groupBy: 'year',
+      currency,
+      components: ['equity'],
+      asOf: now,
+    });
+    const thisYear = timeline.periods.find(period => period.start.getFullYear() === now.getFullYear());
+    const equityTotal = thisYear?.amounts.equity || 0;
+    total += equityTotal;
     
     return {
       amount: total,
       currency,
       hasEquity: equitySummary.totalShares > 0,
+      includesEquity: equityTotal > 0,
+      includesEspp: esppTotal > 0,
     };
-  }, [currentSalary, ytdBonuses, equitySummary]);
+  }, [currentSalary, ytdBonuses, ytdEsppGains, equitySummary, displayInput, displayCurrency, preferences.currency]);
+
+  const hasTimelineData = timelineInput.salaries.length > 0
+    || timelineInput.bonuses.length > 0
+    || timelineInput.grants.length > 0
+    || timelineInput.esppPlans.length > 0;
 
   // Recent activity (last 5 records)
   const recentActivity = useMemo(() => {
     return allRecords.slice(0, 5);
   }, [allRecords]);
 
-  const formatCurrency = (amount: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(amount);
-  };
-
   const getRecordDisplayInfo = (record: DecryptedRecord) => {
     switch (record.type) {
       case 'salary':
@@ -209,10 +286,39 @@ export function DashboardOverview() {
       case 'equity':
         const equity = record.data as DecryptedEquityData;
         return {
-          title: `${equity.shares.toLocaleString()} ${equity.type} shares from ${equity.company}`,
-          amount: `${equity.shares.toLocaleString()} shares`,
+          title: `${formatNumber(equity.shares)} ${equity.type} shares from ${equity.company}`,
+          amount: `${formatNumber(equity.shares)} shares`,
           type: 'Equity',
         };
+      case 'valuation':
+        const valuation = record.data as DecryptedValuationData;
+        const source = valuationSourceOptions.find(option => option.value === valuation.source)?.label ?? valuation.source;
+        return {
+          title: `${source} for ${valuation.company}`,
+          amount: `${formatCurrency(valuation.pricePerShare, valuation.currency)}/share`,
+          type: 'Valuation',
+        };
+      case 'exercise':
+        const exercise = record.data as DecryptedExerciseData;
+        return {
+          title: `Exercised ${formatNumber(exercise.shares)} ${exercise.equityType} shares at ${exercise.company}`,
+          amount: formatCurrency(exercise.shares * exercise.strikePrice, exercise.currency),
+          type: 'Exercise',
+        };
+      case 'shareSale':
+        const sale = record.data as DecryptedShareSaleData;
+        return {
+          title: `Sold ${formatNumber(sale.shares)} ${sale.company} shares`,
+          amount: formatCurrency(sale.shares * sale.pricePerShare, sale.currency),
+          type: 'Share Sale',
+        };
+      case 'espp':
+        const espp = record.data as DecryptedEsppData;
+        return {
+          title: `${espp.company} ESPP offering from ${format(new Date(`${espp.offeringStart}T00:00:00`), 'MMM yyyy')}`,
+          amount: formatCurrency(EsppCalculator.summarizePlan(espp).gain, espp.currency),
+          type: 'ESPP',
+        };
       default:
         return {
           title: 'Unknown',
@@ -228,9 +334,10 @@ export function DashboardOverview() {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold">Dashboard</h1>
-          <p className="text-gray-600">Your compensation overview</p>
+          <p className="text-gray-600 dark:text-gray-400">Your compensation overview</p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+          <DisplayCurrencySelect />
           <Button size="sm" onClick={() => router.push('/dashboard/salary')}>
             <Plus className="h-4 w-4 mr-1" />
             Add Salary
@@ -247,16 +354,66 @@ export function DashboardOverview() {
             <Download className="h-4 w-4 mr-1" />
             Export Data
           </Button>
+          <Button size="sm" variant="outline" onClick={() => setShowImportDialog(true)}>
+            <Upload className="h-4 w-4 mr-1" />
+            Import CSV
+          </Button>
         </div>
       </div>
 
+      {/* Currency Conversion */}
+      {displayCurrency && !isLoading && (isConverted || displayInput.missingRates > 0) && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {isConverted && <>Showing totals in {displayCurrency} (≈): amounts recorded in other currencies are converted at the rate on each record&apos;s date. </>}
+          {displayInput.missingRates > 0 && (
+            <span className="text-amber-700">
+              {displayInput.missingRates} record{displayInput.missingRates > 1 ? 's have' : ' has'} no exchange rate to {displayCurrency} and {displayInput.missingRates > 1 ? 'are' : 'is'} left out of the totals; add rates in Settings.
+            </span>
+          )}
+        </p>
+      )}
+
+      {/* Sync Conflicts */}
+      {conflictedRecords.length > 0 && (
+        <Card className="border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-950">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-amber-800 dark:text-amber-200">
+              <AlertTriangle className="h-5 w-5" />
+              {conflictedRecords.length} record{conflictedRecords.length > 1 ? 's' : ''} changed on another device
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {conflictedRecords.map((record) => (
+                <div key={record.id} className="flex justify-between items-center">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="secondary" className="capitalize">{record.type}</Badge>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      Last edited here {formatDate(new Date(record.updatedAt))}
+                    </span>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setResolvingRecord(record)}>
+                    Resolve
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary Cards Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {/* Total Compensation */}
         <SummaryCard
           title="Total Compensation"
-          value={totalCompensation.amount > 0 ? formatCurrency(totalCompensation.amount, totalCompensation.currency) : 'N/A'}
-          subtitle={totalCompensation.hasEquity ? 'Plus equity grants' : 'Annual base + YTD bonuses'}
+          value={totalCompensation.amount > 0 ? approx(formatCurrency(totalCompensation.amount, totalCompensation.currency)) : 'N/A'}
+          subtitle={totalCompensation.hasEquity && !totalCompensation.includesEquity && !totalCompensation.includesEspp
+            ? 'Plus equity grants'
+            : ['Annual base', 'YTD bonuses']
+                .concat(totalCompensation.includesEspp ? ['YTD ESPP discount'] : [])
+                .concat(totalCompensation.includesEquity ? ['vests this year'] : [])
+                .join(' + ')}
           icon={<DollarSign className="h-5 w-5" />}
           isLoading={isLoading}
           isEmpty={totalCompensation.amount === 0 && !isLoading}
@@ -270,7 +427,7 @@ export function DashboardOverview() {
         {/* Current Salary */}
         <SummaryCard
           title="Current Salary"
-          value={currentSalary ? formatCurrency(currentSalary.amount, currentSalary.currency) : 'N/A'}
+          value={currentSalary ? approx(formatCurrency(currentSalary.amount, currentSalary.currency)) : 'N/A'}
           subtitle={currentSalary ? `${currentSalary.title} at ${currentSalary.company}` : undefined}
           icon={<Building2 className="h-5 w-5" />}
           isLoading={isLoading}
@@ -287,7 +444,7 @@ export function DashboardOverview() {
           title="YTD Bonuses"
           value={Object.keys(ytdBonuses.totalsByCurrency).length > 0 
             ? Object.entries(ytdBonuses.totalsByCurrency)
-                .map(([currency, amount]) => formatCurrency(amount, currency))
+                .map(([currency, amount]) => approx(formatCurrency(amount, currency)))
                 .join(', ')
             : 'N/A'
           }
@@ -305,9 +462,19 @@ export function DashboardOverview() {
         {/* Equity Summary */}
         <SummaryCard
           title="Equity Portfolio"
-          value={equitySummary.totalShares > 0 ? `${equitySummary.totalShares.toLocaleString()} shares` : 'N/A'}
+          value={equitySummary.totalShares === 0
+            ? 'N/A'
+            : equitySummary.value.pricedGrants > 0 && equitySummary.value.currency
+              ? approx(formatCurrency(equitySummary.value.totalValue, equitySummary.value.currency))
+              : `${formatNumber(equitySummary.totalShares)} shares`
+          }
           subtitle={equitySummary.totalShares > 0 
-            ? `${equitySummary.vestedShares.toLocaleString()} vested, ${equitySummary.unvestedShares.toLocaleString()} unvested`
+            ? (equitySummary.value.pricedGrants > 0 && equitySummary.value.currency
+                ? `${formatCurrency(equitySummary.value.vestedValue, equitySummary.value.currency)} vested of ${formatNumber(equitySummary.totalShares)} shares`
+                : `${formatNumber(equitySummary.vestedShares)} vested, ${formatNumber(equitySummary.unvestedShares)} unvested`)
+              + (equitySummary.nextVestEvent
+                ? ` · next ${formatNumber(equitySummary.nextVestEvent.shares)} on ${formatDate(equitySummary.nextVestEvent.date)}`
+                : '')
             : undefined
           }
           icon={<TrendingUp className="h-5 w-5" />}
@@ -321,6 +488,11 @@ export function DashboardOverview() {
         />
       </div>
 
+      {/* Compensation Timeline */}
+      {!isLoading && hasTimelineData && (
+        <CompensationTimelineChart input={displayInput.input} currency={totalCompensation.currency} />
+      )}
+
       {/* Recent Activity */}
       <Card>
         <CardHeader>
@@ -335,10 +507,10 @@ export function DashboardOverview() {
               {[...Array(3)].map((_, i) => (
                 <div key={i} className="flex justify-between items-center animate-pulse">
                   <div className="space-y-1">
-                    <div className="h-4 bg-gray-200 rounded w-48"></div>
-                    <div className="h-3 bg-gray-200 rounded w-24"></div>
+                    <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-48"></div>
+                    <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-24"></div>
                   </div>
-                  <div className="h-6 bg-gray-200 rounded w-16"></div>
+                  <div className="h-6 bg-gray-200 dark:bg-gray-800 rounded w-16"></div>
                 </div>
               ))}
             </div>
@@ -357,7 +529,7 @@ export function DashboardOverview() {
                       <div className="flex items-center gap-2">
                         <Badge variant="secondary">{info.type}</Badge>
                         <span className="text-sm text-gray-500">
-                          {format(new Date(record.createdAt), 'MMM dd, yyyy')}
+                          {formatDate(new Date(record.createdAt))}
                         </span>
                       </div>
                     </div>
@@ -384,6 +556,20 @@ export function DashboardOverview() {
         isOpen={showExportDialog} 
         onClose={() => setShowExportDialog(false)} 
       />
+
+      {/* Import Dialog */}
+      <ImportRecordsDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        onSuccess={loadAllCompensationData}
+      />
+
+      {/* Conflict Resolution Dialog */}
+      <ConflictResolutionDialog
+        record={resolvingRecord}
+        onClose={() => setResolvingRecord(null)}
+        onResolved={loadAllCompensationData}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -41,14 +41,14 @@ export function SummaryCard({
       <Card className={`animate-pulse ${className}`}>
         <CardHeader className="pb-2">
           <div className="flex items-center justify-between">
-            <div className="h-4 bg-gray-200 rounded w-20"></div>
-            {icon && <div className="h-5 w-5 bg-gray-200 rounded"></div>}
+            <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-20"></div>
+            {icon && <div className="h-5 w-5 bg-gray-200 dark:bg-gray-800 rounded"></div>}
           </div>
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
-            <div className="h-8 bg-gray-200 rounded w-32"></div>
-            <div className="h-3 bg-gray-200 rounded w-24"></div>
+            <div className="h-8 bg-gray-200 dark:bg-gray-800 rounded w-32"></div>
+            <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-24"></div>
           </div>
         </CardContent>
       </Card>
@@ -84,7 +84,7 @@ export function SummaryCard({
     <Card className={className}>
       <CardHeader className="pb-2">
         <div className="flex items-center justify-between">
-          <CardTitle className="text-sm font-medium text-gray-600">
+          <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
             {title}
           </CardTitle>
           {icon && <div className="text-gray-400">{icon}</div>}
@@ -97,7 +97,7 @@ export function SummaryCard({
           </div>
           
           {subtitle && (
-            <p className="text-sm text-gray-600">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
               {subtitle}
             </p>
           )}
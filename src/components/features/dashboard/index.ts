@@ -1,2 +1,3 @@
 export { SummaryCard } from './SummaryCard';
-export { DashboardOverview } from './DashboardOverview';
\ No newline at end of file
+export { DashboardOverview } from './DashboardOverview';
+export { CompensationTimelineChart } from './CompensationTimelineChart';
\ No newline at end of file
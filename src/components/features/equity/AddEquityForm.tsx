@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,76 +16,139 @@ import {
   equityTypeOptions, 
   vestingFrequencyOptions, 
   vestingPeriodOptions,
-  vestingCliffOptions
+  vestingCliffOptions,
+  vestingScheduleTypeOptions,
+  vestingYearlyPresetOptions
 } from '@/lib/validations/equity';
+import { VestingSchedule } from '@/lib/vesting';
+import type { CompensationRecord, DecryptedEquityData } from '@/lib/db/types';
 import { useAuth } from '@/contexts/AuthContext';
-import { EncryptionService } from '@/services/encryptionService';
+import { useVault } from '@/contexts/VaultContext';
 import { LocalStorageService } from '@/services/localStorageService';
 import { format, addYears } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
 
 interface AddEquityFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  onSelectEspp?: () => void; // ESPP offerings have their own form
+  record?: CompensationRecord & { decryptedData: DecryptedEquityData }; // Edits this grant instead of adding one
 }
 
-export function AddEquityForm({ isOpen, onClose, onSuccess }: AddEquityFormProps) {
+const emptyValues = (): EquityFormData => ({
+  company: '',
+  type: 'ISO',
+  shares: 0,
+  strikePrice: undefined,
+  grantDate: format(new Date(), 'yyyy-MM-dd'),
+  vestingStart: format(addYears(new Date(), 1), 'yyyy-MM-dd'),
+  vestingCliff: undefined,
+  vestingPeriod: 48,
+  vestingFrequency: 'monthly',
+  vestingScheduleType: 'uniform',
+  vestingYearlyPercentages: [25, 25, 25, 25],
+  vestingTranches: [
+    { monthsFromStart: 12, percentage: 25 },
+    { monthsFromStart: 24, percentage: 25 },
+    { monthsFromStart: 36, percentage: 25 },
+    { monthsFromStart: 48, percentage: 25 },
+  ],
+  notes: '',
+});
+
+export function AddEquityForm({ isOpen, onClose, onSuccess, onSelectEspp, record }: AddEquityFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
+  const { encryptData } = useVault();
   
   const form = useForm<EquityFormData>({
     resolver: zodResolver(equitySchema),
-    defaultValues: {
-      company: '',
-      type: 'ISO',
-      shares: 0,
-      strikePrice: undefined,
-      grantDate: format(new Date(), 'yyyy-MM-dd'),
-      vestingStart: format(addYears(new Date(), 1), 'yyyy-MM-dd'),
-      vestingCliff: undefined,
-      vestingPeriod: 48,
-      vestingFrequency: 'monthly',
-      notes: '',
-    },
+    defaultValues: emptyValues(),
   });
 
-  // Watch grant date changes to automatically update vesting start
-  const watchedGrantDate = form.watch('grantDate');
-  
+  // Prefill from the grant being edited each time the dialog opens
+  useEffect(() => {
+    if (isOpen && record) {
+      form.reset({ ...emptyValues(), ...record.decryptedData });
+    }
+  }, [isOpen, record, form]);
+
+  const handleClose = () => {
+    form.reset(emptyValues());
+    onClose();
+  };
+
+  const trancheFields = useFieldArray({ control: form.control, name: 'vestingTranches' });
+
+  const scheduleType = form.watch('vestingScheduleType') ?? 'uniform';
+  const yearlyPercentages = form.watch('vestingYearlyPercentages') ?? [];
+  const tranches = form.watch('vestingTranches') ?? [];
+
+  // Yearly and custom schedules imply their own length; keep vestingPeriod in step
+  // so readers that only know about vestingPeriod still see the right duration
+  const scheduleLength = scheduleType === 'uniform'
+    ? 0
+    : VestingSchedule.getScheduleLength({
+        ...form.getValues(),
+        vestingYearlyPercentages: yearlyPercentages,
+        vestingTranches: tranches,
+      });
+
   useEffect(() => {
-    if (watchedGrantDate) {
-      const grantDate = new Date(watchedGrantDate);
-      const vestingStart = addYears(grantDate, 1);
-      form.setValue('vestingStart', format(vestingStart, 'yyyy-MM-dd'));
+    if (scheduleLength > 0 && form.getValues('vestingPeriod') !== scheduleLength) {
+      form.setValue('vestingPeriod', scheduleLength);
     }
-  }, [watchedGrantDate, form]);
+  }, [scheduleLength, form]);
+
+  const sumPercentages = (percentages: number[]) =>
+    Math.round(percentages.reduce((sum, pct) => sum + (Number(pct) || 0), 0) * 100) / 100;
+
+  const setYearlyPercentages = (percentages: number[]) => {
+    form.setValue('vestingYearlyPercentages', percentages, { shouldValidate: form.formState.isSubmitted });
+  };
 
   const onSubmit = async (data: EquityFormData) => {
     if (!user) return;
     
     setIsLoading(true);
     try {
-      // For now, we'll use a default password. In a real app, this would come from user authentication
-      const userPassword = 'default-password'; // TODO: Get from secure context
-      
+      // Only keep the schedule fields that apply to the chosen schedule type
+      const { vestingYearlyPercentages, vestingTranches, ...grant } = data;
+      const equityData = {
+        ...grant,
+        grantUid: record?.decryptedData.grantUid ?? crypto.randomUUID(),
+        ...(data.vestingScheduleType === 'yearly' && { vestingYearlyPercentages }),
+        ...(data.vestingScheduleType === 'custom' && {
+          vestingTranches: [...(vestingTranches ?? [])].sort((a, b) => a.monthsFromStart - b.monthsFromStart),
+          vestingCliff: undefined,
+        }),
+      };
+
       // Encrypt the sensitive data
-      const encryptedData = await EncryptionService.encryptData(JSON.stringify(data), userPassword);
+      const encryptedData = await encryptData(JSON.stringify(equityData));
       
       // Store locally first (local-first architecture)
-      await LocalStorageService.addCompensationRecord({
-        userId: user.id,
-        type: 'equity',
-        encryptedData,
-        currency: 'USD', // Equity doesn't have currency, but we need something for the schema
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-        syncStatus: 'pending',
-        version: 1,
-      });
+      if (record?.id !== undefined) {
+        await LocalStorageService.updateCompensationRecord(record.id, {
+          encryptedData,
+          version: record.version,
+        });
+      } else {
+        await LocalStorageService.addCompensationRecord({
+          userId: user.id,
+          type: 'equity',
+          encryptedData,
+          currency: 'USD', // Equity doesn't have currency, but we need something for the schema
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          syncStatus: 'pending',
+          version: 1,
+        });
+      }
 
       onSuccess();
-      onClose();
-      form.reset();
+      handleClose();
     } catch (error) {
       console.error('Error saving equity grant:', error);
     } finally {
@@ -97,10 +160,10 @@ export function AddEquityForm({ isOpen, onClose, onSuccess }: AddEquityFormProps
   const needsStrikePrice = selectedType === 'ISO' || selectedType === 'NSO';
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Add New Equity Grant</DialogTitle>
+          <DialogTitle>{record ? 'Edit Equity Grant' : 'Add New Equity Grant'}</DialogTitle>
         </DialogHeader>
         
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -125,7 +188,10 @@ export function AddEquityForm({ isOpen, onClose, onSuccess }: AddEquityFormProps
               render={({ field, fieldState }) => (
                 <FormItem>
                   <FormLabel>Equity Type</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select
+                    onValueChange={(value) => value === 'ESPP' && onSelectEspp ? onSelectEspp() : field.onChange(value)}
+                    value={field.value}
+                  >
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select equity type" />
@@ -196,7 +262,17 @@ export function AddEquityForm({ isOpen, onClose, onSuccess }: AddEquityFormProps
                 <FormItem>
                   <FormLabel>Grant Date</FormLabel>
                   <FormControl>
-                    <Input type="date" {...field} />
+                    <Input
+                      type="date"
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e);
+                        // Vesting usually starts a year after the grant
+                        if (e.target.value) {
+                          form.setValue('vestingStart', format(addYears(new Date(e.target.value), 1), 'yyyy-MM-dd'));
+                        }
+                      }}
+                    />
                   </FormControl>
                   {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
                 </FormItem>
@@ -218,47 +294,251 @@ export function AddEquityForm({ isOpen, onClose, onSuccess }: AddEquityFormProps
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <Controller
-              control={form.control}
-              name="vestingPeriod"
-              render={({ field, fieldState }) => (
-                <FormItem>
-                  <FormLabel>Vesting Period</FormLabel>
-                  <Select onValueChange={(value) => field.onChange(Number(value))} defaultValue={field.value.toString()}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select vesting period" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {vestingPeriodOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value.toString()}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
-                </FormItem>
+          <Controller
+            control={form.control}
+            name="vestingScheduleType"
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <FormLabel>Vesting Schedule</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select vesting schedule" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {vestingScheduleTypeOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
+
+          {scheduleType === 'yearly' && (
+            <FormItem>
+              <div className="flex items-center justify-between">
+                <FormLabel>Percent Vesting Each Year</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    const preset = vestingYearlyPresetOptions.find(option => option.value === value);
+                    if (preset) setYearlyPercentages([...preset.percentages]);
+                  }}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Apply a preset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vestingYearlyPresetOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {yearlyPercentages.map((percentage, index) => (
+                  <div key={index} className="space-y-1">
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span>Year {index + 1}</span>
+                      {yearlyPercentages.length > 1 && (
+                        <button
+                          type="button"
+                          className="text-gray-400 hover:text-red-600"
+                          onClick={() => setYearlyPercentages(yearlyPercentages.filter((_, i) => i !== index))}
+                          aria-label={`Remove year ${index + 1}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={percentage}
+                      onChange={(e) =>
+                        setYearlyPercentages(
+                          yearlyPercentages.map((pct, i) => (i === index ? Number(e.target.value) : pct))
+                        )
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setYearlyPercentages([...yearlyPercentages, 0])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Year
+                </Button>
+                <span className={sumPercentages(yearlyPercentages) === 100 ? 'text-green-600' : 'text-gray-500'}>
+                  Total: {sumPercentages(yearlyPercentages)}%
+                </span>
+              </div>
+              {form.formState.errors.vestingYearlyPercentages && (
+                <FormMessage>
+                  {form.formState.errors.vestingYearlyPercentages.message ?? 'Check the yearly percentages'}
+                </FormMessage>
               )}
-            />
+            </FormItem>
+          )}
+
+          {scheduleType === 'custom' && (
+            <FormItem>
+              <FormLabel>Tranches</FormLabel>
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-gray-500">
+                  <span>Months after vesting start</span>
+                  <span>Percent of grant</span>
+                  <span className="w-9" />
+                </div>
+                {trancheFields.fields.map((tranche, index) => (
+                  <div key={tranche.id} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                    <Controller
+                      control={form.control}
+                      name={`vestingTranches.${index}.monthsFromStart`}
+                      render={({ field }) => (
+                        <Input
+                          type="number"
+                          step="1"
+                          {...field}
+                          onChange={(e) => field.onChange(Number(e.target.value))}
+                        />
+                      )}
+                    />
+                    <Controller
+                      control={form.control}
+                      name={`vestingTranches.${index}.percentage`}
+                      render={({ field }) => (
+                        <Input
+                          type="number"
+                          step="0.01"
+                          {...field}
+                          onChange={(e) => field.onChange(Number(e.target.value))}
+                        />
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => trancheFields.remove(index)}
+                      disabled={trancheFields.fields.length <= 1}
+                      aria-label={`Remove tranche ${index + 1}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    const lastMonth = Math.max(0, ...tranches.map(t => Number(t.monthsFromStart) || 0));
+                    trancheFields.append({ monthsFromStart: lastMonth + 12, percentage: 0 });
+                  }}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Tranche
+                </Button>
+                <span className={sumPercentages(tranches.map(t => t.percentage)) === 100 ? 'text-green-600' : 'text-gray-500'}>
+                  Total: {sumPercentages(tranches.map(t => t.percentage))}%
+                </span>
+              </div>
+              {form.formState.errors.vestingTranches && (
+                <FormMessage>
+                  {form.formState.errors.vestingTranches.message ??
+                    form.formState.errors.vestingTranches.root?.message ??
+                    'Check the tranche months and percentages'}
+                </FormMessage>
+              )}
+            </FormItem>
+          )}
+
+          {scheduleType !== 'custom' && (
+            <div className="grid grid-cols-2 gap-4">
+              {scheduleType === 'uniform' && (
+                <Controller
+                  control={form.control}
+                  name="vestingPeriod"
+                  render={({ field, fieldState }) => (
+                    <FormItem>
+                      <FormLabel>Vesting Period</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value.toString()}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select vesting period" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {vestingPeriodOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value.toString()}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <Controller
+                control={form.control}
+                name="vestingFrequency"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Vesting Frequency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select vesting frequency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {vestingFrequencyOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
 
+          {scheduleType !== 'custom' && (
             <Controller
               control={form.control}
-              name="vestingFrequency"
+              name="vestingCliff"
               render={({ field, fieldState }) => (
                 <FormItem>
-                  <FormLabel>Vesting Frequency</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormLabel>Vesting Cliff (optional)</FormLabel>
+                  <Select onValueChange={(value) => field.onChange(value === '0' ? undefined : Number(value))} value={field.value?.toString() || '0'}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select vesting frequency" />
+                        <SelectValue placeholder="Select vesting cliff" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {vestingFrequencyOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
+                      {vestingCliffOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value.toString()}>
                           {option.label}
                         </SelectItem>
                       ))}
@@ -268,32 +548,7 @@ export function AddEquityForm({ isOpen, onClose, onSuccess }: AddEquityFormProps
                 </FormItem>
               )}
             />
-          </div>
-
-          <Controller
-            control={form.control}
-            name="vestingCliff"
-            render={({ field, fieldState }) => (
-              <FormItem>
-                <FormLabel>Vesting Cliff (optional)</FormLabel>
-                <Select onValueChange={(value) => field.onChange(value === '0' ? undefined : Number(value))} defaultValue={field.value?.toString() || '0'}>
-                  <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select vesting cliff" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    {vestingCliffOptions.map((option) => (
-                      <SelectItem key={option.value} value={option.value.toString()}>
-                        {option.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
-              </FormItem>
-            )}
-          />
+          )}
 
           <Controller
             control={form.control}
@@ -314,7 +569,7 @@ export function AddEquityForm({ isOpen, onClose, onSuccess }: AddEquityFormProps
           />
 
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={onClose}>
+            <Button type="button" variant="outline" onClick={handleClose}>
               Cancel
             </Button>
             <Button type="submit" disabled={isLoading}>
@@ -6,14 +6,34 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Plus, Search, Filter, Calendar, TrendingUp } from 'lucide-react';
+import { Plus, Search, Filter, Calendar, TrendingUp, LayoutGrid, BarChart3, LineChart, Wallet, PiggyBank, Edit, History, Trash2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { LocalStorageService } from '@/services/localStorageService';
-import { EncryptionService } from '@/services/encryptionService';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import { AddEquityForm } from './AddEquityForm';
-import type { CompensationRecord, DecryptedEquityData } from '@/lib/db/types';
+import { VestingTimelineView } from './VestingTimelineView';
+import { RecordExerciseDialog } from './RecordExerciseDialog';
+import { GrantExercises } from './GrantExercises';
+import { ValuationHistory, type ValuationRecord, type PriceHistoryEntry } from '../valuation';
+import { ShareLotsView } from '../lots';
+import { EsppView, AddEsppForm } from '../espp';
+import { useUndoableDelete, UndoDeleteToast, RecordHistoryDialog } from '../records';
+import type {
+  CompensationRecord,
+  DecryptedEquityData,
+  DecryptedExerciseData,
+  DecryptedPriceHistoryData,
+  DecryptedShareLotData,
+  DecryptedShareSaleData,
+  DecryptedEsppData,
+  DecryptedValuationData,
+} from '@/lib/db/types';
 import { equityTypeOptions } from '@/lib/validations/equity';
-import { format, differenceInMonths, addMonths } from 'date-fns';
+import { VestingSchedule } from '@/lib/vesting';
+import { EquityValuation } from '@/lib/valuation';
+import { PriceHistory } from '@/lib/prices';
+import { ExerciseLots } from '@/lib/exercise';
 
 export function EquityList() {
   const [equityGrants, setEquityGrants] = useState<Array<CompensationRecord & { decryptedData: DecryptedEquityData }>>([]);
@@ -21,7 +41,21 @@ export function EquityList() {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [showAddForm, setShowAddForm] = useState(false);
+  const [valuations, setValuations] = useState<ValuationRecord[]>([]);
+  const [priceHistories, setPriceHistories] = useState<PriceHistoryEntry[]>([]);
+  const [view, setView] = useState<'grants' | 'timeline' | 'valuations' | 'shares' | 'espp'>('grants');
+  const [timelineGrantId, setTimelineGrantId] = useState<string>('all');
+  const [exercises, setExercises] = useState<DecryptedExerciseData[]>([]);
+  const [shareLots, setShareLots] = useState<DecryptedShareLotData[]>([]);
+  const [shareSales, setShareSales] = useState<DecryptedShareSaleData[]>([]);
+  const [esppPlans, setEsppPlans] = useState<DecryptedEsppData[]>([]);
+  const [showAddEspp, setShowAddEspp] = useState(false);
+  const [exercisingGrant, setExercisingGrant] = useState<(CompensationRecord & { decryptedData: DecryptedEquityData }) | null>(null);
+  const [editingGrant, setEditingGrant] = useState<(CompensationRecord & { decryptedData: DecryptedEquityData }) | null>(null);
+  const [historyGrant, setHistoryGrant] = useState<(CompensationRecord & { decryptedData: DecryptedEquityData }) | null>(null);
   const { user } = useAuth();
+  const { decryptData } = useVault();
+  const { formatCurrency, formatNumber, formatDate } = usePreferences();
 
   const loadEquityGrants = useCallback(async () => {
     if (!user) return;
@@ -29,12 +63,10 @@ export function EquityList() {
     setIsLoading(true);
     try {
       const records = await LocalStorageService.getCompensationRecords(user.id, 'equity');
-      const userPassword = 'default-password'; // TODO: Get from secure context
-      
       const decryptedEquityGrants = await Promise.all(
         records.map(async (record) => {
           try {
-            const decryptionResult = await EncryptionService.decryptData(record.encryptedData, userPassword);
+            const decryptionResult = await decryptData(record.encryptedData);
             if (!decryptionResult.success) {
               console.error('Failed to decrypt equity record:', decryptionResult.error);
               return null;
@@ -54,12 +86,180 @@ export function EquityList() {
     } finally {
       setIsLoading(false);
     }
-  }, [user]);
+  }, [user, decryptData]);
+
+  const loadValuations = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const records = await LocalStorageService.getCompensationRecords(user.id, 'valuation');
+      const decryptedValuations = await Promise.all(
+        records.map(async (record) => {
+          try {
+            const decryptionResult = await decryptData(record.encryptedData);
+            if (!decryptionResult.success) {
+              console.error('Failed to decrypt valuation record:', decryptionResult.error);
+              return null;
+            }
+            const decryptedData = JSON.parse(decryptionResult.data) as DecryptedValuationData;
+            return { ...record, decryptedData };
+          } catch (error) {
+            console.error('Failed to decrypt valuation record:', error);
+            return null;
+          }
+        })
+      );
+
+      setValuations(decryptedValuations.filter(Boolean) as ValuationRecord[]);
+
+      // Imported price histories are stored separately, on this device only
+      const historyRecords = await LocalStorageService.getPriceHistories(user.id);
+      const decryptedHistories = await Promise.all(
+        historyRecords.map(async (record) => {
+          try {
+            const decryptionResult = await decryptData(record.encryptedData);
+            if (!decryptionResult.success) {
+              console.error('Failed to decrypt price history:', decryptionResult.error);
+              return null;
+            }
+            const decryptedData = JSON.parse(decryptionResult.data) as DecryptedPriceHistoryData;
+            return { ...record, decryptedData };
+          } catch (error) {
+            console.error('Failed to decrypt price history:', error);
+            return null;
+          }
+        })
+      );
+
+      setPriceHistories(decryptedHistories.filter(Boolean) as PriceHistoryEntry[]);
+    } catch (error) {
+      console.error('Error loading valuations:', error);
+    }
+  }, [user, decryptData]);
+
+  const loadExercises = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const records = await LocalStorageService.getCompensationRecords(user.id, 'exercise');
+      const decryptedExercises = await Promise.all(
+        records.map(async (record) => {
+          try {
+            const decryptionResult = await decryptData(record.encryptedData);
+            if (!decryptionResult.success) {
+              console.error('Failed to decrypt exercise record:', decryptionResult.error);
+              return null;
+            }
+            return JSON.parse(decryptionResult.data) as DecryptedExerciseData;
+          } catch (error) {
+            console.error('Failed to decrypt exercise record:', error);
+            return null;
+          }
+        })
+      );
+
+      setExercises(decryptedExercises.filter(Boolean) as DecryptedExerciseData[]);
+    } catch (error) {
+      console.error('Error loading exercises:', error);
+    }
+  }, [user, decryptData]);
+
+  const loadShareActivity = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [lotRecords, saleRecords] = await Promise.all([
+        LocalStorageService.getCompensationRecords(user.id, 'shareLot'),
+        LocalStorageService.getCompensationRecords(user.id, 'shareSale'),
+      ]);
+      const decryptAll = async <T,>(records: CompensationRecord[]) => {
+        const decrypted = await Promise.all(
+          records.map(async (record) => {
+            try {
+              const decryptionResult = await decryptData(record.encryptedData);
+              if (!decryptionResult.success) {
+                console.error(`Failed to decrypt ${record.type} record:`, decryptionResult.error);
+                return null;
+              }
+              return JSON.parse(decryptionResult.data) as T;
+            } catch (error) {
+              console.error(`Failed to decrypt ${record.type} record:`, error);
+              return null;
+            }
+          })
+        );
+        return decrypted.filter(Boolean) as T[];
+      };
+
+      setShareLots(await decryptAll<DecryptedShareLotData>(lotRecords));
+      setShareSales(await decryptAll<DecryptedShareSaleData>(saleRecords));
+    } catch (error) {
+      console.error('Error loading share lots:', error);
+    }
+  }, [user, decryptData]);
+
+  const loadEsppPlans = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const records = await LocalStorageService.getCompensationRecords(user.id, 'espp');
+      const decryptedPlans = await Promise.all(
+        records.map(async (record) => {
+          try {
+            const decryptionResult = await decryptData(record.encryptedData);
+            if (!decryptionResult.success) {
+              console.error('Failed to decrypt ESPP record:', decryptionResult.error);
+              return null;
+            }
+            return JSON.parse(decryptionResult.data) as DecryptedEsppData;
+          } catch (error) {
+            console.error('Failed to decrypt ESPP record:', error);
+            return null;
+          }
+        })
+      );
+
+      setEsppPlans(decryptedPlans.filter(Boolean) as DecryptedEsppData[]);
+    } catch (error) {
+      console.error('Error loading ESPP offerings:', error);
+    }
+  }, [user, decryptData]);
 
   useEffect(() => {
     loadEquityGrants();
   }, [loadEquityGrants]);
 
+  const { deleted, deleteRecord, undo, dismiss } = useUndoableDelete(loadEquityGrants);
+
+  useEffect(() => {
+    loadEsppPlans();
+  }, [loadEsppPlans]);
+
+  useEffect(() => {
+    loadShareActivity();
+  }, [loadShareActivity]);
+
+  useEffect(() => {
+    loadExercises();
+  }, [loadExercises]);
+
+  useEffect(() => {
+    loadValuations();
+  }, [loadValuations]);
+
+  const valuationData = useMemo(
+    () => [
+      ...valuations.map(valuation => valuation.decryptedData),
+      ...PriceHistory.toValuations(priceHistories.map(history => history.decryptedData)),
+    ],
+    [valuations, priceHistories]
+  );
+
+  const grantCompanies = useMemo(
+    () => Array.from(new Set(equityGrants.map(grant => grant.decryptedData.company))).sort(),
+    [equityGrants]
+  );
+
   const filteredEquityGrants = useMemo(() => {
     return equityGrants.filter(grant => {
       const matchesSearch = searchTerm === '' || 
@@ -89,92 +289,34 @@ export function EquityList() {
     return grouped;
   }, [filteredEquityGrants]);
 
-  const calculateVestingProgress = (grant: DecryptedEquityData) => {
-    const now = new Date();
-    const vestingStart = new Date(grant.vestingStart);
-    
-    // If vesting hasn't started yet
-    if (now < vestingStart) {
-      return {
-        vestedShares: 0,
-        unvestedShares: grant.shares,
-        progressPercentage: 0,
-        nextVestingDate: vestingStart,
-        isFullyVested: false,
-      };
-    }
-
-    // Handle cliff
-    const cliffMonths = grant.vestingCliff || 0;
-    const cliffDate = addMonths(vestingStart, cliffMonths);
-    
-    if (now < cliffDate) {
-      return {
-        vestedShares: 0,
-        unvestedShares: grant.shares,
-        progressPercentage: 0,
-        nextVestingDate: cliffDate,
-        isFullyVested: false,
-      };
-    }
-
-    // Calculate total vested shares
-    const monthsVested = differenceInMonths(now, vestingStart);
-    const totalVestingPeriod = grant.vestingPeriod;
-    
-    if (monthsVested >= totalVestingPeriod) {
-      return {
-        vestedShares: grant.shares,
-        unvestedShares: 0,
-        progressPercentage: 100,
-        nextVestingDate: null,
-        isFullyVested: true,
-      };
-    }
-
-    // Calculate based on frequency
-    let vestedShares = 0;
-    const frequencyMonths = grant.vestingFrequency === 'monthly' ? 1 : 
-                           grant.vestingFrequency === 'quarterly' ? 3 : 12;
-    
-    const vestingPeriods = Math.floor(monthsVested / frequencyMonths);
-    const sharesPerPeriod = grant.shares / (totalVestingPeriod / frequencyMonths);
-    
-    vestedShares = Math.min(vestingPeriods * sharesPerPeriod, grant.shares);
-    
-    // Calculate next vesting date
-    const nextVestingPeriod = vestingPeriods + 1;
-    const nextVestingDate = addMonths(vestingStart, nextVestingPeriod * frequencyMonths);
-    
-    return {
-      vestedShares: Math.floor(vestedShares),
-      unvestedShares: grant.shares - Math.floor(vestedShares),
-      progressPercentage: Math.floor((vestedShares / grant.shares) * 100),
-      nextVestingDate: nextVestingDate > addMonths(vestingStart, totalVestingPeriod) ? null : nextVestingDate,
-      isFullyVested: false,
-    };
-  };
-
   const getEquityTypeBadgeColor = (type: string) => {
     const colors = {
       ISO: 'bg-blue-100 text-blue-800',
       NSO: 'bg-green-100 text-green-800',
       RSU: 'bg-purple-100 text-purple-800',
       ESPP: 'bg-yellow-100 text-yellow-800',
-      other: 'bg-gray-100 text-gray-800',
+      other: 'bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200',
     };
     return colors[type as keyof typeof colors] || colors.other;
   };
 
   const totalSummary = useMemo(() => {
-    return filteredEquityGrants.reduce((acc, grant) => {
-      const vesting = calculateVestingProgress(grant.decryptedData);
+    const shares = filteredEquityGrants.reduce((acc, grant) => {
+      const vesting = VestingSchedule.getVestingProgress(grant.decryptedData);
       acc.totalShares += grant.decryptedData.shares;
       acc.vestedShares += vesting.vestedShares;
       acc.unvestedShares += vesting.unvestedShares;
       return acc;
     }, { totalShares: 0, vestedShares: 0, unvestedShares: 0 });
-  }, [filteredEquityGrants]);
+
+    return {
+      ...shares,
+      value: EquityValuation.getPortfolioValue(
+        filteredEquityGrants.map(grant => grant.decryptedData),
+        valuationData
+      ),
+    };
+  }, [filteredEquityGrants, valuationData]);
 
   if (isLoading) {
     return (
@@ -190,12 +332,12 @@ export function EquityList() {
           {[...Array(3)].map((_, i) => (
             <Card key={i} className="animate-pulse">
               <CardHeader className="pb-2">
-                <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-3/4"></div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  <div className="h-3 bg-gray-200 rounded w-full"></div>
-                  <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+                  <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-full"></div>
+                  <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-1/2"></div>
                 </div>
               </CardContent>
             </Card>
@@ -209,10 +351,49 @@ export function EquityList() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Equity Grants</h2>
-        <Button onClick={() => setShowAddForm(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Equity Grant
-        </Button>
+        <div className="flex gap-2">
+          <div className="flex gap-1">
+            <Button
+              variant={view === 'grants' ? 'default' : 'outline'}
+              onClick={() => setView('grants')}
+            >
+              <LayoutGrid className="h-4 w-4 mr-2" />
+              Grants
+            </Button>
+            <Button
+              variant={view === 'timeline' ? 'default' : 'outline'}
+              onClick={() => setView('timeline')}
+            >
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Timeline
+            </Button>
+            <Button
+              variant={view === 'valuations' ? 'default' : 'outline'}
+              onClick={() => setView('valuations')}
+            >
+              <LineChart className="h-4 w-4 mr-2" />
+              Valuations
+            </Button>
+            <Button
+              variant={view === 'shares' ? 'default' : 'outline'}
+              onClick={() => setView('shares')}
+            >
+              <Wallet className="h-4 w-4 mr-2" />
+              Shares & Sales
+            </Button>
+            <Button
+              variant={view === 'espp' ? 'default' : 'outline'}
+              onClick={() => setView('espp')}
+            >
+              <PiggyBank className="h-4 w-4 mr-2" />
+              ESPP
+            </Button>
+          </div>
+          <Button onClick={() => setShowAddForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Equity Grant
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -223,7 +404,7 @@ export function EquityList() {
               <CardTitle className="text-sm font-medium">Total Shares</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{totalSummary.totalShares.toLocaleString()}</div>
+              <div className="text-2xl font-bold">{formatNumber(totalSummary.totalShares)}</div>
             </CardContent>
           </Card>
           <Card>
@@ -231,7 +412,12 @@ export function EquityList() {
               <CardTitle className="text-sm font-medium">Vested Shares</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-green-600">{totalSummary.vestedShares.toLocaleString()}</div>
+              <div className="text-2xl font-bold text-green-600">{formatNumber(totalSummary.vestedShares)}</div>
+              {totalSummary.value.pricedGrants > 0 && totalSummary.value.currency && (
+                <p className="text-sm text-gray-500">
+                  ≈ {formatCurrency(totalSummary.value.vestedValue, totalSummary.value.currency)}
+                </p>
+              )}
             </CardContent>
           </Card>
           <Card>
@@ -239,160 +425,318 @@ export function EquityList() {
               <CardTitle className="text-sm font-medium">Unvested Shares</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-orange-600">{totalSummary.unvestedShares.toLocaleString()}</div>
+              <div className="text-2xl font-bold text-orange-600">{formatNumber(totalSummary.unvestedShares)}</div>
+              {totalSummary.value.pricedGrants > 0 && totalSummary.value.currency && (
+                <p className="text-sm text-gray-500">
+                  ≈ {formatCurrency(totalSummary.value.unvestedValue, totalSummary.value.currency)}
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
       )}
 
-      {/* Search and Filter */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-          <Input
-            placeholder="Search equity grants..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
-          />
-        </div>
-        <div className="flex items-center gap-2">
-          <Filter className="h-4 w-4 text-gray-400" />
-          <Select value={filterType} onValueChange={setFilterType}>
-            <SelectTrigger className="w-48">
-              <SelectValue placeholder="Filter by type" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Types</SelectItem>
-              {equityTypeOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.value}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-      </div>
-
-      {/* Equity Grants by Company */}
-      {Object.keys(equityGrantsByCompany).length === 0 ? (
-        <Card>
-          <CardContent className="text-center py-8">
-            <p className="text-gray-500">No equity grants found. Add your first equity grant to get started!</p>
-          </CardContent>
-        </Card>
+      {view === 'valuations' ? (
+        <ValuationHistory
+          valuations={valuations}
+          priceHistories={priceHistories}
+          companies={grantCompanies}
+          onChange={loadValuations}
+        />
+      ) : view === 'shares' ? (
+        <ShareLotsView
+          grants={equityGrants}
+          lots={shareLots}
+          sales={shareSales}
+          valuations={valuationData}
+          onChange={() => {
+            loadEquityGrants();
+            loadShareActivity();
+          }}
+        />
+      ) : view === 'espp' ? (
+        <EsppView
+          plans={esppPlans}
+          valuations={valuationData}
+          onAdd={() => setShowAddEspp(true)}
+        />
+      ) : view === 'timeline' ? (
+        <VestingTimelineView
+          grants={equityGrants}
+          valuations={valuationData}
+          selectedGrantId={timelineGrantId}
+          onSelectedGrantChange={setTimelineGrantId}
+        />
       ) : (
-        <div className="space-y-8">
-          {Object.entries(equityGrantsByCompany).map(([company, companyGrants]) => (
-            <div key={company} className="space-y-4">
-              <h3 className="text-xl font-semibold">{company}</h3>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {companyGrants.map((grant) => {
-                  const vesting = calculateVestingProgress(grant.decryptedData);
-                  return (
-                    <Card key={grant.id} className="hover:shadow-md transition-shadow">
-                      <CardHeader className="pb-3">
-                        <div className="flex justify-between items-start">
-                          <div>
-                            <CardTitle className="text-lg flex items-center gap-2">
-                              <TrendingUp className="h-5 w-5" />
-                              {grant.decryptedData.shares.toLocaleString()} shares
-                            </CardTitle>
-                            <p className="text-sm text-gray-500">
-                              Granted {format(new Date(grant.decryptedData.grantDate), 'MMM dd, yyyy')}
-                            </p>
-                          </div>
-                          <Badge className={getEquityTypeBadgeColor(grant.decryptedData.type)}>
-                            {grant.decryptedData.type}
-                          </Badge>
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-3">
-                          {/* Vesting Progress */}
-                          <div>
-                            <div className="flex justify-between text-sm mb-1">
-                              <span>Vesting Progress</span>
-                              <span>{vesting.progressPercentage}%</span>
-                            </div>
-                            <div className="w-full bg-gray-200 rounded-full h-2">
-                              <div 
-                                className="bg-green-600 h-2 rounded-full transition-all duration-300"
-                                style={{ width: `${vesting.progressPercentage}%` }}
-                              />
-                            </div>
-                            <div className="flex justify-between text-xs text-gray-500 mt-1">
-                              <span>Vested: {vesting.vestedShares.toLocaleString()}</span>
-                              <span>Unvested: {vesting.unvestedShares.toLocaleString()}</span>
-                            </div>
-                          </div>
+        <>
+          {/* Search and Filter */}
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search equity grants..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Filter className="h-4 w-4 text-gray-400" />
+              <Select value={filterType} onValueChange={setFilterType}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Filter by type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {equityTypeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
 
-                          {/* Vesting Details */}
-                          <div className="text-sm space-y-1">
-                            <div className="flex justify-between">
-                              <span className="text-gray-600">Vesting Start:</span>
-                              <span>{format(new Date(grant.decryptedData.vestingStart), 'MMM dd, yyyy')}</span>
-                            </div>
-                            <div className="flex justify-between">
-                              <span className="text-gray-600">Vesting Period:</span>
-                              <span>{grant.decryptedData.vestingPeriod} months</span>
-                            </div>
-                            <div className="flex justify-between">
-                              <span className="text-gray-600">Frequency:</span>
-                              <span className="capitalize">{grant.decryptedData.vestingFrequency}</span>
-                            </div>
-                            {grant.decryptedData.vestingCliff && (
-                              <div className="flex justify-between">
-                                <span className="text-gray-600">Cliff:</span>
-                                <span>{grant.decryptedData.vestingCliff} months</span>
+          {/* Equity Grants by Company */}
+          {Object.keys(equityGrantsByCompany).length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-8">
+                <p className="text-gray-500">No equity grants found. Add your first equity grant to get started!</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-8">
+              {Object.entries(equityGrantsByCompany).map(([company, companyGrants]) => (
+                <div key={company} className="space-y-4">
+                  <h3 className="text-xl font-semibold">{company}</h3>
+                  
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {companyGrants.map((grant) => {
+                      const vesting = VestingSchedule.getVestingProgress(grant.decryptedData);
+                      const grantValue = EquityValuation.getGrantValue(grant.decryptedData, valuationData);
+                      const isOption = grant.decryptedData.type === 'ISO' || grant.decryptedData.type === 'NSO';
+                      return (
+                        <Card key={grant.id} className="hover:shadow-md transition-shadow">
+                          <CardHeader className="pb-3">
+                            <div className="flex justify-between items-start">
+                              <div>
+                                <CardTitle className="text-lg flex items-center gap-2">
+                                  <TrendingUp className="h-5 w-5" />
+                                  {formatNumber(grant.decryptedData.shares)} shares
+                                </CardTitle>
+                                <p className="text-sm text-gray-500">
+                                  Granted {formatDate(grant.decryptedData.grantDate)}
+                                </p>
                               </div>
-                            )}
-                          </div>
-
-                          {/* Strike Price */}
-                          {grant.decryptedData.strikePrice && (
-                            <div className="text-sm">
-                              <span className="text-gray-600">Strike Price: </span>
-                              <span className="font-medium">${grant.decryptedData.strikePrice}</span>
+                              <Badge className={getEquityTypeBadgeColor(grant.decryptedData.type)}>
+                                {grant.decryptedData.type}
+                              </Badge>
                             </div>
-                          )}
+                          </CardHeader>
+                          <CardContent>
+                            <div className="space-y-3">
+                              {/* Vesting Progress */}
+                              <div>
+                                <div className="flex justify-between text-sm mb-1">
+                                  <span>Vesting Progress</span>
+                                  <span>{vesting.progressPercentage}%</span>
+                                </div>
+                                <div className="w-full bg-gray-200 dark:bg-gray-800 rounded-full h-2">
+                                  <div 
+                                    className="bg-green-600 h-2 rounded-full transition-all duration-300"
+                                    style={{ width: `${vesting.progressPercentage}%` }}
+                                  />
+                                </div>
+                                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                                  <span>Vested: {formatNumber(vesting.vestedShares)}</span>
+                                  <span>Unvested: {formatNumber(vesting.unvestedShares)}</span>
+                                </div>
+                              </div>
+
+                              {/* Vesting Details */}
+                              <div className="text-sm space-y-1">
+                                <div className="flex justify-between">
+                                  <span className="text-gray-600 dark:text-gray-400">Vesting Start:</span>
+                                  <span>{formatDate(grant.decryptedData.vestingStart)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                  <span className="text-gray-600 dark:text-gray-400">Vesting Period:</span>
+                                  <span>{grant.decryptedData.vestingPeriod} months</span>
+                                </div>
+                                {grant.decryptedData.vestingScheduleType !== 'custom' && (
+                                  <div className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Frequency:</span>
+                                    <span className="capitalize">{grant.decryptedData.vestingFrequency}</span>
+                                  </div>
+                                )}
+                                {grant.decryptedData.vestingScheduleType && grant.decryptedData.vestingScheduleType !== 'uniform' && (
+                                  <div className="flex justify-between gap-2">
+                                    <span className="text-gray-600 dark:text-gray-400">Schedule:</span>
+                                    <span className="text-right">{VestingSchedule.describeSchedule(grant.decryptedData)}</span>
+                                  </div>
+                                )}
+                                {grant.decryptedData.vestingCliff && (
+                                  <div className="flex justify-between">
+                                    <span className="text-gray-600 dark:text-gray-400">Cliff:</span>
+                                    <span>{grant.decryptedData.vestingCliff} months</span>
+                                  </div>
+                                )}
+                              </div>
 
-                          {/* Next Vesting Date */}
-                          {vesting.nextVestingDate && (
-                            <div className="flex items-center gap-1 text-sm text-blue-600">
-                              <Calendar className="h-4 w-4" />
-                              <span>Next vesting: {format(vesting.nextVestingDate, 'MMM dd, yyyy')}</span>
+                              {/* Strike Price */}
+                              {grant.decryptedData.strikePrice && (
+                                <div className="text-sm">
+                                  <span className="text-gray-600 dark:text-gray-400">Strike Price: </span>
+                                  <span className="font-medium">${grant.decryptedData.strikePrice}</span>
+                                </div>
+                              )}
+
+                              {/* Estimated Value */}
+                              {grantValue && (
+                                <div className="text-sm">
+                                  <span className="text-gray-600 dark:text-gray-400">Est. Value: </span>
+                                  <span className="font-medium">
+                                    {formatCurrency(grantValue.vestedValue, grantValue.valuation.currency)} vested
+                                  </span>
+                                  <span className="text-gray-500">
+                                    {' '}of {formatCurrency(grantValue.totalValue, grantValue.valuation.currency)}
+                                  </span>
+                                  <p className="text-xs text-gray-500">
+                                    At {formatCurrency(grantValue.valuation.pricePerShare, grantValue.valuation.currency)}/share
+                                    {' '}as of {formatDate(grantValue.valuation.date)}
+                                  </p>
+                                </div>
+                              )}
+
+                              {/* Exercises */}
+                              {isOption && (
+                                <GrantExercises
+                                  summary={ExerciseLots.summarizeGrant(grant.decryptedData, exercises)}
+                                  onRecordExercise={() => setExercisingGrant(grant)}
+                                />
+                              )}
+
+                              {/* Next Vesting Date */}
+                              {vesting.nextVestEvent && (
+                                <div className="flex items-center gap-1 text-sm text-blue-600">
+                                  <Calendar className="h-4 w-4" />
+                                  <span>
+                                    Next vesting: {formatDate(vesting.nextVestEvent.date)}
+                                    {' '}({formatNumber(vesting.nextVestEvent.shares)} shares
+                                    {vesting.nextVestEvent.isCliff && ', cliff'})
+                                  </span>
+                                </div>
+                              )}
+
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0"
+                                onClick={() => {
+                                  setTimelineGrantId(String(grant.id));
+                                  setView('timeline');
+                                }}
+                              >
+                                View vesting timeline
+                              </Button>
+
+                              {/* Fully Vested Badge */}
+                              {vesting.isFullyVested && (
+                                <Badge className="bg-green-100 text-green-800">
+                                  Fully Vested
+                                </Badge>
+                              )}
+
+                              {/* Notes */}
+                              {grant.decryptedData.notes && (
+                                <p className="text-xs text-gray-500 mt-2">{grant.decryptedData.notes}</p>
+                              )}
+
+                              <div className="flex justify-end space-x-2 pt-2">
+                                <Button variant="outline" size="sm" onClick={() => setHistoryGrant(grant)}>
+                                  <History className="h-4 w-4 mr-1" />
+                                  History
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setEditingGrant(grant)}
+                                  className="text-blue-600 hover:text-blue-700"
+                                >
+                                  <Edit className="h-4 w-4 mr-1" />
+                                  Edit
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    deleteRecord(
+                                      grant,
+                                      `the ${formatNumber(grant.decryptedData.shares)} share ${grant.decryptedData.type} grant from ${grant.decryptedData.company}`
+                                    )
+                                  }
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-1" />
+                                  Delete
+                                </Button>
+                              </div>
                             </div>
-                          )}
-
-                          {/* Fully Vested Badge */}
-                          {vesting.isFullyVested && (
-                            <Badge className="bg-green-100 text-green-800">
-                              Fully Vested
-                            </Badge>
-                          )}
-
-                          {/* Notes */}
-                          {grant.decryptedData.notes && (
-                            <p className="text-xs text-gray-500 mt-2">{grant.decryptedData.notes}</p>
-                          )}
-                        </div>
-                      </CardContent>
-                    </Card>
-                  );
-                })}
-              </div>
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
+          )}
+        </>
       )}
 
       <AddEquityForm
-        isOpen={showAddForm}
-        onClose={() => setShowAddForm(false)}
+        isOpen={showAddForm || editingGrant !== null}
+        onClose={() => {
+          setShowAddForm(false);
+          setEditingGrant(null);
+        }}
         onSuccess={loadEquityGrants}
+        onSelectEspp={editingGrant ? undefined : () => {
+          setShowAddForm(false);
+          setView('espp');
+          setShowAddEspp(true);
+        }}
+        record={editingGrant ?? undefined}
       />
+
+      <AddEsppForm
+        isOpen={showAddEspp}
+        onClose={() => setShowAddEspp(false)}
+        onSuccess={loadEsppPlans}
+      />
+
+      <RecordExerciseDialog
+        isOpen={exercisingGrant !== null}
+        onClose={() => setExercisingGrant(null)}
+        onSuccess={() => {
+          loadEquityGrants();
+          loadExercises();
+        }}
+        grant={exercisingGrant}
+        exercises={exercises}
+        valuations={valuationData}
+      />
+
+      <RecordHistoryDialog
+        isOpen={historyGrant !== null}
+        onClose={() => setHistoryGrant(null)}
+        onReverted={loadEquityGrants}
+        record={historyGrant}
+        title={historyGrant ? `${historyGrant.decryptedData.company} ${historyGrant.decryptedData.type} grant` : undefined}
+      />
+
+      <UndoDeleteToast deleted={deleted} onUndo={undo} onDismiss={dismiss} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+import type { GrantExerciseSummary } from '@/lib/exercise';
+import { exerciseMethodOptions } from '@/lib/validations/exercise';
+import { usePreferences } from '@/contexts/PreferencesContext';
+
+interface GrantExercisesProps {
+  summary: GrantExerciseSummary;
+  onRecordExercise: () => void;
+}
+
+const methodLabel = (method: string) =>
+  exerciseMethodOptions.find(option => option.value === method)?.label.split(' (')[0] ?? method;
+
+/**
+ * Exercised, exercisable and per-lot tax figures for an option grant
+ */
+export function GrantExercises({ summary, onRecordExercise }: GrantExercisesProps) {
+  const { formatCurrency, formatNumber, formatDate } = usePreferences();
+  const currencies = new Set(summary.lots.map(lot => lot.exercise.currency));
+  // Totals are only shown when every lot is in the same currency
+  const currency = currencies.size === 1 ? Array.from(currencies)[0] : null;
+
+  return (
+    <div className="text-sm space-y-2 border-t pt-3">
+      <div className="flex justify-between">
+        <span className="text-gray-600 dark:text-gray-400">Exercised:</span>
+        <span>{formatNumber(summary.exercisedShares)} shares</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-600 dark:text-gray-400">Exercisable:</span>
+        <span>{formatNumber(summary.exercisableShares)} shares</span>
+      </div>
+
+      {summary.lots.length > 0 && (
+        <>
+          {currency && (
+            <>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Cost Basis:</span>
+                <span>{formatCurrency(summary.costBasis, currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Bargain Element:</span>
+                <span>{formatCurrency(summary.bargainElement, currency)}</span>
+              </div>
+            </>
+          )}
+
+          <ul className="space-y-1 text-xs">
+            {summary.lots.map((lot, index) => (
+              <li key={`${lot.exercise.date}-${index}`} className="rounded-md bg-gray-50 dark:bg-gray-800 p-2">
+                <div className="flex justify-between">
+                  <span className="font-medium">
+                    {formatDate(lot.exercise.date)} · {formatNumber(lot.exercise.shares)} shares
+                  </span>
+                  <span className="text-gray-500">{methodLabel(lot.exercise.method)}</span>
+                </div>
+                <div className="text-gray-500">
+                  {formatCurrency(lot.exercise.strikePrice, lot.exercise.currency)} strike
+                  {' '}· {formatCurrency(lot.exercise.fmvAtExercise, lot.exercise.currency)} FMV
+                  {' '}· {formatCurrency(lot.bargainElement, lot.exercise.currency)} bargain element
+                  {lot.sharesHeld > 0 && <> · {formatNumber(lot.sharesHeld)} held, basis {formatCurrency(lot.costBasis, lot.exercise.currency)}</>}
+                </div>
+                {lot.exercise.isEarlyExercise && (
+                  lot.missing83b ? (
+                    <div className="flex items-center gap-1 text-orange-600 mt-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      Early exercise with no 83(b) recorded (deadline {formatDate(lot.election83bDeadline!)})
+                    </div>
+                  ) : (
+                    <Badge variant="outline" className="mt-1">
+                      83(b) filed {formatDate(lot.exercise.election83bDate!)}
+                    </Badge>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {summary.remainingShares > 0 && (
+        <Button variant="outline" size="sm" onClick={onRecordExercise}>
+          Record exercise
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Controller } from 'react-hook-form';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { exerciseSchema, type ExerciseFormData, exerciseMethodOptions } from '@/lib/validations/exercise';
+import type { CompensationRecord, DecryptedEquityData, DecryptedExerciseData, DecryptedValuationData } from '@/lib/db/types';
+import { ExerciseLots, ELECTION_83B_WINDOW_DAYS } from '@/lib/exercise';
+import { EquityValuation } from '@/lib/valuation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { format } from 'date-fns';
+import { CurrencyPicker } from '../currency';
+
+type EquityGrant = CompensationRecord & { decryptedData: DecryptedEquityData };
+
+interface RecordExerciseDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  grant: EquityGrant | null;
+  exercises: DecryptedExerciseData[]; // All recorded exercises, to work out what is left
+  valuations: DecryptedValuationData[]; // Suggests the FMV on the exercise date
+}
+
+export function RecordExerciseDialog({ isOpen, onClose, onSuccess, grant, exercises, valuations }: RecordExerciseDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences, formatCurrency, formatNumber, formatDate } = usePreferences();
+
+  const form = useForm<ExerciseFormData>({
+    resolver: zodResolver(exerciseSchema),
+    defaultValues: {
+      date: format(new Date(), 'yyyy-MM-dd'),
+      shares: 0,
+      strikePrice: 0,
+      fmvAtExercise: 0,
+      currency: preferences.currency,
+      method: 'cash',
+      isEarlyExercise: false,
+      election83bDate: '',
+      notes: '',
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen && grant) {
+      const valuation = EquityValuation.getValuationAsOf(valuations, grant.decryptedData.company);
+      form.reset({
+        date: format(new Date(), 'yyyy-MM-dd'),
+        shares: 0,
+        strikePrice: grant.decryptedData.strikePrice ?? 0,
+        fmvAtExercise: valuation?.pricePerShare ?? 0,
+        currency: valuation?.currency ?? preferences.currency,
+        method: 'cash',
+        isEarlyExercise: false,
+        election83bDate: '',
+        notes: '',
+      });
+    }
+  }, [isOpen, grant, valuations, form, preferences.currency]);
+
+  if (!grant) return null;
+
+  const summary = ExerciseLots.summarizeGrant(grant.decryptedData, exercises);
+  const [date, shares, method, isEarlyExercise, strikePrice, fmvAtExercise, currency, sharesSold] = form.watch([
+    'date', 'shares', 'method', 'isEarlyExercise', 'strikePrice', 'fmvAtExercise', 'currency', 'sharesSold',
+  ]);
+  const availableShares = isEarlyExercise ? summary.remainingShares : summary.exercisableShares;
+  const priceOnDate = date
+    ? EquityValuation.getValuationAsOf(valuations, grant.decryptedData.company, new Date(`${date}T12:00:00`))
+    : null;
+
+  const preview = shares > 0
+    ? ExerciseLots.getLot({
+        grantUid: '',
+        company: grant.decryptedData.company,
+        equityType: grant.decryptedData.type === 'ISO' ? 'ISO' : 'NSO',
+        date,
+        shares,
+        strikePrice,
+        fmvAtExercise,
+        currency,
+        method,
+        sharesSold,
+        isEarlyExercise,
+      })
+    : null;
+
+  const onSubmit = async (data: ExerciseFormData) => {
+    if (!user || grant.id === undefined) return;
+
+    if (data.shares > availableShares) {
+      form.setError('shares', {
+        message: isEarlyExercise
+          ? `Only ${formatNumber(availableShares)} shares are left to exercise`
+          : `Only ${formatNumber(availableShares)} vested shares are exercisable`,
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // Older grants get their stable id when first exercised
+      let grantUid = grant.decryptedData.grantUid;
+      if (!grantUid) {
+        grantUid = crypto.randomUUID();
+        const encryptedGrant = await encryptData(JSON.stringify({ ...grant.decryptedData, grantUid }));
+        await LocalStorageService.updateCompensationRecord(grant.id, {
+          encryptedData: encryptedGrant,
+          version: grant.version,
+        });
+      }
+
+      const exerciseData: DecryptedExerciseData = {
+        ...data,
+        grantUid,
+        company: grant.decryptedData.company,
+        equityType: grant.decryptedData.type === 'ISO' ? 'ISO' : 'NSO',
+        sharesSold: data.method === 'sell-to-cover' ? data.sharesSold : undefined,
+        election83bDate: data.isEarlyExercise && data.election83bDate ? data.election83bDate : undefined,
+      };
+
+      // Encrypt the sensitive data
+      const encryptedData = await encryptData(JSON.stringify(exerciseData));
+
+      // Store locally first (local-first architecture)
+      await LocalStorageService.addCompensationRecord({
+        userId: user.id,
+        type: 'exercise',
+        encryptedData,
+        currency: data.currency,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        syncStatus: 'pending',
+        version: 1,
+      });
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving exercise:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Record Exercise</DialogTitle>
+          <DialogDescription>
+            {grant.decryptedData.company} {grant.decryptedData.type} · {formatNumber(summary.exercisableShares)} vested shares
+            exercisable, {formatNumber(summary.remainingShares)} unexercised in total
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <Controller
+              control={form.control}
+              name="date"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Exercise Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="shares"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Shares Exercised</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder={String(availableShares)}
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <Controller
+              control={form.control}
+              name="strikePrice"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Strike Price</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="fmvAtExercise"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>FMV at Exercise</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {priceOnDate && priceOnDate.pricePerShare !== field.value && (
+                    <button
+                      type="button"
+                      className="text-xs text-blue-600 hover:underline"
+                      onClick={() => {
+                        field.onChange(priceOnDate.pricePerShare);
+                        form.setValue('currency', priceOnDate.currency);
+                      }}
+                    >
+                      Use {formatCurrency(priceOnDate.pricePerShare, priceOnDate.currency)} on file
+                    </button>
+                  )}
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="currency"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <FormControl>
+                    <CurrencyPicker {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Controller
+              control={form.control}
+              name="method"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Method</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {exerciseMethodOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            {method === 'sell-to-cover' && (
+              <Controller
+                control={form.control}
+                name="sharesSold"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Shares Sold to Cover</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                      />
+                    </FormControl>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="isEarlyExercise"
+                {...form.register('isEarlyExercise')}
+                className="rounded border-gray-300 dark:border-gray-700 text-blue-600 focus:ring-blue-500"
+              />
+              <FormLabel htmlFor="isEarlyExercise">Early exercise (includes unvested shares)</FormLabel>
+            </div>
+
+            {isEarlyExercise && (
+              <Controller
+                control={form.control}
+                name="election83bDate"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>83(b) Election Filed (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <p className="text-xs text-gray-500">
+                      The election must be filed with the IRS within {ELECTION_83B_WINDOW_DAYS} days of exercising
+                      {preview?.election83bDeadline && ` (by ${formatDate(preview.election83bDeadline)})`}.
+                    </p>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+
+          <Controller
+            control={form.control}
+            name="notes"
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <FormLabel>Notes (optional)</FormLabel>
+                <FormControl>
+                  <textarea
+                    className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                    placeholder="e.g., Exercised before the tender offer..."
+                    {...field}
+                  />
+                </FormControl>
+                {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
+
+          {preview && (
+            <div className="rounded-md bg-gray-50 dark:bg-gray-800 p-3 text-sm grid grid-cols-2 gap-x-4 gap-y-1">
+              <span className="text-gray-600 dark:text-gray-400">Exercise cost</span>
+              <span className="text-right">{formatCurrency(preview.exerciseCost, currency)}</span>
+              <span className="text-gray-600 dark:text-gray-400">Bargain element</span>
+              <span className="text-right">{formatCurrency(preview.bargainElement, currency)}</span>
+              <span className="text-gray-600 dark:text-gray-400">Shares held</span>
+              <span className="text-right">{formatNumber(preview.sharesHeld)}</span>
+              <span className="text-gray-600 dark:text-gray-400">Cost basis of held shares</span>
+              <span className="text-right">{formatCurrency(preview.costBasis, currency)}</span>
+              {preview.ordinaryIncome > 0 && (
+                <>
+                  <span className="text-gray-600 dark:text-gray-400">Ordinary income</span>
+                  <span className="text-right">{formatCurrency(preview.ordinaryIncome, currency)}</span>
+                </>
+              )}
+              {preview.amtPreference > 0 && (
+                <>
+                  <span className="text-gray-600 dark:text-gray-400">AMT preference</span>
+                  <span className="text-right">{formatCurrency(preview.amtPreference, currency)}</span>
+                </>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Exercise'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Filter } from 'lucide-react';
+import type { CompensationRecord, DecryptedEquityData, DecryptedValuationData } from '@/lib/db/types';
+import { equityTypeOptions } from '@/lib/validations/equity';
+import { VestingTimeline, type TimelineGrouping, type TimelinePeriod } from '@/lib/vesting';
+import { EquityValuation } from '@/lib/valuation';
+import { cn } from '@/lib/utils';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { format } from 'date-fns';
+
+type EquityGrant = CompensationRecord & { decryptedData: DecryptedEquityData };
+
+interface VestingTimelineViewProps {
+  grants: EquityGrant[];
+  valuations: DecryptedValuationData[];
+  selectedGrantId: string;
+  onSelectedGrantChange: (grantId: string) => void;
+}
+
+const grantKey = (grant: EquityGrant) => String(grant.id);
+
+/**
+ * Vest events across grants, bucketed by month or quarter, as a chart and a table
+ */
+export function VestingTimelineView({ grants, valuations, selectedGrantId, onSelectedGrantChange }: VestingTimelineViewProps) {
+  const { formatCurrency, formatNumber } = usePreferences();
+  const [groupBy, setGroupBy] = useState<TimelineGrouping>('quarter');
+  const [filterCompany, setFilterCompany] = useState<string>('all');
+  const [filterType, setFilterType] = useState<string>('all');
+
+  const companies = useMemo(
+    () => Array.from(new Set(grants.map(grant => grant.decryptedData.company))).sort(),
+    [grants]
+  );
+
+  const filteredGrants = useMemo(() => {
+    return grants.filter(grant => {
+      if (selectedGrantId !== 'all') return grantKey(grant) === selectedGrantId;
+      const matchesCompany = filterCompany === 'all' || grant.decryptedData.company === filterCompany;
+      const matchesType = filterType === 'all' || grant.decryptedData.type === filterType;
+      return matchesCompany && matchesType;
+    });
+  }, [grants, selectedGrantId, filterCompany, filterType]);
+
+  // Values are only summed when every priced company reports in the same currency
+  const valueCurrency = useMemo(() => {
+    const currencies = new Set(
+      filteredGrants
+        .map(grant => EquityValuation.getValuationAsOf(valuations, grant.decryptedData.company)?.currency)
+        .filter((currency): currency is string => Boolean(currency))
+    );
+    return currencies.size === 1 ? Array.from(currencies)[0] : null;
+  }, [filteredGrants, valuations]);
+
+  const periods = useMemo(() => {
+    return VestingTimeline.build(
+      filteredGrants.map(grant => ({ id: grantKey(grant), data: grant.decryptedData })),
+      {
+        groupBy,
+        getValuePerShare: valueCurrency
+          ? (grant, date) => {
+              // Future vests use the latest price on file
+              const valuation = EquityValuation.getValuationAsOf(valuations, grant.company, date);
+              return valuation ? EquityValuation.getValuePerShare(grant, valuation.pricePerShare) : undefined;
+            }
+          : undefined,
+      }
+    );
+  }, [filteredGrants, groupBy, valuations, valueCurrency]);
+
+  const hasValues = valueCurrency !== null && periods.some(period => period.value !== null);
+
+  const describeGrant = (grant: EquityGrant) =>
+    `${grant.decryptedData.company} ${grant.decryptedData.type} · ${formatNumber(grant.decryptedData.shares)} shares · ${format(new Date(grant.decryptedData.grantDate), 'MMM yyyy')}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="flex items-center gap-2">
+          <Filter className="h-4 w-4 text-gray-400" />
+          <Select value={selectedGrantId} onValueChange={onSelectedGrantChange}>
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="Select grant" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Grants</SelectItem>
+              {grants.map((grant) => (
+                <SelectItem key={grantKey(grant)} value={grantKey(grant)}>
+                  {describeGrant(grant)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {selectedGrantId === 'all' && (
+          <>
+            <Select value={filterCompany} onValueChange={setFilterCompany}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Filter by company" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Companies</SelectItem>
+                {companies.map((company) => (
+                  <SelectItem key={company} value={company}>
+                    {company}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filterType} onValueChange={setFilterType}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Filter by type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {equityTypeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        <div className="flex gap-1 lg:ml-auto">
+          <Button
+            variant={groupBy === 'month' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setGroupBy('month')}
+          >
+            Monthly
+          </Button>
+          <Button
+            variant={groupBy === 'quarter' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setGroupBy('quarter')}
+          >
+            Quarterly
+          </Button>
+        </div>
+      </div>
+
+      {valuations.length === 0 && (
+        <p className="text-sm text-gray-500">
+          Add share prices under Valuations to see the estimated value of each vest.
+        </p>
+      )}
+
+      {periods.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">No vest events match the current filters.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Shares Vesting per {groupBy === 'quarter' ? 'Quarter' : 'Month'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TimelineChart periods={periods} />
+              <div className="flex items-center gap-4 mt-3 text-xs text-gray-500">
+                <span className="flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-gray-300" /> Vested</span>
+                <span className="flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-blue-500" /> Upcoming</span>
+                <span className="flex items-center gap-1"><span className="h-0.5 w-3 bg-green-600" /> Cumulative vested</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-0 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th className="text-left font-medium px-4 py-2">Period</th>
+                    <th className="text-left font-medium px-4 py-2">Vest Events</th>
+                    <th className="text-right font-medium px-4 py-2">Shares</th>
+                    <th className="text-right font-medium px-4 py-2">Cumulative Vested</th>
+                    {hasValues && <th className="text-right font-medium px-4 py-2">Est. Value</th>}
+                    {hasValues && <th className="text-right font-medium px-4 py-2">Cumulative Value</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {periods.map((period) => (
+                    <tr
+                      key={period.key}
+                      className={cn(
+                        'border-t align-top',
+                        period.isPast && 'text-gray-500',
+                        period.isCurrent && 'bg-blue-50'
+                      )}
+                    >
+                      <td className="px-4 py-2 font-medium whitespace-nowrap">
+                        {period.label}
+                        {period.isCurrent && <span className="ml-2 text-xs text-blue-600">Now</span>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <ul className="space-y-0.5">
+                          {period.events.map((event, index) => (
+                            <li key={`${event.grantId}-${index}`}>
+                              {format(event.date, 'MMM dd')} · {event.company} {event.equityType}
+                              {' '}· {formatNumber(event.shares)}
+                              {event.isCliff && <span className="text-xs text-orange-600"> (cliff)</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                      <td className="px-4 py-2 text-right">{formatNumber(period.shares)}</td>
+                      <td className="px-4 py-2 text-right">{formatNumber(period.cumulativeShares)}</td>
+                      {hasValues && (
+                        <td className="px-4 py-2 text-right">
+                          {period.value !== null && valueCurrency ? formatCurrency(period.value, valueCurrency, { maximumFractionDigits: 0 }) : '—'}
+                        </td>
+                      )}
+                      {hasValues && (
+                        <td className="px-4 py-2 text-right">
+                          {period.cumulativeValue !== null && valueCurrency ? formatCurrency(period.cumulativeValue, valueCurrency, { maximumFractionDigits: 0 }) : '—'}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Bars for shares vesting in each period with the running total drawn over them
+ */
+function TimelineChart({ periods }: { periods: TimelinePeriod[] }) {
+  const { formatNumber } = usePreferences();
+  const maxShares = Math.max(...periods.map(period => period.shares));
+  const totalShares = periods[periods.length - 1].cumulativeShares;
+  // Label roughly every sixth period so long timelines stay readable
+  const labelEvery = Math.max(1, Math.ceil(periods.length / 6));
+
+  const cumulativePoints = periods
+    .map((period, index) => {
+      const x = ((index + 0.5) / periods.length) * 100;
+      const y = 100 - (period.cumulativeShares / totalShares) * 100;
+      return `${x},${y}`;
+    })
+    .join(' ');
+
+  return (
+    <div>
+      <div className="relative h-48">
+        <div className="absolute inset-0 flex items-end gap-px">
+          {periods.map((period) => (
+            <div
+              key={period.key}
+              className="flex-1 h-full flex items-end"
+              title={`${period.label}: ${formatNumber(period.shares)} shares (${formatNumber(period.cumulativeShares)} cumulative)`}
+            >
+              <div
+                className={cn(
+                  'w-full rounded-t-sm',
+                  period.isPast ? 'bg-gray-300' : 'bg-blue-500',
+                  period.isCurrent && 'bg-blue-700'
+                )}
+                style={{ height: `${Math.max(1, (period.shares / maxShares) * 100)}%` }}
+              />
+            </div>
+          ))}
+        </div>
+        <svg
+          className="absolute inset-0 h-full w-full pointer-events-none"
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+        >
+          <polyline
+            points={cumulativePoints}
+            fill="none"
+            stroke="#16a34a"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      </div>
+      <div className="flex gap-px mt-1 text-[10px] text-gray-500">
+        {periods.map((period, index) => (
+          <div key={period.key} className="flex-1 text-center whitespace-nowrap overflow-visible">
+            {index % labelEvery === 0 ? period.label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,2 +1,5 @@
 export { AddEquityForm } from './AddEquityForm';
-export { EquityList } from './EquityList';
\ No newline at end of file
+export { EquityList } from './EquityList';
+export { GrantExercises } from './GrantExercises';
+export { RecordExerciseDialog } from './RecordExerciseDialog';
+export { VestingTimelineView } from './VestingTimelineView';
\ No newline at end of file
@@ -0,0 +1,506 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { esppSchema, type EsppFormData } from '@/lib/validations/espp';
+import type { DecryptedEsppData, DecryptedSalaryData } from '@/lib/db/types';
+import { EsppCalculator } from '@/lib/espp';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { format, addMonths } from 'date-fns';
+import { Plus, Trash2, CalendarRange } from 'lucide-react';
+import { CurrencyPicker } from '../currency';
+
+interface AddEsppFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+/**
+ * Record an ESPP offering period. Purchase prices and shares are derived from
+ * the FMVs and contributions, and can be overridden to match the plan statement.
+ */
+export function AddEsppForm({ isOpen, onClose, onSuccess }: AddEsppFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [currentSalary, setCurrentSalary] = useState<DecryptedSalaryData | null>(null);
+  const { user } = useAuth();
+  const { encryptData, decryptData } = useVault();
+  const { preferences, formatCurrency, formatNumber } = usePreferences();
+
+  const form = useForm<EsppFormData>({
+    resolver: zodResolver(esppSchema),
+    defaultValues: {
+      company: '',
+      offeringStart: format(new Date(), 'yyyy-MM-dd'),
+      offeringEnd: format(addMonths(new Date(), 6), 'yyyy-MM-dd'),
+      offeringFmv: 0,
+      contributionPercent: 10,
+      discountPercent: 15,
+      hasLookback: true,
+      currency: preferences.currency,
+      purchases: [],
+      notes: '',
+    },
+  });
+  const purchaseFields = useFieldArray({ control: form.control, name: 'purchases' });
+
+  const offeringStart = form.watch('offeringStart');
+  const offeringEnd = form.watch('offeringEnd');
+  const offeringFmv = form.watch('offeringFmv');
+  const discountPercent = form.watch('discountPercent');
+  const hasLookback = form.watch('hasLookback');
+  const contributionPercent = form.watch('contributionPercent');
+  const currency = form.watch('currency');
+  const purchases = form.watch('purchases');
+
+  // The current salary suggests how much each purchase period contributes
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    const loadCurrentSalary = async () => {
+      try {
+        const records = await LocalStorageService.getCompensationRecords(user.id, 'salary');
+        for (const record of records) {
+          const decryptionResult = await decryptData(record.encryptedData);
+          if (!decryptionResult.success) continue;
+          const salary = JSON.parse(decryptionResult.data) as DecryptedSalaryData;
+          if (salary.isCurrentPosition) {
+            setCurrentSalary(salary);
+            return;
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load current salary:', error);
+      }
+    };
+
+    loadCurrentSalary();
+  }, [isOpen, user, decryptData]);
+
+  // Re-price every purchase when the plan terms change
+  useEffect(() => {
+    const rows = form.getValues('purchases');
+    rows.forEach((row, index) => {
+      if (row.fmv > 0) {
+        const purchasePrice = EsppCalculator.getPurchasePrice({ offeringFmv, discountPercent, hasLookback }, row.fmv);
+        form.setValue(`purchases.${index}.purchasePrice`, purchasePrice);
+      }
+    });
+  }, [offeringFmv, discountPercent, hasLookback, form]);
+
+  const salaryInPlanCurrency = currentSalary && currentSalary.currency === currency ? currentSalary : null;
+
+  const estimateContribution = (from: string, to: string) =>
+    salaryInPlanCurrency
+      ? EsppCalculator.estimateContribution(salaryInPlanCurrency.amount, contributionPercent, from, to)
+      : undefined;
+
+  const newPurchase = (date: string, previousDate: string) => ({
+    date,
+    fmv: 0,
+    purchasePrice: 0,
+    shares: 0,
+    contribution: estimateContribution(previousDate, date),
+  });
+
+  const fillPurchaseDates = () => {
+    const dates = EsppCalculator.getPurchaseDates(offeringStart, offeringEnd);
+    purchaseFields.replace(dates.map((date, index) => newPurchase(date, index === 0 ? offeringStart : dates[index - 1])));
+  };
+
+  const addPurchase = () => {
+    const last = purchases[purchases.length - 1]?.date;
+    const date = last ? format(addMonths(new Date(`${last}T00:00:00`), 6), 'yyyy-MM-dd') : offeringEnd;
+    purchaseFields.append(newPurchase(date, last ?? offeringStart));
+  };
+
+  // Shares follow the contribution and price until entered by hand
+  const updateShares = (index: number) => {
+    const row = form.getValues(`purchases.${index}`);
+    if (row.contribution && row.purchasePrice > 0) {
+      form.setValue(`purchases.${index}.shares`, EsppCalculator.estimateShares(row.contribution, row.purchasePrice));
+    }
+  };
+
+  const summary = EsppCalculator.summarizePlan({ ...form.getValues(), purchases });
+
+  const handleClose = () => {
+    form.reset();
+    onClose();
+  };
+
+  const onSubmit = async (data: EsppFormData) => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const esppData: DecryptedEsppData = {
+        ...data,
+        purchases: [...data.purchases].sort((a, b) => a.date.localeCompare(b.date)),
+      };
+
+      // Encrypt the sensitive data
+      const encryptedData = await encryptData(JSON.stringify(esppData));
+
+      // Store locally first (local-first architecture)
+      await LocalStorageService.addCompensationRecord({
+        userId: user.id,
+        type: 'espp',
+        encryptedData,
+        currency: data.currency,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        syncStatus: 'pending',
+        version: 1,
+      });
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      console.error('Error saving ESPP offering:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add ESPP Offering</DialogTitle>
+          <DialogDescription>
+            Each purchase is priced at the discount off the purchase date FMV, or off the offering date FMV when that is lower and the plan has a lookback.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <Controller
+              control={form.control}
+              name="company"
+              render={({ field, fieldState }) => (
+                <FormItem className="col-span-2">
+                  <FormLabel>Company</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Google Inc." {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="currency"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <FormControl>
+                    <CurrencyPicker {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <Controller
+              control={form.control}
+              name="offeringStart"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Offering Start</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="offeringEnd"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Offering End</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="offeringFmv"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Offering Date FMV ({currency})</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <Controller
+              control={form.control}
+              name="contributionPercent"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Contribution (% of salary)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="1"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="discountPercent"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Discount (%)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="1"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <FormItem className="flex items-end pb-2">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  {...form.register('hasLookback')}
+                  className="rounded border-gray-300 dark:border-gray-700 text-blue-600 focus:ring-blue-500"
+                />
+                Lookback to the offering date
+              </label>
+            </FormItem>
+          </div>
+
+          {/* Purchases */}
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <FormLabel>Purchases</FormLabel>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={fillPurchaseDates}>
+                  <CalendarRange className="h-4 w-4 mr-1" />
+                  Fill Purchase Dates
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={addPurchase}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Purchase
+                </Button>
+              </div>
+            </div>
+
+            {salaryInPlanCurrency && (
+              <p className="text-xs text-gray-500">
+                Contributions are estimated from your {formatCurrency(salaryInPlanCurrency.amount, salaryInPlanCurrency.currency)} salary at {contributionPercent}%.
+              </p>
+            )}
+
+            {purchaseFields.fields.length === 0 ? (
+              <p className="text-sm text-gray-500">No purchases yet. Add the purchases made during this offering.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th className="text-left font-medium py-1">Purchase Date</th>
+                    <th className="text-right font-medium py-1">FMV / Share</th>
+                    <th className="text-right font-medium py-1">Price / Share</th>
+                    <th className="text-right font-medium py-1">Contribution</th>
+                    <th className="text-right font-medium py-1">Shares</th>
+                    <th className="w-8" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {purchaseFields.fields.map((field, index) => (
+                    <tr key={field.id} className="border-t align-top">
+                      <td className="py-2">
+                        <Controller
+                          control={form.control}
+                          name={`purchases.${index}.date`}
+                          render={({ field: date, fieldState }) => (
+                            <>
+                              <Input type="date" className="h-8" {...date} />
+                              {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                            </>
+                          )}
+                        />
+                      </td>
+                      <td className="py-2 pl-2">
+                        <Controller
+                          control={form.control}
+                          name={`purchases.${index}.fmv`}
+                          render={({ field: fmv, fieldState }) => (
+                            <>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                className="h-8 text-right"
+                                {...fmv}
+                                onChange={(e) => {
+                                  const value = Number(e.target.value);
+                                  fmv.onChange(value);
+                                  form.setValue(
+                                    `purchases.${index}.purchasePrice`,
+                                    EsppCalculator.getPurchasePrice({ offeringFmv, discountPercent, hasLookback }, value)
+                                  );
+                                  updateShares(index);
+                                }}
+                              />
+                              {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                            </>
+                          )}
+                        />
+                      </td>
+                      <td className="py-2 pl-2">
+                        <Controller
+                          control={form.control}
+                          name={`purchases.${index}.purchasePrice`}
+                          render={({ field: price, fieldState }) => (
+                            <>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                className="h-8 text-right"
+                                {...price}
+                                onChange={(e) => {
+                                  price.onChange(Number(e.target.value));
+                                  updateShares(index);
+                                }}
+                              />
+                              {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                            </>
+                          )}
+                        />
+                      </td>
+                      <td className="py-2 pl-2">
+                        <Controller
+                          control={form.control}
+                          name={`purchases.${index}.contribution`}
+                          render={({ field: contribution }) => (
+                            <Input
+                              type="number"
+                              step="0.01"
+                              className="h-8 text-right"
+                              {...contribution}
+                              value={contribution.value ?? ''}
+                              onChange={(e) => {
+                                contribution.onChange(e.target.value ? Number(e.target.value) : undefined);
+                                updateShares(index);
+                              }}
+                            />
+                          )}
+                        />
+                      </td>
+                      <td className="py-2 pl-2">
+                        <Controller
+                          control={form.control}
+                          name={`purchases.${index}.shares`}
+                          render={({ field: shares, fieldState }) => (
+                            <>
+                              <Input
+                                type="number"
+                                step="0.0001"
+                                className="h-8 text-right"
+                                {...shares}
+                                onChange={(e) => shares.onChange(Number(e.target.value))}
+                              />
+                              {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                            </>
+                          )}
+                        />
+                      </td>
+                      <td className="py-2 pl-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          aria-label="Remove purchase"
+                          onClick={() => purchaseFields.remove(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {summary.sharesPurchased > 0 && (
+              <div className="flex justify-between text-sm border-t pt-2">
+                <span className="text-gray-600 dark:text-gray-400">
+                  {formatNumber(summary.sharesPurchased)} shares for {formatCurrency(summary.cost, currency)}
+                </span>
+                <span className="font-medium text-green-600">
+                  {formatCurrency(summary.gain, currency)} discount gain
+                </span>
+              </div>
+            )}
+          </div>
+
+          <Controller
+            control={form.control}
+            name="notes"
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <FormLabel>Notes (optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Additional notes..." {...field} />
+                </FormControl>
+                {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Offering'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Plus } from 'lucide-react';
+import type { DecryptedEsppData, DecryptedValuationData } from '@/lib/db/types';
+import { EsppCalculator } from '@/lib/espp';
+import { EquityValuation } from '@/lib/valuation';
+import { usePreferences } from '@/contexts/PreferencesContext';
+
+interface EsppViewProps {
+  plans: DecryptedEsppData[];
+  valuations: DecryptedValuationData[]; // Values purchased shares at the latest share price
+  onAdd: () => void;
+}
+
+/**
+ * ESPP offering periods with the price paid and discount captured on each purchase
+ */
+export function EsppView({ plans, valuations, onAdd }: EsppViewProps) {
+  const { formatCurrency, formatNumber, formatDate } = usePreferences();
+  const offerings = useMemo(
+    () => [...plans]
+      .sort((a, b) => b.offeringStart.localeCompare(a.offeringStart))
+      .map(plan => {
+        const summary = EsppCalculator.summarizePlan(plan);
+        const valuation = EquityValuation.getValuationAsOf(valuations, plan.company, new Date());
+        const currentValue = valuation && valuation.currency === plan.currency
+          ? summary.sharesPurchased * valuation.pricePerShare
+          : null;
+        return { plan, summary, currentValue };
+      }),
+    [plans, valuations]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Payroll contributions buy shares at a discount each purchase date. The discount is counted as compensation when the shares are bought.
+        </p>
+        <Button onClick={onAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add ESPP Offering
+        </Button>
+      </div>
+
+      {offerings.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">No ESPP offerings yet. Add an offering period to track purchases and discount gains.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        offerings.map(({ plan, summary, currentValue }, index) => (
+          <Card key={`${plan.company}-${plan.offeringStart}-${index}`}>
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-lg">{plan.company}</CardTitle>
+                  <p className="text-sm text-gray-500">
+                    {formatDate(plan.offeringStart)} – {formatDate(plan.offeringEnd)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Badge variant="secondary">{plan.discountPercent}% discount</Badge>
+                  {plan.hasLookback && <Badge variant="outline">Lookback</Badge>}
+                  <Badge variant="outline">{plan.contributionPercent}% of salary</Badge>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-600 dark:text-gray-400">Offering FMV</p>
+                  <p className="font-medium">{formatCurrency(plan.offeringFmv, plan.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600 dark:text-gray-400">Shares Bought</p>
+                  <p className="font-medium">{formatNumber(summary.sharesPurchased)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600 dark:text-gray-400">Discount Gain</p>
+                  <p className="font-medium text-green-600">{formatCurrency(summary.gain, plan.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600 dark:text-gray-400">Current Value</p>
+                  <p className="font-medium">{currentValue !== null ? formatCurrency(currentValue, plan.currency) : '—'}</p>
+                </div>
+              </div>
+
+              {summary.purchases.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead className="text-gray-600 dark:text-gray-400">
+                    <tr>
+                      <th className="text-left font-medium py-1">Purchase Date</th>
+                      <th className="text-right font-medium py-1">FMV</th>
+                      <th className="text-right font-medium py-1">Lookback Price</th>
+                      <th className="text-right font-medium py-1">Price Paid</th>
+                      <th className="text-right font-medium py-1">Shares</th>
+                      <th className="text-right font-medium py-1">Cost</th>
+                      <th className="text-right font-medium py-1">Gain</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.purchases.map((result) => (
+                      <tr key={result.purchase.date} className="border-t">
+                        <td className="py-2">{formatDate(result.purchase.date)}</td>
+                        <td className="py-2 text-right">{formatCurrency(result.purchase.fmv, plan.currency)}</td>
+                        <td className="py-2 text-right">
+                          {formatCurrency(EsppCalculator.getLookbackPrice(plan, result.purchase.fmv), plan.currency)}
+                        </td>
+                        <td className="py-2 text-right">{formatCurrency(result.purchase.purchasePrice, plan.currency)}</td>
+                        <td className="py-2 text-right">{formatNumber(result.purchase.shares)}</td>
+                        <td className="py-2 text-right">{formatCurrency(result.cost, plan.currency)}</td>
+                        <td className="py-2 text-right text-green-600">
+                          {formatCurrency(result.gain, plan.currency)}
+                          <span className="text-xs text-gray-500"> ({Math.round(result.discountRate * 100)}%)</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {plan.notes && <p className="text-sm text-gray-500">{plan.notes}</p>}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
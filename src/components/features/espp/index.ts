@@ -0,0 +1,2 @@
+export { AddEsppForm } from './AddEsppForm';
+export { EsppView } from './EsppView';
\ No newline at end of file
@@ -12,19 +12,24 @@ import { Badge } from '@/components/ui/badge';
 import { Download, FileText, Database, Calendar, Filter } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { LocalStorageService } from '@/services/localStorageService';
-import { EncryptionService } from '@/services/encryptionService';
+import { AuditService } from '@/services/auditService';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import { CSVExporter, JSONExporter, exportUtils } from '@/utils/exporters';
 import type { ExportRecord } from '@/utils/exporters';
+import type { DecryptedPriceHistoryData, DecryptedShareLotData, DecryptedValuationData } from '@/lib/db/types';
+import { PriceHistory } from '@/lib/prices';
+import { Preferences } from '@/lib/preferences';
 import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
 
 interface ExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  preselectedType?: 'salary' | 'bonus' | 'equity' | 'all';
+  preselectedType?: 'salary' | 'bonus' | 'equity' | 'valuation' | 'exercise' | 'shareLot' | 'shareSale' | 'espp' | 'all';
 }
 
 type ExportFormat = 'csv' | 'json';
-type DataType = 'all' | 'salary' | 'bonus' | 'equity';
+type DataType = 'all' | 'salary' | 'bonus' | 'equity' | 'valuation' | 'exercise' | 'shareLot' | 'shareSale' | 'espp';
 type DateRange = 'all' | 'ytd' | 'last12months' | 'custom';
 
 export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: ExportDialogProps) {
@@ -39,8 +44,11 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
   const [customStartDate, setCustomStartDate] = useState('');
   const [customEndDate, setCustomEndDate] = useState('');
   const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+  const [priceHistories, setPriceHistories] = useState<DecryptedPriceHistoryData[]>([]);
   
   const { user } = useAuth();
+  const { decryptData } = useVault();
+  const { preferences } = usePreferences();
 
   // Load all compensation data
   useEffect(() => {
@@ -49,21 +57,25 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
     const loadData = async () => {
       setIsLoading(true);
       try {
-        const userPassword = 'default-password'; // TODO: Get from secure context
-        
         // Load all compensation types
-        const [salaries, bonuses, equity] = await Promise.all([
+        const [salaries, bonuses, equity, valuations, exercises, shareLots, shareSales, espp, histories] = await Promise.all([
           LocalStorageService.getCompensationRecords(user.id, 'salary'),
           LocalStorageService.getCompensationRecords(user.id, 'bonus'),
           LocalStorageService.getCompensationRecords(user.id, 'equity'),
+          LocalStorageService.getCompensationRecords(user.id, 'valuation'),
+          LocalStorageService.getCompensationRecords(user.id, 'exercise'),
+          LocalStorageService.getCompensationRecords(user.id, 'shareLot'),
+          LocalStorageService.getCompensationRecords(user.id, 'shareSale'),
+          LocalStorageService.getCompensationRecords(user.id, 'espp'),
+          LocalStorageService.getPriceHistories(user.id),
         ]);
 
         // Decrypt all records
         const decryptedRecords: ExportRecord[] = [];
         
-        for (const record of [...salaries, ...bonuses, ...equity]) {
+        for (const record of [...salaries, ...bonuses, ...equity, ...valuations, ...exercises, ...shareLots, ...shareSales, ...espp]) {
           try {
-            const decryptionResult = await EncryptionService.decryptData(record.encryptedData, userPassword);
+            const decryptionResult = await decryptData(record.encryptedData);
             if (decryptionResult.success) {
               const data = JSON.parse(decryptionResult.data);
               decryptedRecords.push({
@@ -82,6 +94,19 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
         // Sort by creation date (newest first)
         decryptedRecords.sort((a, b) => b.createdAt - a.createdAt);
         setAllRecords(decryptedRecords);
+
+        const decryptedHistories: DecryptedPriceHistoryData[] = [];
+        for (const record of histories) {
+          try {
+            const decryptionResult = await decryptData(record.encryptedData);
+            if (decryptionResult.success) {
+              decryptedHistories.push(JSON.parse(decryptionResult.data));
+            }
+          } catch (error) {
+            console.error('Failed to decrypt price history:', error);
+          }
+        }
+        setPriceHistories(decryptedHistories);
       } catch (error) {
         console.error('Error loading compensation data:', error);
       } finally {
@@ -90,7 +115,7 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
     };
 
     loadData();
-  }, [isOpen, user]);
+  }, [isOpen, user, decryptData]);
 
   // Set default custom date range
   useEffect(() => {
@@ -138,6 +163,24 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
     return filtered;
   }, [allRecords, dataType, dateRange, customStartDate, customEndDate]);
 
+  // Equity is valued with every share price on file, whatever the filters,
+  // including imported closes (which are not exported themselves)
+  const valuations = useMemo(
+    () => allRecords
+      .filter(record => record.type === 'valuation')
+      .map(record => record.data as DecryptedValuationData)
+      .concat(PriceHistory.toValuations(priceHistories)),
+    [allRecords, priceHistories]
+  );
+
+  // Sales are costed against every lot on file, whatever the filters
+  const shareLots = useMemo(
+    () => allRecords
+      .filter(record => record.type === 'shareLot')
+      .map(record => record.data as DecryptedShareLotData),
+    [allRecords]
+  );
+
   // Get available columns for CSV export
   const availableColumns = useMemo(() => {
     if (exportFormat !== 'csv') return [];
@@ -166,17 +209,26 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
       if (exportFormat === 'csv') {
         CSVExporter.downloadCSV(filteredRecords, filename, {
           includeColumns: selectedColumns.length > 0 ? selectedColumns : undefined,
-          dateFormat: 'iso',
+          dateFormat: Preferences.getExportDateFormat(preferences),
           currencyFormat: 'code',
+          valuations,
+          shareLots,
         });
       } else {
         JSONExporter.downloadJSON(filteredRecords, filename, {
           includeMetadata: true,
           prettifyOutput: true,
           includeSchema: true,
+          valuations,
+          shareLots,
         });
       }
 
+      if (user) {
+        const scope = dataType === 'all' ? 'records' : `${dataType} records`;
+        await AuditService.log(user.id, 'export', `${filteredRecords.length} ${scope} as ${exportFormat.toUpperCase()}`);
+      }
+
       onClose();
     } catch (error) {
       console.error('Export failed:', error);
@@ -246,6 +298,11 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
                   <SelectItem value="salary">Salaries Only</SelectItem>
                   <SelectItem value="bonus">Bonuses Only</SelectItem>
                   <SelectItem value="equity">Equity Only</SelectItem>
+                  <SelectItem value="valuation">Share Prices Only</SelectItem>
+                  <SelectItem value="exercise">Option Exercises Only</SelectItem>
+                  <SelectItem value="shareLot">Share Lots Only</SelectItem>
+                  <SelectItem value="shareSale">Share Sales Only</SelectItem>
+                  <SelectItem value="espp">ESPP Offerings Only</SelectItem>
                 </SelectContent>
               </Select>
             </FormItem>
@@ -331,7 +388,7 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
                       type="checkbox"
                       checked={selectedColumns.includes(column)}
                       onChange={() => handleColumnToggle(column)}
-                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      className="rounded border-gray-300 dark:border-gray-700 text-blue-600 focus:ring-blue-500"
                     />
                     <span className="text-sm">{column}</span>
                   </label>
@@ -376,9 +433,37 @@ export function ExportDialog({ isOpen, onClose, preselectedType = 'all' }: Expor
 
                   {/* Data type breakdown */}
                   <div className="flex gap-2">
-                    {['salary', 'bonus', 'equity'].map(type => {
+                    {['salary', 'bonus', 'equity', 'valuation', 'exercise', 'shareLot', 'shareSale', 'espp'].map(type => {
                       const count = filteredRecords.filter(r => r.type === type).length;
                       if (count === 0) return null;
+                      if (type === 'valuation') {
+                        return (
+                          <Badge key={type} variant="secondary">
+                            {count} share price{count > 1 ? 's' : ''}
+                          </Badge>
+                        );
+                      }
+                      if (type === 'exercise') {
+                        return (
+                          <Badge key={type} variant="secondary">
+                            {count} exercise{count > 1 ? 's' : ''}
+                          </Badge>
+                        );
+                      }
+                      if (type === 'espp') {
+                        return (
+                          <Badge key={type} variant="secondary">
+                            {count} ESPP offering{count > 1 ? 's' : ''}
+                          </Badge>
+                        );
+                      }
+                      if (type === 'shareLot' || type === 'shareSale') {
+                        return (
+                          <Badge key={type} variant="secondary">
+                            {count} share {type === 'shareLot' ? 'lot' : 'sale'}{count > 1 ? 's' : ''}
+                          </Badge>
+                        );
+                      }
                       return (
                         <Badge key={type} variant="secondary">
                           {count} {type}{count > 1 ? (type === 'equity' ? ' grants' : 'es') : ''}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { fxRateSchema, type FxRateFormData } from '@/lib/validations/fx';
+import { FxRates } from '@/lib/fx';
+import type { DecryptedFxRateData } from '@/lib/db/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import type { FxRateEntry } from '@/contexts/CurrencyContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { format } from 'date-fns';
+import { CurrencyPicker } from '../currency';
+
+interface AddFxRateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  rateTables: FxRateEntry[]; // A rate for a stored pair is merged into it
+}
+
+/**
+ * Enter a single exchange rate by hand, e.g. from a payslip or bank statement
+ */
+export function AddFxRateDialog({ isOpen, onClose, onSuccess, rateTables }: AddFxRateDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences } = usePreferences();
+
+  const form = useForm<FxRateFormData>({
+    resolver: zodResolver(fxRateSchema),
+    defaultValues: {
+      base: preferences.currency === 'EUR' ? 'USD' : 'EUR',
+      quote: preferences.currency,
+      date: format(new Date(), 'yyyy-MM-dd'),
+      rate: 0,
+    },
+  });
+
+  const [base, quote] = form.watch(['base', 'quote']);
+  const inverse = rateTables.find(entry => entry.decryptedData.base === quote && entry.decryptedData.quote === base);
+
+  const handleClose = () => {
+    form.reset();
+    setSaveError(null);
+    onClose();
+  };
+
+  const onSubmit = async (data: FxRateFormData) => {
+    if (!user) return;
+
+    setIsLoading(true);
+    setSaveError(null);
+    try {
+      // Store the rate in a pair that already exists in either direction
+      const direct = rateTables.find(entry => entry.decryptedData.base === data.base && entry.decryptedData.quote === data.quote);
+      const existing = direct ?? inverse;
+      const point = { date: data.date, rate: direct || !inverse ? data.rate : 1 / data.rate };
+
+      const table: DecryptedFxRateData = existing
+        ? { ...existing.decryptedData, rates: FxRates.merge(existing.decryptedData.rates, [point]) }
+        : { base: data.base, quote: data.quote, rates: [point] };
+
+      // Encrypt the rates; they are stored on this device only
+      const encryptedData = await encryptData(JSON.stringify(table));
+      await LocalStorageService.saveFxRates(user.id, encryptedData, existing?.id);
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      setSaveError('Failed to save the exchange rate. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const currencySelect = (name: 'base' | 'quote', label: string) => (
+    <Controller
+      control={form.control}
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <CurrencyPicker {...field} />
+          </FormControl>
+          {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Exchange Rate</DialogTitle>
+          <DialogDescription>
+            How much one unit of the first currency was worth in the second on a date. It applies from that date until the next rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            {currencySelect('base', 'From')}
+            {currencySelect('quote', 'To')}
+
+            <Controller
+              control={form.control}
+              name="date"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="rate"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>1 {base} =</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="any"
+                      placeholder="e.g., 1.0856"
+                      {...field}
+                      value={field.value || ''}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {inverse && (
+            <p className="text-xs text-gray-500">
+              Saved as its inverse with your stored {quote} → {base} rates.
+            </p>
+          )}
+
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Add Rate'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
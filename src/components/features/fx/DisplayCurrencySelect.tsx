@@ -0,0 +1,46 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { CurrencyConverter } from '@/lib/fx';
+
+const ORIGINAL = 'original';
+
+interface DisplayCurrencySelectProps {
+  currencies?: string[]; // Currencies the page's records use, offered alongside those with rates
+}
+
+/**
+ * "Display in" switch shared by the dashboard, lists and reports
+ */
+export function DisplayCurrencySelect({ currencies = [] }: DisplayCurrencySelectProps) {
+  const { rateTables, displayCurrency, setDisplayCurrency } = useCurrency();
+  const { preferences } = usePreferences();
+
+  const options = useMemo(() => {
+    const withRates = CurrencyConverter.getCurrencies(rateTables.map(entry => entry.decryptedData));
+    return Array.from(new Set([preferences.currency, ...withRates, ...currencies]));
+  }, [rateTables, currencies, preferences.currency]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">Display in</span>
+      <Select
+        value={displayCurrency ?? ORIGINAL}
+        onValueChange={(value) => setDisplayCurrency(value === ORIGINAL ? null : value)}
+      >
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ORIGINAL}>Original currencies</SelectItem>
+          {options.map(code => (
+            <SelectItem key={code} value={code}>{code}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
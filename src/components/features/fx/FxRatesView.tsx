@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowRightLeft, Plus, Upload, Trash2 } from 'lucide-react';
+import { useCurrency, type FxRateEntry } from '@/contexts/CurrencyContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { FxRates } from '@/lib/fx';
+import { AddFxRateDialog } from './AddFxRateDialog';
+import { ImportFxRatesDialog } from './ImportFxRatesDialog';
+
+/**
+ * Stored exchange rate pairs, used to display amounts in one currency
+ */
+export function FxRatesView() {
+  const [isAdding, setIsAdding] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const { rateTables, isLoading, reloadRates } = useCurrency();
+  const { formatDate, formatNumber } = usePreferences();
+
+  const sortedTables = [...rateTables].sort((a, b) =>
+    `${a.decryptedData.base}${a.decryptedData.quote}`.localeCompare(`${b.decryptedData.base}${b.decryptedData.quote}`)
+  );
+
+  const handleDelete = async (entry: FxRateEntry) => {
+    if (entry.id === undefined) return;
+    const { base, quote } = entry.decryptedData;
+    if (!confirm(`Delete all stored ${base} → ${quote} exchange rates?`)) return;
+    try {
+      await LocalStorageService.deleteFxRates(entry.id);
+      await reloadRates();
+    } catch (error) {
+      console.error('Error deleting exchange rates:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="h-5 w-5" />
+              Exchange Rates
+            </CardTitle>
+            <CardDescription>
+              Used to show amounts in one currency. Each record converts at the rate on its own date.
+              Rates stay encrypted on this device and are never fetched from the internet.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setIsImporting(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+            <Button type="button" size="sm" onClick={() => setIsAdding(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rate
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 dark:bg-gray-800 rounded w-full animate-pulse"></div>
+        ) : sortedTables.length === 0 ? (
+          <p className="text-sm text-gray-500">No exchange rates yet. Add a rate or import a history to convert between currencies.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-gray-600 dark:text-gray-400">
+              <tr>
+                <th className="text-left font-medium py-1">Pair</th>
+                <th className="text-right font-medium py-1">Rates</th>
+                <th className="text-left font-medium py-1 pl-4">Covers</th>
+                <th className="text-right font-medium py-1">Latest</th>
+                <th className="w-10" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedTables.map((entry) => {
+                const { base, quote, rates, fileName } = entry.decryptedData;
+                const range = FxRates.getRange(rates);
+                return (
+                  <tr key={entry.id} className="border-t">
+                    <td className="py-2">
+                      <span className="font-medium">{base} → {quote}</span>
+                      {fileName && <span className="block text-xs text-gray-500">{fileName}</span>}
+                    </td>
+                    <td className="py-2 text-right">{formatNumber(rates.length)}</td>
+                    <td className="py-2 pl-4">
+                      {range && (range.first.date === range.last.date
+                        ? formatDate(range.first.date)
+                        : `${formatDate(range.first.date)} – ${formatDate(range.last.date)}`)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {range && formatNumber(range.last.rate, { maximumFractionDigits: 6 })}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Delete ${base} → ${quote} rates`}
+                        onClick={() => handleDelete(entry)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+
+      <AddFxRateDialog
+        isOpen={isAdding}
+        onClose={() => setIsAdding(false)}
+        onSuccess={reloadRates}
+        rateTables={rateTables}
+      />
+      <ImportFxRatesDialog
+        isOpen={isImporting}
+        onClose={() => setIsImporting(false)}
+        onSuccess={reloadRates}
+        rateTables={rateTables}
+      />
+    </Card>
+  );
+}
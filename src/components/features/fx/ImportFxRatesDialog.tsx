@@ -0,0 +1,204 @@
+'use client';
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { fxImportSchema, type FxImportFormData } from '@/lib/validations/fx';
+import { FxRateCSVParser, FxRates } from '@/lib/fx';
+import type { DecryptedFxRateData } from '@/lib/db/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import type { FxRateEntry } from '@/contexts/CurrencyContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { Upload } from 'lucide-react';
+import { CurrencyPicker } from '../currency';
+
+interface ImportFxRatesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  rateTables: FxRateEntry[]; // Existing pairs; imported rates are merged into them
+}
+
+/**
+ * Import historical exchange rates from a CSV the user downloaded themselves,
+ * e.g. a central bank series. Parsing happens in the browser.
+ */
+export function ImportFxRatesDialog({ isOpen, onClose, onSuccess, rateTables }: ImportFxRatesDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences, formatDate } = usePreferences();
+
+  const form = useForm<FxImportFormData>({
+    resolver: zodResolver(fxImportSchema),
+    defaultValues: {
+      base: preferences.currency === 'EUR' ? 'USD' : 'EUR',
+      quote: preferences.currency,
+    },
+  });
+
+  const parsed = useMemo(() => (csvText.trim() ? FxRateCSVParser.parse(csvText) : null), [csvText]);
+  const isSingleSeries = parsed !== null && parsed.series.length === 1 && parsed.series[0].quote === null;
+  const [base, quote] = form.watch(['base', 'quote']);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsvText(await file.text());
+  };
+
+  const handleClose = () => {
+    form.reset();
+    setCsvText('');
+    setFileName(undefined);
+    setSaveError(null);
+    onClose();
+  };
+
+  const onSubmit = async (data: FxImportFormData) => {
+    if (!user || !parsed || parsed.errors.length > 0) return;
+
+    setIsLoading(true);
+    setSaveError(null);
+    try {
+      for (const series of parsed.series) {
+        const target = series.quote ?? data.quote;
+        if (!target || target === data.base) continue;
+
+        // Merge into a stored pair in either direction
+        const direct = rateTables.find(entry => entry.decryptedData.base === data.base && entry.decryptedData.quote === target);
+        const inverse = rateTables.find(entry => entry.decryptedData.base === target && entry.decryptedData.quote === data.base);
+        const existing = direct ?? inverse;
+        const rates = direct || !inverse
+          ? series.rates
+          : series.rates.map(point => ({ date: point.date, rate: 1 / point.rate }));
+
+        const table: DecryptedFxRateData = existing
+          ? { ...existing.decryptedData, rates: FxRates.merge(existing.decryptedData.rates, rates), fileName }
+          : { base: data.base, quote: target, rates, fileName };
+
+        // Encrypt the rates; they are stored on this device only
+        const encryptedData = await encryptData(JSON.stringify(table));
+        await LocalStorageService.saveFxRates(user.id, encryptedData, existing?.id);
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      setSaveError('Failed to save the exchange rates. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The quote select only shows for a single rate column, and drops its value when hidden
+  const currencySelect = (name: 'base' | 'quote', label: string) => (
+    <Controller
+      control={form.control}
+      name={name}
+      shouldUnregister={name === 'quote'}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <CurrencyPicker {...field} />
+          </FormControl>
+          {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Exchange Rates</DialogTitle>
+          <DialogDescription>
+            Upload or paste historical rates with a date column and either one rate column or one column per currency
+            (like the ECB reference rates). The file is read in your browser and stored encrypted on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            {currencySelect('base', isSingleSeries ? 'From' : 'Rates are per 1')}
+            {isSingleSeries && currencySelect('quote', 'To')}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <FormLabel>Exchange Rates</FormLabel>
+              <label className="inline-flex items-center text-sm text-blue-600 cursor-pointer hover:underline">
+                <Upload className="h-4 w-4 mr-1" />
+                Choose CSV file
+                <input type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+              </label>
+            </div>
+            <textarea
+              className="flex min-h-[160px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              placeholder={'Date,USD,JPY,GBP,CHF\n2024-01-02,1.0956,155.72,0.86518,0.9305'}
+              value={csvText}
+              onChange={(e) => {
+                setCsvText(e.target.value);
+                setFileName(undefined);
+              }}
+            />
+            {fileName && <p className="text-xs text-gray-500">Loaded {fileName}</p>}
+          </div>
+
+          {parsed && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              {parsed.errors.length > 0 ? (
+                parsed.errors.map((error) => (
+                  <p key={error} className="text-red-600">{error}</p>
+                ))
+              ) : (
+                <>
+                  {parsed.series.map((series) => {
+                    const range = FxRates.getRange(series.rates);
+                    return (
+                      <p key={series.column}>
+                        <span className="font-medium">{base} → {series.quote ?? quote}</span>:{' '}
+                        {series.rates.length.toLocaleString()} rates
+                        {range && <> from {formatDate(range.first.date)} to {formatDate(range.last.date)} · last {range.last.rate}</>}
+                        {series.quote === base && <span className="text-gray-500"> (skipped)</span>}
+                      </p>
+                    );
+                  })}
+                  <p className="text-xs text-gray-500">
+                    Using the &quot;{parsed.dateColumn}&quot; column for dates
+                    {parsed.skippedRows > 0 && `; ${parsed.skippedRows} row(s) without a date or rate were skipped`}.
+                    Imported dates replace stored ones.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !parsed || parsed.errors.length > 0}>
+              {isLoading ? 'Importing...' : 'Import Rates'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
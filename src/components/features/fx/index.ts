@@ -0,0 +1,4 @@
+export { AddFxRateDialog } from './AddFxRateDialog';
+export { DisplayCurrencySelect } from './DisplayCurrencySelect';
+export { FxRatesView } from './FxRatesView';
+export { ImportFxRatesDialog } from './ImportFxRatesDialog';
\ No newline at end of file
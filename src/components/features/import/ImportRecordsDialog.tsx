@@ -0,0 +1,340 @@
+'use client';
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FormItem, FormControl } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Upload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { Preferences, type ExportDateFormat, type PreferenceSettings } from '@/lib/preferences';
+import { RecordCSVImport, IMPORT_FIELDS, type ColumnMapping, type ImportRecordType } from '@/lib/import';
+import type { CompensationRecord } from '@/lib/db/types';
+import { CurrencyPicker } from '../currency';
+
+interface ImportRecordsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type Step = 'upload' | 'map' | 'review';
+
+const RECORD_TYPE_OPTIONS: Array<{ value: ImportRecordType; label: string }> = [
+  { value: 'salary', label: 'Salaries' },
+  { value: 'bonus', label: 'Bonuses' },
+  { value: 'equity', label: 'Equity grants' },
+];
+
+const SLASH_DATE_OPTIONS: Array<{ value: ExportDateFormat; label: string }> = [
+  { value: 'us', label: 'Month first (01/31/2025)' },
+  { value: 'eu', label: 'Day first (31/01/2025)' },
+];
+
+const NOT_IMPORTED = 'none';
+
+// Slash dates follow the preferred date format, as they do in exports
+const defaultDateFormat = (preferences: PreferenceSettings): ExportDateFormat =>
+  Preferences.getExportDateFormat(preferences) === 'eu' ? 'eu' : 'us';
+
+/**
+ * Bring records in from a spreadsheet: pick a CSV, match its columns to
+ * record fields, review row errors, then encrypt and save the valid rows
+ */
+export function ImportRecordsDialog({ isOpen, onClose, onSuccess }: ImportRecordsDialogProps) {
+  const { preferences } = usePreferences();
+  const [step, setStep] = useState<Step>('upload');
+  const [recordType, setRecordType] = useState<ImportRecordType>('salary');
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultCurrency, setDefaultCurrency] = useState(preferences.currency);
+  const [dateFormat, setDateFormat] = useState<ExportDateFormat>(() => defaultDateFormat(preferences));
+  const [isImporting, setIsImporting] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { encryptData } = useVault();
+
+  const parsed = useMemo(() => (csvText.trim() ? RecordCSVImport.parse(csvText) : null), [csvText]);
+  const ignoredColumns = useMemo(
+    () => (parsed ? RecordCSVImport.getIgnoredColumns(recordType, parsed.headers) : []),
+    [parsed, recordType]
+  );
+  const result = useMemo(
+    () => (parsed && step === 'review'
+      ? RecordCSVImport.buildRows(recordType, parsed, mapping, { currency: defaultCurrency, dateFormat })
+      : null),
+    [parsed, step, recordType, mapping, defaultCurrency, dateFormat]
+  );
+
+  const validRows = result?.rows.filter(row => row.data !== null) ?? [];
+  const invalidRows = result?.rows.filter(row => row.data === null) ?? [];
+  const usesCurrency = recordType !== 'equity';
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsvText(await file.text());
+  };
+
+  const handleClose = () => {
+    setStep('upload');
+    setCsvText('');
+    setFileName(undefined);
+    setMapping({});
+    setDefaultCurrency(preferences.currency);
+    setDateFormat(defaultDateFormat(preferences));
+    setSaveError(null);
+    onClose();
+  };
+
+  const goToMapping = () => {
+    if (!parsed || parsed.errors.length > 0) return;
+    setMapping(RecordCSVImport.detectMapping(recordType, parsed.headers));
+    setStep('map');
+  };
+
+  const handleImport = async () => {
+    if (!user || validRows.length === 0) return;
+
+    setIsImporting(true);
+    setSaveError(null);
+    try {
+      const now = Date.now();
+      const records: Omit<CompensationRecord, 'id'>[] = [];
+      // Encrypt everything first; the insert itself is a single transaction
+      for (const row of validRows) {
+        const data = row.data!;
+        records.push({
+          userId: user.id,
+          type: recordType,
+          encryptedData: await encryptData(JSON.stringify(data)),
+          // Equity doesn't have currency, but we need something for the schema
+          currency: 'currency' in data ? data.currency : 'USD',
+          createdAt: now,
+          updatedAt: now,
+          syncStatus: 'pending',
+          version: 1,
+        });
+      }
+
+      await LocalStorageService.importCompensationRecords(records);
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      console.error('Error importing records:', error);
+      setSaveError('Failed to import the records. Nothing was saved; please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from CSV</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Choose what the file contains and load it. Files from Export Data are recognised automatically.'}
+            {step === 'map' && 'Match the columns in your file to record fields.'}
+            {step === 'review' && 'Rows with errors are left out. Fix them in the file and import again to add them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-6">
+            <FormItem>
+              <FormLabel>Records</FormLabel>
+              <Select value={recordType} onValueChange={(value) => setRecordType(value as ImportRecordType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECORD_TYPE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <FormLabel>CSV</FormLabel>
+                <label className="inline-flex items-center text-sm text-blue-600 cursor-pointer hover:underline">
+                  <Upload className="h-4 w-4 mr-1" />
+                  Choose CSV file
+                  <input type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+                </label>
+              </div>
+              <textarea
+                className="flex min-h-[160px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                placeholder={'Company,Title,Location,Amount,Currency,Start Date,End Date\nAcme,Engineer,Berlin,90000,EUR,2021-04-01,2023-03-31'}
+                value={csvText}
+                onChange={(e) => {
+                  setCsvText(e.target.value);
+                  setFileName(undefined);
+                }}
+              />
+              {fileName && <p className="text-xs text-gray-500">Loaded {fileName}</p>}
+              {parsed && (parsed.errors.length > 0 ? (
+                parsed.errors.map(error => <p key={error} className="text-sm text-red-600">{error}</p>)
+              ) : (
+                <p className="text-xs text-gray-500">
+                  {parsed.rows.length.toLocaleString()} row{parsed.rows.length === 1 ? '' : 's'} with {parsed.headers.length} columns
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && parsed && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {IMPORT_FIELDS[recordType].map(field => (
+                <FormItem key={field.key}>
+                  <FormLabel>{field.label}</FormLabel>
+                  <Select
+                    value={mapping[field.key] === undefined || mapping[field.key] === -1 ? NOT_IMPORTED : String(mapping[field.key])}
+                    onValueChange={(value) =>
+                      setMapping(prev => ({ ...prev, [field.key]: value === NOT_IMPORTED ? -1 : Number(value) }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {parsed.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              ))}
+            </div>
+
+            <FormItem>
+              <FormLabel>Dates written like 03/05/2025</FormLabel>
+              <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ExportDateFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SLASH_DATE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+
+            {usesCurrency && (
+              <FormItem>
+                <FormLabel>Currency for rows without one</FormLabel>
+                <FormControl>
+                  <CurrencyPicker value={defaultCurrency} onChange={setDefaultCurrency} />
+                </FormControl>
+              </FormItem>
+            )}
+
+            {recordType === 'equity' && (
+              <p className="text-xs text-gray-500">
+                Grants without a vesting schedule column vest evenly. Grants with yearly or custom schedules are flagged in the review and not imported; add those by hand.
+              </p>
+            )}
+            {ignoredColumns.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Calculated columns are not imported: {ignoredColumns.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && result && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge className="bg-green-100 text-green-800">{validRows.length} ready to import</Badge>
+              {invalidRows.length > 0 && (
+                <Badge className="bg-red-100 text-red-800">{invalidRows.length} with errors</Badge>
+              )}
+              {result.skippedRows > 0 && (
+                <Badge variant="secondary">{result.skippedRows} of another record type skipped</Badge>
+              )}
+            </div>
+
+            {invalidRows.length > 0 && (
+              <table className="w-full text-sm">
+                <thead className="text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th className="text-left font-medium py-1 w-16">Row</th>
+                    <th className="text-left font-medium py-1">Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invalidRows.map(row => (
+                    <tr key={row.row} className="border-t align-top">
+                      <td className="py-1 pr-2 text-gray-600 dark:text-gray-400">{row.row}</td>
+                      <td className="py-1 text-red-700">
+                        {row.errors.map(error => (
+                          <div key={error}>{error}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' ? (
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isImporting}
+              onClick={() => setStep(step === 'review' ? 'map' : 'upload')}
+            >
+              Back
+            </Button>
+          )}
+          {step === 'upload' && (
+            <Button type="button" disabled={!parsed || parsed.errors.length > 0} onClick={goToMapping}>
+              Next
+            </Button>
+          )}
+          {step === 'map' && (
+            <Button type="button" onClick={() => setStep('review')}>
+              Review
+            </Button>
+          )}
+          {step === 'review' && (
+            <Button type="button" disabled={isImporting || validRows.length === 0} onClick={handleImport}>
+              {isImporting
+                ? 'Importing...'
+                : `Import ${validRows.length} record${validRows.length === 1 ? '' : 's'}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
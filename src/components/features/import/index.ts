@@ -0,0 +1 @@
+export { ImportRecordsDialog } from './ImportRecordsDialog';
\ No newline at end of file
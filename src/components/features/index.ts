@@ -2,4 +2,17 @@ export * from './salary';
 export * from './bonus';
 export * from './equity';
 export * from './dashboard';
-export * from './export';
\ No newline at end of file
+export * from './export';
+export * from './sync';
+export * from './vault';
+export * from './valuation';
+export * from './lots';
+export * from './espp';
+export * from './reports';
+export * from './settings';
+export * from './fx';
+export * from './currency';
+export * from './records';
+export * from './trash';
+export * from './audit';
+export * from './import';
\ No newline at end of file
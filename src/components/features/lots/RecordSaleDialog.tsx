@@ -0,0 +1,333 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { shareSaleSchema, type ShareSaleFormData, lotSelectionOptions } from '@/lib/validations/shares';
+import type { DecryptedShareLotData, DecryptedShareSaleData } from '@/lib/db/types';
+import { ShareLots } from '@/lib/lots';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { format } from 'date-fns';
+
+interface RecordSaleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  lots: DecryptedShareLotData[];
+  sales: DecryptedShareSaleData[];
+}
+
+export function RecordSaleDialog({ isOpen, onClose, onSuccess, lots, sales }: RecordSaleDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences, formatCurrency, formatNumber, formatDate } = usePreferences();
+
+  const positions = useMemo(() => ShareLots.getPositions(lots, sales), [lots, sales]);
+  const companies = useMemo(
+    () => Array.from(new Set(positions.filter(p => p.remainingShares > 0).map(p => p.lot.company))).sort(),
+    [positions]
+  );
+
+  const form = useForm<ShareSaleFormData>({
+    resolver: zodResolver(shareSaleSchema),
+    defaultValues: {
+      company: '',
+      date: format(new Date(), 'yyyy-MM-dd'),
+      shares: 0,
+      pricePerShare: 0,
+      fees: undefined,
+      currency: preferences.currency,
+      lotSelection: 'fifo',
+      allocations: [],
+      notes: '',
+    },
+  });
+  const { fields, replace } = useFieldArray({ control: form.control, name: 'allocations' });
+
+  const company = form.watch('company');
+  const lotSelection = form.watch('lotSelection');
+  const currency = form.watch('currency');
+  const openPositions = useMemo(
+    () => positions.filter(p => p.lot.company === company && p.remainingShares > 0),
+    [positions, company]
+  );
+  const heldShares = openPositions.reduce((sum, p) => sum + p.remainingShares, 0);
+
+  useEffect(() => {
+    if (isOpen && !form.getValues('company') && companies.length > 0) {
+      form.setValue('company', companies[0]);
+    }
+  }, [isOpen, companies, form]);
+
+  // Every open lot of the company starts with nothing picked
+  useEffect(() => {
+    replace(openPositions.map(p => ({ lotUid: p.lot.lotUid, shares: 0 })));
+    if (openPositions.length > 0) {
+      form.setValue('currency', openPositions[0].lot.currency);
+    }
+  }, [openPositions, replace, form]);
+
+  const handleClose = () => {
+    form.reset();
+    onClose();
+  };
+
+  const onSubmit = async (data: ShareSaleFormData) => {
+    if (!user) return;
+
+    if (data.shares > heldShares) {
+      form.setError('shares', { message: `Only ${formatNumber(heldShares)} ${data.company} shares are held` });
+      return;
+    }
+
+    const allocations = data.lotSelection === 'fifo'
+      ? ShareLots.allocateFifo(positions, data.company, data.shares)
+      : data.allocations.filter(allocation => allocation.shares > 0);
+
+    const overdrawn = allocations.find(allocation => {
+      const position = openPositions.find(p => p.lot.lotUid === allocation.lotUid);
+      return !position || allocation.shares > position.remainingShares;
+    });
+    if (overdrawn) {
+      form.setError('allocations', { message: 'A lot cannot sell more shares than it holds' });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const saleData: DecryptedShareSaleData = {
+        ...data,
+        fees: data.fees || undefined,
+        allocations,
+      };
+
+      // Encrypt the sensitive data
+      const encryptedData = await encryptData(JSON.stringify(saleData));
+
+      // Store locally first (local-first architecture)
+      await LocalStorageService.addCompensationRecord({
+        userId: user.id,
+        type: 'shareSale',
+        encryptedData,
+        currency: data.currency,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        syncStatus: 'pending',
+        version: 1,
+      });
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      console.error('Error saving share sale:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Share Sale</DialogTitle>
+        </DialogHeader>
+
+        {companies.length === 0 ? (
+          <p className="text-sm text-gray-500">No shares are held. Record vested shares first.</p>
+        ) : (
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <Controller
+                control={form.control}
+                name="company"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Company</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select company" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {companies.map((name) => (
+                          <SelectItem key={name} value={name}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">{formatNumber(heldShares)} shares held</p>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+
+              <Controller
+                control={form.control}
+                name="date"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Sale Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <Controller
+                control={form.control}
+                name="shares"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Shares Sold</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+
+              <Controller
+                control={form.control}
+                name="pricePerShare"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Sale Price / Share ({currency})</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+
+              <Controller
+                control={form.control}
+                name="fees"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Fees (optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                      />
+                    </FormControl>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Controller
+              control={form.control}
+              name="lotSelection"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Lots Sold</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {lotSelectionOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            {lotSelection === 'specific' && (
+              <table className="w-full text-sm">
+                <thead className="text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th className="text-left font-medium py-1">Acquired</th>
+                    <th className="text-right font-medium py-1">Held</th>
+                    <th className="text-right font-medium py-1">Basis / Share</th>
+                    <th className="text-right font-medium py-1">Shares to Sell</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map((field, index) => {
+                    const position = openPositions.find(p => p.lot.lotUid === field.lotUid);
+                    if (!position) return null;
+                    return (
+                      <tr key={field.id} className="border-t">
+                        <td className="py-2">{formatDate(position.lot.acquiredDate)}</td>
+                        <td className="py-2 text-right">{formatNumber(position.remainingShares)}</td>
+                        <td className="py-2 text-right">{formatCurrency(position.lot.costBasisPerShare, position.lot.currency)}</td>
+                        <td className="py-2 pl-2">
+                          <Controller
+                            control={form.control}
+                            name={`allocations.${index}.shares`}
+                            render={({ field: shares }) => (
+                              <Input
+                                type="number"
+                                className="h-8 text-right"
+                                min={0}
+                                max={position.remainingShares}
+                                {...shares}
+                                onChange={(e) => shares.onChange(Number(e.target.value))}
+                              />
+                            )}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            {form.formState.errors.allocations?.message && (
+              <FormMessage>{form.formState.errors.allocations.message}</FormMessage>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : 'Save Sale'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
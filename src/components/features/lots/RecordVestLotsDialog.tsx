@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { vestLotsSchema, type VestLotsFormData } from '@/lib/validations/shares';
+import type { CompensationRecord, DecryptedEquityData, DecryptedShareLotData, DecryptedValuationData } from '@/lib/db/types';
+import { ShareLots } from '@/lib/lots';
+import { EquityValuation } from '@/lib/valuation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { format } from 'date-fns';
+import { CurrencyPicker } from '../currency';
+
+type EquityGrant = CompensationRecord & { decryptedData: DecryptedEquityData };
+
+interface RecordVestLotsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  grants: EquityGrant[]; // RSU grants
+  lots: DecryptedShareLotData[];
+  valuations: DecryptedValuationData[]; // Suggests the FMV on each vest date
+}
+
+/**
+ * Turn past RSU vests into share lots, with the FMV at vest as cost basis
+ */
+export function RecordVestLotsDialog({ isOpen, onClose, onSuccess, grants, lots, valuations }: RecordVestLotsDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [grantId, setGrantId] = useState<string>('');
+  const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences, formatDate } = usePreferences();
+
+  const form = useForm<VestLotsFormData>({
+    resolver: zodResolver(vestLotsSchema),
+    defaultValues: { currency: preferences.currency, lots: [] },
+  });
+  const { fields } = useFieldArray({ control: form.control, name: 'lots' });
+
+  const grant = grants.find(g => String(g.id) === grantId) ?? null;
+
+  useEffect(() => {
+    if (isOpen && !grantId && grants.length > 0) {
+      setGrantId(String(grants[0].id));
+    }
+  }, [isOpen, grantId, grants]);
+
+  useEffect(() => {
+    if (!grant) return;
+
+    const vests = ShareLots.getUnrecordedVests(grant.decryptedData, lots);
+    const priceAt = (date: Date) => EquityValuation.getValuationAsOf(valuations, grant.decryptedData.company, date);
+    const latest = priceAt(new Date());
+
+    form.reset({
+      currency: latest?.currency ?? preferences.currency,
+      lots: vests.map(vest => ({
+        include: true,
+        acquiredDate: format(vest.date, 'yyyy-MM-dd'),
+        vestedShares: vest.shares,
+        shares: vest.shares,
+        sharesWithheld: undefined,
+        costBasisPerShare: priceAt(vest.date)?.pricePerShare ?? 0,
+      })),
+    });
+  }, [grant, lots, valuations, form, preferences.currency]);
+
+  const handleClose = () => {
+    setGrantId('');
+    onClose();
+  };
+
+  const onSubmit = async (data: VestLotsFormData) => {
+    if (!user || !grant || grant.id === undefined) return;
+
+    setIsLoading(true);
+    try {
+      // Older grants get their stable id when lots are first recorded
+      let grantUid = grant.decryptedData.grantUid;
+      if (!grantUid) {
+        grantUid = crypto.randomUUID();
+        const encryptedGrant = await encryptData(JSON.stringify({ ...grant.decryptedData, grantUid }));
+        await LocalStorageService.updateCompensationRecord(grant.id, {
+          encryptedData: encryptedGrant,
+          version: grant.version,
+        });
+      }
+
+      for (const row of data.lots.filter(row => row.include)) {
+        const lotData: DecryptedShareLotData = {
+          lotUid: crypto.randomUUID(),
+          grantUid,
+          company: grant.decryptedData.company,
+          acquiredDate: row.acquiredDate,
+          shares: row.shares,
+          sharesWithheld: row.sharesWithheld || undefined,
+          costBasisPerShare: row.costBasisPerShare,
+          currency: data.currency,
+        };
+
+        // Encrypt the sensitive data
+        const encryptedData = await encryptData(JSON.stringify(lotData));
+
+        // Store locally first (local-first architecture)
+        await LocalStorageService.addCompensationRecord({
+          userId: user.id,
+          type: 'shareLot',
+          encryptedData,
+          currency: data.currency,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          syncStatus: 'pending',
+          version: 1,
+        });
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      console.error('Error saving share lots:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Vested Shares</DialogTitle>
+          <DialogDescription>
+            Each vest becomes a share lot. Enter the shares deposited after tax withholding and the FMV on the vest date, which is your cost basis.
+          </DialogDescription>
+        </DialogHeader>
+
+        {grants.length === 0 ? (
+          <p className="text-sm text-gray-500">Add an RSU grant to record vested shares.</p>
+        ) : (
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              <FormItem className="col-span-2">
+                <FormLabel>Grant</FormLabel>
+                <Select value={grantId} onValueChange={setGrantId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select grant" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {grants.map((g) => (
+                      <SelectItem key={g.id} value={String(g.id)}>
+                        {g.decryptedData.company} RSU · {g.decryptedData.shares.toLocaleString()} shares · {format(new Date(g.decryptedData.grantDate), 'MMM yyyy')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+
+              <Controller
+                control={form.control}
+                name="currency"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <CurrencyPicker {...field} />
+                    </FormControl>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {fields.length === 0 ? (
+              <p className="text-sm text-gray-500">Every past vest of this grant already has a lot.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th className="w-8" />
+                    <th className="text-left font-medium py-1">Vest Date</th>
+                    <th className="text-right font-medium py-1">Vested</th>
+                    <th className="text-right font-medium py-1">Withheld</th>
+                    <th className="text-right font-medium py-1">Deposited</th>
+                    <th className="text-right font-medium py-1">FMV / Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map((field, index) => (
+                    <tr key={field.id} className="border-t align-top">
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          aria-label={`Record the ${field.acquiredDate} vest`}
+                          {...form.register(`lots.${index}.include`)}
+                          className="rounded border-gray-300 dark:border-gray-700 text-blue-600 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="py-2">{formatDate(field.acquiredDate)}</td>
+                      <td className="py-2 text-right">{field.vestedShares.toLocaleString()}</td>
+                      <td className="py-2 pl-2">
+                        <Controller
+                          control={form.control}
+                          name={`lots.${index}.sharesWithheld`}
+                          render={({ field: withheld }) => (
+                            <Input
+                              type="number"
+                              className="h-8 text-right"
+                              {...withheld}
+                              value={withheld.value ?? ''}
+                              onChange={(e) => {
+                                const value = e.target.value ? Number(e.target.value) : undefined;
+                                withheld.onChange(value);
+                                form.setValue(`lots.${index}.shares`, Math.max(0, field.vestedShares - (value ?? 0)));
+                              }}
+                            />
+                          )}
+                        />
+                      </td>
+                      <td className="py-2 pl-2">
+                        <Controller
+                          control={form.control}
+                          name={`lots.${index}.shares`}
+                          render={({ field: shares, fieldState }) => (
+                            <>
+                              <Input
+                                type="number"
+                                className="h-8 text-right"
+                                {...shares}
+                                onChange={(e) => shares.onChange(Number(e.target.value))}
+                              />
+                              {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                            </>
+                          )}
+                        />
+                      </td>
+                      <td className="py-2 pl-2">
+                        <Controller
+                          control={form.control}
+                          name={`lots.${index}.costBasisPerShare`}
+                          render={({ field: fmv, fieldState }) => (
+                            <>
+                              <Input
+                                type="number"
+                                step="0.0001"
+                                className="h-8 text-right"
+                                {...fmv}
+                                onChange={(e) => fmv.onChange(Number(e.target.value))}
+                              />
+                              {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                            </>
+                          )}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {form.formState.errors.lots?.root && (
+              <FormMessage>{form.formState.errors.lots.root.message}</FormMessage>
+            )}
+            {form.formState.errors.lots?.message && (
+              <FormMessage>{form.formState.errors.lots.message}</FormMessage>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || fields.length === 0}>
+                {isLoading ? 'Saving...' : 'Record Lots'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Plus, DollarSign } from 'lucide-react';
+import type {
+  CompensationRecord,
+  DecryptedEquityData,
+  DecryptedShareLotData,
+  DecryptedShareSaleData,
+  DecryptedValuationData,
+} from '@/lib/db/types';
+import { ShareLots } from '@/lib/lots';
+import { RecordVestLotsDialog } from './RecordVestLotsDialog';
+import { RecordSaleDialog } from './RecordSaleDialog';
+import { cn } from '@/lib/utils';
+import { usePreferences } from '@/contexts/PreferencesContext';
+
+type EquityGrant = CompensationRecord & { decryptedData: DecryptedEquityData };
+
+interface ShareLotsViewProps {
+  grants: EquityGrant[];
+  lots: DecryptedShareLotData[];
+  sales: DecryptedShareSaleData[];
+  valuations: DecryptedValuationData[];
+  onChange: () => void;
+}
+
+const gainClass = (gain: number | null) =>
+  cn(gain !== null && gain > 0 && 'text-green-600', gain !== null && gain < 0 && 'text-red-600');
+
+/**
+ * Shares held from vested RSUs, their sales, and realized vs. unrealized gains
+ */
+export function ShareLotsView({ grants, lots, sales, valuations, onChange }: ShareLotsViewProps) {
+  const [showVestLots, setShowVestLots] = useState(false);
+  const [showSale, setShowSale] = useState(false);
+  const { formatCurrency, formatNumber, formatDate } = usePreferences();
+
+  const rsuGrants = useMemo(() => grants.filter(grant => grant.decryptedData.type === 'RSU'), [grants]);
+  const positions = useMemo(() => ShareLots.getPositions(lots, sales), [lots, sales]);
+  const realizedGains = useMemo(() => ShareLots.getRealizedGains(lots, sales), [lots, sales]);
+  const byCompany = useMemo(() => ShareLots.summarizeByCompany(lots, sales, valuations), [lots, sales, valuations]);
+  const byTaxYear = useMemo(() => ShareLots.summarizeByTaxYear(lots, sales), [lots, sales]);
+
+  const unrecordedVests = useMemo(
+    () => rsuGrants.reduce((count, grant) => count + ShareLots.getUnrecordedVests(grant.decryptedData, lots).length, 0),
+    [rsuGrants, lots]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Vested RSUs become share lots with the FMV at vest as cost basis. Sales draw from lots first in, first out or from lots you pick.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowVestLots(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Vested Shares
+          </Button>
+          <Button onClick={() => setShowSale(true)} disabled={positions.every(p => p.remainingShares === 0)}>
+            <DollarSign className="h-4 w-4 mr-2" />
+            Record Sale
+          </Button>
+        </div>
+      </div>
+
+      {unrecordedVests > 0 && (
+        <p className="text-sm text-blue-600">
+          {unrecordedVests} past RSU vest{unrecordedVests > 1 ? 's have' : ' has'} no share lot yet.
+        </p>
+      )}
+
+      {lots.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">No share lots yet. Record vested shares to track holdings and gains.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Gains per company */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {byCompany.map((summary) => (
+              <Card key={`${summary.company}-${summary.currency}`}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">{summary.company}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Shares Held:</span>
+                    <span>{formatNumber(summary.sharesHeld)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Cost Basis:</span>
+                    <span>{formatCurrency(summary.costBasisHeld, summary.currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Unrealized Gain:</span>
+                    <span className={gainClass(summary.unrealizedGain)}>
+                      {summary.unrealizedGain !== null ? formatCurrency(summary.unrealizedGain, summary.currency) : '—'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Realized Gain:</span>
+                    <span className={gainClass(summary.realizedGain)}>{formatCurrency(summary.realizedGain, summary.currency)}</span>
+                  </div>
+                  {summary.priceDate ? (
+                    <p className="text-xs text-gray-500">Market value at the {formatDate(summary.priceDate)} share price</p>
+                  ) : (
+                    <p className="text-xs text-gray-500">Add a share price in {summary.currency} to see unrealized gains</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Gains per tax year */}
+          {byTaxYear.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Realized Gains by Tax Year</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                    <tr>
+                      <th className="text-left font-medium px-4 py-2">Year</th>
+                      <th className="text-right font-medium px-4 py-2">Proceeds</th>
+                      <th className="text-right font-medium px-4 py-2">Cost Basis</th>
+                      <th className="text-right font-medium px-4 py-2">Short-Term</th>
+                      <th className="text-right font-medium px-4 py-2">Long-Term</th>
+                      <th className="text-right font-medium px-4 py-2">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byTaxYear.map((year) => (
+                      <tr key={`${year.taxYear}-${year.currency}`} className="border-t">
+                        <td className="px-4 py-2 font-medium">{year.taxYear}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(year.proceeds, year.currency)}</td>
+                        <td className="px-4 py-2 text-right">{formatCurrency(year.costBasis, year.currency)}</td>
+                        <td className={cn('px-4 py-2 text-right', gainClass(year.shortTermGain))}>{formatCurrency(year.shortTermGain, year.currency)}</td>
+                        <td className={cn('px-4 py-2 text-right', gainClass(year.longTermGain))}>{formatCurrency(year.longTermGain, year.currency)}</td>
+                        <td className={cn('px-4 py-2 text-right font-medium', gainClass(year.realizedGain))}>{formatCurrency(year.realizedGain, year.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Lots */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Share Lots</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th className="text-left font-medium px-4 py-2">Company</th>
+                    <th className="text-left font-medium px-4 py-2">Acquired</th>
+                    <th className="text-right font-medium px-4 py-2">Shares</th>
+                    <th className="text-right font-medium px-4 py-2">Sold</th>
+                    <th className="text-right font-medium px-4 py-2">Held</th>
+                    <th className="text-right font-medium px-4 py-2">Basis / Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {positions.map((position) => (
+                    <tr key={position.lot.lotUid} className={cn('border-t', position.remainingShares === 0 && 'text-gray-400')}>
+                      <td className="px-4 py-2">{position.lot.company}</td>
+                      <td className="px-4 py-2">{formatDate(position.lot.acquiredDate)}</td>
+                      <td className="px-4 py-2 text-right">{formatNumber(position.lot.shares)}</td>
+                      <td className="px-4 py-2 text-right">{formatNumber(position.soldShares)}</td>
+                      <td className="px-4 py-2 text-right">{formatNumber(position.remainingShares)}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(position.lot.costBasisPerShare, position.lot.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          {/* Sales */}
+          {realizedGains.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Sales</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                    <tr>
+                      <th className="text-left font-medium px-4 py-2">Sold</th>
+                      <th className="text-left font-medium px-4 py-2">Lot Acquired</th>
+                      <th className="text-right font-medium px-4 py-2">Shares</th>
+                      <th className="text-right font-medium px-4 py-2">Proceeds</th>
+                      <th className="text-right font-medium px-4 py-2">Cost Basis</th>
+                      <th className="text-right font-medium px-4 py-2">Gain</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...realizedGains]
+                      .sort((a, b) => b.sale.date.localeCompare(a.sale.date))
+                      .map((gain, index) => (
+                        <tr key={`${gain.sale.date}-${gain.lot.lotUid}-${index}`} className="border-t">
+                          <td className="px-4 py-2">
+                            {formatDate(gain.sale.date)} · {gain.lot.company}
+                            {gain.sale.lotSelection === 'specific' && <span className="text-xs text-gray-500"> (specific lots)</span>}
+                          </td>
+                          <td className="px-4 py-2">
+                            {formatDate(gain.lot.acquiredDate)}
+                            <Badge variant="outline" className="ml-2">{gain.term === 'long' ? 'Long-term' : 'Short-term'}</Badge>
+                          </td>
+                          <td className="px-4 py-2 text-right">{formatNumber(gain.shares)}</td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(gain.proceeds, gain.sale.currency)}</td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(gain.costBasis, gain.lot.currency)}</td>
+                          <td className={cn('px-4 py-2 text-right', gainClass(gain.gain))}>{formatCurrency(gain.gain, gain.lot.currency)}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <RecordVestLotsDialog
+        isOpen={showVestLots}
+        onClose={() => setShowVestLots(false)}
+        onSuccess={onChange}
+        grants={rsuGrants}
+        lots={lots}
+        valuations={valuations}
+      />
+
+      <RecordSaleDialog
+        isOpen={showSale}
+        onClose={() => setShowSale(false)}
+        onSuccess={onChange}
+        lots={lots}
+        sales={sales}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { RecordSaleDialog } from './RecordSaleDialog';
+export { RecordVestLotsDialog } from './RecordVestLotsDialog';
+export { ShareLotsView } from './ShareLotsView';
\ No newline at end of file
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RotateCcw } from 'lucide-react';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { SyncService } from '@/services/syncService';
+import { RevisionDiff } from '@/lib/revisions';
+import type { CompensationRecord, RecordRevision } from '@/lib/db/types';
+
+interface RecordHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReverted: () => void;
+  record: CompensationRecord | null;
+  title?: string; // What the record is, e.g. "Engineer at Acme"
+}
+
+interface VersionEntry {
+  version: number;
+  revision: RecordRevision | null; // null for the record's current payload
+  data: unknown; // undefined when the payload could not be decrypted
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length === 0 ? 'None' : value.join(', ');
+  return String(value);
+};
+
+/**
+ * Earlier versions of a record, decrypted on this device, with what each edit
+ * changed and a way back to any of them
+ */
+export function RecordHistoryDialog({ isOpen, onClose, onReverted, record, title }: RecordHistoryDialogProps) {
+  const [versions, setVersions] = useState<VersionEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const { decryptData } = useVault();
+  const { formatDate } = usePreferences();
+
+  useEffect(() => {
+    if (!isOpen || !record || record.id === undefined) return;
+
+    let cancelled = false;
+    const loadHistory = async () => {
+      setIsLoading(true);
+      try {
+        // Edits made on other devices are only fetched when the history is opened
+        await SyncService.pullRevisions(record);
+        const revisions = await LocalStorageService.getRecordRevisions(record.id!);
+
+        const decrypt = async (encryptedData: CompensationRecord['encryptedData']) => {
+          try {
+            const decryptionResult = await decryptData(encryptedData);
+            return decryptionResult.success ? JSON.parse(decryptionResult.data) : undefined;
+          } catch (error) {
+            console.error('Failed to decrypt revision:', error);
+            return undefined;
+          }
+        };
+
+        const entries: VersionEntry[] = [
+          { version: record.version, revision: null, data: await decrypt(record.encryptedData) },
+        ];
+        for (const revision of revisions) {
+          entries.push({ version: revision.version, revision, data: await decrypt(revision.encryptedData) });
+        }
+
+        if (!cancelled) setVersions(entries);
+      } catch (error) {
+        console.error('Error loading record history:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, record, decryptData]);
+
+  const handleRevert = async (revision: RecordRevision) => {
+    if (!record?.id) return;
+
+    setRevertingId(revision.id!);
+    try {
+      await LocalStorageService.revertCompensationRecord(record.id, revision.id!);
+      onReverted();
+      onClose();
+    } catch (error) {
+      console.error('Error reverting record:', error);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History</DialogTitle>
+          <DialogDescription>
+            {title ? `${title}. ` : ''}Each version shows what the edit after the previous one changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-16 rounded bg-gray-100 dark:bg-gray-800 animate-pulse" />
+            ))}
+          </div>
+        ) : versions.length <= 1 ? (
+          <p className="text-sm text-gray-500">This record has not been edited since it was added.</p>
+        ) : (
+          <div className="space-y-4">
+            {versions.map((entry, index) => {
+              const previous = versions[index + 1];
+              const changes = previous && entry.data !== undefined && previous.data !== undefined
+                ? RevisionDiff.diff(previous.data, entry.data)
+                : [];
+
+              return (
+                <div key={entry.revision?.id ?? 'current'} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Version {entry.version}</span>
+                      {entry.revision ? (
+                        <span className="text-xs text-gray-500">replaced {formatDate(new Date(entry.revision.createdAt))}</span>
+                      ) : (
+                        <Badge variant="secondary">Current</Badge>
+                      )}
+                    </div>
+                    {entry.revision && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={revertingId !== null || entry.data === undefined}
+                        onClick={() => handleRevert(entry.revision!)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        {revertingId === entry.revision.id ? 'Reverting...' : 'Revert to this version'}
+                      </Button>
+                    )}
+                  </div>
+
+                  {entry.data === undefined ? (
+                    <p className="text-sm text-gray-500">Could not be decrypted.</p>
+                  ) : !previous ? (
+                    <p className="text-sm text-gray-500">Earliest saved version.</p>
+                  ) : previous.data === undefined ? (
+                    <p className="text-sm text-gray-500">The version before could not be decrypted to compare.</p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-sm text-gray-500">Saved without changes.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="text-gray-600 dark:text-gray-400">
+                        <tr>
+                          <th className="text-left font-medium py-1">Field</th>
+                          <th className="text-left font-medium py-1">Before</th>
+                          <th className="text-left font-medium py-1">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changes.map(change => (
+                          <tr key={change.path} className="border-t align-top">
+                            <td className="py-1 pr-2 text-gray-600 dark:text-gray-400">{RevisionDiff.formatPath(change.path)}</td>
+                            <td className="py-1 pr-2 text-red-700 line-through decoration-red-300">{formatValue(change.before)}</td>
+                            <td className="py-1 text-green-700">{formatValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
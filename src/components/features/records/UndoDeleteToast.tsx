@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Undo2, X } from 'lucide-react';
+import { LocalStorageService } from '@/services/localStorageService';
+import type { CompensationRecord } from '@/lib/db/types';
+
+const UNDO_WINDOW_MS = 10000;
+
+interface DeletedRecord {
+  id: number;
+  label: string;
+}
+
+/**
+ * Move compensation records to the trash after a confirmation, offering a
+ * one-click restore for a few seconds. Both steps sync like any other edit.
+ */
+export function useUndoableDelete(onChange: () => void) {
+  const [deleted, setDeleted] = useState<DeletedRecord | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearTimer = () => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+  };
+
+  useEffect(() => clearTimer, []);
+
+  const deleteRecord = useCallback(async (record: CompensationRecord, label: string) => {
+    if (record.id === undefined || !confirm(`Delete ${label}?`)) return;
+
+    try {
+      await LocalStorageService.deleteCompensationRecord(record.id);
+      clearTimer();
+      setDeleted({ id: record.id, label });
+      timer.current = setTimeout(() => setDeleted(null), UNDO_WINDOW_MS);
+      onChange();
+    } catch (error) {
+      console.error('Error deleting record:', error);
+    }
+  }, [onChange]);
+
+  const undo = useCallback(async () => {
+    if (!deleted) return;
+
+    clearTimer();
+    setDeleted(null);
+    try {
+      await LocalStorageService.restoreCompensationRecord(deleted.id);
+      onChange();
+    } catch (error) {
+      console.error('Error restoring record:', error);
+    }
+  }, [deleted, onChange]);
+
+  const dismiss = useCallback(() => {
+    clearTimer();
+    setDeleted(null);
+  }, []);
+
+  return { deleted, deleteRecord, undo, dismiss };
+}
+
+interface UndoDeleteToastProps {
+  deleted: DeletedRecord | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export function UndoDeleteToast({ deleted, onUndo, onDismiss }: UndoDeleteToastProps) {
+  if (!deleted) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 right-6 z-50 flex items-center gap-3 rounded-md bg-gray-900 px-4 py-3 text-sm text-white shadow-lg"
+    >
+      <span>
+        Moved {deleted.label} to the{' '}
+        <Link href="/dashboard/trash" className="underline">trash</Link>
+      </span>
+      <Button variant="secondary" size="sm" onClick={onUndo}>
+        <Undo2 className="h-4 w-4 mr-1" />
+        Undo
+      </Button>
+      <button type="button" className="text-gray-400 hover:text-white" onClick={onDismiss} aria-label="Dismiss">
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
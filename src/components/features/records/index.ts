@@ -0,0 +1,2 @@
+export { useUndoableDelete, UndoDeleteToast } from './UndoDeleteToast';
+export { RecordHistoryDialog } from './RecordHistoryDialog';
\ No newline at end of file
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DisplayCurrencySelect } from '../fx';
+import { FileText, Database } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { AuditService } from '@/services/auditService';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { CSVExporter, JSONExporter, exportUtils } from '@/utils/exporters';
+import type {
+  DecryptedSalaryData,
+  DecryptedBonusData,
+  DecryptedEquityData,
+  DecryptedEsppData,
+  DecryptedValuationData,
+  DecryptedPriceHistoryData,
+} from '@/lib/db/types';
+import type { CompTimelineInput } from '@/lib/compensation';
+import { CompensationReports, type Report, type ReportColumn, type ReportRow } from '@/lib/reports';
+import { PriceHistory } from '@/lib/prices';
+
+type Formatters = Pick<ReturnType<typeof usePreferences>, 'formatCurrency' | 'formatNumber' | 'formatDate'>;
+
+const formatValue = (report: Report, column: ReportColumn, row: ReportRow, formatters: Formatters) => {
+  const { formatCurrency, formatNumber, formatDate } = formatters;
+  const value = row[column.key];
+  if (value === null || value === undefined || value === '') return '—';
+
+  switch (column.kind) {
+    case 'currency': {
+      const currency = typeof row.currency === 'string' ? row.currency : report.currency;
+      return formatCurrency(Number(value), currency);
+    }
+    case 'percent':
+      return `${Number(value) > 0 ? '+' : ''}${formatNumber(Number(value), { minimumFractionDigits: 2, maximumFractionDigits: 2 })}%`;
+    case 'number':
+      return formatNumber(Number(value));
+    case 'date':
+      return formatDate(String(value));
+    default:
+      return String(value);
+  }
+};
+
+export function ReportsView() {
+  const [input, setInput] = useState<CompTimelineInput | null>(null);
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { decryptData } = useVault();
+  const formatters = usePreferences();
+  const { preferences } = formatters;
+  const { displayCurrency, normalize } = useCurrency();
+
+  const loadReportData = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const [salaries, bonuses, equity, espp, valuations, histories] = await Promise.all([
+        LocalStorageService.getCompensationRecords(user.id, 'salary'),
+        LocalStorageService.getCompensationRecords(user.id, 'bonus'),
+        LocalStorageService.getCompensationRecords(user.id, 'equity'),
+        LocalStorageService.getCompensationRecords(user.id, 'espp'),
+        LocalStorageService.getCompensationRecords(user.id, 'valuation'),
+        LocalStorageService.getPriceHistories(user.id),
+      ]);
+
+      const decryptAll = async <T,>(records: Array<{ encryptedData: Parameters<typeof decryptData>[0] }>) => {
+        const decrypted: T[] = [];
+        for (const record of records) {
+          try {
+            const decryptionResult = await decryptData(record.encryptedData);
+            if (decryptionResult.success) {
+              decrypted.push(JSON.parse(decryptionResult.data));
+            }
+          } catch (error) {
+            console.error('Failed to decrypt record:', error);
+          }
+        }
+        return decrypted;
+      };
+
+      const priceHistories = await decryptAll<DecryptedPriceHistoryData>(histories);
+      setInput({
+        salaries: await decryptAll<DecryptedSalaryData>(salaries),
+        bonuses: await decryptAll<DecryptedBonusData>(bonuses),
+        grants: await decryptAll<DecryptedEquityData>(equity),
+        esppPlans: await decryptAll<DecryptedEsppData>(espp),
+        valuations: (await decryptAll<DecryptedValuationData>(valuations))
+          .concat(PriceHistory.toValuations(priceHistories)),
+      });
+    } catch (error) {
+      console.error('Error loading report data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, decryptData]);
+
+  useEffect(() => {
+    loadReportData();
+  }, [loadReportData]);
+
+  // Currencies used by any record, with the preferred currency first when it is used
+  const currencies = useMemo(() => {
+    if (!input) return [];
+    const current = input.salaries.find(salary => salary.isCurrentPosition)?.currency;
+    const used = new Set([
+      ...input.salaries.map(salary => salary.currency),
+      ...input.bonuses.map(bonus => bonus.currency),
+      ...input.esppPlans.map(plan => plan.currency),
+    ]);
+    const first = used.has(preferences.currency) ? preferences.currency : current;
+    const all = new Set([
+      ...(first ? [first] : []),
+      ...used,
+      ...input.valuations.map(valuation => valuation.currency),
+    ]);
+    return Array.from(all);
+  }, [input, preferences.currency]);
+
+  // With a display currency every record is converted into it; otherwise reports cover one currency at a time
+  const normalized = useMemo(() => (input ? normalize(input) : null), [input, normalize]);
+  const selectedCurrency = displayCurrency ?? currency ?? currencies[0] ?? preferences.currency;
+
+  const reports = useMemo(
+    () => (input ? CompensationReports.buildAll(normalized?.input ?? input, { currency: selectedCurrency }) : []),
+    [input, normalized, selectedCurrency]
+  );
+
+  const handleExport = (report: Report, exportFormat: 'csv' | 'json') => {
+    const filename = exportUtils.generateFilename(`report-${report.id}`, exportFormat);
+    if (exportFormat === 'csv') {
+      CSVExporter.downloadTable(report.rows, report.columns, filename);
+    } else {
+      JSONExporter.downloadTable(report, filename);
+    }
+    if (user) {
+      AuditService.log(user.id, 'export', `${report.title} report as ${exportFormat.toUpperCase()}`);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-2xl font-bold">Reports</h2>
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardHeader className="pb-2">
+              <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-1/3"></div>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-full"></div>
+                <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-1/2"></div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  const hasData = input !== null && (
+    input.salaries.length > 0
+    || input.bonuses.length > 0
+    || input.grants.length > 0
+    || input.esppPlans.length > 0
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">Reports</h2>
+        <div className="flex items-center gap-4">
+          <DisplayCurrencySelect currencies={currencies} />
+          {!displayCurrency && currencies.length > 1 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Currency</span>
+              <Select value={selectedCurrency} onValueChange={setCurrency}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {normalized && hasData && (normalized.convertedRecords > 0 || normalized.missingRates > 0) && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {normalized.convertedRecords > 0 && (
+            <>
+              ≈ {normalized.convertedRecords} record{normalized.convertedRecords > 1 ? 's are' : ' is'} converted
+              to {selectedCurrency} at the rate on {normalized.convertedRecords > 1 ? 'their' : 'its'} own date.{' '}
+            </>
+          )}
+          {normalized.missingRates > 0 && (
+            <span className="text-amber-700">
+              {normalized.missingRates} record{normalized.missingRates > 1 ? 's have' : ' has'} no exchange rate
+              to {selectedCurrency} and {normalized.missingRates > 1 ? 'are' : 'is'} left out; add rates in Settings.
+            </span>
+          )}
+        </p>
+      )}
+
+      {!hasData ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">No compensation records yet. Add salaries, bonuses or equity to see reports.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        reports.map(report => (
+          <Card key={report.id}>
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="text-lg">{report.title}</CardTitle>
+                  <p className="text-sm text-gray-500">{report.description}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={report.rows.length === 0}
+                    onClick={() => handleExport(report, 'csv')}
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    CSV
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={report.rows.length === 0}
+                    onClick={() => handleExport(report, 'json')}
+                  >
+                    <Database className="h-4 w-4 mr-2" />
+                    JSON
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {report.rows.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4">No records in {report.currency} for this report.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-gray-600 dark:text-gray-400">
+                      <tr>
+                        {report.columns.map(column => (
+                          <th
+                            key={column.key}
+                            className={`font-medium py-1 whitespace-nowrap ${column.kind === 'text' || column.kind === 'date' ? 'text-left' : 'text-right'}`}
+                          >
+                            {column.label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.rows.map((row, index) => (
+                        <tr key={index} className="border-t">
+                          {report.columns.map(column => (
+                            <td
+                              key={column.key}
+                              className={`py-2 whitespace-nowrap ${column.kind === 'text' || column.kind === 'date' ? 'text-left' : 'text-right'}`}
+                            >
+                              {formatValue(report, column, row, formatters)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
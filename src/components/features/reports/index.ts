@@ -0,0 +1 @@
+export { ReportsView } from './ReportsView';
\ No newline at end of file
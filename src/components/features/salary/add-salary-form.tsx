@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
@@ -8,65 +8,88 @@ import { Input } from '@/components/ui/input';
 import { Controller } from 'react-hook-form';
 import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
 import { FormLabel } from '@/components/ui/form-label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { salarySchema, type SalaryFormData, currencyOptions } from '@/lib/validations/salary';
+import { salarySchema, type SalaryFormData } from '@/lib/validations/salary';
+import type { CompensationRecord, DecryptedSalaryData } from '@/lib/db/types';
 import { useAuth } from '@/contexts/AuthContext';
-import { EncryptionService } from '@/services/encryptionService';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import { LocalStorageService } from '@/services/localStorageService';
 import { format } from 'date-fns';
+import { CurrencyPicker } from '../currency';
 
 interface AddSalaryFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  record?: CompensationRecord & { decryptedData: DecryptedSalaryData }; // Edits this salary instead of adding one
 }
 
-export function AddSalaryForm({ isOpen, onClose, onSuccess }: AddSalaryFormProps) {
+const emptyValues = (currency: string): SalaryFormData => ({
+  company: '',
+  title: '',
+  location: '',
+  amount: 0,
+  currency,
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  endDate: '',
+  isCurrentPosition: true,
+  notes: '',
+});
+
+export function AddSalaryForm({ isOpen, onClose, onSuccess, record }: AddSalaryFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences } = usePreferences();
   
   const form = useForm<SalaryFormData>({
     resolver: zodResolver(salarySchema),
-    defaultValues: {
-      company: '',
-      title: '',
-      location: '',
-      amount: 0,
-      currency: 'USD',
-      startDate: format(new Date(), 'yyyy-MM-dd'),
-      endDate: '',
-      isCurrentPosition: true,
-      notes: '',
-    },
+    defaultValues: emptyValues(preferences.currency),
   });
 
+  // Prefill from the record being edited each time the dialog opens
+  useEffect(() => {
+    if (isOpen && record) {
+      form.reset({ ...emptyValues(record.decryptedData.currency), ...record.decryptedData });
+    }
+  }, [isOpen, record, form]);
+
+  const handleClose = () => {
+    form.reset(emptyValues(preferences.currency));
+    onClose();
+  };
+
   const onSubmit = async (data: SalaryFormData) => {
     if (!user) return;
     
     setIsLoading(true);
     try {
-      // For now, we'll use a default password. In a real app, this would come from user authentication
-      const userPassword = 'default-password'; // TODO: Get from secure context
-      
       // Encrypt the sensitive data
-      const encryptedData = await EncryptionService.encryptData(JSON.stringify(data), userPassword);
+      const encryptedData = await encryptData(JSON.stringify(data));
       
       // Store locally first (local-first architecture)
-      await LocalStorageService.addCompensationRecord({
-        userId: user.id,
-        type: 'salary',
-        encryptedData,
-        currency: data.currency,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-        syncStatus: 'pending',
-        version: 1,
-      });
+      if (record?.id !== undefined) {
+        await LocalStorageService.updateCompensationRecord(record.id, {
+          encryptedData,
+          currency: data.currency,
+          version: record.version,
+        });
+      } else {
+        await LocalStorageService.addCompensationRecord({
+          userId: user.id,
+          type: 'salary',
+          encryptedData,
+          currency: data.currency,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          syncStatus: 'pending',
+          version: 1,
+        });
+      }
 
       onSuccess();
-      onClose();
-      form.reset();
+      handleClose();
     } catch (error) {
       console.error('Error saving salary:', error);
     } finally {
@@ -75,10 +98,10 @@ export function AddSalaryForm({ isOpen, onClose, onSuccess }: AddSalaryFormProps
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Add New Salary</DialogTitle>
+          <DialogTitle>{record ? 'Edit Salary' : 'Add New Salary'}</DialogTitle>
         </DialogHeader>
         
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -152,20 +175,9 @@ export function AddSalaryForm({ isOpen, onClose, onSuccess }: AddSalaryFormProps
               render={({ field, fieldState }) => (
                 <FormItem>
                   <FormLabel>Currency</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select currency" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {currencyOptions.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label} {option.value}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <FormControl>
+                    <CurrencyPicker {...field} />
+                  </FormControl>
                   {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
                 </FormItem>
               )}
@@ -207,7 +219,7 @@ export function AddSalaryForm({ isOpen, onClose, onSuccess }: AddSalaryFormProps
               type="checkbox"
               id="isCurrentPosition"
               {...form.register('isCurrentPosition')}
-              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              className="rounded border-gray-300 dark:border-gray-700 text-blue-600 focus:ring-blue-500"
             />
             <FormLabel htmlFor="isCurrentPosition">This is my current position</FormLabel>
           </div>
@@ -231,7 +243,7 @@ export function AddSalaryForm({ isOpen, onClose, onSuccess }: AddSalaryFormProps
           />
 
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={onClose}>
+            <Button type="button" variant="outline" onClick={handleClose}>
               Cancel
             </Button>
             <Button type="submit" disabled={isLoading}>
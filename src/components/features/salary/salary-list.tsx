@@ -4,13 +4,13 @@ import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Edit, Trash2, MapPin, Calendar, DollarSign } from 'lucide-react';
+import { Edit, History, Trash2, MapPin, Calendar, DollarSign } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { LocalStorageService } from '@/services/localStorageService';
-import { EncryptionService } from '@/services/encryptionService';
-import { format } from 'date-fns';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import type { CompensationRecord, DecryptedSalaryData } from '@/lib/db/types';
-import { currencyOptions } from '@/lib/validations/salary';
 
 interface DecryptedSalaryRecord extends CompensationRecord {
   decryptedData: DecryptedSalaryData;
@@ -19,13 +19,23 @@ interface DecryptedSalaryRecord extends CompensationRecord {
 interface SalaryListProps {
   onEdit?: (record: DecryptedSalaryRecord) => void;
   onDelete?: (record: DecryptedSalaryRecord) => void;
+  onHistory?: (record: DecryptedSalaryRecord) => void;
   refreshTrigger?: number;
 }
 
-export function SalaryList({ onEdit, onDelete, refreshTrigger }: SalaryListProps) {
+export function SalaryList({ onEdit, onDelete, onHistory, refreshTrigger }: SalaryListProps) {
   const [salaries, setSalaries] = useState<DecryptedSalaryRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { decryptData } = useVault();
+  const { formatCurrency, formatDate } = usePreferences();
+  const { displayCurrency, convert } = useCurrency();
+
+  // Current salaries convert at today's rate, past ones at the rate when they started
+  const convertSalary = (salary: DecryptedSalaryData) =>
+    salary.currency === displayCurrency
+      ? null
+      : convert(salary.amount, salary.currency, salary.isCurrentPosition ? undefined : salary.startDate);
 
   const loadSalaries = useCallback(async () => {
     if (!user) return;
@@ -34,13 +44,10 @@ export function SalaryList({ onEdit, onDelete, refreshTrigger }: SalaryListProps
       setLoading(true);
       const records = await LocalStorageService.getCompensationRecords(user.id, 'salary');
       
-      // For now, we'll use a default password. In a real app, this would come from secure context
-      const userPassword = 'default-password'; // TODO: Get from secure context
-      
       const decryptedRecords = await Promise.all(
         records.map(async (record) => {
           try {
-            const decryptResult = await EncryptionService.decryptData(record.encryptedData, userPassword);
+            const decryptResult = await decryptData(record.encryptedData);
             if (decryptResult.success) {
               const decryptedData = JSON.parse(decryptResult.data) as DecryptedSalaryData;
               return { ...record, decryptedData };
@@ -61,32 +68,23 @@ export function SalaryList({ onEdit, onDelete, refreshTrigger }: SalaryListProps
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, decryptData]);
 
   useEffect(() => {
     loadSalaries();
   }, [user, refreshTrigger, loadSalaries]);
 
-  const formatCurrency = (amount: number, currency: string) => {
-    const currencySymbol = currencyOptions.find(c => c.value === currency)?.label || currency;
-    return `${currencySymbol}${amount.toLocaleString()}`;
-  };
-
-  const formatDate = (dateString: string) => {
-    return format(new Date(dateString), 'MMM yyyy');
-  };
-
   if (loading) {
     return (
       <div className="space-y-4">
         {[...Array(3)].map((_, i) => (
           <Card key={i} className="animate-pulse">
             <CardHeader>
-              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
-              <div className="h-3 bg-gray-200 rounded w-1/2"></div>
+              <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-3/4"></div>
+              <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-1/2"></div>
             </CardHeader>
             <CardContent>
-              <div className="h-3 bg-gray-200 rounded w-full"></div>
+              <div className="h-3 bg-gray-200 dark:bg-gray-800 rounded w-full"></div>
             </CardContent>
           </Card>
         ))}
@@ -99,7 +97,7 @@ export function SalaryList({ onEdit, onDelete, refreshTrigger }: SalaryListProps
       <Card>
         <CardContent className="text-center py-8">
           <DollarSign className="mx-auto h-12 w-12 text-gray-400" />
-          <h3 className="mt-2 text-sm font-medium text-gray-900">No salary records</h3>
+          <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-100">No salary records</h3>
           <p className="mt-1 text-sm text-gray-500">
             Get started by adding your first salary record.
           </p>
@@ -110,79 +108,97 @@ export function SalaryList({ onEdit, onDelete, refreshTrigger }: SalaryListProps
 
   return (
     <div className="space-y-4">
-      {salaries.map((salary) => (
-        <Card key={salary.id} className="hover:shadow-md transition-shadow">
-          <CardHeader className="pb-3">
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <CardTitle className="text-lg">{salary.decryptedData.title}</CardTitle>
-                <CardDescription className="text-base font-medium text-gray-700">
-                  {salary.decryptedData.company}
-                </CardDescription>
-              </div>
-              <div className="flex items-center space-x-2">
-                {salary.decryptedData.isCurrentPosition && (
-                  <Badge variant="secondary" className="bg-green-100 text-green-800">
-                    Current
-                  </Badge>
-                )}
-                <div className="text-right">
-                  <div className="text-lg font-semibold text-gray-900">
-                    {formatCurrency(salary.decryptedData.amount, salary.decryptedData.currency)}
+      {salaries.map((salary) => {
+        const converted = convertSalary(salary.decryptedData);
+        return (
+          <Card key={salary.id} className="hover:shadow-md transition-shadow">
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <CardTitle className="text-lg">{salary.decryptedData.title}</CardTitle>
+                  <CardDescription className="text-base font-medium text-gray-700 dark:text-gray-300">
+                    {salary.decryptedData.company}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {salary.decryptedData.isCurrentPosition && (
+                    <Badge variant="secondary" className="bg-green-100 text-green-800">
+                      Current
+                    </Badge>
+                  )}
+                  <div className="text-right">
+                    <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                      {formatCurrency(salary.decryptedData.amount, salary.decryptedData.currency, { maximumFractionDigits: 0 })}
+                    </div>
+                    <div className="text-sm text-gray-500">per year</div>
+                    {converted && (
+                      <div className="text-sm text-gray-500">
+                        ≈ {formatCurrency(converted.amount, converted.currency, { maximumFractionDigits: 0 })} converted
+                      </div>
+                    )}
                   </div>
-                  <div className="text-sm text-gray-500">per year</div>
                 </div>
               </div>
-            </div>
-          </CardHeader>
-          
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-              <div className="flex items-center text-gray-600">
-                <MapPin className="h-4 w-4 mr-2" />
-                {salary.decryptedData.location}
-              </div>
-              <div className="flex items-center text-gray-600">
-                <Calendar className="h-4 w-4 mr-2" />
-                {formatDate(salary.decryptedData.startDate)}
-                {salary.decryptedData.endDate && (
-                  <span> - {formatDate(salary.decryptedData.endDate)}</span>
-                )}
-              </div>
-              <div className="flex items-center justify-end space-x-2">
-                {onEdit && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => onEdit(salary)}
-                    className="text-blue-600 hover:text-blue-700"
-                  >
-                    <Edit className="h-4 w-4 mr-1" />
-                    Edit
-                  </Button>
-                )}
-                {onDelete && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => onDelete(salary)}
-                    className="text-red-600 hover:text-red-700"
-                  >
-                    <Trash2 className="h-4 w-4 mr-1" />
-                    Delete
-                  </Button>
-                )}
-              </div>
-            </div>
+            </CardHeader>
             
-            {salary.decryptedData.notes && (
-              <div className="mt-3 pt-3 border-t border-gray-200">
-                <p className="text-sm text-gray-600">{salary.decryptedData.notes}</p>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="flex items-center text-gray-600 dark:text-gray-400">
+                  <MapPin className="h-4 w-4 mr-2" />
+                  {salary.decryptedData.location}
+                </div>
+                <div className="flex items-center text-gray-600 dark:text-gray-400">
+                  <Calendar className="h-4 w-4 mr-2" />
+                  {formatDate(salary.decryptedData.startDate)}
+                  {salary.decryptedData.endDate && (
+                    <span> - {formatDate(salary.decryptedData.endDate)}</span>
+                  )}
+                </div>
+                <div className="flex items-center justify-end space-x-2">
+                  {onHistory && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onHistory(salary)}
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      History
+                    </Button>
+                  )}
+                  {onEdit && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onEdit(salary)}
+                      className="text-blue-600 hover:text-blue-700"
+                    >
+                      <Edit className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  )}
+                  {onDelete && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onDelete(salary)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
               </div>
-            )}
-          </CardContent>
-        </Card>
-      ))}
+              
+              {salary.decryptedData.notes && (
+                <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-800">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{salary.decryptedData.notes}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,320 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm, Controller, type Path } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Palette, Globe, Bell, ShieldCheck, Lock } from 'lucide-react';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { preferencesSchema, type PreferencesFormData, themeOptions } from '@/lib/validations/preferences';
+import {
+  Preferences,
+  DATE_FORMAT_OPTIONS,
+  NUMBER_FORMAT_OPTIONS,
+  SESSION_TIMEOUT_OPTIONS,
+  TRASH_RETENTION_OPTIONS,
+} from '@/lib/preferences';
+import { CurrencyPicker } from '../currency';
+
+const formatTimeout = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`;
+
+const formatRetention = (days: number) =>
+  days === 0 ? 'Never; keep until I empty the trash' : days === 365 ? 'After a year' : `After ${days} days`;
+
+export function SettingsView() {
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const { preferences, isLoading, updatePreferences } = usePreferences();
+
+  const form = useForm<PreferencesFormData>({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: preferences,
+  });
+
+  // Show saved preferences once loaded, or when another device changes them
+  useEffect(() => {
+    form.reset(preferences);
+  }, [preferences, form]);
+
+  const onSubmit = async (data: PreferencesFormData) => {
+    setIsSaving(true);
+    setSaveMessage(null);
+    try {
+      await updatePreferences(data);
+      setSaveMessage({ type: 'success', text: 'Settings saved' });
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      setSaveMessage({ type: 'error', text: 'Failed to save settings. Please try again.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const values = form.watch();
+  const preview = {
+    date: Preferences.formatDate(new Date(), values),
+    amount: Preferences.formatCurrency(1234567.89, values.currency, values),
+  };
+
+  const checkbox = (name: Path<PreferencesFormData>, label: string, description: string) => (
+    <div className="flex items-start space-x-3">
+      <input
+        type="checkbox"
+        id={name}
+        {...form.register(name)}
+        className="mt-1 rounded border-gray-300 dark:border-gray-700 text-blue-600 focus:ring-blue-500"
+      />
+      <div>
+        <FormLabel htmlFor={name}>{label}</FormLabel>
+        <p className="text-sm text-gray-500">{description}</p>
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-2xl font-bold">Settings</h2>
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardHeader className="pb-2">
+              <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-1/4"></div>
+            </CardHeader>
+            <CardContent>
+              <div className="h-10 bg-gray-200 dark:bg-gray-800 rounded w-full"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">Settings</h2>
+        <div className="flex items-center gap-3">
+          {saveMessage && (
+            <span className={saveMessage.type === 'success' ? 'text-sm text-green-600' : 'text-sm text-red-600'}>
+              {saveMessage.text}
+            </span>
+          )}
+          <Button type="submit" disabled={isSaving || !form.formState.isDirty}>
+            {isSaving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5" />
+            Appearance
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Controller
+            control={form.control}
+            name="theme"
+            render={({ field }) => (
+              <FormItem className="max-w-xs">
+                <FormLabel>Theme</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {themeOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" />
+            Currency & Formats
+          </CardTitle>
+          <CardDescription>
+            The default currency for new records, and how dates and amounts appear in lists and exports.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Controller
+              control={form.control}
+              name="currency"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Default Currency</FormLabel>
+                  <FormControl>
+                    <CurrencyPicker {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="dateFormat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date Format</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DATE_FORMAT_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="numberFormat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Number Format</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {NUMBER_FORMAT_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            Preview: {preview.date} · {preview.amount}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notifications
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {checkbox('notifications.syncUpdates', 'Sync updates', 'When records change on another device.')}
+          {checkbox('notifications.vestingReminders', 'Vesting reminders', 'Ahead of upcoming vest dates.')}
+          {checkbox('notifications.bonusAlerts', 'Bonus alerts', 'When a bonus payroll date is near.')}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Privacy
+          </CardTitle>
+          <CardDescription>Compensation data is always encrypted on this device before it syncs.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {checkbox('privacy.enableAnalytics', 'Usage analytics', 'Anonymous feature usage, never compensation data.')}
+          {checkbox('privacy.shareUsageData', 'Share diagnostics', 'Error reports, never compensation data.')}
+          <Controller
+            control={form.control}
+            name="privacy.trashRetentionDays"
+            render={({ field, fieldState }) => (
+              <FormItem className="max-w-xs">
+                <FormLabel>Permanently delete trashed records</FormLabel>
+                <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TRASH_RETENTION_OPTIONS.map((days) => (
+                      <SelectItem key={days} value={String(days)}>
+                        {formatRetention(days)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Security
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Controller
+            control={form.control}
+            name="security.sessionTimeout"
+            render={({ field, fieldState }) => (
+              <FormItem className="max-w-xs">
+                <FormLabel>Lock the vault after</FormLabel>
+                <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {SESSION_TIMEOUT_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {formatTimeout(minutes)} of inactivity
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
+          {checkbox(
+            'security.requirePasswordForSensitiveActions',
+            'Confirm sensitive actions',
+            'Ask for the master password again before sensitive actions.'
+          )}
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
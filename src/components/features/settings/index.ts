@@ -0,0 +1 @@
+export { SettingsView } from './SettingsView';
\ No newline at end of file
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { LocalStorageService } from '@/services/localStorageService';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import type { CompensationRecord } from '@/lib/db/types';
+import { format } from 'date-fns';
+
+interface ConflictResolutionDialogProps {
+  record: CompensationRecord | null;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+type FieldChoice = 'mine' | 'theirs';
+
+interface FieldDiff {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+const formatFieldName = (field: string) =>
+  field
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (c) => c.toUpperCase());
+
+const formatFieldValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export function ConflictResolutionDialog({ record, onClose, onResolved }: ConflictResolutionDialogProps) {
+  const [mine, setMine] = useState<Record<string, unknown> | null>(null);
+  const [theirs, setTheirs] = useState<Record<string, unknown> | null>(null);
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { encryptData, decryptData } = useVault();
+  const { formatDate } = usePreferences();
+
+  // Decrypt both sides of the conflict client-side
+  useEffect(() => {
+    if (!record?.conflictData) return;
+
+    const decryptBoth = async () => {
+      setIsLoading(true);
+      setError(null);
+      setChoices({});
+      try {
+        const [localResult, remoteResult] = await Promise.all([
+          decryptData(record.encryptedData),
+          decryptData(record.conflictData!.encryptedData),
+        ]);
+
+        if (!localResult.success || !remoteResult.success) {
+          setError(localResult.error || remoteResult.error || 'Failed to decrypt record');
+          return;
+        }
+
+        setMine(JSON.parse(localResult.data));
+        setTheirs(JSON.parse(remoteResult.data));
+      } catch (err) {
+        console.error('Failed to decrypt conflicting versions:', err);
+        setError('Failed to decrypt conflicting versions');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    decryptBoth();
+  }, [record, decryptData]);
+
+  const diffs = useMemo<FieldDiff[]>(() => {
+    if (!mine || !theirs) return [];
+
+    const fields = Array.from(new Set([...Object.keys(mine), ...Object.keys(theirs)]));
+    return fields
+      .filter(field => JSON.stringify(mine[field]) !== JSON.stringify(theirs[field]))
+      .map(field => ({ field, mine: mine[field], theirs: theirs[field] }));
+  }, [mine, theirs]);
+
+  const resolve = async (strategy: 'keep-mine' | 'keep-theirs' | 'merge') => {
+    if (!record?.id || !mine || !theirs) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (strategy === 'merge') {
+        const merged: Record<string, unknown> = { ...mine };
+        diffs.forEach(({ field }) => {
+          const value = (choices[field] || 'mine') === 'mine' ? mine[field] : theirs[field];
+          if (value === undefined) {
+            delete merged[field];
+          } else {
+            merged[field] = value;
+          }
+        });
+
+        const encryptedData = await encryptData(JSON.stringify(merged));
+        const currency = typeof merged.currency === 'string' ? merged.currency : record.currency;
+
+        await LocalStorageService.resolveConflict(record.id, { strategy, encryptedData, currency });
+      } else {
+        await LocalStorageService.resolveConflict(record.id, { strategy });
+      }
+
+      onResolved();
+      onClose();
+    } catch (err) {
+      console.error('Failed to resolve conflict:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!record} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-600" />
+            Resolve Sync Conflict
+          </DialogTitle>
+          <DialogDescription>
+            This {record?.type} record was changed on another device
+            {record?.conflictData && ` on ${formatDate(new Date(record.conflictData.updatedAt))} ${format(record.conflictData.updatedAt, 'HH:mm')}`}.
+            Choose which version to keep, or pick fields from each to merge them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-sm text-gray-500 mt-2">Decrypting versions...</p>
+          </div>
+        ) : error ? null : diffs.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">
+            Both versions contain the same data. Keeping either one resolves the conflict.
+          </p>
+        ) : (
+          <div className="border rounded-md overflow-hidden">
+            <div className="grid grid-cols-3 gap-4 px-4 py-2 bg-gray-50 dark:bg-gray-800 text-sm font-medium text-gray-600 dark:text-gray-400">
+              <div>Field</div>
+              <div>Mine (this device)</div>
+              <div>Theirs (server)</div>
+            </div>
+            {diffs.map(({ field, mine: mineValue, theirs: theirsValue }) => {
+              const choice = choices[field] || 'mine';
+              return (
+                <div key={field} className="grid grid-cols-3 gap-4 px-4 py-3 border-t text-sm items-center">
+                  <div className="font-medium">{formatFieldName(field)}</div>
+                  {(['mine', 'theirs'] as const).map(side => (
+                    <label key={side} className="flex items-start gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`conflict-${field}`}
+                        checked={choice === side}
+                        onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                        className="mt-1"
+                      />
+                      <span className="break-words">
+                        {formatFieldValue(side === 'mine' ? mineValue : theirsValue)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm font-medium text-destructive">{error}</p>
+        )}
+
+        {record?.conflictData && (
+          <div className="flex gap-2 text-xs text-gray-500">
+            <Badge variant="secondary">Local v{record.version}</Badge>
+            <Badge variant="secondary">Server v{record.conflictData.version}</Badge>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => resolve('keep-theirs')} disabled={isSaving || isLoading || !!error}>
+            Keep Theirs
+          </Button>
+          <Button variant="outline" onClick={() => resolve('keep-mine')} disabled={isSaving || isLoading || !!error}>
+            Keep Mine
+          </Button>
+          <Button onClick={() => resolve('merge')} disabled={isSaving || isLoading || !!error || diffs.length === 0}>
+            {isSaving ? 'Saving...' : 'Merge Selected'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1 @@
+export { ConflictResolutionDialog } from './ConflictResolutionDialog';
\ No newline at end of file
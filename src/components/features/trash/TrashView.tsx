@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import type {
+  CompensationRecord,
+  CompensationType,
+  DecryptedSalaryData,
+  DecryptedBonusData,
+  DecryptedEquityData,
+  DecryptedValuationData,
+  DecryptedExerciseData,
+  DecryptedShareLotData,
+  DecryptedShareSaleData,
+  DecryptedEsppData,
+} from '@/lib/db/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TYPE_LABELS: Record<CompensationType, string> = {
+  salary: 'Salary',
+  bonus: 'Bonus',
+  equity: 'Equity grant',
+  valuation: 'Valuation',
+  exercise: 'Exercise',
+  shareLot: 'Share lot',
+  shareSale: 'Share sale',
+  espp: 'ESPP offering',
+};
+
+type Formatters = Pick<ReturnType<typeof usePreferences>, 'formatCurrency' | 'formatNumber' | 'formatDate'>;
+
+interface TrashEntry {
+  record: CompensationRecord;
+  summary: string | null; // null when the record could not be decrypted
+}
+
+const describeRecord = (type: CompensationType, data: unknown, formatters: Formatters): string => {
+  const { formatCurrency, formatNumber, formatDate } = formatters;
+
+  switch (type) {
+    case 'salary': {
+      const salary = data as DecryptedSalaryData;
+      return `${salary.title} at ${salary.company} · ${formatCurrency(salary.amount, salary.currency)} from ${formatDate(salary.startDate)}`;
+    }
+    case 'bonus': {
+      const bonus = data as DecryptedBonusData;
+      return `${bonus.company} ${bonus.type} bonus · ${formatCurrency(bonus.amount, bonus.currency)} on ${formatDate(bonus.date)}`;
+    }
+    case 'equity': {
+      const grant = data as DecryptedEquityData;
+      return `${grant.company} ${grant.type} · ${formatNumber(grant.shares)} shares granted ${formatDate(grant.grantDate)}`;
+    }
+    case 'valuation': {
+      const valuation = data as DecryptedValuationData;
+      return `${valuation.company} · ${formatCurrency(valuation.pricePerShare, valuation.currency)}/share from ${formatDate(valuation.date)}`;
+    }
+    case 'exercise': {
+      const exercise = data as DecryptedExerciseData;
+      return `${exercise.company} ${exercise.equityType} · ${formatNumber(exercise.shares)} shares exercised ${formatDate(exercise.date)}`;
+    }
+    case 'shareLot': {
+      const lot = data as DecryptedShareLotData;
+      return `${lot.company} · ${formatNumber(lot.shares)} shares acquired ${formatDate(lot.acquiredDate)}`;
+    }
+    case 'shareSale': {
+      const sale = data as DecryptedShareSaleData;
+      return `${sale.company} · ${formatNumber(sale.shares)} shares sold ${formatDate(sale.date)}`;
+    }
+    case 'espp': {
+      const plan = data as DecryptedEsppData;
+      return `${plan.company} · offering ${formatDate(plan.offeringStart)} to ${formatDate(plan.offeringEnd)}`;
+    }
+  }
+};
+
+/**
+ * Deleted records, decrypted on this device, with restore and permanent delete
+ */
+export function TrashView() {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { decryptData } = useVault();
+  const formatters = usePreferences();
+  const { preferences, formatDate } = formatters;
+  const retentionDays = preferences.privacy.trashRetentionDays;
+
+  const loadTrash = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const records = await LocalStorageService.getDeletedCompensationRecords(user.id);
+      const decrypted = await Promise.all(
+        records.map(async (record) => {
+          try {
+            const decryptionResult = await decryptData(record.encryptedData);
+            if (!decryptionResult.success) {
+              console.error('Failed to decrypt deleted record:', decryptionResult.error);
+              return { record, summary: null };
+            }
+            return { record, summary: describeRecord(record.type, JSON.parse(decryptionResult.data), formatters) };
+          } catch (error) {
+            console.error('Failed to decrypt deleted record:', error);
+            return { record, summary: null };
+          }
+        })
+      );
+
+      setEntries(decrypted);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, decryptData, formatters]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (record: CompensationRecord) => {
+    try {
+      await LocalStorageService.restoreCompensationRecord(record.id!);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error restoring record:', error);
+    }
+  };
+
+  const handlePurge = async (record: CompensationRecord) => {
+    if (!confirm(`Permanently delete this ${TYPE_LABELS[record.type].toLowerCase()}? This cannot be undone.`)) return;
+
+    try {
+      await LocalStorageService.purgeCompensationRecord(record.id!);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error deleting record:', error);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${entries.length} records in the trash? This cannot be undone.`)) return;
+
+    try {
+      for (const { record } of entries) {
+        await LocalStorageService.purgeCompensationRecord(record.id!);
+      }
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+    } finally {
+      await loadTrash();
+    }
+  };
+
+  const daysLeft = (record: CompensationRecord) =>
+    Math.max(0, Math.ceil((record.deletedAt! + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-2xl font-bold">Trash</h2>
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardContent className="py-4">
+              <div className="h-4 bg-gray-200 dark:bg-gray-800 rounded w-2/3"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Trash</h2>
+          <p className="text-sm text-gray-500">
+            {retentionDays > 0
+              ? `Deleted records are permanently removed after ${retentionDays} days.`
+              : 'Deleted records are kept until you empty the trash.'}
+            {' '}
+            <Link href="/dashboard/settings" className="text-blue-600 hover:underline">Change in Settings</Link>
+          </p>
+        </div>
+        <Button variant="outline" className="text-red-600 hover:text-red-700" disabled={entries.length === 0} onClick={handleEmptyTrash}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Empty Trash
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">The trash is empty.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">{entries.length} deleted record{entries.length > 1 ? 's' : ''}</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {entries.map(({ record, summary }) => (
+              <div key={record.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{TYPE_LABELS[record.type]}</Badge>
+                    <span className="text-sm truncate">
+                      {summary ?? <span className="text-gray-500">Could not be decrypted</span>}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Deleted {formatDate(new Date(record.deletedAt!))}
+                    {retentionDays > 0 && ` · permanently removed in ${daysLeft(record)} day${daysLeft(record) === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(record)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => handlePurge(record)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete Forever
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
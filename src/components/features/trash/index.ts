@@ -0,0 +1 @@
+export { TrashView } from './TrashView';
\ No newline at end of file
@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Controller } from 'react-hook-form';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { valuationSchema, type ValuationFormData, valuationSourceOptions } from '@/lib/validations/valuation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { format } from 'date-fns';
+import { CurrencyPicker } from '../currency';
+
+interface AddValuationFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  companies?: string[]; // Offered as suggestions so names match the grants
+  defaultCompany?: string;
+}
+
+export function AddValuationForm({ isOpen, onClose, onSuccess, companies = [], defaultCompany }: AddValuationFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences } = usePreferences();
+
+  const form = useForm<ValuationFormData>({
+    resolver: zodResolver(valuationSchema),
+    defaultValues: {
+      company: defaultCompany ?? '',
+      date: format(new Date(), 'yyyy-MM-dd'),
+      pricePerShare: 0,
+      currency: preferences.currency,
+      source: '409a',
+      notes: '',
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen && defaultCompany) {
+      form.setValue('company', defaultCompany);
+    }
+  }, [isOpen, defaultCompany, form]);
+
+  const onSubmit = async (data: ValuationFormData) => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      // Encrypt the sensitive data
+      const encryptedData = await encryptData(JSON.stringify({ ...data, company: data.company.trim() }));
+
+      // Store locally first (local-first architecture)
+      await LocalStorageService.addCompensationRecord({
+        userId: user.id,
+        type: 'valuation',
+        encryptedData,
+        currency: data.currency,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        syncStatus: 'pending',
+        version: 1,
+      });
+
+      onSuccess();
+      onClose();
+      form.reset();
+    } catch (error) {
+      console.error('Error saving valuation:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Add Share Price</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <Controller
+              control={form.control}
+              name="company"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Company</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Google Inc." list="valuation-companies" {...field} />
+                  </FormControl>
+                  <datalist id="valuation-companies">
+                    {companies.map((company) => (
+                      <option key={company} value={company} />
+                    ))}
+                  </datalist>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="source"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Source</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select source" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {valuationSourceOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <Controller
+              control={form.control}
+              name="pricePerShare"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Price per Share</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      placeholder="10.00"
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="currency"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <FormControl>
+                    <CurrencyPicker {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="date"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Effective Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <Controller
+            control={form.control}
+            name="notes"
+            render={({ field, fieldState }) => (
+              <FormItem>
+                <FormLabel>Notes (optional)</FormLabel>
+                <FormControl>
+                  <textarea
+                    className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                    placeholder="e.g., Board-approved 409A, Series C price..."
+                    {...field}
+                  />
+                </FormControl>
+                {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+              </FormItem>
+            )}
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Share Price'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
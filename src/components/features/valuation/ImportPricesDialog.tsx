@@ -0,0 +1,235 @@
+'use client';
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Controller } from 'react-hook-form';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { priceImportSchema, type PriceImportFormData } from '@/lib/validations/valuation';
+import { PriceCSVParser, PriceHistory } from '@/lib/prices';
+import type { DecryptedPriceHistoryData, PriceHistoryRecord } from '@/lib/db/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { Upload } from 'lucide-react';
+import { CurrencyPicker } from '../currency';
+
+export type PriceHistoryEntry = PriceHistoryRecord & { decryptedData: DecryptedPriceHistoryData };
+
+interface ImportPricesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  companies?: string[]; // Offered as suggestions so names match the grants
+  priceHistories: PriceHistoryEntry[]; // Existing series; a matching ticker is merged into
+}
+
+/**
+ * Import daily closes for a ticker from a CSV the user downloaded themselves.
+ * Parsing happens in the browser; no price data is fetched or sent anywhere.
+ */
+export function ImportPricesDialog({ isOpen, onClose, onSuccess, companies = [], priceHistories }: ImportPricesDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { encryptData } = useVault();
+  const { preferences, formatDate } = usePreferences();
+
+  const form = useForm<PriceImportFormData>({
+    resolver: zodResolver(priceImportSchema),
+    defaultValues: {
+      ticker: '',
+      company: '',
+      currency: preferences.currency,
+    },
+  });
+
+  const parsed = useMemo(() => (csvText.trim() ? PriceCSVParser.parse(csvText) : null), [csvText]);
+  const range = parsed ? PriceHistory.getRange(parsed.prices) : null;
+
+  const ticker = form.watch('ticker');
+  const existing = priceHistories.find(
+    history => history.decryptedData.ticker === ticker.trim().toUpperCase()
+  );
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsvText(await file.text());
+    // Yahoo names downloads after the ticker, e.g. "AAPL.csv"
+    if (!form.getValues('ticker')) {
+      const guess = file.name.replace(/\.(csv|txt)$/i, '');
+      if (priceImportSchema.shape.ticker.safeParse(guess).success) {
+        form.setValue('ticker', guess.toUpperCase());
+      }
+    }
+  };
+
+  const handleClose = () => {
+    form.reset();
+    setCsvText('');
+    setFileName(undefined);
+    setSaveError(null);
+    onClose();
+  };
+
+  const onSubmit = async (data: PriceImportFormData) => {
+    if (!user || !parsed || parsed.errors.length > 0) return;
+
+    setIsLoading(true);
+    setSaveError(null);
+    try {
+      const history: DecryptedPriceHistoryData = {
+        ticker: data.ticker.trim().toUpperCase(),
+        company: data.company.trim(),
+        currency: data.currency,
+        prices: PriceHistory.merge(existing?.decryptedData.prices ?? [], parsed.prices),
+        fileName,
+      };
+
+      // Encrypt the series; it is stored on this device only
+      const encryptedData = await encryptData(JSON.stringify(history));
+      await LocalStorageService.savePriceHistory(user.id, encryptedData, existing?.id);
+
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      console.error('Error importing price history:', error);
+      setSaveError('Failed to save the price history. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Stock Prices</DialogTitle>
+          <DialogDescription>
+            Upload or paste a daily price history (e.g. a Yahoo Finance or broker CSV download) with a date and a close column.
+            The file is read in your browser and stored encrypted on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <Controller
+              control={form.control}
+              name="ticker"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Ticker</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., GOOGL" {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="company"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Company</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Google Inc." list="price-import-companies" {...field} />
+                  </FormControl>
+                  <datalist id="price-import-companies">
+                    {companies.map((company) => (
+                      <option key={company} value={company} />
+                    ))}
+                  </datalist>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+
+            <Controller
+              control={form.control}
+              name="currency"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <FormControl>
+                    <CurrencyPicker {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <FormLabel>Price History</FormLabel>
+              <label className="inline-flex items-center text-sm text-blue-600 cursor-pointer hover:underline">
+                <Upload className="h-4 w-4 mr-1" />
+                Choose CSV file
+                <input type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+              </label>
+            </div>
+            <textarea
+              className="flex min-h-[160px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              placeholder={'Date,Open,High,Low,Close,Adj Close,Volume\n2024-01-02,187.15,188.44,183.89,185.64,184.94,82488700'}
+              value={csvText}
+              onChange={(e) => {
+                setCsvText(e.target.value);
+                setFileName(undefined);
+              }}
+            />
+            {fileName && <p className="text-xs text-gray-500">Loaded {fileName}</p>}
+          </div>
+
+          {parsed && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              {parsed.errors.length > 0 ? (
+                parsed.errors.map((error) => (
+                  <p key={error} className="text-red-600">{error}</p>
+                ))
+              ) : (
+                <>
+                  <p>
+                    <span className="font-medium">{parsed.prices.length.toLocaleString()}</span> daily closes
+                    {range && <> from {formatDate(range.first.date)} to {formatDate(range.last.date)}</>}
+                    {range && <> · last close {range.last.close.toLocaleString()}</>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Using the &quot;{parsed.dateColumn}&quot; and &quot;{parsed.closeColumn}&quot; columns
+                    {parsed.skippedRows > 0 && `; ${parsed.skippedRows} row(s) without a date or price were skipped`}
+                  </p>
+                  {existing && (
+                    <p className="text-xs text-gray-500">
+                      Merging into the {existing.decryptedData.prices.length.toLocaleString()} stored closes for {existing.decryptedData.ticker}; imported dates replace stored ones.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !parsed || parsed.errors.length > 0}>
+              {isLoading ? 'Importing...' : 'Import Prices'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
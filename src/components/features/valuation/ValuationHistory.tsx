@@ -0,0 +1,212 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Plus, LineChart, Upload, Trash2 } from 'lucide-react';
+import type { CompensationRecord, DecryptedValuationData } from '@/lib/db/types';
+import { valuationSourceOptions } from '@/lib/validations/valuation';
+import { LocalStorageService } from '@/services/localStorageService';
+import { PriceHistory } from '@/lib/prices';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { AddValuationForm } from './AddValuationForm';
+import { ImportPricesDialog, type PriceHistoryEntry } from './ImportPricesDialog';
+
+export type ValuationRecord = CompensationRecord & { decryptedData: DecryptedValuationData };
+
+interface ValuationHistoryProps {
+  valuations: ValuationRecord[];
+  priceHistories: PriceHistoryEntry[];
+  companies: string[]; // Companies with equity grants, shown even before they have a price
+  onChange: () => void;
+}
+
+const sourceLabel = (source: DecryptedValuationData['source']) =>
+  valuationSourceOptions.find(option => option.value === source)?.label ?? source;
+
+/**
+ * Share price history per company, newest first
+ */
+export function ValuationHistory({ valuations, priceHistories, companies, onChange }: ValuationHistoryProps) {
+  const { formatCurrency, formatNumber, formatDate } = usePreferences();
+  const [addingFor, setAddingFor] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const formatPrice = (amount: number, currency: string) =>
+    formatCurrency(amount, currency, { maximumFractionDigits: 4 });
+
+  const valuationsByCompany = useMemo(() => {
+    const grouped: Record<string, ValuationRecord[]> = {};
+    companies.forEach(company => {
+      grouped[company] = [];
+    });
+
+    valuations.forEach(valuation => {
+      // Group under the grant's spelling of the company when the names match loosely
+      const name = valuation.decryptedData.company;
+      const company = companies.find(c => c.trim().toLowerCase() === name.trim().toLowerCase()) ?? name;
+      if (!grouped[company]) grouped[company] = [];
+      grouped[company].push(valuation);
+    });
+
+    priceHistories.forEach(history => {
+      const name = history.decryptedData.company;
+      const company = companies.find(c => c.trim().toLowerCase() === name.trim().toLowerCase()) ?? name;
+      if (!grouped[company]) grouped[company] = [];
+    });
+
+    Object.values(grouped).forEach(list => {
+      list.sort((a, b) => b.decryptedData.date.localeCompare(a.decryptedData.date));
+    });
+
+    return grouped;
+  }, [valuations, priceHistories, companies]);
+
+  const allCompanies = Object.keys(valuationsByCompany).sort();
+
+  const seriesFor = (company: string) =>
+    priceHistories.filter(history => history.decryptedData.company.trim().toLowerCase() === company.trim().toLowerCase());
+
+  const handleDeleteSeries = async (history: PriceHistoryEntry) => {
+    if (history.id === undefined) return;
+    if (!confirm(`Delete the imported ${history.decryptedData.ticker} price history?`)) return;
+    try {
+      await LocalStorageService.deletePriceHistory(history.id);
+      onChange();
+    } catch (error) {
+      console.error('Error deleting price history:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Share prices value your grants: options at the spread over strike, RSUs and other shares at the full price.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImporting(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Prices
+          </Button>
+          <Button onClick={() => setAddingFor('')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Share Price
+          </Button>
+        </div>
+      </div>
+
+      {allCompanies.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-gray-500">No share prices yet. Add a 409A, preferred or public price to value your grants.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {allCompanies.map((company) => {
+            const history = valuationsByCompany[company];
+            const series = seriesFor(company);
+            const latestClose = series
+              .map(entry => PriceHistory.getRange(entry.decryptedData.prices)?.last.date ?? '')
+              .sort()
+              .pop() ?? '';
+            return (
+              <Card key={company}>
+                <CardHeader className="pb-3">
+                  <div className="flex justify-between items-center">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <LineChart className="h-5 w-5" />
+                      {company}
+                    </CardTitle>
+                    <Button variant="outline" size="sm" onClick={() => setAddingFor(company)}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {series.map((entry) => {
+                    const range = PriceHistory.getRange(entry.decryptedData.prices);
+                    return (
+                      <div key={entry.id} className="flex justify-between items-start text-sm rounded-md bg-gray-50 dark:bg-gray-800 p-2">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{entry.decryptedData.ticker}</span>
+                            <Badge variant="outline">Imported</Badge>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {formatNumber(entry.decryptedData.prices.length)} daily closes
+                            {range && <> · {formatDate(range.first.date)} to {formatDate(range.last.date)}</>}
+                          </p>
+                        </div>
+                        <div className="flex items-start gap-2">
+                          {range && (
+                            <div className="text-right">
+                              <div className="font-medium">{formatPrice(range.last.close, entry.decryptedData.currency)}</div>
+                              <div className="text-xs text-gray-500">Last close</div>
+                            </div>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteSeries(entry)}
+                            aria-label={`Delete ${entry.decryptedData.ticker} price history`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {history.length === 0 && series.length === 0 ? (
+                    <p className="text-sm text-gray-500">No share price on file, so these grants are not valued.</p>
+                  ) : history.length > 0 && (
+                    <div className="space-y-2">
+                      {history.map((valuation, index) => (
+                        <div key={valuation.id} className="flex justify-between items-start text-sm">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">
+                                {formatPrice(valuation.decryptedData.pricePerShare, valuation.decryptedData.currency)}
+                              </span>
+                              {index === 0 && valuation.decryptedData.date >= latestClose && <Badge className="bg-green-100 text-green-800">Current</Badge>}
+                            </div>
+                            {valuation.decryptedData.notes && (
+                              <p className="text-xs text-gray-500">{valuation.decryptedData.notes}</p>
+                            )}
+                          </div>
+                          <div className="text-right text-gray-500">
+                            <div>{formatDate(valuation.decryptedData.date)}</div>
+                            <div className="text-xs">{sourceLabel(valuation.decryptedData.source)}</div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <AddValuationForm
+        isOpen={addingFor !== null}
+        onClose={() => setAddingFor(null)}
+        onSuccess={onChange}
+        companies={companies}
+        defaultCompany={addingFor || undefined}
+      />
+
+      <ImportPricesDialog
+        isOpen={isImporting}
+        onClose={() => setIsImporting(false)}
+        onSuccess={onChange}
+        companies={companies}
+        priceHistories={priceHistories}
+      />
+    </div>
+  );
+}
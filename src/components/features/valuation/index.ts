@@ -0,0 +1,5 @@
+export { AddValuationForm } from './AddValuationForm';
+export { ImportPricesDialog } from './ImportPricesDialog';
+export type { PriceHistoryEntry } from './ImportPricesDialog';
+export { ValuationHistory } from './ValuationHistory';
+export type { ValuationRecord } from './ValuationHistory';
\ No newline at end of file
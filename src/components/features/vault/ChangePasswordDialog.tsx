@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { KeyRound } from 'lucide-react';
+import { useVault } from '@/contexts/VaultContext';
+import { changePasswordSchema, type ChangePasswordFormData } from '@/lib/validations/vault';
+
+interface ChangePasswordDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{ name: keyof ChangePasswordFormData; label: string; autoComplete: string }> = [
+  { name: 'currentPassword', label: 'Current Master Password', autoComplete: 'current-password' },
+  { name: 'newPassword', label: 'New Master Password', autoComplete: 'new-password' },
+  { name: 'confirmPassword', label: 'Confirm New Master Password', autoComplete: 'new-password' },
+];
+
+export function ChangePasswordDialog({ isOpen, onClose }: ChangePasswordDialogProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+  const { changePassword } = useVault();
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: '', newPassword: '', confirmPassword: '' },
+  });
+
+  const handleClose = () => {
+    form.reset();
+    setError(null);
+    setSuccess(false);
+    onClose();
+  };
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setError(null);
+    try {
+      await changePassword(data.currentPassword, data.newPassword);
+      form.reset();
+      setSuccess(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change master password');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Change Master Password
+          </DialogTitle>
+          <DialogDescription>
+            Your data key is re-encrypted with the new password. Existing records stay as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        {success ? (
+          <>
+            <p className="text-sm text-green-600">
+              Master password changed. Use the new password the next time you unlock.
+            </p>
+            <DialogFooter>
+              <Button onClick={handleClose}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {FIELDS.map(({ name, label, autoComplete }) => (
+              <Controller
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete={autoComplete} {...field} />
+                    </FormControl>
+                    {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                  </FormItem>
+                )}
+              />
+            ))}
+            {error && <FormMessage>{error}</FormMessage>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Changing...' : 'Change Password'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
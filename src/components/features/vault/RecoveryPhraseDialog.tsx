@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { LifeBuoy } from 'lucide-react';
+import { useVault } from '@/contexts/VaultContext';
+import { unlockVaultSchema, type UnlockVaultFormData } from '@/lib/validations/vault';
+import { RecoveryPhraseDisplay } from './RecoveryPhraseDisplay';
+
+interface RecoveryPhraseDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function RecoveryPhraseDialog({ isOpen, onClose }: RecoveryPhraseDialogProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [phrase, setPhrase] = useState<string | null>(null);
+  const { createRecoveryPhrase } = useVault();
+
+  const form = useForm<UnlockVaultFormData>({
+    resolver: zodResolver(unlockVaultSchema),
+    defaultValues: { password: '' },
+  });
+
+  const handleClose = () => {
+    form.reset();
+    setError(null);
+    setPhrase(null);
+    onClose();
+  };
+
+  const onSubmit = async (data: UnlockVaultFormData) => {
+    setError(null);
+    try {
+      setPhrase(await createRecoveryPhrase(data.password));
+      form.reset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create recovery phrase');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LifeBuoy className="h-5 w-5" />
+            Recovery Phrase
+          </DialogTitle>
+          <DialogDescription>
+            {phrase
+              ? 'Save these 12 words somewhere safe. They will not be shown again.'
+              : 'Create a new recovery phrase for resetting your master password. Any previous phrase stops working.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {phrase ? (
+          <>
+            <RecoveryPhraseDisplay phrase={phrase} />
+            <DialogFooter>
+              <Button onClick={handleClose}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <Controller
+              control={form.control}
+              name="password"
+              render={({ field, fieldState }) => (
+                <FormItem>
+                  <FormLabel>Master Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="current-password" {...field} />
+                  </FormControl>
+                  {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+                </FormItem>
+              )}
+            />
+            {error && <FormMessage>{error}</FormMessage>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Generating...' : 'Generate New Phrase'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
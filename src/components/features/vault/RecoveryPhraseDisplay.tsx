@@ -0,0 +1,76 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Download, Printer } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface RecoveryPhraseDisplayProps {
+  phrase: string;
+}
+
+const buildRecoveryDocument = (phrase: string) =>
+  [
+    'CompTrails Recovery Phrase',
+    `Generated ${format(new Date(), 'MMM dd, yyyy')}`,
+    '',
+    ...phrase.split(' ').map((word, index) => `${index + 1}. ${word}`),
+    '',
+    'Anyone with this phrase can reset your master password and read your data.',
+    'Keep it offline and somewhere safe.',
+  ].join('\n');
+
+/**
+ * Shows a recovery phrase with options to save it. Everything happens in the browser.
+ */
+export function RecoveryPhraseDisplay({ phrase }: RecoveryPhraseDisplayProps) {
+  const words = phrase.split(' ');
+
+  const handleDownload = () => {
+    const blob = new Blob([buildRecoveryDocument(phrase)], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'comptrails-recovery-phrase.txt');
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=600,height=700');
+    if (!printWindow) return;
+
+    const pre = printWindow.document.createElement('pre');
+    pre.style.font = '16px/1.6 monospace';
+    pre.textContent = buildRecoveryDocument(phrase);
+    printWindow.document.title = 'CompTrails Recovery Phrase';
+    printWindow.document.body.appendChild(pre);
+    printWindow.print();
+    printWindow.close();
+  };
+
+  return (
+    <div className="space-y-4">
+      <ol className="grid grid-cols-2 sm:grid-cols-3 gap-2 p-4 bg-gray-50 dark:bg-gray-800 border rounded-md font-mono text-sm">
+        {words.map((word, index) => (
+          <li key={index} className="flex gap-2">
+            <span className="text-gray-400 w-6 text-right">{index + 1}.</span>
+            <span className="font-medium">{word}</span>
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handlePrint}>
+          <Printer className="h-4 w-4 mr-1" />
+          Print
+        </Button>
+      </div>
+    </div>
+  );
+}
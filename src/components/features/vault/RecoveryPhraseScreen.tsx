@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LifeBuoy } from 'lucide-react';
+import { useVault } from '@/contexts/VaultContext';
+import { RecoveryPhraseDisplay } from './RecoveryPhraseDisplay';
+
+/**
+ * Shown once after the master password is created so the user can save their recovery phrase
+ */
+export function RecoveryPhraseScreen() {
+  const [confirmed, setConfirmed] = useState(false);
+  const { pendingRecoveryPhrase, acknowledgeRecoveryPhrase } = useVault();
+
+  if (!pendingRecoveryPhrase) return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center px-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LifeBuoy className="h-5 w-5" />
+            Save your recovery phrase
+          </CardTitle>
+          <CardDescription>
+            If you forget your master password, these 12 words are the only way to get back into
+            your data. We can&apos;t show them again and never send them to our servers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RecoveryPhraseDisplay phrase={pendingRecoveryPhrase} />
+          <label className="flex items-start gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={confirmed}
+              onChange={(e) => setConfirmed(e.target.checked)}
+              className="mt-1"
+            />
+            I have written down or saved my recovery phrase somewhere safe
+          </label>
+          <Button className="w-full" disabled={!confirmed} onClick={acknowledgeRecoveryPhrase}>
+            Continue
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { FormItem, FormControl, FormMessage } from '@/components/ui/form-field';
+import { FormLabel } from '@/components/ui/form-label';
+import { Lock, ShieldCheck, LifeBuoy } from 'lucide-react';
+import { useVault } from '@/contexts/VaultContext';
+import { EncryptionService } from '@/services/encryptionService';
+import {
+  unlockVaultSchema,
+  setupVaultSchema,
+  resetPasswordSchema,
+  type UnlockVaultFormData,
+  type SetupVaultFormData,
+  type ResetPasswordFormData,
+} from '@/lib/validations/vault';
+
+function UnlockForm({ onForgotPassword }: { onForgotPassword: () => void }) {
+  const [error, setError] = useState<string | null>(null);
+  const { unlock } = useVault();
+
+  const form = useForm<UnlockVaultFormData>({
+    resolver: zodResolver(unlockVaultSchema),
+    defaultValues: { password: '' },
+  });
+
+  const onSubmit = async (data: UnlockVaultFormData) => {
+    setError(null);
+    try {
+      await unlock(data.password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+      form.reset();
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <Controller
+        control={form.control}
+        name="password"
+        render={({ field, fieldState }) => (
+          <FormItem>
+            <FormLabel>Master Password</FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete="current-password" autoFocus {...field} />
+            </FormControl>
+            {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+          </FormItem>
+        )}
+      />
+      {error && <FormMessage>{error}</FormMessage>}
+      <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+        {form.formState.isSubmitting ? 'Unlocking...' : 'Unlock'}
+      </Button>
+      <button
+        type="button"
+        onClick={onForgotPassword}
+        className="w-full text-sm text-blue-600 hover:text-blue-700"
+      >
+        Forgot your master password?
+      </button>
+    </form>
+  );
+}
+
+function ResetPasswordForm({ onCancel }: { onCancel: () => void }) {
+  const [error, setError] = useState<string | null>(null);
+  const { resetPassword } = useVault();
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { recoveryPhrase: '', newPassword: '', confirmPassword: '' },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setError(null);
+    try {
+      await resetPassword(data.recoveryPhrase, data.newPassword);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset master password');
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <Controller
+        control={form.control}
+        name="recoveryPhrase"
+        render={({ field, fieldState }) => (
+          <FormItem>
+            <FormLabel>Recovery Phrase</FormLabel>
+            <FormControl>
+              <textarea
+                className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                autoComplete="off"
+                autoCapitalize="none"
+                spellCheck={false}
+                placeholder="Enter your 12 words separated by spaces"
+                {...field}
+              />
+            </FormControl>
+            {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+          </FormItem>
+        )}
+      />
+      <Controller
+        control={form.control}
+        name="newPassword"
+        render={({ field, fieldState }) => (
+          <FormItem>
+            <FormLabel>New Master Password</FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete="new-password" {...field} />
+            </FormControl>
+            {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+          </FormItem>
+        )}
+      />
+      <Controller
+        control={form.control}
+        name="confirmPassword"
+        render={({ field, fieldState }) => (
+          <FormItem>
+            <FormLabel>Confirm New Master Password</FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete="new-password" {...field} />
+            </FormControl>
+            {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+          </FormItem>
+        )}
+      />
+      {error && <FormMessage>{error}</FormMessage>}
+      <p className="text-xs text-gray-500">
+        Your recovery phrase is checked on this device only and is never sent to our servers.
+      </p>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={onCancel}>
+          Back
+        </Button>
+        <Button type="submit" className="flex-1" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Resetting...' : 'Reset Password'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function SetupForm() {
+  const [error, setError] = useState<string | null>(null);
+  const { setupVault } = useVault();
+
+  const form = useForm<SetupVaultFormData>({
+    resolver: zodResolver(setupVaultSchema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+
+  const password = form.watch('password');
+  const strength = password ? EncryptionService.validatePassword(password) : null;
+
+  const onSubmit = async (data: SetupVaultFormData) => {
+    setError(null);
+    try {
+      await setupVault(data.password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set up master password');
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <Controller
+        control={form.control}
+        name="password"
+        render={({ field, fieldState }) => (
+          <FormItem>
+            <FormLabel>Master Password</FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete="new-password" autoFocus {...field} />
+            </FormControl>
+            {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+            {strength && (
+              <p className={`text-xs ${strength.isValid ? 'text-green-600' : 'text-amber-600'}`}>
+                {strength.feedback.join(' · ')}
+              </p>
+            )}
+          </FormItem>
+        )}
+      />
+      <Controller
+        control={form.control}
+        name="confirmPassword"
+        render={({ field, fieldState }) => (
+          <FormItem>
+            <FormLabel>Confirm Master Password</FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete="new-password" {...field} />
+            </FormControl>
+            {fieldState.error && <FormMessage>{fieldState.error.message}</FormMessage>}
+          </FormItem>
+        )}
+      />
+      {error && <FormMessage>{error}</FormMessage>}
+      <p className="text-xs text-gray-500">
+        Your master password encrypts everything on this device and is never sent to our servers.
+        Next you&apos;ll get a recovery phrase - it&apos;s the only way back in if you forget the password.
+      </p>
+      <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+        {form.formState.isSubmitting ? 'Setting up...' : 'Create Master Password'}
+      </Button>
+    </form>
+  );
+}
+
+export function UnlockScreen() {
+  const [isResetting, setIsResetting] = useState(false);
+  const { status } = useVault();
+  const isSetup = status === 'setup';
+
+  const title = isSetup
+    ? 'Create your master password'
+    : isResetting
+      ? 'Reset your master password'
+      : 'Unlock CompTrails';
+
+  const description = isSetup
+    ? 'Choose a password to encrypt your compensation data.'
+    : isResetting
+      ? 'Use the recovery phrase you saved when you set up CompTrails.'
+      : 'Enter your master password to decrypt your data for this session.';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {isSetup ? (
+              <ShieldCheck className="h-5 w-5" />
+            ) : isResetting ? (
+              <LifeBuoy className="h-5 w-5" />
+            ) : (
+              <Lock className="h-5 w-5" />
+            )}
+            {title}
+          </CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isSetup ? (
+            <SetupForm />
+          ) : isResetting ? (
+            <ResetPasswordForm onCancel={() => setIsResetting(false)} />
+          ) : (
+            <UnlockForm onForgotPassword={() => setIsResetting(true)} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { UnlockScreen } from './UnlockScreen';
+import { RecoveryPhraseScreen } from './RecoveryPhraseScreen';
+
+interface VaultGateProps {
+  children: ReactNode;
+}
+
+/**
+ * Renders its children only once the master password vault is unlocked
+ */
+export function VaultGate({ children }: VaultGateProps) {
+  const { user, loading } = useAuth();
+  const { status, pendingRecoveryPhrase } = useVault();
+
+  // Signed-out pages handle their own redirect to /login
+  if (loading || !user) {
+    return <>{children}</>;
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (status !== 'unlocked') {
+    return <UnlockScreen />;
+  }
+
+  if (pendingRecoveryPhrase) {
+    return <RecoveryPhraseScreen />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,6 @@
+export { ChangePasswordDialog } from './ChangePasswordDialog';
+export { RecoveryPhraseDialog } from './RecoveryPhraseDialog';
+export { RecoveryPhraseDisplay } from './RecoveryPhraseDisplay';
+export { RecoveryPhraseScreen } from './RecoveryPhraseScreen';
+export { UnlockScreen } from './UnlockScreen';
+export { VaultGate } from './VaultGate';
\ No newline at end of file
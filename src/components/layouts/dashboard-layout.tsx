@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useOffline } from '@/components/providers/OfflineProvider';
 import { Button } from '@/components/ui/button';
+import { ChangePasswordDialog, RecoveryPhraseDialog } from '@/components/features/vault';
 import { 
   Home, 
   DollarSign, 
@@ -11,10 +12,14 @@ import {
   TrendingUp, 
   FileText, 
   Settings, 
+  Trash2,
+  ScrollText,
   Menu, 
   X,
   Wifi,
-  WifiOff
+  WifiOff,
+  KeyRound,
+  LifeBuoy
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -31,6 +36,8 @@ const navigation: NavItem[] = [
   { name: 'Bonuses', href: '/dashboard/bonuses', icon: Gift },
   { name: 'Equity', href: '/dashboard/equity', icon: TrendingUp },
   { name: 'Reports', href: '/dashboard/reports', icon: FileText },
+  { name: 'Trash', href: '/dashboard/trash', icon: Trash2 },
+  { name: 'Audit Log', href: '/dashboard/audit', icon: ScrollText },
   { name: 'Settings', href: '/dashboard/settings', icon: Settings },
 ];
 
@@ -40,28 +47,30 @@ interface DashboardLayoutProps {
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showRecoveryPhrase, setShowRecoveryPhrase] = useState(false);
   const { user, logout } = useAuth();
   const { isOnline, syncStatus } = useOffline();
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
       {/* Mobile sidebar */}
       <div className={cn(
         'fixed inset-0 z-50 lg:hidden',
         sidebarOpen ? 'block' : 'hidden'
       )}>
         <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={() => setSidebarOpen(false)} />
-        <div className="fixed inset-y-0 left-0 w-64 bg-white shadow-xl">
-          <div className="flex items-center justify-between h-16 px-6 border-b border-gray-200">
+        <div className="fixed inset-y-0 left-0 w-64 bg-white dark:bg-gray-900 shadow-xl">
+          <div className="flex items-center justify-between h-16 px-6 border-b border-gray-200 dark:border-gray-800">
             <div className="flex items-center">
               <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
                 <span className="text-white font-bold text-sm">CT</span>
               </div>
-              <h1 className="ml-3 text-lg font-semibold text-gray-900">CompTrails</h1>
+              <h1 className="ml-3 text-lg font-semibold text-gray-900 dark:text-gray-100">CompTrails</h1>
             </div>
             <button
               onClick={() => setSidebarOpen(false)}
-              className="p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100"
+              className="p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
             >
               <X className="h-5 w-5" />
             </button>
@@ -75,8 +84,8 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
                   className={cn(
                     'flex items-center px-3 py-2 text-sm font-medium rounded-md',
                     item.current
-                      ? 'bg-blue-100 text-blue-700'
-                      : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
+                      ? 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300'
+                      : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-800 dark:hover:text-gray-100'
                   )}
                 >
                   <item.icon className="mr-3 h-5 w-5" />
@@ -90,13 +99,13 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
       {/* Desktop sidebar */}
       <div className="hidden lg:fixed lg:inset-y-0 lg:w-64 lg:flex lg:flex-col">
-        <div className="flex-1 flex flex-col min-h-0 bg-white border-r border-gray-200">
-          <div className="flex items-center h-16 px-6 border-b border-gray-200">
+        <div className="flex-1 flex flex-col min-h-0 bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-800">
+          <div className="flex items-center h-16 px-6 border-b border-gray-200 dark:border-gray-800">
             <div className="flex items-center">
               <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
                 <span className="text-white font-bold text-sm">CT</span>
               </div>
-              <h1 className="ml-3 text-lg font-semibold text-gray-900">CompTrails</h1>
+              <h1 className="ml-3 text-lg font-semibold text-gray-900 dark:text-gray-100">CompTrails</h1>
             </div>
           </div>
           <nav className="flex-1 px-3 py-6 space-y-1">
@@ -107,8 +116,8 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
                 className={cn(
                   'flex items-center px-3 py-2 text-sm font-medium rounded-md',
                   item.current
-                    ? 'bg-blue-100 text-blue-700'
-                    : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
+                    ? 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300'
+                    : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-800 dark:hover:text-gray-100'
                 )}
               >
                 <item.icon className="mr-3 h-5 w-5" />
@@ -122,17 +131,17 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       {/* Main content */}
       <div className="lg:pl-64">
         {/* Top header */}
-        <div className="bg-white border-b border-gray-200 px-4 py-4 sm:px-6 lg:px-8">
+        <div className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800 px-4 py-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between">
             <div className="flex items-center">
               <button
                 onClick={() => setSidebarOpen(true)}
-                className="p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 lg:hidden"
+                className="p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 lg:hidden"
               >
                 <Menu className="h-5 w-5" />
               </button>
               <div className="ml-4 lg:ml-0">
-                <h1 className="text-lg font-semibold text-gray-900">Dashboard</h1>
+                <h1 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Dashboard</h1>
                 <div className="flex items-center space-x-4 mt-1">
                   <div className="flex items-center text-sm text-gray-500">
                     {isOnline ? (
@@ -152,9 +161,25 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <span className="text-sm text-gray-700">
+              <span className="text-sm text-gray-700 dark:text-gray-300">
                 {user?.firstName} {user?.lastName}
               </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowChangePassword(true)}
+              >
+                <KeyRound className="h-4 w-4 mr-1" />
+                Change Password
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowRecoveryPhrase(true)}
+              >
+                <LifeBuoy className="h-4 w-4 mr-1" />
+                Recovery Phrase
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -174,6 +199,15 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           </div>
         </main>
       </div>
+
+      <ChangePasswordDialog
+        isOpen={showChangePassword}
+        onClose={() => setShowChangePassword(false)}
+      />
+      <RecoveryPhraseDialog
+        isOpen={showRecoveryPhrase}
+        onClose={() => setShowRecoveryPhrase(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
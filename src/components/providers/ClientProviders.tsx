@@ -1,6 +1,9 @@
 'use client';
 
 import { AuthProvider } from '@/contexts/AuthContext';
+import { VaultProvider } from '@/contexts/VaultContext';
+import { PreferencesProvider } from '@/contexts/PreferencesContext';
+import { CurrencyProvider } from '@/contexts/CurrencyContext';
 import { OfflineProvider } from '@/components/providers/OfflineProvider';
 import { ConvexClientProvider } from '@/providers/ConvexClientProvider';
 
@@ -8,9 +11,15 @@ export function ClientProviders({ children }: { children: React.ReactNode }) {
   return (
     <ConvexClientProvider>
       <AuthProvider>
-        <OfflineProvider>
-          {children}
-        </OfflineProvider>
+        <VaultProvider>
+          <PreferencesProvider>
+            <CurrencyProvider>
+              <OfflineProvider>
+                {children}
+              </OfflineProvider>
+            </CurrencyProvider>
+          </PreferencesProvider>
+        </VaultProvider>
       </AuthProvider>
     </ConvexClientProvider>
   );
@@ -1,6 +1,8 @@
 'use client';
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useConvex } from 'convex/react';
+import { useAuth } from '@/contexts/AuthContext';
 import { ServiceWorkerManager, type ServiceWorkerStatus } from '@/lib/serviceWorker';
 import { SyncService, type SyncStatus } from '@/services/syncService';
 
@@ -22,6 +24,14 @@ export function OfflineProvider({ children }: OfflineProviderProps) {
   const [isOnline, setIsOnline] = useState(true);
   const [serviceWorkerStatus, setServiceWorkerStatus] = useState<ServiceWorkerStatus>('installing');
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+  const convex = useConvex();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  // Point the sync engine at the signed-in user's queue
+  useEffect(() => {
+    SyncService.configure(convex, userId);
+  }, [convex, userId]);
 
   useEffect(() => {
     // Initialize online status
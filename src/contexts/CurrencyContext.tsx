@@ -0,0 +1,110 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { CurrencyConverter, type Conversion, type NormalizedInput } from '@/lib/fx';
+import type { CompTimelineInput } from '@/lib/compensation';
+import type { DecryptedFxRateData, FxRateRecord } from '@/lib/db/types';
+
+export type FxRateEntry = FxRateRecord & { decryptedData: DecryptedFxRateData };
+
+interface CurrencyContextType {
+  rateTables: FxRateEntry[];
+  isLoading: boolean;
+  reloadRates: () => Promise<void>;
+  displayCurrency: string | null; // null shows every amount in its own currency
+  setDisplayCurrency: (currency: string | null) => void;
+  convert: (amount: number, from: string, date?: string | Date) => Conversion | null;
+  normalize: (input: CompTimelineInput) => NormalizedInput | null;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | null>(null);
+
+interface CurrencyProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Exchange rates stored encrypted on this device, and the currency amounts
+ * are displayed in. Conversions never fetch rates from anywhere.
+ */
+export function CurrencyProvider({ children }: CurrencyProviderProps) {
+  const { user } = useAuth();
+  const { isUnlocked, decryptData } = useVault();
+  const [rateTables, setRateTables] = useState<FxRateEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [displayCurrency, setDisplayCurrency] = useState<string | null>(null);
+  const userId = user?.id ?? null;
+
+  const reloadRates = useCallback(async () => {
+    if (!userId || !isUnlocked) {
+      setRateTables([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const records = await LocalStorageService.getFxRates(userId);
+      const decrypted: FxRateEntry[] = [];
+      for (const record of records) {
+        try {
+          const decryptionResult = await decryptData(record.encryptedData);
+          if (decryptionResult.success) {
+            decrypted.push({ ...record, decryptedData: JSON.parse(decryptionResult.data) });
+          }
+        } catch (error) {
+          console.error('Failed to decrypt exchange rates:', error);
+        }
+      }
+      setRateTables(decrypted);
+    } catch (error) {
+      console.error('Failed to load exchange rates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, isUnlocked, decryptData]);
+
+  useEffect(() => {
+    reloadRates();
+  }, [reloadRates]);
+
+  const tables = useMemo(() => rateTables.map(entry => entry.decryptedData), [rateTables]);
+
+  const convert = useCallback(
+    (amount: number, from: string, date?: string | Date) =>
+      displayCurrency ? CurrencyConverter.convert(tables, amount, from, displayCurrency, date) : null,
+    [tables, displayCurrency]
+  );
+
+  const normalize = useCallback(
+    (input: CompTimelineInput) =>
+      displayCurrency ? CurrencyConverter.normalizeInput(input, displayCurrency, tables) : null,
+    [tables, displayCurrency]
+  );
+
+  const value: CurrencyContextType = useMemo(() => ({
+    rateTables,
+    isLoading,
+    reloadRates,
+    displayCurrency,
+    setDisplayCurrency,
+    convert,
+    normalize,
+  }), [rateTables, isLoading, reloadRates, displayCurrency, convert, normalize]);
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { LocalStorageService } from '@/services/localStorageService';
+import { SyncService } from '@/services/syncService';
+import { Preferences, DEFAULT_PREFERENCES, type PreferenceSettings } from '@/lib/preferences';
+
+interface PreferencesContextType {
+  preferences: PreferenceSettings;
+  isLoading: boolean;
+  updatePreferences: (settings: PreferenceSettings) => Promise<void>;
+  formatCurrency: (amount: number, currency: string, options?: Intl.NumberFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: string | Date) => string;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | null>(null);
+
+interface PreferencesProviderProps {
+  children: ReactNode;
+}
+
+export function PreferencesProvider({ children }: PreferencesProviderProps) {
+  const { user } = useAuth();
+  const { isUnlocked, encryptData, decryptData, setSessionTimeout } = useVault();
+  const [preferences, setPreferences] = useState<PreferenceSettings>(DEFAULT_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(true);
+  const userId = user?.id ?? null;
+
+  const loadPreferences = useCallback(async () => {
+    if (!userId) {
+      setPreferences(DEFAULT_PREFERENCES);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const record = await LocalStorageService.getUserPreferences(userId);
+
+      // Settings pulled from another device arrive encrypted
+      if (record?.remoteData && isUnlocked) {
+        const decryptionResult = await decryptData(record.remoteData);
+        if (decryptionResult.success) {
+          const settings = Preferences.withDefaults(JSON.parse(decryptionResult.data));
+          await LocalStorageService.saveUserPreferences(userId, settings, record.remoteData, 'synced');
+          setPreferences(settings);
+          return;
+        }
+      }
+
+      setPreferences(Preferences.withDefaults(record));
+    } catch (error) {
+      console.error('Failed to load preferences:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, isUnlocked, decryptData]);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  // Pick up preferences changed on another device after each sync
+  useEffect(() => {
+    return SyncService.addSyncListener(status => {
+      if (status === SyncService.syncStatus.idle) {
+        loadPreferences();
+      }
+    });
+  }, [loadPreferences]);
+
+  useEffect(() => {
+    setSessionTimeout(preferences.security.sessionTimeout);
+  }, [preferences.security.sessionTimeout, setSessionTimeout]);
+
+  // Apply the theme to the document, following the OS setting for 'system'
+  useEffect(() => {
+    const media = window.matchMedia('(prefers-color-scheme: dark)');
+    const applyTheme = () => {
+      const isDark = Preferences.isDark(preferences.theme, media.matches);
+      document.documentElement.classList.toggle('dark', isDark);
+      document.documentElement.style.colorScheme = isDark ? 'dark' : 'light';
+    };
+
+    applyTheme();
+    media.addEventListener('change', applyTheme);
+    return () => media.removeEventListener('change', applyTheme);
+  }, [preferences.theme]);
+
+  const updatePreferences = useCallback(async (settings: PreferenceSettings) => {
+    if (!userId) throw new Error('Not signed in');
+
+    const next = Preferences.toSettings(settings);
+    const encryptedData = await encryptData(JSON.stringify(next));
+    await LocalStorageService.saveUserPreferences(userId, next, encryptedData);
+    setPreferences(next);
+    SyncService.triggerSync();
+  }, [userId, encryptData]);
+
+  const formatCurrency = useCallback(
+    (amount: number, currency: string, options?: Intl.NumberFormatOptions) =>
+      Preferences.formatCurrency(amount, currency, preferences, options),
+    [preferences]
+  );
+
+  const formatNumber = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) => Preferences.formatNumber(value, preferences, options),
+    [preferences]
+  );
+
+  const formatDate = useCallback(
+    (value: string | Date) => Preferences.formatDate(value, preferences),
+    [preferences]
+  );
+
+  const value: PreferencesContextType = useMemo(() => ({
+    preferences,
+    isLoading,
+    updatePreferences,
+    formatCurrency,
+    formatNumber,
+    formatDate,
+  }), [preferences, isLoading, updatePreferences, formatCurrency, formatNumber, formatDate]);
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { EncryptionService } from '@/services/encryptionService';
+import { VaultService, type UnlockedVault } from '@/services/vaultService';
+import { AuditService } from '@/services/auditService';
+import { SyncService } from '@/services/syncService';
+import type { EncryptedData, DecryptionResult } from '@/lib/crypto/types';
+import { DEFAULT_PREFERENCES } from '@/lib/preferences';
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+export type VaultStatus = 'loading' | 'setup' | 'locked' | 'unlocked';
+
+interface VaultContextType {
+  status: VaultStatus;
+  isUnlocked: boolean;
+  pendingRecoveryPhrase: string | null;
+  setupVault: (password: string) => Promise<void>;
+  acknowledgeRecoveryPhrase: () => void;
+  unlock: (password: string) => Promise<void>;
+  resetPassword: (recoveryPhrase: string, newPassword: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  createRecoveryPhrase: (password: string) => Promise<string>;
+  lock: () => void;
+  setSessionTimeout: (minutes: number) => void; // Idle minutes before the vault locks itself
+  encryptData: (data: string) => Promise<EncryptedData>;
+  decryptData: (encryptedData: EncryptedData) => Promise<DecryptionResult>;
+}
+
+const VaultContext = createContext<VaultContextType | null>(null);
+
+interface VaultProviderProps {
+  children: ReactNode;
+}
+
+export function VaultProvider({ children }: VaultProviderProps) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<VaultStatus>('loading');
+  const [sessionTimeout, setSessionTimeout] = useState(DEFAULT_PREFERENCES.security.sessionTimeout);
+  // Shown once right after setup, then dropped from memory
+  const [pendingRecoveryPhrase, setPendingRecoveryPhrase] = useState<string | null>(null);
+  // The unwrapped data key never leaves memory and is not extractable
+  const vaultRef = useRef<UnlockedVault | null>(null);
+  const userId = user?.id ?? null;
+
+  const lock = useCallback(() => {
+    vaultRef.current = null;
+    AuditService.detach();
+    setPendingRecoveryPhrase(null);
+    setStatus(prev => (prev === 'unlocked' ? 'locked' : prev));
+  }, []);
+
+  // Load vault state whenever the signed-in user changes
+  useEffect(() => {
+    vaultRef.current = null;
+    AuditService.detach();
+    setPendingRecoveryPhrase(null);
+
+    if (!userId) {
+      setStatus('loading');
+      return;
+    }
+
+    let cancelled = false;
+    const loadVault = async () => {
+      try {
+        const vault = await VaultService.loadVault(userId);
+        if (cancelled) return;
+
+        setStatus(vault ? 'locked' : 'setup');
+      } catch (error) {
+        console.error('Failed to load vault:', error);
+        if (!cancelled) setStatus('locked');
+      }
+    };
+
+    loadVault();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // A sync that found another device's vault replaced ours; its key is the one to unlock
+  useEffect(() => {
+    return SyncService.addVaultListener(replacedUserId => {
+      if (replacedUserId === userId) lock();
+    });
+  }, [userId, lock]);
+
+  // Auto-lock after the configured period of inactivity
+  useEffect(() => {
+    if (status !== 'unlocked') return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, sessionTimeout * 60 * 1000);
+    };
+
+    resetTimer();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [status, sessionTimeout, lock]);
+
+  const setupVault = useCallback(async (password: string) => {
+    if (!userId) throw new Error('Not signed in');
+    const { key, recoveryPhrase } = await VaultService.createVault(userId, password);
+    vaultRef.current = { key };
+    await AuditService.attach(userId, key);
+    setPendingRecoveryPhrase(recoveryPhrase);
+    setStatus('unlocked');
+  }, [userId]);
+
+  const acknowledgeRecoveryPhrase = useCallback(() => {
+    setPendingRecoveryPhrase(null);
+  }, []);
+
+  const unlock = useCallback(async (password: string) => {
+    if (!userId) throw new Error('Not signed in');
+    vaultRef.current = await VaultService.unlockVault(userId, password);
+    await AuditService.attach(userId, vaultRef.current.key);
+    await AuditService.log(userId, 'unlock');
+    setStatus('unlocked');
+  }, [userId]);
+
+  const resetPassword = useCallback(async (recoveryPhrase: string, newPassword: string) => {
+    if (!userId) throw new Error('Not signed in');
+    vaultRef.current = await VaultService.resetPassword(userId, recoveryPhrase, newPassword);
+    await AuditService.attach(userId, vaultRef.current.key);
+    await AuditService.log(userId, 'passwordChange', 'Reset with the recovery phrase');
+    setStatus('unlocked');
+  }, [userId]);
+
+  const createRecoveryPhrase = useCallback(async (password: string) => {
+    if (!userId) throw new Error('Not signed in');
+    return VaultService.createRecoveryPhrase(userId, password);
+  }, [userId]);
+
+  const changePassword = useCallback(async (currentPassword: string, newPassword: string) => {
+    if (!userId) throw new Error('Not signed in');
+    await VaultService.changePassword(userId, currentPassword, newPassword);
+    await AuditService.log(userId, 'passwordChange');
+  }, [userId]);
+
+  const encryptData = useCallback(async (data: string) => {
+    const vault = vaultRef.current;
+    if (!vault) throw new Error('Vault is locked');
+    return EncryptionService.encryptWithDataKey(data, vault.key);
+  }, []);
+
+  const decryptData = useCallback(async (encryptedData: EncryptedData): Promise<DecryptionResult> => {
+    const vault = vaultRef.current;
+    if (!vault) {
+      return { data: '', success: false, error: 'Vault is locked' };
+    }
+    return EncryptionService.decryptWithKey(encryptedData, vault.key);
+  }, []);
+
+  const value: VaultContextType = useMemo(() => ({
+    status,
+    isUnlocked: status === 'unlocked',
+    pendingRecoveryPhrase,
+    setupVault,
+    acknowledgeRecoveryPhrase,
+    unlock,
+    resetPassword,
+    changePassword,
+    createRecoveryPhrase,
+    lock,
+    setSessionTimeout,
+    encryptData,
+    decryptData,
+  }), [
+    status,
+    pendingRecoveryPhrase,
+    setupVault,
+    acknowledgeRecoveryPhrase,
+    unlock,
+    resetPassword,
+    changePassword,
+    createRecoveryPhrase,
+    lock,
+    encryptData,
+    decryptData,
+  ]);
+
+  return (
+    <VaultContext.Provider value={value}>
+      {children}
+    </VaultContext.Provider>
+  );
+}
+
+export function useVault() {
+  const context = useContext(VaultContext);
+  if (!context) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+}
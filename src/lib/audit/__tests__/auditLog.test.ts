@@ -0,0 +1,125 @@
+/**
+ * Audit log tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { AuditLog, type AuditLogEntry } from '../auditLog';
+import { check, expectEqual } from '@/lib/testing';
+
+const at = (date: string) => new Date(date).getTime();
+
+const entries: AuditLogEntry[] = [
+  {
+    eventUid: 'a',
+    timestamp: at('2024-03-01T09:00:00'),
+    data: { type: 'create', table: 'compensationRecords', recordId: 1, recordType: 'equity' },
+  },
+  {
+    eventUid: 'b',
+    timestamp: at('2024-03-02T23:30:00'),
+    data: { type: 'export', details: '3 salary records as CSV' },
+  },
+  { eventUid: 'c', timestamp: at('2024-03-03T08:00:00'), data: null },
+  {
+    eventUid: 'd',
+    timestamp: at('2024-03-04T12:00:00'),
+    data: { type: 'delete', table: 'compensationRecords', recordId: 2, recordType: 'bonus' },
+  },
+];
+
+const uids = (list: AuditLogEntry[]) => list.map(entry => entry.eventUid);
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const auditLogTests = {
+  testFilterByType() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'all types', uids(AuditLog.filter(entries, { type: 'all' })), ['a', 'b', 'c', 'd']);
+    expectEqual(failures, 'exports only', uids(AuditLog.filter(entries, { type: 'export' })), ['b']);
+    expectEqual(failures, 'no filter', uids(AuditLog.filter(entries, {})), ['a', 'b', 'c', 'd']);
+
+    return check('Filter by event type', failures);
+  },
+
+  testFilterByDate() {
+    const failures: string[] = [];
+
+    // Both ends of the range include the whole day
+    expectEqual(
+      failures,
+      'range',
+      uids(AuditLog.filter(entries, { from: '2024-03-02', to: '2024-03-03' })),
+      ['b', 'c']
+    );
+    expectEqual(failures, 'from only', uids(AuditLog.filter(entries, { from: '2024-03-04' })), ['d']);
+    expectEqual(
+      failures,
+      'type and range',
+      uids(AuditLog.filter(entries, { type: 'create', to: '2024-03-02' })),
+      ['a']
+    );
+
+    return check('Filter by date range', failures);
+  },
+
+  testDescribe() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'create', AuditLog.describe(entries[0].data!), 'Added an equity grant');
+    expectEqual(failures, 'delete', AuditLog.describe(entries[3].data!), 'Moved a bonus to the trash');
+    expectEqual(failures, 'unlock', AuditLog.describe({ type: 'unlock' }), 'Unlocked the vault');
+    expectEqual(failures, 'no record type', AuditLog.describe({ type: 'purge' }), 'Permanently deleted a record');
+
+    return check('Describe events', failures);
+  },
+
+  testToTable() {
+    const failures: string[] = [];
+
+    const { columns, rows } = AuditLog.toTable(entries.slice(1, 3));
+
+    expectEqual(failures, 'columns', columns.map(column => column.key), [
+      'timestamp', 'event', 'description', 'details', 'recordType', 'recordId',
+    ]);
+    expectEqual(failures, 'export row', rows[0], {
+      timestamp: new Date(entries[1].timestamp).toISOString(),
+      event: 'Exported',
+      description: 'Exported data',
+      details: '3 salary records as CSV',
+      recordType: null,
+      recordId: null,
+    });
+    expectEqual(failures, 'undecryptable row', rows[1].description, 'Could not be decrypted');
+
+    return check('Table for export', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running audit log tests...\n');
+
+    const results = [
+      this.testFilterByType(),
+      this.testFilterByDate(),
+      this.testDescribe(),
+      this.testToTable(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All audit log tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).auditLogTests = auditLogTests;
+}
@@ -0,0 +1,104 @@
+import type { AuditEventType, CompensationType, DecryptedAuditEventData } from '@/lib/db/types';
+
+export interface AuditLogEntry {
+  eventUid: string;
+  timestamp: number;
+  data: DecryptedAuditEventData | null; // null when the event could not be decrypted
+}
+
+export interface AuditLogFilter {
+  type?: AuditEventType | 'all';
+  from?: string; // yyyy-MM-dd, inclusive, local time
+  to?: string; // yyyy-MM-dd, inclusive, local time
+}
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  restore: 'Restored',
+  purge: 'Permanently deleted',
+  export: 'Exported',
+  unlock: 'Unlocked',
+  passwordChange: 'Password changed',
+};
+
+const RECORD_NOUNS: Record<CompensationType, string> = {
+  salary: 'salary record',
+  bonus: 'bonus',
+  equity: 'equity grant',
+  valuation: 'valuation',
+  exercise: 'exercise',
+  shareLot: 'share lot',
+  shareSale: 'share sale',
+  espp: 'ESPP offering',
+};
+
+export class AuditLog {
+  /**
+   * Entries matching an event type and a date range. Entries that could not be
+   * decrypted only match when every type is shown.
+   */
+  static filter(entries: AuditLogEntry[], filter: AuditLogFilter): AuditLogEntry[] {
+    const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+    const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+
+    return entries.filter(entry => {
+      if (entry.timestamp < from || entry.timestamp > to) return false;
+      if (!filter.type || filter.type === 'all') return true;
+      return entry.data?.type === filter.type;
+    });
+  }
+
+  /**
+   * A one-line description, e.g. "Moved a bonus to the trash"
+   */
+  static describe(data: DecryptedAuditEventData): string {
+    const noun = data.recordType ? RECORD_NOUNS[data.recordType] : 'record';
+    const article = /^[AEIOU]/i.test(noun) ? 'an' : 'a';
+
+    switch (data.type) {
+      case 'create':
+        return `Added ${article} ${noun}`;
+      case 'update':
+        return `Edited ${article} ${noun}`;
+      case 'delete':
+        return `Moved ${article} ${noun} to the trash`;
+      case 'restore':
+        return `Restored ${article} ${noun} from the trash`;
+      case 'purge':
+        return `Permanently deleted ${article} ${noun}`;
+      case 'export':
+        return 'Exported data';
+      case 'unlock':
+        return 'Unlocked the vault';
+      case 'passwordChange':
+        return 'Changed the master password';
+    }
+  }
+
+  /**
+   * Rows and columns for a CSV or JSON download of the log
+   */
+  static toTable(entries: AuditLogEntry[]) {
+    const columns = [
+      { key: 'timestamp', label: 'Timestamp' },
+      { key: 'event', label: 'Event' },
+      { key: 'description', label: 'Description' },
+      { key: 'details', label: 'Details' },
+      { key: 'recordType', label: 'Record Type' },
+      { key: 'recordId', label: 'Record ID' },
+    ];
+
+    const rows = entries.map(entry => ({
+      timestamp: new Date(entry.timestamp).toISOString(),
+      event: entry.data ? AUDIT_EVENT_LABELS[entry.data.type] : null,
+      description: entry.data ? this.describe(entry.data) : 'Could not be decrypted',
+      details: entry.data?.details ?? null,
+      recordType: entry.data?.recordType ?? null,
+      recordId: entry.data?.recordId ?? null,
+    }));
+
+    return { columns, rows };
+  }
+}
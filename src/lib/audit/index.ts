@@ -0,0 +1,2 @@
+export { AuditLog, AUDIT_EVENT_LABELS } from './auditLog';
+export type { AuditLogEntry, AuditLogFilter } from './auditLog';
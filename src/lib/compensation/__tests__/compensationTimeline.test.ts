@@ -0,0 +1,174 @@
+/**
+ * Compensation timeline tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import type { DecryptedBonusData, DecryptedEquityData, DecryptedSalaryData } from '@/lib/db/types';
+import { CompensationTimeline, type CompTimelineInput } from '../compensationTimeline';
+import { check, expectEqual } from '@/lib/testing';
+
+const salary = (overrides: Partial<DecryptedSalaryData>): DecryptedSalaryData => ({
+  company: 'Acme',
+  title: 'Engineer',
+  location: 'Remote',
+  amount: 36500,
+  currency: 'USD',
+  startDate: '2023-07-01',
+  endDate: '2024-06-30',
+  isCurrentPosition: false,
+  ...overrides,
+});
+
+const bonus = (overrides: Partial<DecryptedBonusData>): DecryptedBonusData => ({
+  company: 'Acme',
+  type: 'performance',
+  amount: 1000,
+  currency: 'USD',
+  date: '2024-01-15',
+  description: 'Bonus',
+  ...overrides,
+});
+
+const grant: DecryptedEquityData = {
+  company: 'Acme',
+  type: 'RSU',
+  shares: 1200,
+  grantDate: '2023-01-01',
+  vestingStart: '2023-01-01',
+  vestingPeriod: 12,
+  vestingFrequency: 'annual',
+};
+
+const input = (overrides: Partial<CompTimelineInput>): CompTimelineInput => ({
+  salaries: [],
+  bonuses: [],
+  grants: [],
+  esppPlans: [],
+  valuations: [],
+  ...overrides,
+});
+
+const round = (amounts: number[]) => amounts.map(amount => Math.round(amount));
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const compensationTimelineTests = {
+  testSalaryProRated() {
+    const failures: string[] = [];
+    const timeline = CompensationTimeline.build(input({ salaries: [salary({})] }), {
+      groupBy: 'year',
+      currency: 'USD',
+      asOf: new Date('2024-12-01T12:00:00'),
+    });
+
+    // $100 a day: 184 days in 2023, 182 in 2024
+    expectEqual(failures, 'years', timeline.periods.map(p => p.label), ['2023', '2024']);
+    expectEqual(failures, 'salary by day', round(timeline.periods.map(p => p.amounts.salary)), [18400, 18200]);
+    expectEqual(failures, 'total', Math.round(timeline.totals.salary), 36600);
+
+    return check('Salary is pro-rated by day between its start and end', failures);
+  },
+
+  testBonusesByMonth() {
+    const failures: string[] = [];
+    const timeline = CompensationTimeline.build(
+      input({
+        bonuses: [
+          bonus({}),
+          bonus({ date: '2024-04-01', amount: 500 }),
+          bonus({ date: '2024-02-01', amount: 300, currency: 'EUR' }),
+        ],
+      }),
+      { groupBy: 'month', currency: 'USD', asOf: new Date('2024-12-01T12:00:00') }
+    );
+
+    expectEqual(failures, 'gaps filled', timeline.periods.map(p => p.key), ['2024-01', '2024-02', '2024-03', '2024-04']);
+    expectEqual(failures, 'bonus on its date', timeline.periods.map(p => p.amounts.bonus), [1000, 0, 0, 500]);
+    expectEqual(failures, 'other currency', timeline.otherCurrencyRecords, 1);
+
+    return check('Bonuses land in the month they were paid', failures);
+  },
+
+  testEquityAtVestPrice() {
+    const failures: string[] = [];
+    const timeline = CompensationTimeline.build(
+      input({
+        grants: [grant, { ...grant, company: 'Globex' }],
+        valuations: [
+          { company: 'Acme', date: '2023-06-01', pricePerShare: 10, currency: 'USD', source: '409a' },
+          { company: 'Acme', date: '2024-06-01', pricePerShare: 50, currency: 'USD', source: '409a' },
+        ],
+      }),
+      { groupBy: 'year', currency: 'USD', asOf: new Date('2024-06-15T12:00:00') }
+    );
+
+    expectEqual(failures, 'vest year', timeline.periods.map(p => p.label), ['2024']);
+    expectEqual(failures, 'price on the vest date', timeline.periods[0]?.amounts.equity, 12000);
+    expectEqual(failures, 'unpriced', timeline.unpricedVests, 1);
+
+    return check('Equity is valued at the share price on each vest date', failures);
+  },
+
+  testFiltersAndProjection() {
+    const failures: string[] = [];
+    const data = input({
+      salaries: [salary({ startDate: '2024-01-01', endDate: undefined, isCurrentPosition: true })],
+      bonuses: [bonus({ company: 'Globex' })],
+      esppPlans: [{
+        company: 'Acme',
+        offeringStart: '2024-01-01',
+        offeringEnd: '2024-06-30',
+        offeringFmv: 10,
+        contributionPercent: 10,
+        discountPercent: 15,
+        hasLookback: true,
+        currency: 'USD',
+        purchases: [{ date: '2024-06-30', fmv: 20, purchasePrice: 8.5, shares: 100 }],
+      }],
+    });
+    const asOf = new Date('2024-06-15T12:00:00');
+
+    const months = CompensationTimeline.build(data, { groupBy: 'month', currency: 'USD', asOf });
+    expectEqual(failures, 'current salary to year end', months.periods.length, 12);
+    expectEqual(failures, 'projected', [months.periods[5].isProjected, months.periods[6].isProjected], [false, true]);
+    expectEqual(failures, 'ESPP discount', months.periods[5].amounts.espp, 1150);
+
+    const globex = CompensationTimeline.build(data, { groupBy: 'year', currency: 'USD', asOf, companies: ['globex'] });
+    expectEqual(failures, 'company filter', [globex.totals.salary, globex.totals.bonus], [0, 1000]);
+
+    const bonusesOnly = CompensationTimeline.build(data, { groupBy: 'year', currency: 'USD', asOf, components: ['bonus'] });
+    expectEqual(failures, 'component filter', bonusesOnly.periods[0]?.total, 1000);
+
+    expectEqual(failures, 'companies', CompensationTimeline.getCompanies(data), ['Acme', 'Globex']);
+
+    return check('Toggles filter components and companies; future months are projected', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running compensation timeline tests...');
+
+    const results = [
+      this.testSalaryProRated(),
+      this.testBonusesByMonth(),
+      this.testEquityAtVestPrice(),
+      this.testFiltersAndProjection(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All compensation timeline tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).compensationTimelineTests = compensationTimelineTests;
+}
@@ -0,0 +1,245 @@
+import {
+  addMonths,
+  addYears,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfYear,
+  format,
+  isAfter,
+  isBefore,
+  max,
+  min,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfYear,
+} from 'date-fns';
+import type {
+  DecryptedBonusData,
+  DecryptedEquityData,
+  DecryptedEsppData,
+  DecryptedSalaryData,
+  DecryptedValuationData,
+} from '@/lib/db/types';
+import { VestingSchedule } from '@/lib/vesting';
+import { EquityValuation } from '@/lib/valuation';
+import { EsppCalculator } from '@/lib/espp';
+
+export type CompComponent = 'salary' | 'bonus' | 'equity' | 'espp';
+export type CompGrouping = 'year' | 'month';
+
+export const COMP_COMPONENTS: CompComponent[] = ['salary', 'bonus', 'equity', 'espp'];
+
+export interface CompTimelineInput {
+  salaries: DecryptedSalaryData[];
+  bonuses: DecryptedBonusData[];
+  grants: DecryptedEquityData[];
+  esppPlans: DecryptedEsppData[];
+  valuations: DecryptedValuationData[]; // Values equity at each vest date
+}
+
+export interface CompTimelineOptions {
+  groupBy: CompGrouping;
+  currency: string; // Only amounts in this currency are charted
+  components?: CompComponent[]; // Defaults to every component
+  companies?: string[]; // Defaults to every company
+  asOf?: Date;
+}
+
+export interface CompPeriod {
+  key: string;
+  label: string;
+  start: Date;
+  end: Date;
+  amounts: Record<CompComponent, number>;
+  total: number;
+  isProjected: boolean; // Starts after asOf: current salaries and upcoming vests only
+}
+
+export interface CompTimeline {
+  periods: CompPeriod[];
+  totals: Record<CompComponent, number>;
+  otherCurrencyRecords: number; // Salaries, bonuses and ESPP offerings left out for their currency
+  unpricedVests: number; // Vests without a share price in the currency
+}
+
+interface CompEntry {
+  date: Date;
+  component: CompComponent;
+  amount: number;
+}
+
+const DAYS_PER_YEAR = 365;
+
+const companyKey = (company: string) => company.trim().toLowerCase();
+
+const emptyAmounts = (): Record<CompComponent, number> => ({ salary: 0, bonus: 0, equity: 0, espp: 0 });
+
+export class CompensationTimeline {
+  /**
+   * Total compensation per year or month: salary pro-rated by day between its
+   * start and end dates, bonuses on their date, equity at the share price on
+   * each vest date and ESPP discount on each purchase date. Current salaries
+   * and upcoming vests are projected to the end of the current year. Periods
+   * run without gaps from the first entry to the last.
+   */
+  static build(input: CompTimelineInput, options: CompTimelineOptions): CompTimeline {
+    const asOf = options.asOf ?? new Date();
+    const horizon = endOfYear(asOf);
+    const components = new Set(options.components ?? COMP_COMPONENTS);
+    const companies = options.companies ? new Set(options.companies.map(companyKey)) : null;
+    const includesCompany = (company: string) => !companies || companies.has(companyKey(company));
+
+    const entries: CompEntry[] = [];
+    let otherCurrencyRecords = 0;
+    let unpricedVests = 0;
+
+    if (components.has('salary')) {
+      for (const salary of input.salaries.filter(s => includesCompany(s.company))) {
+        if (salary.currency !== options.currency) {
+          otherCurrencyRecords++;
+          continue;
+        }
+        entries.push(...this.getSalaryEntries(salary, asOf, horizon));
+      }
+    }
+
+    if (components.has('bonus')) {
+      for (const bonus of input.bonuses.filter(b => includesCompany(b.company))) {
+        if (bonus.currency !== options.currency) {
+          otherCurrencyRecords++;
+          continue;
+        }
+        entries.push({ date: this.parseDate(bonus.date), component: 'bonus', amount: bonus.amount });
+      }
+    }
+
+    if (components.has('equity')) {
+      for (const grant of input.grants.filter(g => includesCompany(g.company))) {
+        for (const event of VestingSchedule.getVestEvents(grant)) {
+          if (isAfter(event.date, horizon)) continue;
+
+          // Upcoming vests use the latest price on file
+          const valuation = EquityValuation.getValuationAsOf(input.valuations, grant.company, event.date);
+          if (!valuation || valuation.currency !== options.currency) {
+            unpricedVests++;
+            continue;
+          }
+          entries.push({
+            date: event.date,
+            component: 'equity',
+            amount: event.shares * EquityValuation.getValuePerShare(grant, valuation.pricePerShare),
+          });
+        }
+      }
+    }
+
+    if (components.has('espp')) {
+      for (const plan of input.esppPlans.filter(p => includesCompany(p.company))) {
+        if (plan.currency !== options.currency) {
+          otherCurrencyRecords++;
+          continue;
+        }
+        for (const purchase of plan.purchases) {
+          entries.push({
+            date: this.parseDate(purchase.date),
+            component: 'espp',
+            amount: EsppCalculator.getPurchaseResult(purchase).gain,
+          });
+        }
+      }
+    }
+
+    const totals = emptyAmounts();
+    const amounts = entries.filter(entry => entry.amount !== 0);
+    if (amounts.length === 0) {
+      return { periods: [], totals, otherCurrencyRecords, unpricedVests };
+    }
+
+    const periods = this.getPeriods(
+      min(amounts.map(entry => entry.date)),
+      max(amounts.map(entry => entry.date)),
+      options.groupBy,
+      asOf
+    );
+    const periodsByKey = new Map(periods.map(period => [period.key, period]));
+
+    for (const entry of amounts) {
+      const period = periodsByKey.get(this.getPeriodKey(entry.date, options.groupBy));
+      if (!period) continue;
+      period.amounts[entry.component] += entry.amount;
+      period.total += entry.amount;
+      totals[entry.component] += entry.amount;
+    }
+
+    return { periods, totals, otherCurrencyRecords, unpricedVests };
+  }
+
+  /**
+   * Companies named on any record, for filtering
+   */
+  static getCompanies(input: CompTimelineInput): string[] {
+    const companies = new Map<string, string>();
+    const names = [
+      ...input.salaries.map(salary => salary.company),
+      ...input.bonuses.map(bonus => bonus.company),
+      ...input.grants.map(grant => grant.company),
+      ...input.esppPlans.map(plan => plan.company),
+    ];
+    for (const name of names) {
+      if (!companies.has(companyKey(name))) {
+        companies.set(companyKey(name), name);
+      }
+    }
+    return Array.from(companies.values()).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * One entry per month the salary was paid, at the annual amount per day.
+   * Salaries without an end date run to asOf, or to the horizon while current.
+   */
+  private static getSalaryEntries(salary: DecryptedSalaryData, asOf: Date, horizon: Date): CompEntry[] {
+    const start = this.parseDate(salary.startDate);
+    const end = salary.endDate
+      ? this.parseDate(salary.endDate)
+      : salary.isCurrentPosition ? horizon : startOfDay(asOf);
+    const dailyAmount = salary.amount / DAYS_PER_YEAR;
+
+    const entries: CompEntry[] = [];
+    for (let month = startOfMonth(start); !isAfter(month, end); month = addMonths(month, 1)) {
+      const from = max([month, start]);
+      const to = min([endOfMonth(month), end]);
+      const days = differenceInCalendarDays(to, from) + 1;
+      if (days > 0) {
+        entries.push({ date: from, component: 'salary', amount: days * dailyAmount });
+      }
+    }
+    return entries;
+  }
+
+  private static getPeriods(first: Date, last: Date, groupBy: CompGrouping, asOf: Date): CompPeriod[] {
+    const periods: CompPeriod[] = [];
+    const startOf = groupBy === 'year' ? startOfYear : startOfMonth;
+
+    for (let start = startOf(first); !isAfter(start, last); start = groupBy === 'year' ? addYears(start, 1) : addMonths(start, 1)) {
+      periods.push({
+        key: this.getPeriodKey(start, groupBy),
+        label: format(start, groupBy === 'year' ? 'yyyy' : 'MMM yyyy'),
+        start,
+        end: groupBy === 'year' ? endOfYear(start) : endOfMonth(start),
+        amounts: emptyAmounts(),
+        total: 0,
+        isProjected: isBefore(asOf, start),
+      });
+    }
+    return periods;
+  }
+
+  private static getPeriodKey(date: Date, groupBy: CompGrouping): string {
+    return format(date, groupBy === 'year' ? 'yyyy' : 'yyyy-MM');
+  }
+
+  private static parseDate(value: string): Date {
+    return startOfDay(parseISO(value));
+  }
+}
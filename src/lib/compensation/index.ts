@@ -0,0 +1,9 @@
+export { CompensationTimeline, COMP_COMPONENTS } from './compensationTimeline';
+export type {
+  CompComponent,
+  CompGrouping,
+  CompTimelineInput,
+  CompTimelineOptions,
+  CompPeriod,
+  CompTimeline,
+} from './compensationTimeline';
@@ -6,10 +6,21 @@
 import { EncryptionService } from '@/services/encryptionService';
 import { CryptoUtils } from '../encryption';
 import { KeyDerivation } from '../keyDerivation';
+import { KDF_VERSION, type KdfVersion } from '../types';
+
+// Password encryption derives keys with Argon2id, which only runs in a browser.
+// Outside one those tests are skipped (null) rather than reported as failures.
+const skipWithoutArgon2 = (name: string) => {
+  if (KeyDerivation.isArgon2Available()) return false;
+  console.log(`⏭️ ${name} skipped: Argon2id needs a browser`);
+  return true;
+};
 
 // These tests would be run with Jest/Vitest in a proper test environment
 export const encryptionTests = {
   async testBasicEncryption() {
+    if (skipWithoutArgon2('Basic encryption/decryption test')) return null;
+
     const testData = 'Hello, World! This is sensitive data.';
     const password = 'SecurePassword123!';
 
@@ -42,6 +53,8 @@ export const encryptionTests = {
   },
 
   async testWrongPassword() {
+    if (skipWithoutArgon2('Wrong password test')) return null;
+
     const testData = 'Secret information';
     const correctPassword = 'CorrectPassword123!';
     const wrongPassword = 'WrongPassword456!';
@@ -92,27 +105,68 @@ export const encryptionTests = {
   async testKeyDerivation() {
     const password = 'TestPassword123!';
     const salt = CryptoUtils.generateSalt(32);
+    // The legacy PBKDF2 derivation runs anywhere; Argon2id only in a browser
+    const kdfVersions: KdfVersion[] = KeyDerivation.isArgon2Available()
+      ? [KDF_VERSION.PBKDF2_SHA256, KDF_VERSION.ARGON2ID]
+      : [KDF_VERSION.PBKDF2_SHA256];
 
     try {
-      const key1 = await KeyDerivation.deriveKey({ password, salt });
-      const key2 = await KeyDerivation.deriveKey({ password, salt });
+      for (const kdfVersion of kdfVersions) {
+        const key1 = await KeyDerivation.deriveKey({ password, salt, kdfVersion });
+        const key2 = await KeyDerivation.deriveKey({ password, salt, kdfVersion });
 
-      // Keys should be the same for same password/salt
-      // We can't directly compare CryptoKey objects, but they should encrypt/decrypt consistently
-      const testData = 'Consistency test';
-      
-      const encrypted1 = await CryptoUtils.encrypt(testData, key1);
-      const decrypted1 = await CryptoUtils.decrypt(encrypted1.encryptedData, key2, encrypted1.iv);
+        // Keys should be the same for same password/salt
+        // We can't directly compare CryptoKey objects, but they should encrypt/decrypt consistently
+        const testData = 'Consistency test';
+
+        const encrypted1 = await CryptoUtils.encrypt(testData, key1);
+        const decrypted1 = await CryptoUtils.decrypt(encrypted1.encryptedData, key2, encrypted1.iv);
 
-      if (decrypted1 === testData) {
-        console.log('✅ Key derivation consistency test passed');
+        if (decrypted1 !== testData) {
+          console.error(`❌ Key derivation consistency test failed for KDF version ${kdfVersion}`);
+          return false;
+        }
+      }
+
+      console.log(`✅ Key derivation consistency test passed (KDF versions ${kdfVersions.join(', ')})`);
+      return true;
+    } catch (error) {
+      console.error('❌ Key derivation test error:', error);
+      return false;
+    }
+  },
+
+  async testDataKeyEncryption() {
+    const testData = 'Records are encrypted with the vault data key';
+
+    try {
+      const rawDataKey = CryptoUtils.generateRawKey();
+      const dataKey = await EncryptionService.importDataKey(rawDataKey);
+      const encrypted = await EncryptionService.encryptWithDataKey(testData, dataKey);
+      const decrypted = await EncryptionService.decryptWithKey(encrypted, dataKey);
+
+      // The data key travels wrapped; only the right wrapping key unwraps it
+      const wrappingKey = await EncryptionService.importDataKey(CryptoUtils.generateRawKey());
+      const otherKey = await EncryptionService.importDataKey(CryptoUtils.generateRawKey());
+      const wrapped = await EncryptionService.wrapDataKey(rawDataKey, wrappingKey, '');
+      const unwrapped = await EncryptionService.unwrapDataKey(wrapped, wrappingKey);
+      const wrongKeyRejected = await EncryptionService.unwrapDataKey(wrapped, otherKey).then(() => false, () => true);
+
+      if (
+        encrypted.keyDerivation === 'DataKey' &&
+        decrypted.success &&
+        decrypted.data === testData &&
+        unwrapped.join() === rawDataKey.join() &&
+        wrongKeyRejected
+      ) {
+        console.log('✅ Data key encryption and wrapping test passed');
         return true;
       } else {
-        console.error('❌ Key derivation consistency test failed');
+        console.error('❌ Data key encryption or wrapping test failed');
         return false;
       }
     } catch (error) {
-      console.error('❌ Key derivation test error:', error);
+      console.error('❌ Data key test error:', error);
       return false;
     }
   },
@@ -125,12 +179,14 @@ export const encryptionTests = {
       this.testWrongPassword(),
       this.testPasswordValidation(),
       this.testKeyDerivation(),
+      this.testDataKeyEncryption(),
     ]);
 
-    const passed = results.filter(Boolean).length;
-    const total = results.length;
+    const passed = results.filter(result => result === true).length;
+    const skipped = results.filter(result => result === null).length;
+    const total = results.length - skipped;
 
-    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed${skipped > 0 ? `, ${skipped} skipped outside the browser` : ''}`);
     
     if (passed === total) {
       console.log('🎉 All encryption tests passed!');
@@ -144,5 +200,5 @@ export const encryptionTests = {
 
 // Export for potential use in browser console
 if (typeof window !== 'undefined') {
-  (window as Record<string, unknown>).encryptionTests = encryptionTests;
+  (window as unknown as Record<string, unknown>).encryptionTests = encryptionTests;
 }
\ No newline at end of file
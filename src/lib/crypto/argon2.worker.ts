@@ -0,0 +1,29 @@
+/**
+ * Runs Argon2id off the main thread so key derivation doesn't freeze the UI
+ */
+import { hash, ArgonType, type HashOptions } from 'argon2-browser/dist/argon2-bundled.min.js';
+
+export interface Argon2WorkerRequest {
+  id: number;
+  options: Omit<HashOptions, 'type'>;
+}
+
+export type Argon2WorkerResponse =
+  | { id: number; hash: Uint8Array }
+  | { id: number; error: string };
+
+self.addEventListener('message', async (event: MessageEvent<Argon2WorkerRequest>) => {
+  const { id, options } = event.data;
+
+  try {
+    const result = await hash({ ...options, type: ArgonType.Argon2id });
+    const response: Argon2WorkerResponse = { id, hash: result.hash };
+    self.postMessage(response, { transfer: [result.hash.buffer] });
+  } catch (error) {
+    const message = error instanceof Error
+      ? error.message
+      : (error as { message?: string })?.message || 'Argon2 hashing failed';
+    const response: Argon2WorkerResponse = { id, error: message };
+    self.postMessage(response);
+  }
+});
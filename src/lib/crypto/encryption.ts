@@ -26,6 +26,13 @@ export class CryptoUtils {
     }
   }
 
+  /**
+   * Generates random raw key material for AES-256-GCM (e.g. a data key to be wrapped)
+   */
+  static generateRawKey(): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(KEY_LENGTH / 8));
+  }
+
   /**
    * Imports a raw key buffer as a CryptoKey for use with Web Crypto API
    */
@@ -4,6 +4,7 @@ export { EncryptionService } from '@/services/encryptionService';
 // Core encryption utilities
 export { CryptoUtils } from './encryption';
 export { KeyDerivation } from './keyDerivation';
+export { RecoveryPhrase } from './recoveryPhrase';
 
 // Types and interfaces
 export type {
@@ -1,5 +1,12 @@
-import { KeyDerivationParams, EncryptionError } from './types';
+import type { HashOptions } from 'argon2-browser';
+import {
+  KeyDerivationParams,
+  EncryptionError,
+  KDF_VERSION,
+  CURRENT_KDF_VERSION,
+} from './types';
 import { CryptoUtils } from './encryption';
+import type { Argon2WorkerRequest, Argon2WorkerResponse } from './argon2.worker';
 
 export class KeyDerivation {
   // Default Argon2id parameters - balanced for security and performance
@@ -10,11 +17,27 @@ export class KeyDerivation {
     hashLength: 32, // 256 bits for AES-256
   };
 
+  private static worker: Worker | null = null;
+  private static nextRequestId = 0;
+  private static pendingRequests = new Map<
+    number,
+    { resolve: (hash: Uint8Array) => void; reject: (error: Error) => void }
+  >();
+
+  /**
+   * Whether Argon2id can run here. The argon2-browser build needs a browser,
+   * so servers and Node test runs only have the legacy PBKDF2 derivation.
+   */
+  static isArgon2Available(): boolean {
+    return typeof window !== 'undefined';
+  }
+
   /**
-   * Load argon2-browser dynamically (client-side only)
+   * Load Argon2id lazily (client-side only). Hashing runs in a Web Worker when
+   * available and falls back to the main thread otherwise.
    */
-  private static async loadArgon2() {
-    if (typeof window === 'undefined') {
+  private static async loadArgon2(): Promise<(options: Omit<HashOptions, 'type'>) => Promise<Uint8Array>> {
+    if (!this.isArgon2Available()) {
       throw new EncryptionError(
         'Argon2 is only available in browser environment',
         'SERVER_SIDE_ERROR'
@@ -22,36 +45,14 @@ export class KeyDerivation {
     }
 
     try {
-      // Use a fallback implementation for build compatibility
-      // In a real environment, this would load the actual argon2-browser
-      console.warn('Using fallback key derivation - replace with actual Argon2 in production');
-      
-      // Simple PBKDF2 fallback for development/build purposes
-      return async (options: Record<string, any>) => {
-        const encoder = new TextEncoder();
-        const passwordBuffer = encoder.encode(options.pass);
-        const saltBuffer = options.salt;
-        
-        const importedKey = await crypto.subtle.importKey(
-          'raw',
-          passwordBuffer,
-          { name: 'PBKDF2' },
-          false,
-          ['deriveKey', 'deriveBits']
-        );
-        
-        const derivedBits = await crypto.subtle.deriveBits(
-          {
-            name: 'PBKDF2',
-            salt: saltBuffer,
-            iterations: options.time * 1000, // Scale up iterations
-            hash: 'SHA-256',
-          },
-          importedKey,
-          options.hashLen * 8
-        );
-        
-        return { hash: derivedBits };
+      if (typeof Worker !== 'undefined') {
+        return (options) => this.hashInWorker(options);
+      }
+
+      const argon2 = await import('argon2-browser/dist/argon2-bundled.min.js');
+      return async (options) => {
+        const result = await argon2.hash({ ...options, type: argon2.ArgonType.Argon2id });
+        return result.hash;
       };
     } catch {
       throw new EncryptionError(
@@ -61,6 +62,73 @@ export class KeyDerivation {
     }
   }
 
+  /**
+   * Send a hashing request to the shared Argon2 worker
+   */
+  private static hashInWorker(options: Omit<HashOptions, 'type'>): Promise<Uint8Array> {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./argon2.worker.ts', import.meta.url), { type: 'module' });
+
+      this.worker.addEventListener('message', (event: MessageEvent<Argon2WorkerResponse>) => {
+        const response = event.data;
+        const request = this.pendingRequests.get(response.id);
+        if (!request) return;
+
+        this.pendingRequests.delete(response.id);
+        if ('error' in response) {
+          request.reject(new Error(response.error));
+        } else {
+          request.resolve(response.hash);
+        }
+      });
+
+      this.worker.addEventListener('error', (event) => {
+        this.pendingRequests.forEach(request => request.reject(new Error(event.message)));
+        this.pendingRequests.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      });
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      const request: Argon2WorkerRequest = { id, options };
+      this.worker!.postMessage(request);
+    });
+  }
+
+  /**
+   * PBKDF2-SHA256 fallback used before Argon2id was wired up. Kept so data
+   * encrypted under KDF_VERSION.PBKDF2_SHA256 still decrypts and can be migrated.
+   */
+  private static async deriveLegacyPbkdf2(
+    password: string,
+    salt: Uint8Array,
+    iterations: number,
+    hashLength: number
+  ): Promise<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const importedKey = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(password),
+      { name: 'PBKDF2' },
+      false,
+      ['deriveKey', 'deriveBits']
+    );
+
+    return crypto.subtle.deriveBits(
+      {
+        name: 'PBKDF2',
+        salt,
+        iterations: iterations * 1000, // Scale up iterations
+        hash: 'SHA-256',
+      },
+      importedKey,
+      hashLength * 8
+    );
+  }
+
   /**
    * Derives a cryptographic key from a password using Argon2id
    * Argon2id is the recommended variant as it provides protection against
@@ -74,6 +142,7 @@ export class KeyDerivation {
       iterations = this.DEFAULT_PARAMS.iterations,
       parallelism = this.DEFAULT_PARAMS.parallelism,
       hashLength = this.DEFAULT_PARAMS.hashLength,
+      kdfVersion = CURRENT_KDF_VERSION,
     } = params;
 
     try {
@@ -92,14 +161,18 @@ export class KeyDerivation {
         );
       }
 
+      if (kdfVersion === KDF_VERSION.PBKDF2_SHA256) {
+        const legacyBits = await this.deriveLegacyPbkdf2(password, salt, iterations, hashLength);
+        return await CryptoUtils.importKey(legacyBits);
+      }
+
       // Load Argon2 dynamically
       const hash = await this.loadArgon2();
 
       // Derive key using Argon2id
-      const result = await hash({
+      const derived = await hash({
         pass: password,
         salt: salt,
-        type: 2, // Argon2id
         mem: memory,
         time: iterations,
         parallelism: parallelism,
@@ -107,7 +180,9 @@ export class KeyDerivation {
       });
 
       // Import the derived key for use with Web Crypto API
-      return await CryptoUtils.importKey(result.hash);
+      const keyBuffer = new ArrayBuffer(derived.byteLength);
+      new Uint8Array(keyBuffer).set(derived);
+      return await CryptoUtils.importKey(keyBuffer);
     } catch (error) {
       if (error instanceof EncryptionError) {
         throw error;
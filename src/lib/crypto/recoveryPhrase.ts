@@ -0,0 +1,29 @@
+import { entropyToMnemonic, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { CryptoUtils } from './encryption';
+
+// 128 bits of entropy encode to 12 words (the last one carries a checksum)
+const RECOVERY_ENTROPY_BYTES = 16;
+
+export class RecoveryPhrase {
+  /**
+   * Generates a new 12-word recovery phrase from fresh random entropy
+   */
+  static generate(): string {
+    return entropyToMnemonic(CryptoUtils.generateSalt(RECOVERY_ENTROPY_BYTES), wordlist);
+  }
+
+  /**
+   * Lowercases and collapses whitespace so a retyped phrase derives the same key
+   */
+  static normalize(phrase: string): string {
+    return phrase.trim().toLowerCase().split(/\s+/).join(' ');
+  }
+
+  /**
+   * Checks that every word is on the list and the checksum matches, catching typos
+   */
+  static isValid(phrase: string): boolean {
+    return validateMnemonic(this.normalize(phrase), wordlist);
+  }
+}
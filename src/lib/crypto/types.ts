@@ -1,9 +1,25 @@
+/**
+ * Versioned key derivation function identifiers.
+ * 1 - PBKDF2-SHA256 development fallback (data written before versioning
+ *     carries no kdfVersion and was derived this way despite its label)
+ * 2 - Argon2id (WASM)
+ */
+export const KDF_VERSION = {
+  PBKDF2_SHA256: 1,
+  ARGON2ID: 2,
+} as const;
+
+export type KdfVersion = typeof KDF_VERSION[keyof typeof KDF_VERSION];
+
+export const CURRENT_KDF_VERSION: KdfVersion = KDF_VERSION.ARGON2ID;
+
 export interface EncryptedData {
   encryptedData: string; // Base64 encoded encrypted data
   iv: string; // Base64 encoded initialization vector
   salt: string; // Base64 encoded salt used for key derivation
   algorithm: 'AES-GCM';
-  keyDerivation: 'Argon2id';
+  keyDerivation: 'Argon2id' | 'DataKey'; // DataKey: encrypted with the user's data key, salt is unused
+  kdfVersion?: KdfVersion; // Missing means KDF_VERSION.PBKDF2_SHA256
 }
 
 export interface KeyDerivationParams {
@@ -13,10 +29,11 @@ export interface KeyDerivationParams {
   iterations?: number; // Number of iterations (default: 3)
   parallelism?: number; // Parallelism factor (default: 1)
   hashLength?: number; // Hash length in bytes (default: 32 for AES-256)
+  kdfVersion?: KdfVersion; // Which KDF to run (default: CURRENT_KDF_VERSION)
 }
 
 export interface EncryptionOptions {
-  keyDerivationParams?: Partial<Omit<KeyDerivationParams, 'password' | 'salt'>>;
+  keyDerivationParams?: Partial<Omit<KeyDerivationParams, 'password' | 'salt' | 'kdfVersion'>>;
 }
 
 export interface DecryptionResult {
@@ -0,0 +1,104 @@
+/**
+ * Currency module tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { Currency } from '../currency';
+import { CURRENCIES } from '../currencies';
+import { currencyCodeSchema } from '@/lib/validations/currency';
+import { salarySchema } from '@/lib/validations/salary';
+import { check, expectEqual } from '@/lib/testing';
+
+// Intl uses narrow no-break spaces in some locales
+const normalize = (value: string) => value.replace(/[\u00a0\u202f]/g, ' ');
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const currencyTests = {
+  testList() {
+    const failures: string[] = [];
+    const codes = CURRENCIES.map(currency => currency.code);
+
+    expectEqual(failures, 'unique codes', new Set(codes).size, codes.length);
+    expectEqual(failures, 'sorted', [...codes].sort(), codes);
+    expectEqual(failures, 'three letters', codes.filter(code => !/^[A-Z]{3}$/.test(code)), []);
+    expectEqual(failures, 'minor units', ['JPY', 'USD', 'BHD'].map(code => Currency.getMinorUnits(code)), [0, 2, 3]);
+    expectEqual(failures, 'unknown', [Currency.isValid('ABC'), Currency.get('usd')], [false, null]);
+
+    return check('ISO 4217 list with minor units', failures);
+  },
+
+  testFormat() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'JPY', normalize(Currency.format(1234.5, 'JPY', 'en-US')), '¥1,235');
+    expectEqual(failures, 'BHD', normalize(Currency.format(1234.5, 'BHD', 'en-US')), 'BHD 1,234.500');
+    expectEqual(failures, 'EUR in de-DE', normalize(Currency.format(1234.5, 'EUR', 'de-DE')), '1.234,50 €');
+    expectEqual(failures, 'rounded', normalize(Currency.format(1234.5, 'USD', 'en-US', { maximumFractionDigits: 0 })), '$1,235');
+    expectEqual(failures, 'per-share prices', normalize(Currency.format(12.3456, 'JPY', 'en-US', { maximumFractionDigits: 4 })), '¥12.3456');
+    expectEqual(failures, 'symbols', ['USD', 'CAD', 'AUD'].map(code => Currency.getSymbol(code, 'en-US')), ['$', 'CA$', 'A$']);
+
+    return check('Amounts use each currency\'s minor units and the locale', failures);
+  },
+
+  testSearch() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'exact code first', Currency.search('chf')[0]?.code, 'CHF');
+    expectEqual(failures, 'by name', Currency.search('swiss').map(currency => currency.code), ['CHF']);
+    expectEqual(failures, 'withdrawn hidden by default', Currency.search('').some(currency => currency.code === 'HRK'), false);
+    expectEqual(failures, 'withdrawn when searched', Currency.search('kuna').map(currency => currency.code), ['HRK']);
+    expectEqual(failures, 'limited codes', Currency.search('', ['USD', 'EUR']).map(currency => currency.code), ['USD', 'EUR']);
+
+    return check('Picker search matches codes and names', failures);
+  },
+
+  testValidation() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'known code', currencyCodeSchema.safeParse('SEK').success, true);
+    expectEqual(failures, 'unknown code', currencyCodeSchema.safeParse('XYZ').success, false);
+    expectEqual(failures, 'lower case', currencyCodeSchema.safeParse('sek').success, false);
+
+    const salary = salarySchema.safeParse({
+      company: 'Acme',
+      title: 'Engineer',
+      location: 'Remote',
+      amount: 100000,
+      currency: 'US$',
+      startDate: '2024-01-01',
+      isCurrentPosition: true,
+    });
+    expectEqual(failures, 'salary error', salary.success ? null : salary.error.issues.map(issue => issue.path.join('.')), ['currency']);
+
+    return check('Schemas reject unknown currency codes', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running currency tests...');
+
+    const results = [
+      this.testList(),
+      this.testFormat(),
+      this.testSearch(),
+      this.testValidation(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All currency tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).currencyTests = currencyTests;
+}
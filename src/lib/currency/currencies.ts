@@ -0,0 +1,171 @@
+export interface CurrencyInfo {
+  code: string; // ISO 4217 alphabetic code
+  name: string;
+  minorUnits: number; // Digits after the decimal point, e.g. 0 for JPY and 3 for BHD
+  withdrawn?: boolean; // No longer issued, but kept so older records stay valid
+}
+
+/**
+ * ISO 4217 currencies in circulation, plus recently withdrawn ones that older
+ * records may still use. Funds, precious metals and testing codes are left out.
+ */
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'AED', name: 'UAE Dirham', minorUnits: 2 },
+  { code: 'AFN', name: 'Afghani', minorUnits: 2 },
+  { code: 'ALL', name: 'Lek', minorUnits: 2 },
+  { code: 'AMD', name: 'Armenian Dram', minorUnits: 2 },
+  { code: 'ANG', name: 'Netherlands Antillean Guilder', minorUnits: 2, withdrawn: true },
+  { code: 'AOA', name: 'Kwanza', minorUnits: 2 },
+  { code: 'ARS', name: 'Argentine Peso', minorUnits: 2 },
+  { code: 'AUD', name: 'Australian Dollar', minorUnits: 2 },
+  { code: 'AWG', name: 'Aruban Florin', minorUnits: 2 },
+  { code: 'AZN', name: 'Azerbaijan Manat', minorUnits: 2 },
+  { code: 'BAM', name: 'Convertible Mark', minorUnits: 2 },
+  { code: 'BBD', name: 'Barbados Dollar', minorUnits: 2 },
+  { code: 'BDT', name: 'Taka', minorUnits: 2 },
+  { code: 'BGN', name: 'Bulgarian Lev', minorUnits: 2, withdrawn: true },
+  { code: 'BHD', name: 'Bahraini Dinar', minorUnits: 3 },
+  { code: 'BIF', name: 'Burundi Franc', minorUnits: 0 },
+  { code: 'BMD', name: 'Bermudian Dollar', minorUnits: 2 },
+  { code: 'BND', name: 'Brunei Dollar', minorUnits: 2 },
+  { code: 'BOB', name: 'Boliviano', minorUnits: 2 },
+  { code: 'BRL', name: 'Brazilian Real', minorUnits: 2 },
+  { code: 'BSD', name: 'Bahamian Dollar', minorUnits: 2 },
+  { code: 'BTN', name: 'Ngultrum', minorUnits: 2 },
+  { code: 'BWP', name: 'Pula', minorUnits: 2 },
+  { code: 'BYN', name: 'Belarusian Ruble', minorUnits: 2 },
+  { code: 'BZD', name: 'Belize Dollar', minorUnits: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', minorUnits: 2 },
+  { code: 'CDF', name: 'Congolese Franc', minorUnits: 2 },
+  { code: 'CHF', name: 'Swiss Franc', minorUnits: 2 },
+  { code: 'CLP', name: 'Chilean Peso', minorUnits: 0 },
+  { code: 'CNY', name: 'Yuan Renminbi', minorUnits: 2 },
+  { code: 'COP', name: 'Colombian Peso', minorUnits: 2 },
+  { code: 'CRC', name: 'Costa Rican Colon', minorUnits: 2 },
+  { code: 'CUP', name: 'Cuban Peso', minorUnits: 2 },
+  { code: 'CVE', name: 'Cabo Verde Escudo', minorUnits: 2 },
+  { code: 'CZK', name: 'Czech Koruna', minorUnits: 2 },
+  { code: 'DJF', name: 'Djibouti Franc', minorUnits: 0 },
+  { code: 'DKK', name: 'Danish Krone', minorUnits: 2 },
+  { code: 'DOP', name: 'Dominican Peso', minorUnits: 2 },
+  { code: 'DZD', name: 'Algerian Dinar', minorUnits: 2 },
+  { code: 'EGP', name: 'Egyptian Pound', minorUnits: 2 },
+  { code: 'ERN', name: 'Nakfa', minorUnits: 2 },
+  { code: 'ETB', name: 'Ethiopian Birr', minorUnits: 2 },
+  { code: 'EUR', name: 'Euro', minorUnits: 2 },
+  { code: 'FJD', name: 'Fiji Dollar', minorUnits: 2 },
+  { code: 'FKP', name: 'Falkland Islands Pound', minorUnits: 2 },
+  { code: 'GBP', name: 'Pound Sterling', minorUnits: 2 },
+  { code: 'GEL', name: 'Lari', minorUnits: 2 },
+  { code: 'GHS', name: 'Ghana Cedi', minorUnits: 2 },
+  { code: 'GIP', name: 'Gibraltar Pound', minorUnits: 2 },
+  { code: 'GMD', name: 'Dalasi', minorUnits: 2 },
+  { code: 'GNF', name: 'Guinean Franc', minorUnits: 0 },
+  { code: 'GTQ', name: 'Quetzal', minorUnits: 2 },
+  { code: 'GYD', name: 'Guyana Dollar', minorUnits: 2 },
+  { code: 'HKD', name: 'Hong Kong Dollar', minorUnits: 2 },
+  { code: 'HNL', name: 'Lempira', minorUnits: 2 },
+  { code: 'HRK', name: 'Croatian Kuna', minorUnits: 2, withdrawn: true },
+  { code: 'HTG', name: 'Gourde', minorUnits: 2 },
+  { code: 'HUF', name: 'Forint', minorUnits: 2 },
+  { code: 'IDR', name: 'Rupiah', minorUnits: 2 },
+  { code: 'ILS', name: 'New Israeli Sheqel', minorUnits: 2 },
+  { code: 'INR', name: 'Indian Rupee', minorUnits: 2 },
+  { code: 'IQD', name: 'Iraqi Dinar', minorUnits: 3 },
+  { code: 'IRR', name: 'Iranian Rial', minorUnits: 2 },
+  { code: 'ISK', name: 'Iceland Krona', minorUnits: 0 },
+  { code: 'JMD', name: 'Jamaican Dollar', minorUnits: 2 },
+  { code: 'JOD', name: 'Jordanian Dinar', minorUnits: 3 },
+  { code: 'JPY', name: 'Yen', minorUnits: 0 },
+  { code: 'KES', name: 'Kenyan Shilling', minorUnits: 2 },
+  { code: 'KGS', name: 'Som', minorUnits: 2 },
+  { code: 'KHR', name: 'Riel', minorUnits: 2 },
+  { code: 'KMF', name: 'Comorian Franc', minorUnits: 0 },
+  { code: 'KPW', name: 'North Korean Won', minorUnits: 2 },
+  { code: 'KRW', name: 'Won', minorUnits: 0 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', minorUnits: 3 },
+  { code: 'KYD', name: 'Cayman Islands Dollar', minorUnits: 2 },
+  { code: 'KZT', name: 'Tenge', minorUnits: 2 },
+  { code: 'LAK', name: 'Lao Kip', minorUnits: 2 },
+  { code: 'LBP', name: 'Lebanese Pound', minorUnits: 2 },
+  { code: 'LKR', name: 'Sri Lanka Rupee', minorUnits: 2 },
+  { code: 'LRD', name: 'Liberian Dollar', minorUnits: 2 },
+  { code: 'LSL', name: 'Loti', minorUnits: 2 },
+  { code: 'LYD', name: 'Libyan Dinar', minorUnits: 3 },
+  { code: 'MAD', name: 'Moroccan Dirham', minorUnits: 2 },
+  { code: 'MDL', name: 'Moldovan Leu', minorUnits: 2 },
+  { code: 'MGA', name: 'Malagasy Ariary', minorUnits: 2 },
+  { code: 'MKD', name: 'Denar', minorUnits: 2 },
+  { code: 'MMK', name: 'Kyat', minorUnits: 2 },
+  { code: 'MNT', name: 'Tugrik', minorUnits: 2 },
+  { code: 'MOP', name: 'Pataca', minorUnits: 2 },
+  { code: 'MRU', name: 'Ouguiya', minorUnits: 2 },
+  { code: 'MUR', name: 'Mauritius Rupee', minorUnits: 2 },
+  { code: 'MVR', name: 'Rufiyaa', minorUnits: 2 },
+  { code: 'MWK', name: 'Malawi Kwacha', minorUnits: 2 },
+  { code: 'MXN', name: 'Mexican Peso', minorUnits: 2 },
+  { code: 'MYR', name: 'Malaysian Ringgit', minorUnits: 2 },
+  { code: 'MZN', name: 'Mozambique Metical', minorUnits: 2 },
+  { code: 'NAD', name: 'Namibia Dollar', minorUnits: 2 },
+  { code: 'NGN', name: 'Naira', minorUnits: 2 },
+  { code: 'NIO', name: 'Cordoba Oro', minorUnits: 2 },
+  { code: 'NOK', name: 'Norwegian Krone', minorUnits: 2 },
+  { code: 'NPR', name: 'Nepalese Rupee', minorUnits: 2 },
+  { code: 'NZD', name: 'New Zealand Dollar', minorUnits: 2 },
+  { code: 'OMR', name: 'Rial Omani', minorUnits: 3 },
+  { code: 'PAB', name: 'Balboa', minorUnits: 2 },
+  { code: 'PEN', name: 'Sol', minorUnits: 2 },
+  { code: 'PGK', name: 'Kina', minorUnits: 2 },
+  { code: 'PHP', name: 'Philippine Peso', minorUnits: 2 },
+  { code: 'PKR', name: 'Pakistan Rupee', minorUnits: 2 },
+  { code: 'PLN', name: 'Zloty', minorUnits: 2 },
+  { code: 'PYG', name: 'Guarani', minorUnits: 0 },
+  { code: 'QAR', name: 'Qatari Rial', minorUnits: 2 },
+  { code: 'RON', name: 'Romanian Leu', minorUnits: 2 },
+  { code: 'RSD', name: 'Serbian Dinar', minorUnits: 2 },
+  { code: 'RUB', name: 'Russian Ruble', minorUnits: 2 },
+  { code: 'RWF', name: 'Rwanda Franc', minorUnits: 0 },
+  { code: 'SAR', name: 'Saudi Riyal', minorUnits: 2 },
+  { code: 'SBD', name: 'Solomon Islands Dollar', minorUnits: 2 },
+  { code: 'SCR', name: 'Seychelles Rupee', minorUnits: 2 },
+  { code: 'SDG', name: 'Sudanese Pound', minorUnits: 2 },
+  { code: 'SEK', name: 'Swedish Krona', minorUnits: 2 },
+  { code: 'SGD', name: 'Singapore Dollar', minorUnits: 2 },
+  { code: 'SHP', name: 'Saint Helena Pound', minorUnits: 2 },
+  { code: 'SLE', name: 'Leone', minorUnits: 2 },
+  { code: 'SOS', name: 'Somali Shilling', minorUnits: 2 },
+  { code: 'SRD', name: 'Surinam Dollar', minorUnits: 2 },
+  { code: 'SSP', name: 'South Sudanese Pound', minorUnits: 2 },
+  { code: 'STN', name: 'Dobra', minorUnits: 2 },
+  { code: 'SVC', name: 'El Salvador Colon', minorUnits: 2 },
+  { code: 'SYP', name: 'Syrian Pound', minorUnits: 2 },
+  { code: 'SZL', name: 'Lilangeni', minorUnits: 2 },
+  { code: 'THB', name: 'Baht', minorUnits: 2 },
+  { code: 'TJS', name: 'Somoni', minorUnits: 2 },
+  { code: 'TMT', name: 'Turkmenistan New Manat', minorUnits: 2 },
+  { code: 'TND', name: 'Tunisian Dinar', minorUnits: 3 },
+  { code: 'TOP', name: 'Pa’anga', minorUnits: 2 },
+  { code: 'TRY', name: 'Turkish Lira', minorUnits: 2 },
+  { code: 'TTD', name: 'Trinidad and Tobago Dollar', minorUnits: 2 },
+  { code: 'TWD', name: 'New Taiwan Dollar', minorUnits: 2 },
+  { code: 'TZS', name: 'Tanzanian Shilling', minorUnits: 2 },
+  { code: 'UAH', name: 'Hryvnia', minorUnits: 2 },
+  { code: 'UGX', name: 'Uganda Shilling', minorUnits: 0 },
+  { code: 'USD', name: 'US Dollar', minorUnits: 2 },
+  { code: 'UYU', name: 'Peso Uruguayo', minorUnits: 2 },
+  { code: 'UZS', name: 'Uzbekistan Sum', minorUnits: 2 },
+  { code: 'VED', name: 'Bolívar Soberano', minorUnits: 2 },
+  { code: 'VES', name: 'Bolívar Soberano', minorUnits: 2 },
+  { code: 'VND', name: 'Dong', minorUnits: 0 },
+  { code: 'VUV', name: 'Vatu', minorUnits: 0 },
+  { code: 'WST', name: 'Tala', minorUnits: 2 },
+  { code: 'XAF', name: 'CFA Franc BEAC', minorUnits: 0 },
+  { code: 'XCD', name: 'East Caribbean Dollar', minorUnits: 2 },
+  { code: 'XCG', name: 'Caribbean Guilder', minorUnits: 2 },
+  { code: 'XOF', name: 'CFA Franc BCEAO', minorUnits: 0 },
+  { code: 'XPF', name: 'CFP Franc', minorUnits: 0 },
+  { code: 'YER', name: 'Yemeni Rial', minorUnits: 2 },
+  { code: 'ZAR', name: 'Rand', minorUnits: 2 },
+  { code: 'ZMW', name: 'Zambian Kwacha', minorUnits: 2 },
+  { code: 'ZWG', name: 'Zimbabwe Gold', minorUnits: 2 },
+];
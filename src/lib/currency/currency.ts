@@ -0,0 +1,70 @@
+import { CURRENCIES, type CurrencyInfo } from './currencies';
+
+const BY_CODE = new Map(CURRENCIES.map(currency => [currency.code, currency]));
+
+export class Currency {
+  static isValid(code: string): boolean {
+    return BY_CODE.has(code);
+  }
+
+  static get(code: string): CurrencyInfo | null {
+    return BY_CODE.get(code) ?? null;
+  }
+
+  /**
+   * Digits after the decimal point; codes outside the list get the usual 2
+   */
+  static getMinorUnits(code: string): number {
+    return BY_CODE.get(code)?.minorUnits ?? 2;
+  }
+
+  /**
+   * Format an amount with the currency's own minor units unless the options
+   * say otherwise, e.g. ¥1,235 and BHD 1.235 rather than ¥1,234.50
+   */
+  static format(amount: number, code: string, locale: string, options: Intl.NumberFormatOptions = {}): string {
+    const minorUnits = this.getMinorUnits(code);
+    const maximumFractionDigits = options.maximumFractionDigits
+      ?? Math.max(minorUnits, options.minimumFractionDigits ?? 0);
+    const minimumFractionDigits = options.minimumFractionDigits ?? Math.min(minorUnits, maximumFractionDigits);
+
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: code,
+      ...options,
+      minimumFractionDigits,
+      maximumFractionDigits,
+    }).format(amount);
+  }
+
+  /**
+   * The symbol a locale shows for a currency: "$" for USD but "CA$" for CAD in en-US
+   */
+  static getSymbol(code: string, locale: string): string {
+    const parts = new Intl.NumberFormat(locale, { style: 'currency', currency: code }).formatToParts(0);
+    return parts.find(part => part.type === 'currency')?.value ?? code;
+  }
+
+  /**
+   * Currencies whose code or name matches a search, exact code matches first.
+   * Withdrawn currencies only show when searched for.
+   */
+  static search(query: string, codes?: string[]): CurrencyInfo[] {
+    const candidates = codes ? codes.map(code => this.get(code) ?? { code, name: code, minorUnits: 2 }) : CURRENCIES;
+    const term = query.trim().toLowerCase();
+    if (!term) {
+      return codes ? candidates : candidates.filter(currency => !currency.withdrawn);
+    }
+
+    const matches = candidates.filter(currency =>
+      currency.code.toLowerCase().includes(term) || currency.name.toLowerCase().includes(term)
+    );
+    const rank = (currency: CurrencyInfo) => {
+      const code = currency.code.toLowerCase();
+      if (code === term) return 0;
+      if (code.startsWith(term)) return 1;
+      return 2;
+    };
+    return matches.sort((a, b) => rank(a) - rank(b));
+  }
+}
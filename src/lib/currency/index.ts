@@ -0,0 +1,3 @@
+export { Currency } from './currency';
+export { CURRENCIES } from './currencies';
+export type { CurrencyInfo } from './currencies';
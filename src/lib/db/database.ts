@@ -4,6 +4,12 @@ import type {
   PendingSyncItem,
   UserPreferences,
   OfflineQueueItem,
+  SyncMetadata,
+  VaultMetadata,
+  PriceHistoryRecord,
+  FxRateRecord,
+  RecordRevision,
+  AuditEvent,
 } from './types';
 
 export class CompTrailsDatabase extends Dexie {
@@ -12,6 +18,12 @@ export class CompTrailsDatabase extends Dexie {
   pendingSync!: Table<PendingSyncItem>;
   userPreferences!: Table<UserPreferences>;
   offlineQueue!: Table<OfflineQueueItem>;
+  syncMetadata!: Table<SyncMetadata, string>;
+  vaults!: Table<VaultMetadata, string>;
+  priceHistories!: Table<PriceHistoryRecord>;
+  fxRates!: Table<FxRateRecord>;
+  recordRevisions!: Table<RecordRevision>;
+  auditEvents!: Table<AuditEvent>;
 
   constructor() {
     super('CompTrailsDB');
@@ -30,8 +42,55 @@ export class CompTrailsDatabase extends Dexie {
       offlineQueue: '++id, method, url, status, timestamp, attempts',
     });
 
+    // v2: map local records to their Convex document ids
+    this.version(2).stores({
+      compensationRecords: '++id, userId, type, syncStatus, createdAt, updatedAt, lastSyncAt, convexId',
+    });
+
+    // v3: per-user pull watermark
+    this.version(3).stores({
+      syncMetadata: '&userId',
+    });
+
+    // v4: master password vault (salt + verifier)
+    this.version(4).stores({
+      vaults: '&userId',
+    });
+
+    // v5: vaults wrap a per-user data key and sync to Convex
+    this.version(5).stores({
+      vaults: '&userId',
+    }).upgrade(tx => {
+      return tx.table('vaults').toCollection().modify(vault => {
+        vault.syncStatus = 'pending';
+      });
+    });
+
+    // v6: imported stock price history, encrypted and kept on this device
+    this.version(6).stores({
+      priceHistories: '++id, userId, updatedAt',
+    });
+
+    // v7: exchange rates per currency pair, encrypted and kept on this device
+    this.version(7).stores({
+      fxRates: '++id, userId, updatedAt',
+    });
+
+    // v8: prior encrypted payloads of compensation records, synced alongside them
+    this.version(8).stores({
+      recordRevisions: '++id, userId, recordId, revisionUid, syncStatus, [recordId+version]',
+    });
+
+    // v9: append-only audit log, encrypted and synced
+    this.version(9).stores({
+      auditEvents: '++id, userId, eventUid, syncStatus, timestamp, [userId+serverCreatedAt]',
+    });
+
     // Add hooks for automatic timestamp management
     this.compensationRecords.hook('creating', (primKey, obj) => {
+      // Records pulled from Convex keep their server timestamps and version
+      if (obj.convexId) return;
+
       const now = Date.now();
       obj.createdAt = now;
       obj.updatedAt = now;
@@ -44,7 +103,8 @@ export class CompTrailsDatabase extends Dexie {
       if (!(modifications as Record<string, any>).version) {
         (modifications as Record<string, any>).version = ((obj as Record<string, any>).version || 0) + 1;
       }
-      if ((modifications as Record<string, any>).syncStatus !== 'synced') {
+      const syncStatus = (modifications as Record<string, any>).syncStatus;
+      if (syncStatus !== 'synced' && syncStatus !== 'conflict') {
         (modifications as Record<string, any>).syncStatus = 'pending';
       }
     });
@@ -67,6 +127,26 @@ export class CompTrailsDatabase extends Dexie {
 (modifications as Record<string, any>).updatedAt = Date.now();
     });
 
+    this.priceHistories.hook('creating', (primKey, obj) => {
+      const now = Date.now();
+      obj.createdAt = now;
+      obj.updatedAt = now;
+    });
+
+    this.priceHistories.hook('updating', (modifications) => {
+      (modifications as Record<string, any>).updatedAt = Date.now();
+    });
+
+    this.fxRates.hook('creating', (primKey, obj) => {
+      const now = Date.now();
+      obj.createdAt = now;
+      obj.updatedAt = now;
+    });
+
+    this.fxRates.hook('updating', (modifications) => {
+      (modifications as Record<string, any>).updatedAt = Date.now();
+    });
+
     this.offlineQueue.hook('creating', (primKey, obj) => {
       obj.timestamp = Date.now();
       obj.attempts = 0;
@@ -110,6 +190,17 @@ export class CompTrailsDatabase extends Dexie {
     return result || null;
   }
 
+  // Helper method to get the last pull watermark for a user
+  async getLastPulledAt(userId: string): Promise<number> {
+    const metadata = await this.syncMetadata.get(userId);
+    return metadata?.lastPulledAt || 0;
+  }
+
+  // Helper method to advance the pull watermark for a user
+  async setLastPulledAt(userId: string, lastPulledAt: number) {
+    await this.syncMetadata.put({ userId, lastPulledAt });
+  }
+
   // Helper method to get pending sync items
   async getPendingSyncItems(userId: string) {
     return this.pendingSync
@@ -155,10 +246,20 @@ export class CompTrailsDatabase extends Dexie {
       this.compensationRecords,
       this.pendingSync,
       this.userPreferences,
+      this.syncMetadata,
+      this.recordRevisions,
+      this.auditEvents,
+      this.priceHistories,
+      this.fxRates,
     ], async () => {
       await this.compensationRecords.where('userId').equals(userId).delete();
+      await this.recordRevisions.where('userId').equals(userId).delete();
+      await this.auditEvents.where('userId').equals(userId).delete();
+      await this.priceHistories.where('userId').equals(userId).delete();
+      await this.fxRates.where('userId').equals(userId).delete();
       await this.pendingSync.where('userId').equals(userId).delete();
       await this.userPreferences.where('userId').equals(userId).delete();
+      await this.syncMetadata.delete(userId);
     });
   }
 
@@ -8,13 +8,39 @@ export type {
   BaseRecord,
   CompensationType,
   CompensationRecord,
+  ConflictData,
+  ConflictResolution,
+  RecordRevision,
   PendingSyncItem,
+  SyncMetadata,
   UserPreferences,
+  VaultMetadata,
   DecryptedSalaryData,
   DecryptedBonusData,
   DecryptedEquityData,
+  VestingScheduleType,
+  VestingTranche,
+  DecryptedValuationData,
+  ValuationSource,
+  DecryptedExerciseData,
+  ExerciseMethod,
+  DecryptedShareLotData,
+  DecryptedShareSaleData,
+  LotSelectionMethod,
+  ShareSaleAllocation,
+  DecryptedEsppData,
+  EsppPurchase,
+  PriceHistoryRecord,
+  DecryptedPriceHistoryData,
+  PricePoint,
+  FxRateRecord,
+  DecryptedFxRateData,
+  FxRatePoint,
   DecryptedCompensationData,
   DatabaseChangeEvent,
+  AuditEventType,
+  DecryptedAuditEventData,
+  AuditEvent,
   OfflineQueueItem,
   SyncOperation,
   SyncStatus,
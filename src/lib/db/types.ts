@@ -9,7 +9,7 @@ export interface BaseRecord {
 }
 
 // Compensation record types
-export type CompensationType = 'salary' | 'bonus' | 'equity';
+export type CompensationType = 'salary' | 'bonus' | 'equity' | 'valuation' | 'exercise' | 'shareLot' | 'shareSale' | 'espp';
 
 export interface CompensationRecord extends BaseRecord {
   type: CompensationType;
@@ -18,8 +18,38 @@ export interface CompensationRecord extends BaseRecord {
   syncStatus: 'pending' | 'synced' | 'conflict' | 'error';
   lastSyncAt?: number;
   version: number; // For conflict resolution
+  convexId?: string; // Convex `_id` once the record has reached the server
+  remoteVersion?: number; // Last server version this record was synced against
+  conflictData?: ConflictData; // Server copy, present while syncStatus is 'conflict'
+  deletedAt?: number; // Moved to the trash; purged once older than the trash retention
+  legacyUnreadableAt?: number; // Device-local: pre-vault payload nothing could decrypt, so the migration stops retrying it
 }
 
+// The payload a compensation record had before an update replaced it
+export interface RecordRevision extends BaseRecord {
+  revisionUid: string; // Stable across devices, so pulled revisions are not stored twice
+  recordId: number; // Local CompensationRecord id
+  version: number; // Record version this payload belonged to
+  encryptedData: EncryptedData;
+  currency: string;
+  syncStatus: 'pending' | 'synced';
+  convexId?: string; // Convex `_id` once pushed
+}
+
+// Server copy of a record captured when a push hits a version conflict
+export interface ConflictData {
+  encryptedData: EncryptedData;
+  currency: string;
+  version: number;
+  updatedAt: number;
+  deletedAt?: number;
+}
+
+export type ConflictResolution =
+  | { strategy: 'keep-mine' }
+  | { strategy: 'keep-theirs' }
+  | { strategy: 'merge'; encryptedData: EncryptedData; currency: string };
+
 // Pending sync operations
 export type SyncOperation = 'create' | 'update' | 'delete';
 export type SyncStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
@@ -35,6 +65,60 @@ export interface PendingSyncItem extends BaseRecord {
   error?: string;
 }
 
+// Per-user sync bookkeeping
+export interface SyncMetadata {
+  userId: string;
+  lastPulledAt: number; // Highest server updatedAt merged into this device
+}
+
+// Master password vault - lets the app check a password without decrypting records
+export interface VaultMetadata {
+  userId: string;
+  salt: string; // Base64 salt the password key is derived from
+  wrappedKey?: EncryptedData; // Data key encrypted with the password key
+  recoveryKey?: EncryptedData; // Data key encrypted with a key derived from the recovery phrase
+  verifier?: EncryptedData; // Vaults created before data keys: known plaintext encrypted with the password key
+  syncStatus: 'pending' | 'synced';
+  remoteVersion?: number; // Last vault version acknowledged by the server
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Imported daily closes for one ticker. Device-local: never synced to Convex.
+export interface PriceHistoryRecord extends BaseRecord {
+  encryptedData: EncryptedData; // DecryptedPriceHistoryData
+}
+
+export interface DecryptedPriceHistoryData {
+  ticker: string;
+  company: string; // Matched against DecryptedEquityData.company
+  currency: string;
+  prices: PricePoint[]; // Sorted by date, one close per day
+  fileName?: string; // Last file imported into this series
+}
+
+export interface PricePoint {
+  date: string; // ISO date string
+  close: number;
+}
+
+// Exchange rates for one currency pair, entered by hand or imported. Device-local: never synced to Convex.
+export interface FxRateRecord extends BaseRecord {
+  encryptedData: EncryptedData; // DecryptedFxRateData
+}
+
+export interface DecryptedFxRateData {
+  base: string; // One unit of the base currency...
+  quote: string; // ...buys `rate` units of the quote currency
+  rates: FxRatePoint[]; // Sorted by date, one rate per day
+  fileName?: string; // Last file imported into this pair
+}
+
+export interface FxRatePoint {
+  date: string; // ISO date string
+  rate: number;
+}
+
 // User preferences and settings
 export interface UserPreferences extends BaseRecord {
   theme: 'light' | 'dark' | 'system';
@@ -49,11 +133,18 @@ export interface UserPreferences extends BaseRecord {
   privacy: {
     enableAnalytics: boolean;
     shareUsageData: boolean;
+    trashRetentionDays: number; // Deleted records are purged after this many days; 0 keeps them until the trash is emptied
   };
   security: {
     sessionTimeout: number; // minutes
     requirePasswordForSensitiveActions: boolean;
   };
+  // The fields above stay readable on this device so they apply before the vault
+  // unlocks; only this encrypted copy of them is synced to Convex
+  encryptedData?: EncryptedData;
+  syncStatus?: 'pending' | 'synced';
+  remoteVersion?: number; // Last server version this device has seen
+  remoteData?: EncryptedData; // Newer server copy, applied to the fields above once the vault unlocks
 }
 
 // Decrypted compensation data structures (used after decryption)
@@ -81,6 +172,7 @@ export interface DecryptedBonusData {
 }
 
 export interface DecryptedEquityData {
+  grantUid?: string; // Stable id that links exercises to the grant across devices; assigned on first exercise for older grants
   company: string;
   type: 'ISO' | 'NSO' | 'RSU' | 'ESPP' | 'other';
   shares: number;
@@ -90,13 +182,114 @@ export interface DecryptedEquityData {
   vestingCliff?: number; // months
   vestingPeriod: number; // months
   vestingFrequency: 'monthly' | 'quarterly' | 'annual';
+  vestingScheduleType?: VestingScheduleType; // Missing on grants saved before custom schedules; treated as 'uniform'
+  vestingYearlyPercentages?: number[]; // 'yearly': percent of the grant vesting in each year, e.g. [5, 15, 40, 40]
+  vestingTranches?: VestingTranche[]; // 'custom': explicit tranches
+  notes?: string;
+}
+
+export type VestingScheduleType = 'uniform' | 'yearly' | 'custom';
+
+export interface VestingTranche {
+  monthsFromStart: number; // months after vestingStart
+  percentage: number; // percent of the grant
+}
+
+// Price per share for a company on a given date, used to value equity grants
+export interface DecryptedValuationData {
+  company: string; // Matched against DecryptedEquityData.company
+  date: string; // ISO date string the price applies from
+  pricePerShare: number;
+  currency: string;
+  source: ValuationSource;
+  notes?: string;
+}
+
+export type ValuationSource = '409a' | 'preferred' | 'tender' | 'public' | 'other';
+
+// An option exercise against an ISO/NSO grant. Each exercise is one tax lot.
+export interface DecryptedExerciseData {
+  grantUid: string; // DecryptedEquityData.grantUid of the exercised grant
+  company: string;
+  equityType: 'ISO' | 'NSO';
+  date: string; // ISO date string
+  shares: number;
+  strikePrice: number;
+  fmvAtExercise: number; // Fair market value per share on the exercise date
+  currency: string;
+  method: ExerciseMethod;
+  sharesSold?: number; // 'sell-to-cover': shares sold to pay the strike and taxes ('cashless' sells all)
+  isEarlyExercise: boolean; // Exercised before vesting
+  election83bDate?: string; // ISO date string the 83(b) election was filed
+  notes?: string;
+}
+
+export type ExerciseMethod = 'cash' | 'cashless' | 'sell-to-cover';
+
+// Shares received when RSUs vest, held until sold
+export interface DecryptedShareLotData {
+  lotUid: string; // Referenced by share sale allocations
+  grantUid: string; // DecryptedEquityData.grantUid of the vesting grant
+  company: string;
+  acquiredDate: string; // ISO date string of the vest
+  shares: number; // Shares deposited, after any withheld for tax
+  sharesWithheld?: number;
+  costBasisPerShare: number; // FMV on the vest date
+  currency: string;
+  notes?: string;
+}
+
+// A sale of shares from one or more lots
+export interface DecryptedShareSaleData {
+  company: string;
+  date: string; // ISO date string
+  shares: number;
+  pricePerShare: number;
+  fees?: number; // Commissions and fees for the whole sale
+  currency: string;
+  lotSelection: LotSelectionMethod;
+  allocations: ShareSaleAllocation[]; // Shares taken from each lot, fixed when the sale is recorded
+  notes?: string;
+}
+
+export type LotSelectionMethod = 'fifo' | 'specific';
+
+export interface ShareSaleAllocation {
+  lotUid: string;
+  shares: number;
+}
+
+// One ESPP offering period and the purchases made during it
+export interface DecryptedEsppData {
+  company: string;
+  offeringStart: string; // ISO date string
+  offeringEnd: string; // ISO date string
+  offeringFmv: number; // FMV per share on the offering date, used for the lookback
+  contributionPercent: number; // Percent of salary contributed each paycheck
+  discountPercent: number; // Discount off the (lookback) price, usually 15
+  hasLookback: boolean; // Buy at the lower of the offering and purchase date FMV
+  currency: string;
+  purchases: EsppPurchase[];
   notes?: string;
 }
 
+export interface EsppPurchase {
+  date: string; // ISO date string
+  fmv: number; // FMV per share on the purchase date
+  purchasePrice: number; // Price paid per share after the discount
+  shares: number;
+  contribution?: number; // Payroll contributions used for the purchase
+}
+
 export type DecryptedCompensationData = 
   | DecryptedSalaryData 
   | DecryptedBonusData 
-  | DecryptedEquityData;
+  | DecryptedEquityData
+  | DecryptedValuationData
+  | DecryptedExerciseData
+  | DecryptedShareLotData
+  | DecryptedShareSaleData
+  | DecryptedEsppData;
 
 // Database event types for change tracking
 export interface DatabaseChangeEvent {
@@ -107,6 +300,28 @@ export interface DatabaseChangeEvent {
   userId: string;
 }
 
+// Actions recorded in the audit log: record changes plus account-level events
+export type AuditEventType = SyncOperation | 'restore' | 'purge' | 'export' | 'unlock' | 'passwordChange';
+
+// What an audit event says. Record changes carry the table and record id of their DatabaseChangeEvent.
+export interface DecryptedAuditEventData extends Partial<Pick<DatabaseChangeEvent, 'table' | 'recordId'>> {
+  type: AuditEventType;
+  recordType?: CompensationType;
+  details?: string; // e.g. "12 salary records as CSV"
+}
+
+// Append-only audit log entry; the details only ever leave this device encrypted
+export interface AuditEvent {
+  id?: number;
+  userId: string;
+  eventUid: string; // Stable across devices, so pulled events are not stored twice
+  timestamp: number;
+  encryptedData: EncryptedData;
+  syncStatus: 'pending' | 'synced';
+  convexId?: string; // Convex `_id` once pushed
+  serverCreatedAt?: number; // Convex `_creationTime`, set once the event has been seen in a pull
+}
+
 // Offline queue item for API calls
 export interface OfflineQueueItem {
   id?: number;
@@ -0,0 +1,109 @@
+/**
+ * ESPP calculator tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import type { DecryptedEsppData } from '@/lib/db/types';
+import { EsppCalculator } from '../esppCalculator';
+import { check, expectEqual } from '@/lib/testing';
+
+const plan: DecryptedEsppData = {
+  company: 'Acme',
+  offeringStart: '2024-01-01',
+  offeringEnd: '2025-12-31',
+  offeringFmv: 40,
+  contributionPercent: 10,
+  discountPercent: 15,
+  hasLookback: true,
+  currency: 'USD',
+  purchases: [
+    { date: '2024-12-31', fmv: 60, purchasePrice: 34, shares: 200 },
+    { date: '2024-06-30', fmv: 30, purchasePrice: 25.5, shares: 150 },
+  ],
+};
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const esppCalculatorTests = {
+  testPurchasePrice() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'lookback to the lower offering FMV', EsppCalculator.getPurchasePrice(plan, 60), 34);
+    expectEqual(failures, 'purchase FMV when lower', EsppCalculator.getPurchasePrice(plan, 30), 25.5);
+    expectEqual(failures, 'no lookback', EsppCalculator.getPurchasePrice({ ...plan, hasLookback: false }, 60), 51);
+    expectEqual(failures, 'rounded to cents', EsppCalculator.getPurchasePrice({ ...plan, offeringFmv: 33.33 }, 50), 28.33);
+
+    return check('Purchase price is the discount off the lookback price', failures);
+  },
+
+  testContributionsAndShares() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'six months at 10%', EsppCalculator.estimateContribution(120000, 10, '2024-01-01', '2024-07-01'), 6000);
+    expectEqual(failures, 'whole shares', EsppCalculator.estimateShares(6000, 34), 176);
+    expectEqual(failures, 'no price', EsppCalculator.estimateShares(6000, 0), 0);
+
+    return check('Contributions buy whole shares at the purchase price', failures);
+  },
+
+  testPurchaseDates() {
+    const failures: string[] = [];
+
+    expectEqual(failures, '24-month offering', EsppCalculator.getPurchaseDates('2024-01-01', '2025-12-31'), [
+      '2024-07-01',
+      '2025-01-01',
+      '2025-07-01',
+      '2025-12-31',
+    ]);
+    expectEqual(failures, 'ends on an interval', EsppCalculator.getPurchaseDates('2024-02-15', '2024-08-15'), ['2024-08-15']);
+
+    return check('Purchase dates run every six months to the offering end', failures);
+  },
+
+  testSummaryAndYearGains() {
+    const failures: string[] = [];
+    const summary = EsppCalculator.summarizePlan(plan);
+
+    expectEqual(failures, 'oldest first', summary.purchases.map(result => result.purchase.date), ['2024-06-30', '2024-12-31']);
+    expectEqual(failures, 'shares', summary.sharesPurchased, 350);
+    expectEqual(failures, 'cost', summary.cost, 150 * 25.5 + 200 * 34);
+    expectEqual(failures, 'gain', summary.gain, 150 * 4.5 + 200 * 26);
+    expectEqual(failures, 'discount rate', summary.purchases[0].discountRate.toFixed(2), '0.15');
+
+    const gains = EsppCalculator.getGainsForYear(
+      [plan, { ...plan, currency: 'EUR', purchases: [{ date: '2025-06-30', fmv: 10, purchasePrice: 8.5, shares: 10 }] }],
+      2024
+    );
+    expectEqual(failures, 'gains in the year', gains, { USD: 150 * 4.5 + 200 * 26 });
+
+    return check('Plan summary totals the discount captured on purchases', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running ESPP calculator tests...');
+
+    const results = [
+      this.testPurchasePrice(),
+      this.testContributionsAndShares(),
+      this.testPurchaseDates(),
+      this.testSummaryAndYearGains(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All ESPP calculator tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).esppCalculatorTests = esppCalculatorTests;
+}
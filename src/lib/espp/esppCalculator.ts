@@ -0,0 +1,127 @@
+import { addMonths, differenceInCalendarMonths, format, isAfter } from 'date-fns';
+import type { DecryptedEsppData, EsppPurchase } from '@/lib/db/types';
+
+// Most qualified plans buy every six months
+export const DEFAULT_PURCHASE_INTERVAL_MONTHS = 6;
+
+type EsppPricing = Pick<DecryptedEsppData, 'offeringFmv' | 'discountPercent' | 'hasLookback'>;
+
+export interface EsppPurchaseResult {
+  purchase: EsppPurchase;
+  cost: number; // Purchase price x shares
+  marketValue: number; // Purchase date FMV x shares
+  gain: number; // Discount captured at purchase (marketValue - cost)
+  discountRate: number; // Effective discount off the purchase date FMV, 0-1
+}
+
+export interface EsppPlanSummary {
+  purchases: EsppPurchaseResult[];
+  sharesPurchased: number;
+  cost: number;
+  marketValue: number;
+  gain: number;
+}
+
+// Plan dates are calendar days; read them as local midnight
+const toDate = (date: string) => new Date(`${date}T00:00:00`);
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export class EsppCalculator {
+  /**
+   * Price the discount applies to: the lower of the offering and purchase
+   * date FMV with a lookback, otherwise (or before the offering FMV is known)
+   * the purchase date FMV
+   */
+  static getLookbackPrice(plan: EsppPricing, purchaseFmv: number): number {
+    return plan.hasLookback && plan.offeringFmv > 0 ? Math.min(plan.offeringFmv, purchaseFmv) : purchaseFmv;
+  }
+
+  /**
+   * Discounted price per share, rounded to cents
+   */
+  static getPurchasePrice(plan: EsppPricing, purchaseFmv: number): number {
+    return roundToCents(this.getLookbackPrice(plan, purchaseFmv) * (1 - plan.discountPercent / 100));
+  }
+
+  /**
+   * Payroll contributions between two dates at the plan's contribution rate
+   */
+  static estimateContribution(annualSalary: number, contributionPercent: number, from: string, to: string): number {
+    const months = Math.max(0, differenceInCalendarMonths(toDate(to), toDate(from)));
+    return roundToCents((annualSalary * (contributionPercent / 100) * months) / 12);
+  }
+
+  /**
+   * Whole shares the contributions buy at the purchase price
+   */
+  static estimateShares(contribution: number, purchasePrice: number): number {
+    return purchasePrice > 0 ? Math.floor(contribution / purchasePrice) : 0;
+  }
+
+  /**
+   * Purchase dates every interval after the offering start, ending on the offering end
+   */
+  static getPurchaseDates(
+    offeringStart: string,
+    offeringEnd: string,
+    intervalMonths: number = DEFAULT_PURCHASE_INTERVAL_MONTHS
+  ): string[] {
+    const end = toDate(offeringEnd);
+    const dates: string[] = [];
+
+    for (let i = 1; ; i++) {
+      const date = addMonths(toDate(offeringStart), i * intervalMonths);
+      if (isAfter(date, end)) break;
+      dates.push(format(date, 'yyyy-MM-dd'));
+    }
+
+    if (dates[dates.length - 1] !== offeringEnd) {
+      dates.push(offeringEnd);
+    }
+    return dates;
+  }
+
+  static getPurchaseResult(purchase: EsppPurchase): EsppPurchaseResult {
+    const cost = purchase.shares * purchase.purchasePrice;
+    const marketValue = purchase.shares * purchase.fmv;
+
+    return {
+      purchase,
+      cost,
+      marketValue,
+      gain: marketValue - cost,
+      discountRate: purchase.fmv > 0 ? 1 - purchase.purchasePrice / purchase.fmv : 0,
+    };
+  }
+
+  /**
+   * Totals for an offering period, purchases oldest first
+   */
+  static summarizePlan(plan: DecryptedEsppData): EsppPlanSummary {
+    const purchases = [...plan.purchases]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(purchase => this.getPurchaseResult(purchase));
+
+    return {
+      purchases,
+      sharesPurchased: purchases.reduce((sum, result) => sum + result.purchase.shares, 0),
+      cost: purchases.reduce((sum, result) => sum + result.cost, 0),
+      marketValue: purchases.reduce((sum, result) => sum + result.marketValue, 0),
+      gain: purchases.reduce((sum, result) => sum + result.gain, 0),
+    };
+  }
+
+  /**
+   * Discount gains of purchases made in a calendar year, per currency
+   */
+  static getGainsForYear(plans: DecryptedEsppData[], year: number): Record<string, number> {
+    return plans.reduce((totals, plan) => {
+      for (const purchase of plan.purchases) {
+        if (Number(purchase.date.slice(0, 4)) !== year) continue;
+        totals[plan.currency] = (totals[plan.currency] ?? 0) + this.getPurchaseResult(purchase).gain;
+      }
+      return totals;
+    }, {} as Record<string, number>);
+  }
+}
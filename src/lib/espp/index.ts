@@ -0,0 +1,2 @@
+export { EsppCalculator, DEFAULT_PURCHASE_INTERVAL_MONTHS } from './esppCalculator';
+export type { EsppPurchaseResult, EsppPlanSummary } from './esppCalculator';
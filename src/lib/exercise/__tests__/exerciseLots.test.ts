@@ -0,0 +1,153 @@
+/**
+ * Exercise lot tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import type { DecryptedEquityData, DecryptedExerciseData } from '@/lib/db/types';
+import { ExerciseLots } from '../exerciseLots';
+import { check, expectEqual, inTimeZone } from '@/lib/testing';
+
+const grant: DecryptedEquityData = {
+  grantUid: 'grant-1',
+  company: 'Acme',
+  type: 'ISO',
+  shares: 4800,
+  strikePrice: 2,
+  grantDate: '2023-01-01',
+  vestingStart: '2023-01-01',
+  vestingCliff: 12,
+  vestingPeriod: 48,
+  vestingFrequency: 'monthly',
+};
+
+const exercise = (overrides: Partial<DecryptedExerciseData>): DecryptedExerciseData => ({
+  grantUid: 'grant-1',
+  company: 'Acme',
+  equityType: 'ISO',
+  date: '2024-06-01',
+  shares: 1000,
+  strikePrice: 2,
+  fmvAtExercise: 10,
+  currency: 'USD',
+  method: 'cash',
+  isEarlyExercise: false,
+  ...overrides,
+});
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const exerciseLotTests = {
+  testIsoCashExercise() {
+    const failures: string[] = [];
+    const lot = ExerciseLots.getLot(exercise({}));
+
+    expectEqual(failures, 'exercise cost', lot.exerciseCost, 2000);
+    expectEqual(failures, 'bargain element', lot.bargainElement, 8000);
+    expectEqual(failures, 'regular basis', lot.costBasis, 2000);
+    expectEqual(failures, 'AMT basis per share', lot.amtBasisPerShare, 10);
+    expectEqual(failures, 'AMT preference', lot.amtPreference, 8000);
+    expectEqual(failures, 'ordinary income', lot.ordinaryIncome, 0);
+
+    return check('ISO cash exercise is an AMT preference with strike basis', failures);
+  },
+
+  testNsoSellToCover() {
+    const failures: string[] = [];
+    const lot = ExerciseLots.getLot(exercise({ equityType: 'NSO', method: 'sell-to-cover', sharesSold: 400 }));
+
+    expectEqual(failures, 'shares held', lot.sharesHeld, 600);
+    expectEqual(failures, 'basis at FMV', lot.costBasis, 6000);
+    expectEqual(failures, 'ordinary income on all shares', lot.ordinaryIncome, 8000);
+    expectEqual(failures, 'no AMT', lot.amtPreference, 0);
+
+    const cashlessIso = ExerciseLots.getLot(exercise({ method: 'cashless' }));
+    expectEqual(failures, 'cashless ISO is disqualifying', [cashlessIso.sharesHeld, cashlessIso.ordinaryIncome], [0, 8000]);
+
+    return check('Sold shares are taxed as ordinary income', failures);
+  },
+
+  testEarlyExercise() {
+    const failures: string[] = [];
+    const early = ExerciseLots.getLot(exercise({ isEarlyExercise: true, fmvAtExercise: 2 }));
+    expectEqual(failures, 'no spread', early.bargainElement, 0);
+    expectEqual(failures, 'deadline', early.election83bDeadline, '2024-07-01');
+    expectEqual(failures, 'missing 83(b)', early.missing83b, true);
+
+    const filed = exercise({ isEarlyExercise: true, election83bDate: '2024-06-20' });
+    expectEqual(failures, 'filed', ExerciseLots.getLot(filed).missing83b, false);
+    expectEqual(failures, 'filing days', ExerciseLots.get83bFilingDays(filed), 19);
+
+    return check('Early exercises track the 83(b) deadline', failures);
+  },
+
+  testDeadlineAcrossDst() {
+    const failures: string[] = [];
+
+    // US clocks go forward on 10 Mar 2024 and Europe's on 31 Mar, inside these windows
+    for (const timeZone of ['America/New_York', 'Europe/Berlin', 'Asia/Tokyo']) {
+      inTimeZone(timeZone, () => {
+        const lot = ExerciseLots.getLot(exercise({ isEarlyExercise: true, date: '2024-02-20' }));
+        expectEqual(failures, `${timeZone} spring`, lot.election83bDeadline, '2024-03-21');
+
+        const autumn = ExerciseLots.getLot(exercise({ isEarlyExercise: true, date: '2024-10-20' }));
+        expectEqual(failures, `${timeZone} autumn`, autumn.election83bDeadline, '2024-11-19');
+
+        const filed = exercise({ isEarlyExercise: true, date: '2024-03-01', election83bDate: '2024-03-31' });
+        expectEqual(failures, `${timeZone} filing days`, ExerciseLots.get83bFilingDays(filed), 30);
+      });
+    }
+
+    return check('83(b) deadline holds across DST changes', failures);
+  },
+
+  testGrantSummary() {
+    const failures: string[] = [];
+    const exercises = [
+      exercise({ date: '2024-06-01', shares: 1000 }),
+      exercise({ date: '2024-03-01', shares: 200, fmvAtExercise: 6 }),
+      exercise({ grantUid: 'other-grant', shares: 999 }),
+    ];
+    // 18 of 48 months vested by July 2024
+    const summary = ExerciseLots.summarizeGrant(grant, exercises, new Date('2024-07-15T12:00:00'));
+
+    expectEqual(failures, 'lots oldest first', summary.lots.map(lot => lot.exercise.date), ['2024-03-01', '2024-06-01']);
+    expectEqual(failures, 'exercised', summary.exercisedShares, 1200);
+    expectEqual(failures, 'exercisable', summary.exercisableShares, 1800 - 1200);
+    expectEqual(failures, 'remaining', summary.remainingShares, 3600);
+    expectEqual(failures, 'bargain element', summary.bargainElement, 8000 + 800);
+
+    const unlinked = ExerciseLots.summarizeGrant({ ...grant, grantUid: undefined }, exercises);
+    expectEqual(failures, 'grant without uid', unlinked.lots.length, 0);
+
+    return check('Grant summary covers only the grant\'s exercises', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running exercise lot tests...');
+
+    const results = [
+      this.testIsoCashExercise(),
+      this.testNsoSellToCover(),
+      this.testEarlyExercise(),
+      this.testDeadlineAcrossDst(),
+      this.testGrantSummary(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All exercise lot tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).exerciseLotTests = exerciseLotTests;
+}
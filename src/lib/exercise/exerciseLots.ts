@@ -0,0 +1,126 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import type { DecryptedEquityData, DecryptedExerciseData } from '@/lib/db/types';
+import { VestingSchedule } from '@/lib/vesting';
+
+// An 83(b) election must be filed within 30 days of an early exercise
+export const ELECTION_83B_WINDOW_DAYS = 30;
+
+export interface ExerciseLot {
+  exercise: DecryptedExerciseData;
+  exerciseCost: number; // Strike paid for every exercised share
+  bargainElement: number; // (FMV - strike) x shares, never negative
+  sharesSold: number;
+  sharesHeld: number;
+  costBasisPerShare: number; // Regular tax basis of the held shares
+  costBasis: number;
+  amtBasisPerShare: number | null; // ISOs only: held shares carry an AMT basis of the FMV
+  ordinaryIncome: number; // NSO spread, or the spread on ISO shares sold at exercise (disqualifying)
+  amtPreference: number; // ISO spread on held shares, an AMT adjustment in the exercise year
+  election83bDeadline: string | null; // yyyy-MM-dd, early exercises only
+  missing83b: boolean; // Early exercise without a recorded 83(b) election
+}
+
+export interface GrantExerciseSummary {
+  lots: ExerciseLot[];
+  exercisedShares: number;
+  vestedShares: number;
+  exercisableShares: number; // Vested and not yet exercised
+  remainingShares: number; // Not yet exercised, vested or not
+  sharesHeld: number;
+  exerciseCost: number;
+  costBasis: number;
+  bargainElement: number;
+  ordinaryIncome: number;
+  amtPreference: number;
+}
+
+// Day arithmetic happens at local midnight, as in the vesting engine, so DST changes can't shift a date
+const parseDate = (value: string) => startOfDay(parseISO(value));
+
+export class ExerciseLots {
+  /**
+   * Tax lot for one exercise. NSO shares take the FMV as basis because the
+   * spread is taxed as income at exercise; ISO shares keep the strike as
+   * regular basis and the FMV as AMT basis.
+   */
+  static getLot(exercise: DecryptedExerciseData): ExerciseLot {
+    const spreadPerShare = Math.max(0, exercise.fmvAtExercise - exercise.strikePrice);
+    const sharesSold = this.getSharesSold(exercise);
+    const sharesHeld = exercise.shares - sharesSold;
+    const isISO = exercise.equityType === 'ISO';
+
+    const costBasisPerShare = isISO ? exercise.strikePrice : exercise.strikePrice + spreadPerShare;
+
+    return {
+      exercise,
+      exerciseCost: exercise.shares * exercise.strikePrice,
+      bargainElement: exercise.shares * spreadPerShare,
+      sharesSold,
+      sharesHeld,
+      costBasisPerShare,
+      costBasis: sharesHeld * costBasisPerShare,
+      amtBasisPerShare: isISO ? exercise.strikePrice + spreadPerShare : null,
+      ordinaryIncome: (isISO ? sharesSold : exercise.shares) * spreadPerShare,
+      amtPreference: isISO ? sharesHeld * spreadPerShare : 0,
+      election83bDeadline: exercise.isEarlyExercise
+        ? format(addDays(parseDate(exercise.date), ELECTION_83B_WINDOW_DAYS), 'yyyy-MM-dd')
+        : null,
+      missing83b: exercise.isEarlyExercise && !exercise.election83bDate,
+    };
+  }
+
+  /**
+   * Exercises recorded against a grant, oldest first
+   */
+  static getGrantExercises(grant: DecryptedEquityData, exercises: DecryptedExerciseData[]): DecryptedExerciseData[] {
+    if (!grant.grantUid) return [];
+    return exercises
+      .filter(exercise => exercise.grantUid === grant.grantUid)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  static summarizeGrant(
+    grant: DecryptedEquityData,
+    exercises: DecryptedExerciseData[],
+    asOf: Date = new Date()
+  ): GrantExerciseSummary {
+    const lots = this.getGrantExercises(grant, exercises).map(exercise => this.getLot(exercise));
+    const { vestedShares } = VestingSchedule.getVestingProgress(grant, asOf);
+    const sum = (pick: (lot: ExerciseLot) => number) => lots.reduce((total, lot) => total + pick(lot), 0);
+
+    const exercisedShares = sum(lot => lot.exercise.shares);
+
+    return {
+      lots,
+      exercisedShares,
+      vestedShares,
+      exercisableShares: Math.max(0, vestedShares - exercisedShares),
+      remainingShares: Math.max(0, grant.shares - exercisedShares),
+      sharesHeld: sum(lot => lot.sharesHeld),
+      exerciseCost: sum(lot => lot.exerciseCost),
+      costBasis: sum(lot => lot.costBasis),
+      bargainElement: sum(lot => lot.bargainElement),
+      ordinaryIncome: sum(lot => lot.ordinaryIncome),
+      amtPreference: sum(lot => lot.amtPreference),
+    };
+  }
+
+  /**
+   * Days from the exercise to the 83(b) filing; over 30 means the election was late
+   */
+  static get83bFilingDays(exercise: DecryptedExerciseData): number | null {
+    if (!exercise.election83bDate) return null;
+    return differenceInCalendarDays(parseDate(exercise.election83bDate), parseDate(exercise.date));
+  }
+
+  private static getSharesSold(exercise: DecryptedExerciseData): number {
+    switch (exercise.method) {
+      case 'cashless':
+        return exercise.shares;
+      case 'sell-to-cover':
+        return Math.min(exercise.shares, exercise.sharesSold ?? 0);
+      default:
+        return 0;
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { ExerciseLots, ELECTION_83B_WINDOW_DAYS } from './exerciseLots';
+export type { ExerciseLot, GrantExerciseSummary } from './exerciseLots';
@@ -0,0 +1,144 @@
+/**
+ * Currency conversion tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { CurrencyConverter } from '../currencyConverter';
+import { FxRateCSVParser } from '../fxRateCsvParser';
+import { FxRates } from '../fxRates';
+import type { CompTimelineInput } from '@/lib/compensation';
+import { check, expectEqual } from '@/lib/testing';
+
+const round = (value: number | undefined) => (value === undefined ? undefined : Math.round(value * 10000) / 10000);
+
+const tables = [
+  {
+    base: 'EUR',
+    quote: 'USD',
+    rates: [
+      { date: '2024-01-02', rate: 1.1 },
+      { date: '2024-06-03', rate: 1.08 },
+    ],
+  },
+  {
+    base: 'EUR',
+    quote: 'CHF',
+    rates: [{ date: '2024-01-02', rate: 0.95 }],
+  },
+];
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const currencyConverterTests = {
+  testRateLookup() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'same currency', CurrencyConverter.getRate(tables, 'USD', 'USD', '2024-03-01'), { rate: 1, rateDate: null });
+    expectEqual(failures, 'rate on or before the date', CurrencyConverter.getRate(tables, 'EUR', 'USD', '2024-05-31'), { rate: 1.1, rateDate: '2024-01-02' });
+    expectEqual(failures, 'later rate', CurrencyConverter.getRate(tables, 'EUR', 'USD', '2024-06-03T12:00:00.000Z')?.rate, 1.08);
+    expectEqual(failures, 'before the first rate', CurrencyConverter.getRate(tables, 'EUR', 'USD', '2023-01-01')?.rateDate, '2024-01-02');
+    expectEqual(failures, 'inverse pair', round(CurrencyConverter.convert(tables, 108, 'USD', 'EUR', '2024-07-01')?.amount), 100);
+    expectEqual(failures, 'no pair', CurrencyConverter.getRate(tables, 'EUR', 'GBP', '2024-07-01'), null);
+
+    return check('Rates come from the nearest earlier date, in either direction', failures);
+  },
+
+  testCrossRates() {
+    const failures: string[] = [];
+    const conversion = CurrencyConverter.convert(tables, 95, 'CHF', 'USD', '2024-07-01');
+
+    expectEqual(failures, 'CHF → EUR → USD', round(conversion?.amount), 108);
+    expectEqual(failures, 'older rate date', conversion?.rateDate, '2024-01-02');
+
+    const totals = CurrencyConverter.convertTotals(tables, { USD: 1000, EUR: 100, GBP: 50 }, 'USD', '2024-07-01');
+    expectEqual(failures, 'converted total', round(totals.amount), 1108);
+    expectEqual(failures, 'unconverted', totals.unconverted, { GBP: 50 });
+
+    return check('Currencies without a direct pair cross through a shared one', failures);
+  },
+
+  testNormalizeInput() {
+    const failures: string[] = [];
+    const input: CompTimelineInput = {
+      salaries: [
+        { company: 'Acme', title: 'Engineer', location: 'Zurich', amount: 100000, currency: 'EUR', startDate: '2024-02-01', isCurrentPosition: false },
+        { company: 'Acme', title: 'Engineer', location: 'Zurich', amount: 100000, currency: 'EUR', startDate: '2024-07-01', isCurrentPosition: true },
+        { company: 'Globex', title: 'Engineer', location: 'London', amount: 80000, currency: 'GBP', startDate: '2023-01-01', isCurrentPosition: false },
+      ],
+      bonuses: [
+        { company: 'Acme', type: 'annual', amount: 1000, currency: 'USD', date: '2024-03-01', description: 'Annual' },
+      ],
+      grants: [
+        { company: 'Acme', type: 'ISO', shares: 100, strikePrice: 10, grantDate: '2024-01-15', vestingStart: '2024-01-15', vestingPeriod: 48, vestingFrequency: 'monthly' },
+      ],
+      esppPlans: [],
+      valuations: [
+        { company: 'Acme', date: '2024-06-03', pricePerShare: 20, currency: 'EUR', source: '409a' },
+      ],
+    };
+
+    const normalized = CurrencyConverter.normalizeInput(input, 'USD', tables, new Date(2024, 9, 1));
+    expectEqual(failures, 'past salary at its start', round(normalized.input.salaries[0].amount), 110000);
+    expectEqual(failures, 'current salary today', round(normalized.input.salaries[1].amount), 108000);
+    expectEqual(failures, 'missing rate kept', normalized.input.salaries[2].currency, 'GBP');
+    expectEqual(failures, 'same currency untouched', normalized.input.bonuses[0], input.bonuses[0]);
+    expectEqual(failures, 'valuation on its date', round(normalized.input.valuations[0].pricePerShare), 21.6);
+    expectEqual(failures, 'strike at grant date', round(normalized.input.grants[0].strikePrice), 11);
+    expectEqual(failures, 'counts', [normalized.convertedRecords, normalized.missingRates], [3, 1]);
+
+    return check('Timeline input converts each record at its own date', failures);
+  },
+
+  testCsvImport() {
+    const failures: string[] = [];
+    const single = FxRateCSVParser.parse([
+      'DATE;TIME PERIOD;OBS_VALUE',
+      '2024-01-03;03 Jan 2024;0,9123',
+      '2024-01-02;02 Jan 2024;0,9250',
+    ].join('\n'));
+    expectEqual(failures, 'single series', single.series.map(series => [series.quote, series.rates]), [
+      [null, [{ date: '2024-01-02', rate: 0.925 }, { date: '2024-01-03', rate: 0.9123 }]],
+    ]);
+
+    const wide = FxRateCSVParser.parse([
+      'Date,USD,JPY,CHF,',
+      '2024-01-02,1.0956,155.72,N/A,',
+      '2024-01-01,N/A,N/A,N/A,',
+    ].join('\n'));
+    expectEqual(failures, 'wide series', wide.series.map(series => [series.quote, series.rates.length]), [['USD', 1], ['JPY', 1]]);
+    expectEqual(failures, 'skipped', wide.skippedRows, 1);
+
+    const merged = FxRates.merge(single.series[0].rates, [{ date: '2024-01-03', rate: 0.91 }]);
+    expectEqual(failures, 'merged', merged.map(point => point.rate), [0.925, 0.91]);
+
+    return check('Rate CSVs in single-column and one-column-per-currency layouts', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running currency conversion tests...');
+
+    const results = [
+      this.testRateLookup(),
+      this.testCrossRates(),
+      this.testNormalizeInput(),
+      this.testCsvImport(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All currency conversion tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).currencyConverterTests = currencyConverterTests;
+}
@@ -0,0 +1,187 @@
+import { format } from 'date-fns';
+import type { DecryptedFxRateData } from '@/lib/db/types';
+import type { CompTimelineInput } from '@/lib/compensation';
+import { EquityValuation } from '@/lib/valuation';
+import { FxRates } from './fxRates';
+
+export type FxRateTable = Pick<DecryptedFxRateData, 'base' | 'quote' | 'rates'>;
+
+export interface FxRate {
+  rate: number; // 1 unit of the source currency in the target currency
+  rateDate: string | null; // Date of the stored rate used, null for the same currency
+}
+
+export interface Conversion extends FxRate {
+  amount: number;
+  currency: string;
+}
+
+export interface NormalizedInput {
+  input: CompTimelineInput;
+  convertedRecords: number; // Records whose amounts were converted
+  missingRates: number; // Records left in their own currency for lack of a rate
+}
+
+const toDay = (date: string | Date) => (typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd'));
+
+export class CurrencyConverter {
+  /**
+   * The rate from one currency to another as of a date. Uses a stored pair in
+   * either direction, or crosses two pairs through a shared currency
+   * (e.g. CHF → EUR → USD). A crossed rate reports the older of its two dates.
+   */
+  static getRate(tables: FxRateTable[], from: string, to: string, date: string | Date): FxRate | null {
+    if (from === to) return { rate: 1, rateDate: null };
+
+    const day = toDay(date);
+    const direct = this.getPairRate(tables, from, to, day);
+    if (direct) return direct;
+
+    for (const via of this.getCurrencies(tables)) {
+      if (via === from || via === to) continue;
+      const first = this.getPairRate(tables, from, via, day);
+      const second = first && this.getPairRate(tables, via, to, day);
+      if (first && second) {
+        return {
+          rate: first.rate * second.rate,
+          rateDate: first.rateDate! < second.rateDate! ? first.rateDate : second.rateDate,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Convert an amount as of a date, or null when no rate connects the currencies
+   */
+  static convert(
+    tables: FxRateTable[],
+    amount: number,
+    from: string,
+    to: string,
+    date: string | Date = new Date()
+  ): Conversion | null {
+    const rate = this.getRate(tables, from, to, date);
+    return rate ? { ...rate, amount: amount * rate.rate, currency: to } : null;
+  }
+
+  /**
+   * Sum amounts in several currencies into one, e.g. a totalsByCurrency map
+   * converted at today's rates. Currencies without a rate are returned apart.
+   */
+  static convertTotals(
+    tables: FxRateTable[],
+    totals: Record<string, number>,
+    to: string,
+    date: string | Date = new Date()
+  ): { amount: number; unconverted: Record<string, number> } {
+    let amount = 0;
+    const unconverted: Record<string, number> = {};
+    for (const [currency, value] of Object.entries(totals)) {
+      const converted = this.convert(tables, value, currency, to, date);
+      if (converted) {
+        amount += converted.amount;
+      } else {
+        unconverted[currency] = value;
+      }
+    }
+    return { amount, unconverted };
+  }
+
+  /**
+   * Convert every amount in a timeline input to one currency at the rate on
+   * each record's own date: bonuses when awarded, ESPP purchases when bought,
+   * share prices on their valuation date and past salaries from their start.
+   * Current salaries use today's rate. Records without a rate keep their
+   * currency, so the timeline and reports count them as left out as before.
+   */
+  static normalizeInput(
+    input: CompTimelineInput,
+    to: string,
+    tables: FxRateTable[],
+    asOf: Date = new Date()
+  ): NormalizedInput {
+    let convertedRecords = 0;
+    let missingRates = 0;
+
+    // Converts every amount of one record, or none when a rate is missing
+    const convertRecord = <T extends { currency: string }>(
+      record: T,
+      convertAll: (rateAt: (date: string | Date) => number | null) => Partial<T> | null
+    ): T => {
+      if (record.currency === to) return record;
+      const changes = convertAll(date => this.getRate(tables, record.currency, to, date)?.rate ?? null);
+      if (!changes) {
+        missingRates++;
+        return record;
+      }
+      convertedRecords++;
+      return { ...record, ...changes, currency: to };
+    };
+
+    const salaries = input.salaries.map(salary => convertRecord(salary, rateAt => {
+      const rate = rateAt(salary.isCurrentPosition ? asOf : salary.startDate);
+      return rate === null ? null : { amount: salary.amount * rate };
+    }));
+
+    const bonuses = input.bonuses.map(bonus => convertRecord(bonus, rateAt => {
+      const rate = rateAt(bonus.date);
+      return rate === null ? null : { amount: bonus.amount * rate };
+    }));
+
+    const esppPlans = input.esppPlans.map(plan => convertRecord(plan, rateAt => {
+      const offeringRate = rateAt(plan.offeringStart);
+      const purchases = plan.purchases.map(purchase => {
+        const rate = rateAt(purchase.date);
+        return rate === null ? null : {
+          ...purchase,
+          fmv: purchase.fmv * rate,
+          purchasePrice: purchase.purchasePrice * rate,
+          contribution: purchase.contribution === undefined ? undefined : purchase.contribution * rate,
+        };
+      });
+      if (offeringRate === null || purchases.some(purchase => purchase === null)) return null;
+      return { offeringFmv: plan.offeringFmv * offeringRate, purchases: purchases as typeof plan.purchases };
+    }));
+
+    const valuations = input.valuations.map(valuation => convertRecord(valuation, rateAt => {
+      const rate = rateAt(valuation.date);
+      return rate === null ? null : { pricePerShare: valuation.pricePerShare * rate };
+    }));
+
+    // Grants carry no currency; a strike price is in the currency the company's shares are priced in
+    const grants = input.grants.map(grant => {
+      if (grant.strikePrice === undefined) return grant;
+      const valuation = EquityValuation.getValuationAsOf(input.valuations, grant.company, asOf);
+      if (!valuation || valuation.currency === to) return grant;
+      const rate = this.getRate(tables, valuation.currency, to, grant.grantDate);
+      return rate ? { ...grant, strikePrice: grant.strikePrice * rate.rate } : grant;
+    });
+
+    return {
+      input: { salaries, bonuses, grants, esppPlans, valuations },
+      convertedRecords,
+      missingRates,
+    };
+  }
+
+  /**
+   * Every currency that appears in a stored pair, sorted
+   */
+  static getCurrencies(tables: FxRateTable[]): string[] {
+    return Array.from(new Set(tables.flatMap(table => [table.base, table.quote]))).sort();
+  }
+
+  private static getPairRate(tables: FxRateTable[], from: string, to: string, day: string): FxRate | null {
+    for (const table of tables) {
+      const inverse = table.base === to && table.quote === from;
+      if (!inverse && !(table.base === from && table.quote === to)) continue;
+
+      const point = FxRates.getRateAt(table.rates, day);
+      if (point) {
+        return { rate: inverse ? 1 / point.rate : point.rate, rateDate: point.date };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+import type { FxRatePoint } from '@/lib/db/types';
+import { PriceCSVParser } from '@/lib/prices';
+import { Currency } from '@/lib/currency';
+
+export interface FxRateSeries {
+  column: string;
+  quote: string | null; // Currency named by the column header, if any
+  rates: FxRatePoint[]; // Sorted by date; the last row wins when a date repeats
+}
+
+export interface FxRateCSVParseResult {
+  series: FxRateSeries[];
+  dateColumn: string | null;
+  skippedRows: number; // Rows without a date or any usable rate
+  errors: string[]; // Problems that stop the file from being imported
+}
+
+// Header names for a single rate column, best match first
+const RATE_HEADERS = ['rate', 'exchange rate', 'fx rate', 'obs_value', 'value', 'close', 'price'];
+const DATE_HEADERS = ['date', 'time_period', 'period', 'timestamp', 'time'];
+
+export class FxRateCSVParser {
+  /**
+   * Parse a CSV of historical exchange rates. Files either have a date column
+   * and one rate column (the pair is chosen on import), or a date column and
+   * one column per quote currency, like the ECB reference rate history.
+   */
+  static parse(text: string): FxRateCSVParseResult {
+    const lines = text
+      .replace(/^﻿/, '')
+      .split(/\r?\n/)
+      .filter(line => line.trim() !== '');
+
+    const result: FxRateCSVParseResult = { series: [], dateColumn: null, skippedRows: 0, errors: [] };
+    if (lines.length < 2) {
+      result.errors.push('The file needs a header row and at least one rate row');
+      return result;
+    }
+
+    const delimiter = PriceCSVParser.detectDelimiter(lines[0]);
+    const headers = PriceCSVParser.splitLine(lines[0], delimiter).map(header => header.trim().toLowerCase());
+
+    const dateIndex = PriceCSVParser.findColumn(headers, DATE_HEADERS);
+    if (dateIndex === -1) {
+      result.errors.push('No date column found (expected a "Date" header)');
+      return result;
+    }
+    result.dateColumn = headers[dateIndex];
+
+    const rateIndex = PriceCSVParser.findColumn(headers, RATE_HEADERS);
+    const columns = rateIndex !== -1
+      ? [{ index: rateIndex, quote: null }]
+      : headers
+        .map((header, index) => ({ index, quote: Currency.isValid(header.toUpperCase()) ? header.toUpperCase() : null }))
+        .filter(column => column.index !== dateIndex && column.quote !== null);
+    if (columns.length === 0) {
+      result.errors.push('No rate column found (expected a "Rate" header or one column per currency code)');
+      return result;
+    }
+
+    const byColumn = columns.map(() => new Map<string, number>());
+    for (const line of lines.slice(1)) {
+      const cells = PriceCSVParser.splitLine(line, delimiter);
+      const date = PriceCSVParser.parseDate(cells[dateIndex] ?? '');
+      let found = false;
+      columns.forEach((column, i) => {
+        const rate = this.parseRate(cells[column.index] ?? '');
+        if (date && rate !== null && rate > 0) {
+          byColumn[i].set(date, rate);
+          found = true;
+        }
+      });
+      if (!found) result.skippedRows += 1;
+    }
+
+    result.series = columns
+      .map((column, i) => ({
+        column: headers[column.index],
+        quote: column.quote,
+        rates: Array.from(byColumn[i], ([date, rate]) => ({ date, rate }))
+          .sort((a, b) => a.date.localeCompare(b.date)),
+      }))
+      .filter(series => series.rates.length > 0);
+    if (result.series.length === 0) {
+      result.errors.push('No rows with a valid date and rate');
+    }
+    return result;
+  }
+
+  /**
+   * Rates often have four or more decimals, so "0,9123" is a decimal comma
+   * even though prices only treat one or two digits after a comma that way
+   */
+  private static parseRate(value: string): number | null {
+    const trimmed = value.trim();
+    if (/^\d+,(\d{1,2}|\d{4,})$/.test(trimmed)) {
+      return Number(trimmed.replace(',', '.'));
+    }
+    return PriceCSVParser.parseNumber(trimmed);
+  }
+}
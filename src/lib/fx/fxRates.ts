@@ -0,0 +1,42 @@
+import type { FxRatePoint } from '@/lib/db/types';
+
+export class FxRates {
+  /**
+   * Combine stored rates with new ones. New rates replace stored ones on the same date.
+   */
+  static merge(existing: FxRatePoint[], incoming: FxRatePoint[]): FxRatePoint[] {
+    const byDate = new Map(existing.map(point => [point.date, point.rate]));
+    for (const point of incoming) {
+      byDate.set(point.date, point.rate);
+    }
+    return Array.from(byDate, ([date, rate]) => ({ date, rate }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * The rate on the date, or the last one before it. Dates before the first
+   * rate use the first rate, so older records can still be converted.
+   */
+  static getRateAt(rates: FxRatePoint[], date: string): FxRatePoint | null {
+    if (rates.length === 0) return null;
+
+    let low = 0;
+    let high = rates.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      if (rates[mid].date <= date) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return rates[found === -1 ? 0 : found];
+  }
+
+  static getRange(rates: FxRatePoint[]): { first: FxRatePoint; last: FxRatePoint } | null {
+    if (rates.length === 0) return null;
+    return { first: rates[0], last: rates[rates.length - 1] };
+  }
+}
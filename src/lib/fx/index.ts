@@ -0,0 +1,5 @@
+export { CurrencyConverter } from './currencyConverter';
+export type { FxRateTable, FxRate, Conversion, NormalizedInput } from './currencyConverter';
+export { FxRateCSVParser } from './fxRateCsvParser';
+export type { FxRateCSVParseResult, FxRateSeries } from './fxRateCsvParser';
+export { FxRates } from './fxRates';
@@ -0,0 +1,11 @@
+export { RecordCSVImport, IMPORT_FIELDS } from './recordCsvImport';
+export type {
+  ImportDataByType,
+  ImportRecordType,
+  ImportField,
+  ParsedCSV,
+  ColumnMapping,
+  ImportRow,
+  ImportDefaults,
+  ImportResult,
+} from './recordCsvImport';
@@ -0,0 +1,316 @@
+import type { ZodTypeAny } from 'zod';
+import { PriceCSVParser } from '@/lib/prices';
+import { salarySchema } from '@/lib/validations/salary';
+import { bonusSchema, bonusTypeOptions } from '@/lib/validations/bonus';
+import { equitySchema, equityTypeOptions, vestingFrequencyOptions } from '@/lib/validations/equity';
+import { CSVExporter } from '@/utils/exporters';
+import type { ExportDateFormat } from '@/lib/preferences';
+import type { DecryptedSalaryData, DecryptedBonusData, DecryptedEquityData } from '@/lib/db/types';
+
+export interface ImportDataByType {
+  salary: DecryptedSalaryData;
+  bonus: DecryptedBonusData;
+  equity: DecryptedEquityData;
+}
+
+export type ImportRecordType = keyof ImportDataByType;
+
+export interface ImportField {
+  key: string; // Field of the decrypted data
+  column: string; // Column name CSVExporter writes for the field
+  label: string;
+  kind: 'text' | 'number' | 'date' | 'boolean' | 'currency' | 'schedule';
+  options?: ReadonlyArray<{ value: string; label: string }>; // Accepted values; cells may use the value or the label
+}
+
+export interface ParsedCSV {
+  headers: string[];
+  rows: string[][];
+  errors: string[]; // Problems that stop the file from being imported
+}
+
+// Field key -> index of the CSV column it is read from, or -1 when not imported
+export type ColumnMapping = Record<string, number>;
+
+export interface ImportRow<T extends ImportRecordType = ImportRecordType> {
+  row: number; // 1-based, not counting the header
+  data: ImportDataByType[T] | null; // null when the row has errors
+  errors: string[];
+}
+
+export interface ImportDefaults {
+  currency: string; // For rows without a currency
+  dateFormat: ExportDateFormat; // How exports write dates; 'eu' reads 05/03/2023 as 5 March
+}
+
+export interface ImportResult<T extends ImportRecordType = ImportRecordType> {
+  rows: ImportRow<T>[];
+  skippedRows: number; // Rows of another record type in a combined export
+}
+
+export const IMPORT_FIELDS: Record<ImportRecordType, ImportField[]> = {
+  salary: [
+    { key: 'company', column: 'company', label: 'Company', kind: 'text' },
+    { key: 'title', column: 'title', label: 'Job Title', kind: 'text' },
+    { key: 'location', column: 'location', label: 'Location', kind: 'text' },
+    { key: 'amount', column: 'amount', label: 'Amount', kind: 'number' },
+    { key: 'currency', column: 'currency', label: 'Currency', kind: 'currency' },
+    { key: 'startDate', column: 'startDate', label: 'Start Date', kind: 'date' },
+    { key: 'endDate', column: 'endDate', label: 'End Date', kind: 'date' },
+    { key: 'isCurrentPosition', column: 'isCurrentPosition', label: 'Current Position', kind: 'boolean' },
+    { key: 'notes', column: 'notes', label: 'Notes', kind: 'text' },
+  ],
+  bonus: [
+    { key: 'company', column: 'company', label: 'Company', kind: 'text' },
+    { key: 'type', column: 'bonusType', label: 'Bonus Type', kind: 'text', options: bonusTypeOptions },
+    { key: 'amount', column: 'amount', label: 'Amount', kind: 'number' },
+    { key: 'currency', column: 'currency', label: 'Currency', kind: 'currency' },
+    { key: 'date', column: 'date', label: 'Date', kind: 'date' },
+    { key: 'payrollDate', column: 'payrollDate', label: 'Payroll Date', kind: 'date' },
+    { key: 'description', column: 'description', label: 'Description', kind: 'text' },
+    { key: 'notes', column: 'notes', label: 'Notes', kind: 'text' },
+  ],
+  equity: [
+    { key: 'company', column: 'company', label: 'Company', kind: 'text' },
+    { key: 'type', column: 'equityType', label: 'Equity Type', kind: 'text', options: equityTypeOptions },
+    { key: 'shares', column: 'shares', label: 'Shares', kind: 'number' },
+    { key: 'strikePrice', column: 'strikePrice', label: 'Strike Price', kind: 'number' },
+    { key: 'grantDate', column: 'grantDate', label: 'Grant Date', kind: 'date' },
+    { key: 'vestingStart', column: 'vestingStart', label: 'Vesting Start', kind: 'date' },
+    { key: 'vestingCliff', column: 'vestingCliff', label: 'Vesting Cliff', kind: 'number' },
+    { key: 'vestingPeriod', column: 'vestingPeriod', label: 'Vesting Period', kind: 'number' },
+    { key: 'vestingFrequency', column: 'vestingFrequency', label: 'Vesting Frequency', kind: 'text', options: vestingFrequencyOptions },
+    { key: 'vestingScheduleType', column: 'vestingSchedule', label: 'Vesting Schedule', kind: 'schedule' },
+    { key: 'notes', column: 'notes', label: 'Notes', kind: 'text' },
+  ],
+};
+
+const SCHEMAS: Record<ImportRecordType, ZodTypeAny> = {
+  salary: salarySchema,
+  bonus: bonusSchema,
+  equity: equitySchema,
+};
+
+// "Start Date", "start_date" and "startDate" all compare equal
+const normalize = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+export class RecordCSVImport {
+  /**
+   * Split a CSV into a header row and data rows. Quoted cells may span lines,
+   * as notes do in files written by CSVExporter.
+   */
+  static parse(text: string): ParsedCSV {
+    const lines = this.splitRows(text.replace(/^﻿/, '')).filter(line => line.trim() !== '');
+    if (lines.length < 2) {
+      return { headers: [], rows: [], errors: ['The file needs a header row and at least one data row'] };
+    }
+
+    const delimiter = PriceCSVParser.detectDelimiter(lines[0]);
+    return {
+      headers: PriceCSVParser.splitLine(lines[0], delimiter),
+      rows: lines.slice(1).map(line => PriceCSVParser.splitLine(line, delimiter)),
+      errors: [],
+    };
+  }
+
+  /**
+   * Match headers to fields by the column names CSVExporter writes or by the
+   * field labels. Headers are compared ignoring case, spaces and punctuation.
+   */
+  static detectMapping(type: ImportRecordType, headers: string[]): ColumnMapping {
+    const normalized = headers.map(normalize);
+    const available = new Set(CSVExporter.getAvailableColumns(type));
+
+    return Object.fromEntries(
+      IMPORT_FIELDS[type].map(field => {
+        const names = [field.label, ...(available.has(field.column) ? [field.column] : [])].map(normalize);
+        return [field.key, normalized.findIndex(header => names.includes(header))];
+      })
+    );
+  }
+
+  /**
+   * Exported columns that are computed from other fields (e.g. vested shares)
+   * and so are not read back in
+   */
+  static getIgnoredColumns(type: ImportRecordType, headers: string[]): string[] {
+    const imported = new Set(IMPORT_FIELDS[type].map(field => normalize(field.column)));
+    const exported = CSVExporter.getAvailableColumns(type)
+      .filter(column => column !== 'type' && !imported.has(normalize(column)))
+      .map(normalize);
+    return headers.filter(header => exported.includes(normalize(header)));
+  }
+
+  /**
+   * Turn mapped rows into records and validate each one against the same
+   * schema the add forms use
+   */
+  static buildRows<T extends ImportRecordType>(
+    type: T,
+    parsed: ParsedCSV,
+    mapping: ColumnMapping,
+    defaults: ImportDefaults
+  ): ImportResult<T> {
+    const fields = IMPORT_FIELDS[type];
+    // A combined export has a "type" column; rows of other types are left out.
+    // A "Type" column mapped to a field (e.g. the bonus type) is not that column.
+    const mapped = new Set(Object.values(mapping));
+    const typeIndex = parsed.headers.findIndex((header, index) => normalize(header) === 'type' && !mapped.has(index));
+    const result: ImportResult<T> = { rows: [], skippedRows: 0 };
+
+    parsed.rows.forEach((cells, index) => {
+      const recordType = typeIndex === -1 ? '' : (cells[typeIndex] ?? '').trim();
+      if (recordType && recordType !== type) {
+        result.skippedRows += 1;
+        return;
+      }
+
+      const errors: string[] = [];
+      const values: Record<string, unknown> = {};
+      for (const field of fields) {
+        const columnIndex = mapping[field.key] ?? -1;
+        const raw = columnIndex === -1 ? '' : (cells[columnIndex] ?? '').trim();
+        if (!raw) continue;
+
+        const { value, error } = this.convert(field, raw, defaults.dateFormat);
+        if (error) {
+          errors.push(error);
+        } else {
+          values[field.key] = value;
+        }
+      }
+
+      this.applyDefaults(type, values, defaults);
+
+      const validation = SCHEMAS[type].safeParse(values);
+      if (!validation.success) {
+        for (const issue of validation.error.issues) {
+          const field = fields.find(candidate => candidate.key === issue.path[0]);
+          // Conversion errors already explain fields that failed to parse
+          if (field && errors.some(error => error.startsWith(`${field.label}:`))) continue;
+          if (field && issue.code === 'invalid_type' && issue.received === 'undefined') {
+            errors.push(`${field.label} is required`);
+          } else {
+            errors.push(
+              !field || issue.message.toLowerCase().includes(field.label.toLowerCase())
+                ? issue.message
+                : `${field.label}: ${issue.message}`
+            );
+          }
+        }
+      }
+
+      result.rows.push({
+        row: index + 1,
+        data: errors.length === 0 && validation.success ? (validation.data as ImportDataByType[T]) : null,
+        errors,
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Normalize a date cell to yyyy-MM-dd. Slash dates are ambiguous, so they
+   * are read day-first for 'eu' and month-first otherwise.
+   */
+  static parseDate(raw: string, dateFormat: ExportDateFormat): string | null {
+    const match = SLASH_DATE.exec(raw.trim());
+    if (match && dateFormat === 'eu') {
+      const [, day, month, year] = match;
+      return PriceCSVParser.parseDate(`${month}/${day}/${year}`);
+    }
+    return PriceCSVParser.parseDate(raw);
+  }
+
+  private static convert(
+    field: ImportField,
+    raw: string,
+    dateFormat: ExportDateFormat
+  ): { value?: unknown; error?: string } {
+    if (field.options) {
+      const lower = raw.toLowerCase();
+      const option = field.options.find(
+        candidate =>
+          candidate.value.toLowerCase() === lower ||
+          candidate.label.toLowerCase() === lower ||
+          lower.startsWith(`${candidate.value.toLowerCase()} `)
+      );
+      // Unknown values are left for the schema to reject with the accepted list
+      return { value: option ? option.value : raw };
+    }
+
+    switch (field.kind) {
+      case 'number': {
+        const value = PriceCSVParser.parseNumber(raw);
+        return value === null ? { error: `${field.label}: "${raw}" is not a number` } : { value };
+      }
+      case 'date': {
+        const value = this.parseDate(raw, dateFormat);
+        if (value !== null) return { value };
+        // e.g. 25/03/2023 read month-first: the file most likely puts the day first
+        const otherFormat = dateFormat === 'eu' ? 'us' : 'eu';
+        if (SLASH_DATE.test(raw) && this.parseDate(raw, otherFormat) !== null) {
+          return {
+            error: `${field.label}: "${raw}" is not a valid ${dateFormat === 'eu' ? 'day' : 'month'}-first date; check the date format`,
+          };
+        }
+        return { error: `${field.label}: "${raw}" is not a recognised date` };
+      }
+      case 'boolean':
+        if (/^(true|yes|y|1|x)$/i.test(raw)) return { value: true };
+        if (/^(false|no|n|0)$/i.test(raw)) return { value: false };
+        return { error: `${field.label}: "${raw}" is not yes or no` };
+      case 'currency':
+        return { value: raw.toUpperCase() };
+      case 'schedule':
+        // Exports only describe yearly and custom schedules, which can't be rebuilt reliably
+        return /^(even|uniform)$/i.test(raw)
+          ? { value: 'uniform' }
+          : { error: `${field.label}: "${raw}" can't be imported; only even vesting can. Add this grant by hand` };
+      case 'text':
+        return { value: raw };
+    }
+  }
+
+  private static applyDefaults(type: ImportRecordType, values: Record<string, unknown>, defaults: ImportDefaults) {
+    switch (type) {
+      case 'salary':
+        values.currency = values.currency ?? defaults.currency;
+        values.isCurrentPosition = values.isCurrentPosition ?? !values.endDate;
+        break;
+      case 'bonus':
+        values.currency = values.currency ?? defaults.currency;
+        break;
+      case 'equity':
+        values.vestingStart = values.vestingStart ?? values.grantDate;
+        // Files without a schedule column are taken to vest evenly
+        values.vestingScheduleType = values.vestingScheduleType ?? 'uniform';
+        break;
+    }
+  }
+
+  private static splitRows(text: string): string[] {
+    const rows: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      }
+      if ((char === '\n' || char === '\r') && !inQuotes) {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        rows.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    rows.push(current);
+    return rows;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Share lot tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import type { DecryptedShareLotData, DecryptedShareSaleData, DecryptedValuationData } from '@/lib/db/types';
+import { ShareLots } from '../shareLots';
+import { check, expectEqual } from '@/lib/testing';
+
+const lot = (overrides: Partial<DecryptedShareLotData>): DecryptedShareLotData => ({
+  lotUid: 'lot-1',
+  grantUid: 'grant-1',
+  company: 'Acme',
+  acquiredDate: '2023-03-15',
+  shares: 100,
+  costBasisPerShare: 10,
+  currency: 'USD',
+  ...overrides,
+});
+
+const sale = (overrides: Partial<DecryptedShareSaleData>): DecryptedShareSaleData => ({
+  company: 'Acme',
+  date: '2024-06-01',
+  shares: 150,
+  pricePerShare: 20,
+  currency: 'USD',
+  lotSelection: 'fifo',
+  allocations: [],
+  ...overrides,
+});
+
+const lots = [
+  lot({ lotUid: 'lot-2', acquiredDate: '2024-03-15', costBasisPerShare: 16 }),
+  lot({ lotUid: 'lot-1' }),
+  lot({ lotUid: 'other', company: 'Globex', shares: 50 }),
+];
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const shareLotTests = {
+  testFifoAllocation() {
+    const failures: string[] = [];
+    const positions = ShareLots.getPositions(lots, []);
+
+    expectEqual(failures, 'oldest first', positions.map(p => p.lot.lotUid), ['lot-1', 'other', 'lot-2']);
+    expectEqual(failures, 'FIFO', ShareLots.allocateFifo(positions, 'acme', 150), [
+      { lotUid: 'lot-1', shares: 100 },
+      { lotUid: 'lot-2', shares: 50 },
+    ]);
+
+    const afterSale = ShareLots.getPositions(lots, [sale({ allocations: [{ lotUid: 'lot-1', shares: 60 }] })]);
+    expectEqual(failures, 'remaining', afterSale.map(p => p.remainingShares), [40, 50, 100]);
+    expectEqual(failures, 'short of shares', ShareLots.allocateFifo(afterSale, 'Acme', 500), [
+      { lotUid: 'lot-1', shares: 40 },
+      { lotUid: 'lot-2', shares: 100 },
+    ]);
+
+    return check('FIFO takes the oldest lots of the company first', failures);
+  },
+
+  testRealizedGains() {
+    const failures: string[] = [];
+    const gains = ShareLots.getRealizedGains(lots, [
+      sale({
+        fees: 30,
+        allocations: [
+          { lotUid: 'lot-1', shares: 100 },
+          { lotUid: 'lot-2', shares: 50 },
+        ],
+      }),
+    ]);
+
+    expectEqual(failures, 'proceeds net of fees', gains.map(g => g.proceeds), [1980, 990]);
+    expectEqual(failures, 'cost basis', gains.map(g => g.costBasis), [1000, 800]);
+    expectEqual(failures, 'gain', gains.map(g => g.gain), [980, 190]);
+    expectEqual(failures, 'term', gains.map(g => g.term), ['long', 'short']);
+
+    expectEqual(failures, 'one year to the day is short-term', ShareLots.getHoldingTerm('2023-03-15', '2024-03-15'), 'short');
+    expectEqual(failures, 'a day later is long-term', ShareLots.getHoldingTerm('2023-03-15', '2024-03-16'), 'long');
+
+    return check('Gains split fees by shares and hold terms per lot', failures);
+  },
+
+  testCompanySummary() {
+    const failures: string[] = [];
+    const valuations: DecryptedValuationData[] = [
+      { company: 'Acme', date: '2024-05-01', pricePerShare: 25, currency: 'USD', source: 'public' },
+      { company: 'Globex', date: '2024-05-01', pricePerShare: 5, currency: 'EUR', source: 'public' },
+    ];
+    const sales = [sale({ shares: 60, allocations: [{ lotUid: 'lot-1', shares: 60 }] })];
+    const [acme, globex] = ShareLots.summarizeByCompany(lots, sales, valuations, new Date('2024-07-01T12:00:00'));
+
+    expectEqual(failures, 'shares held', acme.sharesHeld, 140);
+    expectEqual(failures, 'basis held', acme.costBasisHeld, 40 * 10 + 100 * 16);
+    expectEqual(failures, 'market value', acme.marketValue, 140 * 25);
+    expectEqual(failures, 'unrealized', acme.unrealizedGain, 3500 - 2000);
+    expectEqual(failures, 'realized', [acme.realizedGain, acme.longTermGain], [600, 600]);
+    expectEqual(failures, 'price in another currency', [globex.marketValue, globex.unrealizedGain], [null, null]);
+
+    return check('Company summary values held shares at the latest price', failures);
+  },
+
+  testTaxYears() {
+    const failures: string[] = [];
+    const years = ShareLots.summarizeByTaxYear(lots, [
+      sale({ date: '2023-12-01', shares: 10, allocations: [{ lotUid: 'lot-1', shares: 10 }] }),
+      sale({ date: '2024-06-01', shares: 20, allocations: [{ lotUid: 'lot-1', shares: 20 }] }),
+      sale({ date: '2024-09-01', shares: 10, pricePerShare: 12, allocations: [{ lotUid: 'lot-2', shares: 10 }] }),
+    ]);
+
+    expectEqual(failures, 'years newest first', years.map(y => y.taxYear), [2024, 2023]);
+    expectEqual(failures, '2024 terms', [years[0].longTermGain, years[0].shortTermGain], [200, -40]);
+    expectEqual(failures, '2024 total', years[0].realizedGain, 160);
+    expectEqual(failures, '2023 short-term', years[1].shortTermGain, 100);
+
+    return check('Realized gains group by the year of sale', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running share lot tests...');
+
+    const results = [
+      this.testFifoAllocation(),
+      this.testRealizedGains(),
+      this.testCompanySummary(),
+      this.testTaxYears(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All share lot tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).shareLotTests = shareLotTests;
+}
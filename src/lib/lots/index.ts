@@ -0,0 +1,2 @@
+export { ShareLots } from './shareLots';
+export type { HoldingTerm, LotPosition, RealizedGain, CompanyGains, TaxYearGains } from './shareLots';
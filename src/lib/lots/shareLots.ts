@@ -0,0 +1,246 @@
+import { addYears, format, isAfter } from 'date-fns';
+import type {
+  DecryptedEquityData,
+  DecryptedShareLotData,
+  DecryptedShareSaleData,
+  DecryptedValuationData,
+  ShareSaleAllocation,
+} from '@/lib/db/types';
+import { VestingSchedule, type VestEvent } from '@/lib/vesting';
+import { EquityValuation } from '@/lib/valuation';
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface LotPosition {
+  lot: DecryptedShareLotData;
+  soldShares: number;
+  remainingShares: number;
+}
+
+export interface RealizedGain {
+  sale: DecryptedShareSaleData;
+  lot: DecryptedShareLotData;
+  shares: number;
+  proceeds: number; // Net of this allocation's share of the fees
+  costBasis: number;
+  gain: number;
+  term: HoldingTerm;
+  taxYear: number;
+}
+
+export interface CompanyGains {
+  company: string;
+  currency: string;
+  sharesHeld: number;
+  costBasisHeld: number;
+  marketValue: number | null; // null without a share price in the lots' currency
+  unrealizedGain: number | null;
+  priceDate: string | null;
+  realizedGain: number;
+  shortTermGain: number;
+  longTermGain: number;
+}
+
+export interface TaxYearGains {
+  taxYear: number;
+  currency: string;
+  proceeds: number;
+  costBasis: number;
+  shortTermGain: number;
+  longTermGain: number;
+  realizedGain: number;
+}
+
+const companyKey = (company: string) => company.trim().toLowerCase();
+
+export class ShareLots {
+  /**
+   * Lots with the shares sold from each, oldest first
+   */
+  static getPositions(lots: DecryptedShareLotData[], sales: DecryptedShareSaleData[]): LotPosition[] {
+    const sold = new Map<string, number>();
+    for (const allocation of sales.flatMap(sale => sale.allocations)) {
+      sold.set(allocation.lotUid, (sold.get(allocation.lotUid) ?? 0) + allocation.shares);
+    }
+
+    return [...lots]
+      .sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate))
+      .map(lot => {
+        const soldShares = sold.get(lot.lotUid) ?? 0;
+        return { lot, soldShares, remainingShares: Math.max(0, lot.shares - soldShares) };
+      });
+  }
+
+  /**
+   * Take shares from a company's oldest lots first. Covers fewer shares than
+   * asked when not enough are held.
+   */
+  static allocateFifo(positions: LotPosition[], company: string, shares: number): ShareSaleAllocation[] {
+    const allocations: ShareSaleAllocation[] = [];
+    let needed = shares;
+
+    for (const position of positions) {
+      if (needed <= 0) break;
+      if (companyKey(position.lot.company) !== companyKey(company) || position.remainingShares <= 0) continue;
+
+      const taken = Math.min(needed, position.remainingShares);
+      allocations.push({ lotUid: position.lot.lotUid, shares: taken });
+      needed -= taken;
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Sales held more than a year after the vest are long-term
+   */
+  static getHoldingTerm(acquiredDate: string, saleDate: string): HoldingTerm {
+    return isAfter(new Date(saleDate), addYears(new Date(acquiredDate), 1)) ? 'long' : 'short';
+  }
+
+  /**
+   * One gain per lot a sale drew from, with fees split by shares
+   */
+  static getRealizedGains(lots: DecryptedShareLotData[], sales: DecryptedShareSaleData[]): RealizedGain[] {
+    const lotsByUid = new Map(lots.map(lot => [lot.lotUid, lot]));
+
+    return sales.flatMap(sale =>
+      sale.allocations.flatMap(allocation => {
+        const lot = lotsByUid.get(allocation.lotUid);
+        if (!lot || allocation.shares <= 0) return [];
+
+        const fees = sale.shares > 0 ? ((sale.fees ?? 0) * allocation.shares) / sale.shares : 0;
+        const proceeds = allocation.shares * sale.pricePerShare - fees;
+        const costBasis = allocation.shares * lot.costBasisPerShare;
+
+        return [{
+          sale,
+          lot,
+          shares: allocation.shares,
+          proceeds,
+          costBasis,
+          gain: proceeds - costBasis,
+          term: this.getHoldingTerm(lot.acquiredDate, sale.date),
+          taxYear: Number(sale.date.slice(0, 4)),
+        }];
+      })
+    );
+  }
+
+  /**
+   * Held shares at the latest share price and gains realized so far, per company and currency
+   */
+  static summarizeByCompany(
+    lots: DecryptedShareLotData[],
+    sales: DecryptedShareSaleData[],
+    valuations: DecryptedValuationData[],
+    asOf: Date = new Date()
+  ): CompanyGains[] {
+    const summaries = new Map<string, CompanyGains>();
+    const getSummary = (company: string, currency: string) => {
+      const key = `${companyKey(company)}|${currency}`;
+      let summary = summaries.get(key);
+      if (!summary) {
+        summary = {
+          company,
+          currency,
+          sharesHeld: 0,
+          costBasisHeld: 0,
+          marketValue: null,
+          unrealizedGain: null,
+          priceDate: null,
+          realizedGain: 0,
+          shortTermGain: 0,
+          longTermGain: 0,
+        };
+        summaries.set(key, summary);
+      }
+      return summary;
+    };
+
+    for (const position of this.getPositions(lots, sales)) {
+      const summary = getSummary(position.lot.company, position.lot.currency);
+      summary.sharesHeld += position.remainingShares;
+      summary.costBasisHeld += position.remainingShares * position.lot.costBasisPerShare;
+    }
+
+    for (const gain of this.getRealizedGains(lots, sales)) {
+      const summary = getSummary(gain.lot.company, gain.lot.currency);
+      summary.realizedGain += gain.gain;
+      if (gain.term === 'long') {
+        summary.longTermGain += gain.gain;
+      } else {
+        summary.shortTermGain += gain.gain;
+      }
+    }
+
+    return Array.from(summaries.values())
+      .map(summary => {
+        const valuation = EquityValuation.getValuationAsOf(valuations, summary.company, asOf);
+        if (!valuation || valuation.currency !== summary.currency) return summary;
+
+        const marketValue = summary.sharesHeld * valuation.pricePerShare;
+        return {
+          ...summary,
+          marketValue,
+          unrealizedGain: marketValue - summary.costBasisHeld,
+          priceDate: valuation.date,
+        };
+      })
+      .sort((a, b) => a.company.localeCompare(b.company));
+  }
+
+  /**
+   * Realized gains per tax year (the calendar year of the sale), newest first
+   */
+  static summarizeByTaxYear(lots: DecryptedShareLotData[], sales: DecryptedShareSaleData[]): TaxYearGains[] {
+    const years = new Map<string, TaxYearGains>();
+
+    for (const gain of this.getRealizedGains(lots, sales)) {
+      const key = `${gain.taxYear}|${gain.lot.currency}`;
+      let year = years.get(key);
+      if (!year) {
+        year = {
+          taxYear: gain.taxYear,
+          currency: gain.lot.currency,
+          proceeds: 0,
+          costBasis: 0,
+          shortTermGain: 0,
+          longTermGain: 0,
+          realizedGain: 0,
+        };
+        years.set(key, year);
+      }
+
+      year.proceeds += gain.proceeds;
+      year.costBasis += gain.costBasis;
+      year.realizedGain += gain.gain;
+      if (gain.term === 'long') {
+        year.longTermGain += gain.gain;
+      } else {
+        year.shortTermGain += gain.gain;
+      }
+    }
+
+    return Array.from(years.values()).sort((a, b) => b.taxYear - a.taxYear || a.currency.localeCompare(b.currency));
+  }
+
+  /**
+   * Vests of a grant up to a date that have no lot recorded yet
+   */
+  static getUnrecordedVests(
+    grant: DecryptedEquityData,
+    lots: DecryptedShareLotData[],
+    asOf: Date = new Date()
+  ): VestEvent[] {
+    const recorded = new Set(
+      lots
+        .filter(lot => grant.grantUid && lot.grantUid === grant.grantUid)
+        .map(lot => lot.acquiredDate)
+    );
+
+    return VestingSchedule.getVestEvents(grant).filter(
+      event => !isAfter(event.date, asOf) && !recorded.has(format(event.date, 'yyyy-MM-dd'))
+    );
+  }
+}
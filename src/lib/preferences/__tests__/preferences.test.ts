@@ -0,0 +1,95 @@
+/**
+ * Preferences tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { Preferences, DEFAULT_PREFERENCES } from '../preferences';
+import { check, expectEqual } from '@/lib/testing';
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const preferencesTests = {
+  testWithDefaults() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'no record', Preferences.withDefaults(null), DEFAULT_PREFERENCES);
+
+    const partial = Preferences.withDefaults({
+      currency: 'EUR',
+      security: { sessionTimeout: 60 } as typeof DEFAULT_PREFERENCES.security,
+    });
+    expectEqual(failures, 'stored currency', partial.currency, 'EUR');
+    expectEqual(failures, 'stored timeout', partial.security.sessionTimeout, 60);
+    expectEqual(
+      failures,
+      'missing nested setting',
+      partial.security.requirePasswordForSensitiveActions,
+      DEFAULT_PREFERENCES.security.requirePasswordForSensitiveActions
+    );
+
+    return check('Stored preferences fill in from the defaults', failures);
+  },
+
+  testFormatDate() {
+    const failures: string[] = [];
+
+    // Date-only strings must not shift a day in timezones behind UTC
+    expectEqual(failures, 'default', Preferences.formatDate('2025-01-31', DEFAULT_PREFERENCES), 'Jan 31, 2025');
+    expectEqual(failures, 'day first', Preferences.formatDate('2025-01-31', { dateFormat: 'dd/MM/yyyy' }), '31/01/2025');
+    expectEqual(failures, 'invalid', Preferences.formatDate('not a date', DEFAULT_PREFERENCES), 'not a date');
+    expectEqual(failures, 'export format', Preferences.getExportDateFormat({ dateFormat: 'MM/dd/yyyy' }), 'us');
+
+    return check('Dates follow the date format preference', failures);
+  },
+
+  testFormatNumbers() {
+    const failures: string[] = [];
+    // Some locales separate groups with a narrow no-break space
+    const normalize = (value: string) => value.replace(/[\u00a0\u202f]/g, ' ');
+
+    expectEqual(failures, 'US', Preferences.formatCurrency(1234.5, 'USD', { numberFormat: 'en-US' }), '$1,234.50');
+    expectEqual(failures, 'German', normalize(Preferences.formatCurrency(1234.5, 'EUR', { numberFormat: 'de-DE' })), '1.234,50 €');
+    expectEqual(failures, 'number', Preferences.formatNumber(1234567, { numberFormat: 'de-DE' }), '1.234.567');
+
+    return check('Amounts follow the number format preference', failures);
+  },
+
+  testTheme() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'system dark', Preferences.isDark('system', true), true);
+    expectEqual(failures, 'system light', Preferences.isDark('system', false), false);
+    expectEqual(failures, 'forced light', Preferences.isDark('light', true), false);
+    expectEqual(failures, 'forced dark', Preferences.isDark('dark', false), true);
+
+    return check('Theme resolves against the OS setting', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running preferences tests...');
+
+    const results = [
+      this.testWithDefaults(),
+      this.testFormatDate(),
+      this.testFormatNumbers(),
+      this.testTheme(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All preferences tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).preferencesTests = preferencesTests;
+}
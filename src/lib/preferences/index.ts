@@ -0,0 +1,9 @@
+export {
+  Preferences,
+  DEFAULT_PREFERENCES,
+  DATE_FORMAT_OPTIONS,
+  NUMBER_FORMAT_OPTIONS,
+  SESSION_TIMEOUT_OPTIONS,
+  TRASH_RETENTION_OPTIONS,
+} from './preferences';
+export type { PreferenceSettings, ExportDateFormat } from './preferences';
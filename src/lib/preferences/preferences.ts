@@ -0,0 +1,129 @@
+import { format, isValid, parseISO, startOfDay } from 'date-fns';
+import type { UserPreferences } from '@/lib/db/types';
+import { Currency } from '@/lib/currency';
+
+// The user-editable part of a preferences record
+export type PreferenceSettings = Pick<
+  UserPreferences,
+  'theme' | 'currency' | 'dateFormat' | 'numberFormat' | 'notifications' | 'privacy' | 'security'
+>;
+
+export type ExportDateFormat = 'iso' | 'us' | 'eu';
+
+export const DEFAULT_PREFERENCES: PreferenceSettings = {
+  theme: 'system',
+  currency: 'USD',
+  dateFormat: 'MMM dd, yyyy',
+  numberFormat: 'en-US',
+  notifications: {
+    syncUpdates: true,
+    vestingReminders: true,
+    bonusAlerts: true,
+  },
+  privacy: {
+    enableAnalytics: false,
+    shareUsageData: false,
+    trashRetentionDays: 30,
+  },
+  security: {
+    sessionTimeout: 15,
+    requirePasswordForSensitiveActions: false,
+  },
+};
+
+// date-fns patterns; the export format is what CSV exports use for the same choice
+export const DATE_FORMAT_OPTIONS: Array<{ value: string; label: string; exportFormat: ExportDateFormat }> = [
+  { value: 'MMM dd, yyyy', label: 'Jan 31, 2025', exportFormat: 'iso' },
+  { value: 'MM/dd/yyyy', label: '01/31/2025', exportFormat: 'us' },
+  { value: 'dd/MM/yyyy', label: '31/01/2025', exportFormat: 'eu' },
+  { value: 'yyyy-MM-dd', label: '2025-01-31', exportFormat: 'iso' },
+];
+
+// Locales for Intl.NumberFormat
+export const NUMBER_FORMAT_OPTIONS = [
+  { value: 'en-US', label: '1,234,567.89' },
+  { value: 'de-DE', label: '1.234.567,89' },
+  { value: 'fr-FR', label: '1 234 567,89' },
+  { value: 'de-CH', label: "1'234'567.89" },
+  { value: 'en-IN', label: '12,34,567.89' },
+];
+
+export const SESSION_TIMEOUT_OPTIONS = [5, 15, 30, 60, 240];
+
+// Days deleted records stay in the trash; 0 never purges automatically
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365, 0];
+
+export class Preferences {
+  /**
+   * Stored preferences over the defaults, so records saved before a setting
+   * existed still get a value for it
+   */
+  static withDefaults(preferences: Partial<PreferenceSettings> | null | undefined): PreferenceSettings {
+    return {
+      theme: preferences?.theme ?? DEFAULT_PREFERENCES.theme,
+      currency: preferences?.currency || DEFAULT_PREFERENCES.currency,
+      dateFormat: preferences?.dateFormat || DEFAULT_PREFERENCES.dateFormat,
+      numberFormat: preferences?.numberFormat || DEFAULT_PREFERENCES.numberFormat,
+      notifications: { ...DEFAULT_PREFERENCES.notifications, ...preferences?.notifications },
+      privacy: { ...DEFAULT_PREFERENCES.privacy, ...preferences?.privacy },
+      security: { ...DEFAULT_PREFERENCES.security, ...preferences?.security },
+    };
+  }
+
+  /**
+   * Only the settings, without record bookkeeping, for encrypting and syncing
+   */
+  static toSettings(preferences: PreferenceSettings): PreferenceSettings {
+    return this.withDefaults({
+      theme: preferences.theme,
+      currency: preferences.currency,
+      dateFormat: preferences.dateFormat,
+      numberFormat: preferences.numberFormat,
+      notifications: preferences.notifications,
+      privacy: preferences.privacy,
+      security: preferences.security,
+    });
+  }
+
+  /**
+   * Date-only strings are read as local dates so they never shift a day
+   */
+  static formatDate(value: string | Date, preferences: Pick<PreferenceSettings, 'dateFormat'>): string {
+    const date = typeof value === 'string' ? startOfDay(parseISO(value)) : value;
+    if (!isValid(date)) return typeof value === 'string' ? value : '';
+
+    try {
+      return format(date, preferences.dateFormat);
+    } catch {
+      return format(date, DEFAULT_PREFERENCES.dateFormat);
+    }
+  }
+
+  static formatCurrency(
+    amount: number,
+    currency: string,
+    preferences: Pick<PreferenceSettings, 'numberFormat'>,
+    options: Intl.NumberFormatOptions = {}
+  ): string {
+    return Currency.format(amount, currency, preferences.numberFormat, options);
+  }
+
+  static formatNumber(
+    value: number,
+    preferences: Pick<PreferenceSettings, 'numberFormat'>,
+    options: Intl.NumberFormatOptions = {}
+  ): string {
+    return new Intl.NumberFormat(preferences.numberFormat, options).format(value);
+  }
+
+  static getExportDateFormat(preferences: Pick<PreferenceSettings, 'dateFormat'>): ExportDateFormat {
+    return DATE_FORMAT_OPTIONS.find(option => option.value === preferences.dateFormat)?.exportFormat ?? 'iso';
+  }
+
+  /**
+   * Whether the dark theme applies, given the OS setting for 'system'
+   */
+  static isDark(theme: PreferenceSettings['theme'], systemPrefersDark: boolean): boolean {
+    return theme === 'dark' || (theme === 'system' && systemPrefersDark);
+  }
+}
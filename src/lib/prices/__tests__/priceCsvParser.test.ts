@@ -0,0 +1,116 @@
+/**
+ * Price CSV parser tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { PriceCSVParser } from '../priceCsvParser';
+import { PriceHistory } from '../priceHistory';
+import { check, expectEqual } from '@/lib/testing';
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const priceCsvParserTests = {
+  testYahooLayout() {
+    const failures: string[] = [];
+    const result = PriceCSVParser.parse([
+      'Date,Open,High,Low,Close,Adj Close,Volume',
+      '2024-01-03,184.22,185.88,183.43,184.25,183.55,58414500',
+      '2024-01-02,187.15,188.44,183.89,185.64,184.94,82488700',
+      '2024-01-04,null,null,null,null,null,null',
+    ].join('\n'));
+
+    expectEqual(failures, 'errors', result.errors, []);
+    expectEqual(failures, 'close column', result.closeColumn, 'close');
+    expectEqual(failures, 'sorted prices', result.prices, [
+      { date: '2024-01-02', close: 185.64 },
+      { date: '2024-01-03', close: 184.25 },
+    ]);
+    expectEqual(failures, 'skipped null row', result.skippedRows, 1);
+
+    return check('Yahoo Finance download uses the unadjusted close', failures);
+  },
+
+  testBrokerLayout() {
+    const failures: string[] = [];
+    const result = PriceCSVParser.parse([
+      'Date,Close/Last,Volume,Open,High,Low',
+      '01/03/2024,"$1,184.25",58414500,$184.22,$185.88,$183.43',
+      '01/02/2024,$185.64,82488700,$187.15,$188.44,$183.89',
+    ].join('\r\n'));
+
+    expectEqual(failures, 'prices', result.prices, [
+      { date: '2024-01-02', close: 185.64 },
+      { date: '2024-01-03', close: 1184.25 },
+    ]);
+
+    return check('Nasdaq/broker layout with US dates, $ and thousands separators', failures);
+  },
+
+  testEuropeanLayout() {
+    const failures: string[] = [];
+    const result = PriceCSVParser.parse([
+      'Datum;Schluss;Volumen',
+      '02.01.2024;1.234,50;100',
+    ].join('\n'));
+    expectEqual(failures, 'unknown headers', result.errors.length, 2);
+
+    const semicolons = PriceCSVParser.parse([
+      'Date;Price',
+      '02.01.2024;1.234,50',
+      'Jan 03, 2024;12,5',
+    ].join('\n'));
+    expectEqual(failures, 'prices', semicolons.prices, [
+      { date: '2024-01-02', close: 1234.5 },
+      { date: '2024-01-03', close: 12.5 },
+    ]);
+
+    return check('Semicolon files with decimal commas and dotted dates', failures);
+  },
+
+  testMerge() {
+    const failures: string[] = [];
+    const merged = PriceHistory.merge(
+      [{ date: '2024-01-02', close: 10 }, { date: '2024-01-03', close: 11 }],
+      [{ date: '2024-01-03', close: 12 }, { date: '2024-01-01', close: 9 }]
+    );
+
+    expectEqual(failures, 'merged', merged, [
+      { date: '2024-01-01', close: 9 },
+      { date: '2024-01-02', close: 10 },
+      { date: '2024-01-03', close: 12 },
+    ]);
+
+    const valuations = PriceHistory.toValuations([{ ticker: 'ACME', company: 'Acme', currency: 'USD', prices: merged }]);
+    expectEqual(failures, 'valuation source', valuations.map(valuation => valuation.source), ['public', 'public', 'public']);
+
+    return check('Re-imports merge into the stored series', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running price CSV parser tests...');
+
+    const results = [
+      this.testYahooLayout(),
+      this.testBrokerLayout(),
+      this.testEuropeanLayout(),
+      this.testMerge(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All price CSV parser tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).priceCsvParserTests = priceCsvParserTests;
+}
@@ -0,0 +1,3 @@
+export { PriceCSVParser } from './priceCsvParser';
+export type { PriceCSVParseResult } from './priceCsvParser';
+export { PriceHistory } from './priceHistory';
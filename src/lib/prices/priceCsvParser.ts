@@ -0,0 +1,147 @@
+import { format, isValid, parse } from 'date-fns';
+import type { PricePoint } from '@/lib/db/types';
+
+export interface PriceCSVParseResult {
+  prices: PricePoint[]; // Sorted by date; the last row wins when a date repeats
+  dateColumn: string | null;
+  closeColumn: string | null;
+  skippedRows: number; // Rows without a usable date or close, e.g. Yahoo "null" rows
+  errors: string[]; // Problems that stop the file from being imported
+}
+
+// Header names for the closing price, best match first. Adjusted closes are a
+// last resort because vest income is reported at the unadjusted close.
+const CLOSE_HEADERS = ['close', 'close/last', 'closing price', 'close price', 'last price', 'last', 'price', 'adj close', 'adj. close', 'adjusted close'];
+const DATE_HEADERS = ['date', 'trade date', 'timestamp', 'time'];
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'M/d/yyyy', 'yyyy/MM/dd', 'dd.MM.yyyy', 'MMM dd, yyyy', 'MMM d, yyyy', 'dd-MMM-yyyy', 'd-MMM-yy', 'yyyyMMdd'];
+
+export class PriceCSVParser {
+  /**
+   * Parse a daily price CSV (Yahoo Finance, Nasdaq/broker downloads, or any
+   * file with a date column and a close/price column)
+   */
+  static parse(text: string): PriceCSVParseResult {
+    const lines = text
+      .replace(/^﻿/, '')
+      .split(/\r?\n/)
+      .filter(line => line.trim() !== '');
+
+    const result: PriceCSVParseResult = { prices: [], dateColumn: null, closeColumn: null, skippedRows: 0, errors: [] };
+    if (lines.length < 2) {
+      result.errors.push('The file needs a header row and at least one price row');
+      return result;
+    }
+
+    const delimiter = this.detectDelimiter(lines[0]);
+    const headers = this.splitLine(lines[0], delimiter).map(header => header.trim().toLowerCase());
+
+    const dateIndex = this.findColumn(headers, DATE_HEADERS);
+    const closeIndex = this.findColumn(headers, CLOSE_HEADERS);
+    if (dateIndex === -1) result.errors.push('No date column found (expected a "Date" header)');
+    if (closeIndex === -1) result.errors.push('No closing price column found (expected "Close", "Close/Last" or "Price")');
+    if (result.errors.length > 0) return result;
+
+    result.dateColumn = headers[dateIndex];
+    result.closeColumn = headers[closeIndex];
+
+    const byDate = new Map<string, number>();
+    for (const line of lines.slice(1)) {
+      const cells = this.splitLine(line, delimiter);
+      const date = this.parseDate(cells[dateIndex] ?? '');
+      const close = this.parseNumber(cells[closeIndex] ?? '');
+      if (!date || close === null || close < 0) {
+        result.skippedRows += 1;
+        continue;
+      }
+      byDate.set(date, close);
+    }
+
+    result.prices = Array.from(byDate, ([date, close]) => ({ date, close }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (result.prices.length === 0) {
+      result.errors.push('No rows with a valid date and closing price');
+    }
+    return result;
+  }
+
+  // The helpers below are shared with the exchange rate CSV parser
+
+  static detectDelimiter(header: string): string {
+    const candidates = [',', ';', '\t'];
+    return candidates.reduce((best, delimiter) =>
+      header.split(delimiter).length > header.split(best).length ? delimiter : best
+    );
+  }
+
+  /**
+   * Split one CSV line, honouring double-quoted fields and "" escapes
+   */
+  static splitLine(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        if (inQuotes && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = !inQuotes;
+        }
+      } else if (char === delimiter && !inQuotes) {
+        cells.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    cells.push(current.trim());
+    return cells;
+  }
+
+  static findColumn(headers: string[], candidates: string[]): number {
+    for (const candidate of candidates) {
+      const index = headers.indexOf(candidate);
+      if (index !== -1) return index;
+    }
+    return -1;
+  }
+
+  /**
+   * Normalize a date cell to yyyy-MM-dd, or null if it isn't a recognised date
+   */
+  static parseDate(value: string): string | null {
+    // Drop any time-of-day part, e.g. "2024-01-02 16:00:00" or "2024-01-02T00:00:00Z"
+    const trimmed = value.trim().replace(/[T ]\d{1,2}:\d{2}.*$/, '');
+    if (!trimmed) return null;
+
+    for (const dateFormat of DATE_FORMATS) {
+      const date = parse(trimmed, dateFormat, new Date(2000, 0, 1));
+      if (isValid(date) && date.getFullYear() >= 1900) {
+        return format(date, 'yyyy-MM-dd');
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse a price cell such as "123.45", "$1,234.50" or "1.234,50"
+   */
+  static parseNumber(value: string): number | null {
+    let cleaned = value.trim().replace(/[$€£¥\s]/g, '');
+    if (!cleaned || !/\d/.test(cleaned)) return null;
+
+    // A trailing comma group of 1-2 digits means a decimal comma
+    if (/,\d{1,2}$/.test(cleaned) && !/\.\d+$/.test(cleaned)) {
+      cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+    } else {
+      cleaned = cleaned.replace(/,/g, '');
+    }
+
+    const number = Number(cleaned);
+    return Number.isFinite(number) ? number : null;
+  }
+}
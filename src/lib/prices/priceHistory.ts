@@ -0,0 +1,38 @@
+import type { DecryptedPriceHistoryData, DecryptedValuationData, PricePoint } from '@/lib/db/types';
+
+export class PriceHistory {
+  /**
+   * Combine an existing series with a newly imported one. Imported closes
+   * replace stored ones on the same date.
+   */
+  static merge(existing: PricePoint[], incoming: PricePoint[]): PricePoint[] {
+    const byDate = new Map(existing.map(point => [point.date, point.close]));
+    for (const point of incoming) {
+      byDate.set(point.date, point.close);
+    }
+    return Array.from(byDate, ([date, close]) => ({ date, close }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Daily closes as public share prices, so grants are valued at the close
+   * on (or the last trading day before) each vest date
+   */
+  static toValuations(histories: DecryptedPriceHistoryData[]): DecryptedValuationData[] {
+    return histories.flatMap(history =>
+      history.prices.map(point => ({
+        company: history.company,
+        date: point.date,
+        pricePerShare: point.close,
+        currency: history.currency,
+        source: 'public' as const,
+        notes: `${history.ticker} close`,
+      }))
+    );
+  }
+
+  static getRange(prices: PricePoint[]): { first: PricePoint; last: PricePoint } | null {
+    if (prices.length === 0) return null;
+    return { first: prices[0], last: prices[prices.length - 1] };
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Compensation report tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import type { DecryptedBonusData, DecryptedSalaryData } from '@/lib/db/types';
+import type { CompTimelineInput } from '@/lib/compensation';
+import { CompensationReports } from '../compensationReports';
+import { check, expectEqual } from '@/lib/testing';
+
+// 100 a day in 2022, then 110 a day after a promotion in 2023
+const salaries: DecryptedSalaryData[] = [
+  {
+    company: 'Acme',
+    title: 'Engineer',
+    location: 'Remote',
+    amount: 36500,
+    currency: 'USD',
+    startDate: '2022-01-01',
+    endDate: '2022-12-31',
+    isCurrentPosition: false,
+  },
+  {
+    company: 'Acme',
+    title: 'Senior Engineer',
+    location: 'Remote',
+    amount: 40150,
+    currency: 'USD',
+    startDate: '2023-01-01',
+    endDate: '2023-12-31',
+    isCurrentPosition: false,
+  },
+];
+
+const bonus: DecryptedBonusData = {
+  company: 'Acme',
+  type: 'annual',
+  amount: 4015,
+  currency: 'USD',
+  date: '2023-12-15',
+  description: 'Annual bonus',
+};
+
+const input = (overrides: Partial<CompTimelineInput>): CompTimelineInput => ({
+  salaries,
+  bonuses: [bonus],
+  grants: [],
+  esppPlans: [],
+  valuations: [],
+  ...overrides,
+});
+
+const options = { currency: 'USD', asOf: new Date('2024-06-01T12:00:00') };
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const compensationReportsTests = {
+  testYearOverYear() {
+    const failures: string[] = [];
+    const report = CompensationReports.getYearOverYear(input({}), options);
+
+    expectEqual(failures, 'years', report.rows.map(row => row.year), ['2022', '2023']);
+    expectEqual(failures, 'totals', report.rows.map(row => row.total), [36500, 44165]);
+    expectEqual(failures, 'change', report.rows.map(row => row.change), [null, 7665]);
+    expectEqual(failures, 'change percent', report.rows.map(row => row.changePercent), [null, 21]);
+
+    return check('Year over year totals and change', failures);
+  },
+
+  testRaiseHistory() {
+    const failures: string[] = [];
+    const globex: DecryptedSalaryData = {
+      ...salaries[1],
+      company: 'Globex',
+      amount: 50000,
+      currency: 'EUR',
+      startDate: '2024-01-01',
+      endDate: undefined,
+      isCurrentPosition: true,
+    };
+    const report = CompensationReports.getRaiseHistory([globex, ...salaries], options);
+
+    expectEqual(failures, 'events', report.rows.map(row => row.event), ['First salary', 'Promotion', 'New company']);
+    expectEqual(failures, 'change percent', report.rows.map(row => row.changePercent), [null, 10, null]);
+    expectEqual(failures, 'previous amount', report.rows.map(row => row.previousAmount), [null, 36500, null]);
+
+    return check('Raise history across titles, companies and currencies', failures);
+  },
+
+  testBonusToBase() {
+    const failures: string[] = [];
+    const report = CompensationReports.getBonusToBase(input({}), options);
+
+    expectEqual(failures, 'bonus percent', report.rows.map(row => row.bonusPercent), [0, 10]);
+
+    const share = CompensationReports.getEquityShare(input({}), options);
+    expectEqual(failures, 'equity percent without grants', share.rows.map(row => row.equityPercent), [0, 0]);
+
+    return check('Bonus as a percent of base salary', failures);
+  },
+
+  testByCompany() {
+    const failures: string[] = [];
+    const globex: DecryptedSalaryData = {
+      ...salaries[0],
+      company: 'Globex',
+      currency: 'EUR',
+      startDate: '2024-01-01',
+      endDate: undefined,
+      isCurrentPosition: true,
+    };
+    const report = CompensationReports.getByCompany(input({ salaries: [...salaries, globex] }), options);
+
+    expectEqual(failures, 'companies, newest first', report.rows.map(row => row.company), ['Globex', 'Acme']);
+    expectEqual(failures, 'current employer has no end', report.rows.map(row => row.endDate), [null, '2023-12-31']);
+    expectEqual(failures, 'tenure', report.rows.map(row => row.tenureMonths), [5, 23]);
+    expectEqual(failures, 'totals in USD only', report.rows.map(row => row.total), [0, 80665]);
+
+    return check('Totals and tenure by company', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running compensation report tests...');
+
+    const results = [
+      this.testYearOverYear(),
+      this.testRaiseHistory(),
+      this.testBonusToBase(),
+      this.testByCompany(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All compensation report tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).compensationReportsTests = compensationReportsTests;
+}
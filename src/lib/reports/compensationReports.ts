@@ -0,0 +1,254 @@
+import { differenceInCalendarMonths, format, parseISO, startOfDay } from 'date-fns';
+import type { DecryptedSalaryData } from '@/lib/db/types';
+import { CompensationTimeline, type CompTimelineInput } from '@/lib/compensation';
+
+export type ReportId = 'yearOverYear' | 'byCompany' | 'raiseHistory' | 'bonusToBase' | 'equityShare';
+export type ReportColumnKind = 'text' | 'number' | 'currency' | 'percent' | 'date';
+export type ReportValue = string | number | boolean | null;
+export type ReportRow = Record<string, ReportValue>;
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  kind: ReportColumnKind;
+}
+
+export interface Report {
+  id: ReportId;
+  title: string;
+  description: string;
+  currency: string; // Currency of 'currency' columns, unless the row has its own `currency`
+  columns: ReportColumn[];
+  rows: ReportRow[];
+}
+
+export interface ReportOptions {
+  currency: string;
+  asOf?: Date;
+}
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Percent of a whole, to two decimals; null when there is nothing to compare against
+const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 10000) / 100 : null);
+
+const companyKey = (company: string) => company.trim().toLowerCase();
+
+export class CompensationReports {
+  static buildAll(input: CompTimelineInput, options: ReportOptions): Report[] {
+    return [
+      this.getYearOverYear(input, options),
+      this.getByCompany(input, options),
+      this.getRaiseHistory(input.salaries, options),
+      this.getBonusToBase(input, options),
+      this.getEquityShare(input, options),
+    ];
+  }
+
+  /**
+   * Total compensation per calendar year with the change from the year before
+   */
+  static getYearOverYear(input: CompTimelineInput, options: ReportOptions): Report {
+    const years = this.getYears(input, options);
+
+    return {
+      id: 'yearOverYear',
+      title: 'Year over Year',
+      description: 'Total compensation per calendar year. The current year includes projected salary and vests.',
+      currency: options.currency,
+      columns: [
+        { key: 'year', label: 'Year', kind: 'text' },
+        { key: 'salary', label: 'Salary', kind: 'currency' },
+        { key: 'bonus', label: 'Bonuses', kind: 'currency' },
+        { key: 'equity', label: 'Equity', kind: 'currency' },
+        { key: 'espp', label: 'ESPP', kind: 'currency' },
+        { key: 'total', label: 'Total', kind: 'currency' },
+        { key: 'change', label: 'Change', kind: 'currency' },
+        { key: 'changePercent', label: 'Change %', kind: 'percent' },
+      ],
+      rows: years.map((year, index) => {
+        const previous = index > 0 ? years[index - 1] : null;
+        return {
+          year: year.label,
+          salary: roundToCents(year.amounts.salary),
+          bonus: roundToCents(year.amounts.bonus),
+          equity: roundToCents(year.amounts.equity),
+          espp: roundToCents(year.amounts.espp),
+          total: roundToCents(year.total),
+          change: previous ? roundToCents(year.total - previous.total) : null,
+          changePercent: previous ? percentOf(year.total - previous.total, previous.total) : null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Compensation earned at each employer and how long the salary records there span
+   */
+  static getByCompany(input: CompTimelineInput, options: ReportOptions): Report {
+    const asOf = options.asOf ?? new Date();
+
+    const rows = CompensationTimeline.getCompanies(input).map(company => {
+      const salaries = input.salaries.filter(salary => companyKey(salary.company) === companyKey(company));
+      const starts = salaries.map(salary => salary.startDate).sort();
+      const isCurrent = salaries.some(salary => salary.isCurrentPosition);
+      const ends = salaries.map(salary => salary.endDate ?? format(asOf, 'yyyy-MM-dd')).sort();
+      const firstDate = starts[0] ?? null;
+      const lastDate = isCurrent ? null : ends[ends.length - 1] ?? null;
+
+      const { totals } = CompensationTimeline.build(input, {
+        groupBy: 'year',
+        currency: options.currency,
+        companies: [company],
+        asOf,
+      });
+      const total = totals.salary + totals.bonus + totals.equity + totals.espp;
+
+      return {
+        company,
+        startDate: firstDate,
+        endDate: lastDate,
+        tenureMonths: firstDate
+          ? Math.max(0, differenceInCalendarMonths(lastDate ? this.parseDate(lastDate) : asOf, this.parseDate(firstDate)))
+          : null,
+        isCurrent,
+        salary: roundToCents(totals.salary),
+        bonus: roundToCents(totals.bonus),
+        equity: roundToCents(totals.equity),
+        espp: roundToCents(totals.espp),
+        total: roundToCents(total),
+      };
+    });
+
+    return {
+      id: 'byCompany',
+      title: 'By Company',
+      description: 'Everything earned at each employer, with tenure from the first salary start to the last salary end.',
+      currency: options.currency,
+      columns: [
+        { key: 'company', label: 'Company', kind: 'text' },
+        { key: 'startDate', label: 'Started', kind: 'date' },
+        { key: 'endDate', label: 'Left', kind: 'date' },
+        { key: 'tenureMonths', label: 'Tenure (months)', kind: 'number' },
+        { key: 'salary', label: 'Salary', kind: 'currency' },
+        { key: 'bonus', label: 'Bonuses', kind: 'currency' },
+        { key: 'equity', label: 'Equity', kind: 'currency' },
+        { key: 'espp', label: 'ESPP', kind: 'currency' },
+        { key: 'total', label: 'Total', kind: 'currency' },
+      ],
+      rows: rows.sort((a, b) => (b.startDate ?? '').localeCompare(a.startDate ?? '')),
+    };
+  }
+
+  /**
+   * Percent change between consecutive salaries, oldest first. Each row is in
+   * its salary's currency; changes across currencies are left blank.
+   */
+  static getRaiseHistory(salaries: DecryptedSalaryData[], options: ReportOptions): Report {
+    const sorted = [...salaries].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    return {
+      id: 'raiseHistory',
+      title: 'Raise History',
+      description: 'Each salary compared with the one before it, in its own currency.',
+      currency: options.currency,
+      columns: [
+        { key: 'startDate', label: 'Effective', kind: 'date' },
+        { key: 'company', label: 'Company', kind: 'text' },
+        { key: 'title', label: 'Title', kind: 'text' },
+        { key: 'previousAmount', label: 'Previous', kind: 'currency' },
+        { key: 'amount', label: 'Salary', kind: 'currency' },
+        { key: 'currency', label: 'Currency', kind: 'text' },
+        { key: 'changePercent', label: 'Change %', kind: 'percent' },
+        { key: 'event', label: 'Event', kind: 'text' },
+      ],
+      rows: sorted.map((salary, index) => {
+        const previous = index > 0 ? sorted[index - 1] : null;
+        const sameCurrency = previous !== null && previous.currency === salary.currency;
+
+        let event = 'First salary';
+        if (previous) {
+          if (companyKey(previous.company) !== companyKey(salary.company)) event = 'New company';
+          else if (previous.title !== salary.title) event = 'Promotion';
+          else event = 'Raise';
+        }
+
+        return {
+          startDate: salary.startDate,
+          company: salary.company,
+          title: salary.title,
+          previousAmount: sameCurrency ? previous.amount : null,
+          amount: salary.amount,
+          currency: salary.currency,
+          changePercent: sameCurrency ? percentOf(salary.amount - previous.amount, previous.amount) : null,
+          event,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Bonuses paid each year as a percent of the base salary earned that year
+   */
+  static getBonusToBase(input: CompTimelineInput, options: ReportOptions): Report {
+    return {
+      id: 'bonusToBase',
+      title: 'Bonus vs. Base',
+      description: 'Bonuses paid in each calendar year as a percent of the base salary earned in it.',
+      currency: options.currency,
+      columns: [
+        { key: 'year', label: 'Year', kind: 'text' },
+        { key: 'salary', label: 'Base Salary', kind: 'currency' },
+        { key: 'bonus', label: 'Bonuses', kind: 'currency' },
+        { key: 'bonusPercent', label: 'Bonus % of Base', kind: 'percent' },
+      ],
+      rows: this.getYears(input, options).map(year => ({
+        year: year.label,
+        salary: roundToCents(year.amounts.salary),
+        bonus: roundToCents(year.amounts.bonus),
+        bonusPercent: percentOf(year.amounts.bonus, year.amounts.salary),
+      })),
+    };
+  }
+
+  /**
+   * Equity (vests and ESPP discount) as a percent of each year's total
+   */
+  static getEquityShare(input: CompTimelineInput, options: ReportOptions): Report {
+    return {
+      id: 'equityShare',
+      title: 'Equity Share of Total',
+      description: 'Vested equity and ESPP discount as a percent of total compensation per calendar year.',
+      currency: options.currency,
+      columns: [
+        { key: 'year', label: 'Year', kind: 'text' },
+        { key: 'cash', label: 'Salary + Bonuses', kind: 'currency' },
+        { key: 'equity', label: 'Equity + ESPP', kind: 'currency' },
+        { key: 'total', label: 'Total', kind: 'currency' },
+        { key: 'equityPercent', label: 'Equity %', kind: 'percent' },
+      ],
+      rows: this.getYears(input, options).map(year => {
+        const equity = year.amounts.equity + year.amounts.espp;
+        return {
+          year: year.label,
+          cash: roundToCents(year.amounts.salary + year.amounts.bonus),
+          equity: roundToCents(equity),
+          total: roundToCents(year.total),
+          equityPercent: percentOf(equity, year.total),
+        };
+      }),
+    };
+  }
+
+  private static getYears(input: CompTimelineInput, options: ReportOptions) {
+    return CompensationTimeline.build(input, {
+      groupBy: 'year',
+      currency: options.currency,
+      asOf: options.asOf,
+    }).periods;
+  }
+
+  private static parseDate(value: string): Date {
+    return startOfDay(parseISO(value));
+  }
+}
@@ -0,0 +1,10 @@
+export { CompensationReports } from './compensationReports';
+export type {
+  Report,
+  ReportId,
+  ReportColumn,
+  ReportColumnKind,
+  ReportValue,
+  ReportRow,
+  ReportOptions,
+} from './compensationReports';
@@ -0,0 +1,129 @@
+/**
+ * Revision diff tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { RevisionDiff } from '../revisionDiff';
+import { check, expectEqual } from '@/lib/testing';
+
+const salary = {
+  company: 'Acme',
+  title: 'Engineer',
+  location: 'Berlin',
+  amount: 90000,
+  currency: 'EUR',
+  startDate: '2023-04-01',
+  endDate: '',
+  isCurrentPosition: true,
+  notes: '',
+};
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const revisionDiffTests = {
+  testChangedFields() {
+    const failures: string[] = [];
+
+    const changes = RevisionDiff.diff(salary, { ...salary, title: 'Senior Engineer', amount: 105000 });
+    expectEqual(failures, 'changes', changes, [
+      { path: 'title', before: 'Engineer', after: 'Senior Engineer' },
+      { path: 'amount', before: 90000, after: 105000 },
+    ]);
+    expectEqual(failures, 'identical payloads', RevisionDiff.diff(salary, { ...salary }), []);
+
+    return check('Only changed fields are listed, in field order', failures);
+  },
+
+  testBlankValues() {
+    const failures: string[] = [];
+
+    // Older records left optional fields out instead of saving ''
+    const withoutOptional: Partial<typeof salary> = { ...salary };
+    delete withoutOptional.endDate;
+    delete withoutOptional.notes;
+    expectEqual(failures, 'missing vs empty', RevisionDiff.diff(withoutOptional, salary), []);
+
+    const ended = RevisionDiff.diff(salary, { ...salary, endDate: '2025-06-30', isCurrentPosition: false });
+    expectEqual(failures, 'field set', ended[0], { path: 'endDate', after: '2025-06-30' });
+    expectEqual(failures, 'boolean change', ended[1], { path: 'isCurrentPosition', before: true, after: false });
+
+    return check('Blank and missing optional fields are the same', failures);
+  },
+
+  testNestedFields() {
+    const failures: string[] = [];
+
+    const grant = {
+      shares: 1000,
+      vestingTranches: [
+        { monthsFromStart: 12, percentage: 50 },
+        { monthsFromStart: 24, percentage: 50 },
+      ],
+    };
+    const changes = RevisionDiff.diff(grant, {
+      ...grant,
+      vestingTranches: [
+        { monthsFromStart: 12, percentage: 40 },
+        { monthsFromStart: 24, percentage: 30 },
+        { monthsFromStart: 36, percentage: 30 },
+      ],
+    });
+    expectEqual(failures, 'paths', changes.map(change => change.path), [
+      'vestingTranches[0].percentage',
+      'vestingTranches[1].percentage',
+      'vestingTranches[2].monthsFromStart',
+      'vestingTranches[2].percentage',
+    ]);
+
+    const removed = RevisionDiff.diff(grant, { shares: 1000, vestingTranches: [grant.vestingTranches[0]] });
+    expectEqual(failures, 'removed tranche', removed, [
+      { path: 'vestingTranches[1].monthsFromStart', before: 24 },
+      { path: 'vestingTranches[1].percentage', before: 50 },
+    ]);
+
+    return check('Arrays and nested objects diff per field', failures);
+  },
+
+  testFormatPath() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'simple', RevisionDiff.formatPath('amount'), 'Amount');
+    expectEqual(failures, 'camel case', RevisionDiff.formatPath('isCurrentPosition'), 'Is current position');
+    expectEqual(
+      failures,
+      'nested',
+      RevisionDiff.formatPath('vestingTranches[1].percentage'),
+      'Vesting tranches 2 · percentage'
+    );
+
+    return check('Paths read as field labels', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running revision diff tests...\n');
+
+    const results = [
+      this.testChangedFields(),
+      this.testBlankValues(),
+      this.testNestedFields(),
+      this.testFormatPath(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All revision diff tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).revisionDiffTests = revisionDiffTests;
+}
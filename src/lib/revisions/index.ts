@@ -0,0 +1,2 @@
+export { RevisionDiff } from './revisionDiff';
+export type { FieldChange } from './revisionDiff';
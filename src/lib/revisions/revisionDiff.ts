@@ -0,0 +1,63 @@
+export interface FieldChange {
+  path: string; // e.g. 'amount' or 'vestingTranches[1].percentage'
+  before: unknown; // undefined when the field was added
+  after: unknown; // undefined when the field was removed
+}
+
+// Optional form fields are saved as '' or left out; both mean "not set"
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+export class RevisionDiff {
+  /**
+   * Flatten nested objects and arrays into leaf values keyed by path
+   */
+  static flatten(value: unknown, prefix = ''): Record<string, unknown> {
+    if (Array.isArray(value)) {
+      if (value.length === 0) return prefix ? { [prefix]: [] } : {};
+      return Object.assign({}, ...value.map((item, index) => this.flatten(item, `${prefix}[${index}]`)));
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return Object.assign(
+        {},
+        ...Object.entries(value).map(([key, item]) => this.flatten(item, prefix ? `${prefix}.${key}` : key))
+      );
+    }
+
+    return prefix ? { [prefix]: value } : {};
+  }
+
+  /**
+   * Field-level changes from one decrypted payload to the next. Fields keep the
+   * order they have in `after`, followed by fields that were removed.
+   */
+  static diff(before: unknown, after: unknown): FieldChange[] {
+    const previous = this.flatten(before);
+    const next = this.flatten(after);
+    const paths = Array.from(new Set([...Object.keys(next), ...Object.keys(previous)]));
+
+    return paths
+      .filter(path => {
+        const [a, b] = [previous[path], next[path]];
+        if (isBlank(a) && isBlank(b)) return false;
+        return JSON.stringify(a) !== JSON.stringify(b);
+      })
+      .map(path => ({
+        path,
+        before: isBlank(previous[path]) ? undefined : previous[path],
+        after: isBlank(next[path]) ? undefined : next[path],
+      }));
+  }
+
+  /**
+   * Readable label for a path: 'vestingTranches[1].percentage' → 'Vesting tranches 2 · percentage'
+   */
+  static formatPath(path: string): string {
+    const label = path
+      .replace(/\[(\d+)\]/g, (_, index) => ` ${Number(index) + 1}`)
+      .replace(/\./g, ' · ')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase();
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  }
+}
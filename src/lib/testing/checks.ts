@@ -0,0 +1,20 @@
+/**
+ * Assertions shared by the lib test suites. Each test collects failures and
+ * reports them through check, which logs the result and returns whether it passed.
+ */
+
+export const check = (name: string, failures: string[]) => {
+  if (failures.length === 0) {
+    console.log(`✅ ${name}`);
+    return true;
+  }
+  console.error(`❌ ${name}:\n  ${failures.join('\n  ')}`);
+  return false;
+};
+
+// Compares by JSON, so key order in objects matters
+export const expectEqual = (failures: string[], label: string, actual: unknown, expected: unknown) => {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    failures.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+};
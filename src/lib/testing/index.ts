@@ -0,0 +1,2 @@
+export { check, expectEqual } from './checks';
+export { inTimeZone } from './timeZone';
@@ -0,0 +1,18 @@
+/**
+ * Run fn with the process in another time zone, restoring it afterwards.
+ * Node picks up a changed TZ immediately; browsers keep their own zone.
+ */
+export const inTimeZone = <T>(timeZone: string, fn: () => T): T => {
+  if (typeof process === 'undefined') return fn();
+  const previous = process.env.TZ;
+  process.env.TZ = timeZone;
+  try {
+    return fn();
+  } finally {
+    if (previous === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = previous;
+    }
+  }
+};
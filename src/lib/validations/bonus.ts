@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from './currency';
 
 export const bonusSchema = z.object({
   company: z.string().min(1, 'Company is required'),
@@ -6,7 +7,7 @@ export const bonusSchema = z.object({
     required_error: 'Bonus type is required',
   }),
   amount: z.number().min(0, 'Amount must be positive'),
-  currency: z.string().min(1, 'Currency is required'),
+  currency: currencyCodeSchema,
   date: z.string().min(1, 'Bonus date is required'),
   payrollDate: z.string().optional(),
   description: z.string().min(1, 'Description is required'),
@@ -23,16 +24,3 @@ export const bonusTypeOptions = [
   { value: 'annual', label: 'Annual Bonus' },
   { value: 'other', label: 'Other' },
 ] as const;
-
-export const currencyOptions = [
-  { value: 'USD', label: '$' },
-  { value: 'EUR', label: '€' },
-  { value: 'GBP', label: '£' },
-  { value: 'CAD', label: 'C$' },
-  { value: 'AUD', label: 'A$' },
-  { value: 'JPY', label: '¥' },
-  { value: 'CHF', label: 'CHF' },
-  { value: 'SEK', label: 'SEK' },
-  { value: 'NOK', label: 'NOK' },
-  { value: 'DKK', label: 'DKK' },
-];
\ No newline at end of file
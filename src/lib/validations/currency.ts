@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { Currency } from '@/lib/currency';
+
+// Every currency field accepts ISO 4217 codes only
+export const currencyCodeSchema = z
+  .string()
+  .min(1, 'Currency is required')
+  .refine(code => Currency.isValid(code), code => ({ message: `${code} is not a known ISO 4217 currency code` }));
@@ -1,5 +1,16 @@
 import { z } from 'zod';
 
+// Percentages may carry decimals (e.g. 33.33 x 3), so allow a little slack
+const PERCENTAGE_TOLERANCE = 0.01;
+
+const sumsToHundred = (percentages: number[]) =>
+  Math.abs(percentages.reduce((sum, pct) => sum + pct, 0) - 100) <= PERCENTAGE_TOLERANCE;
+
+export const vestingTrancheSchema = z.object({
+  monthsFromStart: z.number().int('Months must be a whole number').min(0, 'Months must be positive'),
+  percentage: z.number().gt(0, 'Percentage must be greater than 0').max(100, 'Percentage cannot exceed 100'),
+});
+
 export const equitySchema = z.object({
   company: z.string().min(1, 'Company is required'),
   type: z.enum(['ISO', 'NSO', 'RSU', 'ESPP', 'other'], {
@@ -14,7 +25,59 @@ export const equitySchema = z.object({
   vestingFrequency: z.enum(['monthly', 'quarterly', 'annual'], {
     required_error: 'Vesting frequency is required',
   }),
+  vestingScheduleType: z.enum(['uniform', 'yearly', 'custom']).optional(),
+  vestingYearlyPercentages: z
+    .array(z.number().min(0, 'Percentage must be positive').max(100, 'Percentage cannot exceed 100'))
+    .optional(),
+  vestingTranches: z.array(vestingTrancheSchema).optional(),
   notes: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.vestingScheduleType === 'yearly') {
+    const percentages = data.vestingYearlyPercentages ?? [];
+    if (percentages.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['vestingYearlyPercentages'],
+        message: 'Add at least one year',
+      });
+    } else if (!sumsToHundred(percentages)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['vestingYearlyPercentages'],
+        message: 'Yearly percentages must add up to 100%',
+      });
+    }
+  }
+
+  if (data.vestingScheduleType === 'custom') {
+    const tranches = data.vestingTranches ?? [];
+    const months = tranches.map(tranche => tranche.monthsFromStart);
+    if (tranches.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['vestingTranches'],
+        message: 'Add at least one tranche',
+      });
+    } else if (new Set(months).size !== months.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['vestingTranches'],
+        message: 'Each tranche must vest in a different month',
+      });
+    } else if (Math.max(...months) < 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['vestingTranches'],
+        message: 'The last tranche must vest at least 1 month after the vesting start',
+      });
+    } else if (!sumsToHundred(tranches.map(tranche => tranche.percentage))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['vestingTranches'],
+        message: 'Tranche percentages must add up to 100%',
+      });
+    }
+  }
 });
 
 export type EquityFormData = z.infer<typeof equitySchema>;
@@ -46,4 +109,18 @@ export const vestingCliffOptions = [
   { value: 12, label: '12 months (1 year)' },
   { value: 18, label: '18 months' },
   { value: 24, label: '24 months (2 years)' },
-] as const;
\ No newline at end of file
+] as const;
+
+export const vestingScheduleTypeOptions = [
+  { value: 'uniform', label: 'Even (same amount each period)' },
+  { value: 'yearly', label: 'Percent per year (e.g. back-weighted)' },
+  { value: 'custom', label: 'Custom tranches' },
+] as const;
+
+export const vestingYearlyPresetOptions = [
+  { value: '25/25/25/25', label: '25 / 25 / 25 / 25', percentages: [25, 25, 25, 25] },
+  { value: '5/15/40/40', label: '5 / 15 / 40 / 40', percentages: [5, 15, 40, 40] },
+  { value: '10/20/30/40', label: '10 / 20 / 30 / 40', percentages: [10, 20, 30, 40] },
+  { value: '40/30/20/10', label: '40 / 30 / 20 / 10', percentages: [40, 30, 20, 10] },
+  { value: '33/33/34', label: '33 / 33 / 34', percentages: [33, 33, 34] },
+] as const;
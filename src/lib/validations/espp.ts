@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { currencyCodeSchema } from './currency';
+
+export const esppPurchaseSchema = z.object({
+  date: z.string().min(1, 'Purchase date is required'),
+  fmv: z.number().gt(0, 'FMV must be greater than 0'),
+  purchasePrice: z.number().gt(0, 'Purchase price must be greater than 0'),
+  shares: z.number().min(0, 'Shares must be positive'),
+  contribution: z.number().min(0, 'Contribution must be positive').optional(),
+});
+
+export const esppSchema = z.object({
+  company: z.string().min(1, 'Company is required'),
+  offeringStart: z.string().min(1, 'Offering start is required'),
+  offeringEnd: z.string().min(1, 'Offering end is required'),
+  offeringFmv: z.number().gt(0, 'Offering FMV must be greater than 0'),
+  contributionPercent: z.number().min(0, 'Contribution must be positive').max(100, 'Contribution cannot exceed 100%'),
+  discountPercent: z.number().min(0, 'Discount must be positive').max(100, 'Discount cannot exceed 100%'),
+  hasLookback: z.boolean(),
+  currency: currencyCodeSchema,
+  purchases: z.array(esppPurchaseSchema),
+  notes: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.offeringEnd && data.offeringStart && data.offeringEnd <= data.offeringStart) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['offeringEnd'],
+      message: 'Offering end must be after the offering start',
+    });
+  }
+
+  data.purchases.forEach((purchase, index) => {
+    if (purchase.date < data.offeringStart || purchase.date > data.offeringEnd) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['purchases', index, 'date'],
+        message: 'Purchase date must fall within the offering period',
+      });
+    }
+  });
+});
+
+export type EsppFormData = z.infer<typeof esppSchema>;
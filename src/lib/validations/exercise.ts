@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { currencyCodeSchema } from './currency';
+
+export const exerciseSchema = z.object({
+  date: z.string().min(1, 'Exercise date is required'),
+  shares: z.number().int('Shares must be a whole number').min(1, 'Exercise at least 1 share'),
+  strikePrice: z.number().min(0, 'Strike price must be positive'),
+  fmvAtExercise: z.number().min(0, 'Fair market value must be positive'),
+  currency: currencyCodeSchema,
+  method: z.enum(['cash', 'cashless', 'sell-to-cover'], {
+    required_error: 'Exercise method is required',
+  }),
+  sharesSold: z.number().int('Shares must be a whole number').min(0, 'Shares sold must be positive').optional(),
+  isEarlyExercise: z.boolean(),
+  election83bDate: z.string().optional(),
+  notes: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.method === 'sell-to-cover') {
+    if (!data.sharesSold) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['sharesSold'],
+        message: 'Enter the shares sold to cover',
+      });
+    } else if (data.sharesSold >= data.shares) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['sharesSold'],
+        message: 'Selling every share is a cashless exercise',
+      });
+    }
+  }
+
+  if (data.election83bDate && data.election83bDate < data.date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['election83bDate'],
+      message: 'The 83(b) election is filed after the exercise',
+    });
+  }
+});
+
+export type ExerciseFormData = z.infer<typeof exerciseSchema>;
+
+export const exerciseMethodOptions = [
+  { value: 'cash', label: 'Cash (exercise and hold)' },
+  { value: 'cashless', label: 'Cashless (exercise and sell all)' },
+  { value: 'sell-to-cover', label: 'Sell to cover' },
+] as const;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { currencyCodeSchema } from './currency';
+
+const samePairMessage = { message: 'Choose two different currencies', path: ['quote'] };
+
+export const fxRateSchema = z.object({
+  base: currencyCodeSchema,
+  quote: currencyCodeSchema,
+  date: z.string().min(1, 'Date is required'),
+  rate: z.number().positive('Rate must be greater than zero'),
+}).refine(data => data.base !== data.quote, samePairMessage);
+
+export type FxRateFormData = z.infer<typeof fxRateSchema>;
+
+// Files with one column per currency name their own quote currencies
+export const fxImportSchema = z.object({
+  base: currencyCodeSchema,
+  quote: currencyCodeSchema.optional(),
+}).refine(data => data.base !== data.quote, samePairMessage);
+
+export type FxImportFormData = z.infer<typeof fxImportSchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { currencyCodeSchema } from './currency';
+
+export const preferencesSchema = z.object({
+  theme: z.enum(['light', 'dark', 'system']),
+  currency: currencyCodeSchema,
+  dateFormat: z.string().min(1, 'Date format is required'),
+  numberFormat: z.string().min(1, 'Number format is required'),
+  notifications: z.object({
+    syncUpdates: z.boolean(),
+    vestingReminders: z.boolean(),
+    bonusAlerts: z.boolean(),
+  }),
+  privacy: z.object({
+    enableAnalytics: z.boolean(),
+    shareUsageData: z.boolean(),
+    trashRetentionDays: z.number().int().min(0, 'Retention cannot be negative').max(3650, 'Retention cannot exceed ten years'),
+  }),
+  security: z.object({
+    sessionTimeout: z.number().int().min(1, 'Session timeout must be at least a minute').max(1440, 'Session timeout cannot exceed a day'),
+    requirePasswordForSensitiveActions: z.boolean(),
+  }),
+});
+
+export type PreferencesFormData = z.infer<typeof preferencesSchema>;
+
+export const themeOptions = [
+  { value: 'system', label: 'System' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+];
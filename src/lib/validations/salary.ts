@@ -1,11 +1,12 @@
 import { z } from 'zod';
+import { currencyCodeSchema } from './currency';
 
 export const salarySchema = z.object({
   company: z.string().min(1, 'Company is required'),
   title: z.string().min(1, 'Job title is required'),
   location: z.string().min(1, 'Location is required'),
   amount: z.number().min(0, 'Amount must be positive'),
-  currency: z.string().min(1, 'Currency is required'),
+  currency: currencyCodeSchema,
   startDate: z.string().min(1, 'Start date is required'),
   endDate: z.string().optional(),
   isCurrentPosition: z.boolean(),
@@ -13,16 +14,3 @@ export const salarySchema = z.object({
 });
 
 export type SalaryFormData = z.infer<typeof salarySchema>;
-
-export const currencyOptions = [
-  { value: 'USD', label: '$' },
-  { value: 'EUR', label: '€' },
-  { value: 'GBP', label: '£' },
-  { value: 'CAD', label: 'C$' },
-  { value: 'AUD', label: 'A$' },
-  { value: 'JPY', label: '¥' },
-  { value: 'CHF', label: 'CHF' },
-  { value: 'SEK', label: 'SEK' },
-  { value: 'NOK', label: 'NOK' },
-  { value: 'DKK', label: 'DKK' },
-];
\ No newline at end of file
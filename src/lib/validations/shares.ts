@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { currencyCodeSchema } from './currency';
+
+export const vestLotRowSchema = z.object({
+  include: z.boolean(),
+  acquiredDate: z.string().min(1, 'Vest date is required'),
+  vestedShares: z.number(),
+  shares: z.number().int('Shares must be a whole number').min(0, 'Shares must be positive'),
+  sharesWithheld: z.number().int('Shares must be a whole number').min(0, 'Shares must be positive').optional(),
+  costBasisPerShare: z.number().min(0, 'FMV must be positive'),
+}).superRefine((row, ctx) => {
+  if (row.include && row.shares + (row.sharesWithheld ?? 0) > row.vestedShares) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['shares'],
+      message: `Only ${row.vestedShares.toLocaleString()} shares vested`,
+    });
+  }
+  if (row.include && row.shares === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['shares'],
+      message: 'Enter the shares deposited',
+    });
+  }
+});
+
+export const vestLotsSchema = z.object({
+  currency: currencyCodeSchema,
+  lots: z.array(vestLotRowSchema).refine(rows => rows.some(row => row.include), 'Select at least one vest'),
+});
+
+export type VestLotsFormData = z.infer<typeof vestLotsSchema>;
+
+export const shareSaleAllocationSchema = z.object({
+  lotUid: z.string().min(1),
+  shares: z.number().int('Shares must be a whole number').min(0, 'Shares must be positive'),
+});
+
+export const shareSaleSchema = z.object({
+  company: z.string().min(1, 'Company is required'),
+  date: z.string().min(1, 'Sale date is required'),
+  shares: z.number().int('Shares must be a whole number').min(1, 'Sell at least 1 share'),
+  pricePerShare: z.number().min(0, 'Sale price must be positive'),
+  fees: z.number().min(0, 'Fees must be positive').optional(),
+  currency: currencyCodeSchema,
+  lotSelection: z.enum(['fifo', 'specific'], {
+    required_error: 'Lot selection is required',
+  }),
+  allocations: z.array(shareSaleAllocationSchema),
+  notes: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.lotSelection === 'specific') {
+    const allocated = data.allocations.reduce((sum, allocation) => sum + allocation.shares, 0);
+    if (allocated !== data.shares) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['allocations'],
+        message: `Pick ${data.shares.toLocaleString()} shares across the lots (${allocated.toLocaleString()} picked)`,
+      });
+    }
+  }
+});
+
+export type ShareSaleFormData = z.infer<typeof shareSaleSchema>;
+
+export const lotSelectionOptions = [
+  { value: 'fifo', label: 'First in, first out (FIFO)' },
+  { value: 'specific', label: 'Specific lots' },
+] as const;
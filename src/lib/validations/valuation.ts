@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { currencyCodeSchema } from './currency';
+
+export const valuationSchema = z.object({
+  company: z.string().min(1, 'Company is required'),
+  date: z.string().min(1, 'Valuation date is required'),
+  pricePerShare: z.number().min(0, 'Price per share must be positive'),
+  currency: currencyCodeSchema,
+  source: z.enum(['409a', 'preferred', 'tender', 'public', 'other'], {
+    required_error: 'Valuation source is required',
+  }),
+  notes: z.string().optional(),
+});
+
+export type ValuationFormData = z.infer<typeof valuationSchema>;
+
+export const valuationSourceOptions = [
+  { value: '409a', label: '409A Valuation (FMV)' },
+  { value: 'preferred', label: 'Preferred Share Price' },
+  { value: 'tender', label: 'Tender Offer' },
+  { value: 'public', label: 'Public Market Close' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export const priceImportSchema = z.object({
+  ticker: z
+    .string()
+    .min(1, 'Ticker is required')
+    .max(12, 'Ticker is too long')
+    .regex(/^[A-Za-z0-9.\-^=]+$/, 'Ticker can only contain letters, numbers, ".", "-", "^" and "="'),
+  company: z.string().min(1, 'Company is required'),
+  currency: currencyCodeSchema,
+});
+
+export type PriceImportFormData = z.infer<typeof priceImportSchema>;
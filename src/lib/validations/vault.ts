@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { RecoveryPhrase } from '@/lib/crypto/recoveryPhrase';
+
+export const unlockVaultSchema = z.object({
+  password: z.string().min(1, 'Master password is required'),
+});
+
+export type UnlockVaultFormData = z.infer<typeof unlockVaultSchema>;
+
+export const setupVaultSchema = z.object({
+  password: z.string().min(8, 'Master password must be at least 8 characters'),
+  confirmPassword: z.string().min(1, 'Please confirm your master password'),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+export type SetupVaultFormData = z.infer<typeof setupVaultSchema>;
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current master password is required'),
+  newPassword: z.string().min(8, 'Master password must be at least 8 characters'),
+  confirmPassword: z.string().min(1, 'Please confirm your new master password'),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+export const resetPasswordSchema = z.object({
+  recoveryPhrase: z.string()
+    .min(1, 'Recovery phrase is required')
+    .refine((phrase) => RecoveryPhrase.isValid(phrase), 'Check the recovery phrase for typos'),
+  newPassword: z.string().min(8, 'Master password must be at least 8 characters'),
+  confirmPassword: z.string().min(1, 'Please confirm your new master password'),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
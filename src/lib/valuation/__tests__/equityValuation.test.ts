@@ -0,0 +1,115 @@
+/**
+ * Equity valuation tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import type { DecryptedEquityData, DecryptedValuationData } from '@/lib/db/types';
+import { EquityValuation } from '../equityValuation';
+import { check, expectEqual } from '@/lib/testing';
+
+const valuations: DecryptedValuationData[] = [
+  { company: 'Acme', date: '2024-01-01', pricePerShare: 5, currency: 'USD', source: '409a' },
+  { company: 'Acme', date: '2025-01-01', pricePerShare: 8, currency: 'USD', source: '409a' },
+  { company: 'acme ', date: '2025-06-01', pricePerShare: 20, currency: 'USD', source: 'preferred' },
+  { company: 'Globex', date: '2025-01-01', pricePerShare: 100, currency: 'EUR', source: 'public' },
+];
+
+const rsuGrant: DecryptedEquityData = {
+  company: 'Acme',
+  type: 'RSU',
+  shares: 1200,
+  grantDate: '2024-01-01',
+  vestingStart: '2024-01-01',
+  vestingPeriod: 12,
+  vestingFrequency: 'monthly',
+};
+
+const optionGrant: DecryptedEquityData = {
+  ...rsuGrant,
+  type: 'ISO',
+  strikePrice: 6,
+};
+
+const asOf = (date: string) => new Date(`${date}T12:00:00`);
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const valuationTests = {
+  testValuationAsOf() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'before any price', EquityValuation.getValuationAsOf(valuations, 'Acme', asOf('2023-12-31')), null);
+    expectEqual(failures, 'first price', EquityValuation.getValuationAsOf(valuations, 'Acme', asOf('2024-06-01'))?.pricePerShare, 5);
+    expectEqual(failures, 'on the effective date', EquityValuation.getValuationAsOf(valuations, 'Acme', asOf('2025-01-01'))?.pricePerShare, 8);
+    expectEqual(failures, 'loose company match', EquityValuation.getValuationAsOf(valuations, ' ACME', asOf('2026-01-01'))?.pricePerShare, 20);
+    expectEqual(failures, 'unknown company', EquityValuation.getValuationAsOf(valuations, 'Initech', asOf('2026-01-01')), null);
+
+    return check('Latest valuation on or before a date', failures);
+  },
+
+  testRsuFullValue() {
+    const failures: string[] = [];
+    const value = EquityValuation.getGrantValue(rsuGrant, valuations, asOf('2024-07-15'));
+
+    expectEqual(failures, 'value per share', value?.valuePerShare, 5);
+    expectEqual(failures, 'vested value', value?.vestedValue, 600 * 5);
+    expectEqual(failures, 'unvested value', value?.unvestedValue, 600 * 5);
+    expectEqual(failures, 'total value', value?.totalValue, 1200 * 5);
+
+    return check('RSUs are valued at the full share price', failures);
+  },
+
+  testOptionIntrinsicValue() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'underwater', EquityValuation.getGrantValue(optionGrant, valuations, asOf('2024-07-15'))?.totalValue, 0);
+    expectEqual(failures, 'in the money', EquityValuation.getGrantValue(optionGrant, valuations, asOf('2025-03-01'))?.totalValue, 1200 * 2);
+    expectEqual(failures, 'no strike', EquityValuation.getValuePerShare({ type: 'NSO' }, 3), 3);
+
+    return check('Options are valued at the spread over strike, never below zero', failures);
+  },
+
+  testPortfolioValue() {
+    const failures: string[] = [];
+    const unpriced: DecryptedEquityData = { ...rsuGrant, company: 'Initech' };
+    const foreign: DecryptedEquityData = { ...rsuGrant, company: 'Globex' };
+
+    const sameCurrency = EquityValuation.getPortfolioValue([rsuGrant, optionGrant, unpriced], valuations, asOf('2025-03-01'));
+    expectEqual(failures, 'total', sameCurrency.totalValue, 1200 * 8 + 1200 * 2);
+    expectEqual(failures, 'currency', sameCurrency.currency, 'USD');
+    expectEqual(failures, 'priced', [sameCurrency.pricedGrants, sameCurrency.unpricedGrants], [2, 1]);
+
+    const mixed = EquityValuation.getPortfolioValue([rsuGrant, foreign], valuations, asOf('2025-03-01'));
+    expectEqual(failures, 'mixed currency', mixed.currency, null);
+
+    return check('Portfolio value sums priced grants', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running equity valuation tests...');
+
+    const results = [
+      this.testValuationAsOf(),
+      this.testRsuFullValue(),
+      this.testOptionIntrinsicValue(),
+      this.testPortfolioValue(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All equity valuation tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).valuationTests = valuationTests;
+}
@@ -0,0 +1,124 @@
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+import type { DecryptedEquityData, DecryptedValuationData } from '@/lib/db/types';
+import { VestingSchedule } from '@/lib/vesting';
+
+export interface GrantValue {
+  valuation: DecryptedValuationData; // Price point the value is based on
+  valuePerShare: number; // Spread over strike for options, full price otherwise
+  vestedShares: number;
+  unvestedShares: number;
+  vestedValue: number;
+  unvestedValue: number;
+  totalValue: number;
+}
+
+export interface PortfolioValue {
+  vestedValue: number;
+  unvestedValue: number;
+  totalValue: number;
+  currency: string | null; // null when priced grants span several currencies
+  pricedGrants: number;
+  unpricedGrants: number;
+}
+
+export class EquityValuation {
+  /**
+   * The most recent valuation for a company on or before the given date
+   */
+  static getValuationAsOf(
+    valuations: DecryptedValuationData[],
+    company: string,
+    asOf: Date = new Date()
+  ): DecryptedValuationData | null {
+    const key = this.companyKey(company);
+    const cutoff = endOfDay(asOf).getTime();
+
+    let latest: DecryptedValuationData | null = null;
+    for (const valuation of valuations) {
+      if (this.companyKey(valuation.company) !== key) continue;
+      const time = this.parseDate(valuation.date).getTime();
+      if (time > cutoff) continue;
+      if (!latest || time >= this.parseDate(latest.date).getTime()) {
+        latest = valuation;
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * What one share of the grant is worth at a price: intrinsic value (price
+   * above strike, never negative) for ISO/NSO, the full price for everything else
+   */
+  static getValuePerShare(grant: Pick<DecryptedEquityData, 'type' | 'strikePrice'>, pricePerShare: number): number {
+    if (grant.type === 'ISO' || grant.type === 'NSO') {
+      return Math.max(0, pricePerShare - (grant.strikePrice ?? 0));
+    }
+    return pricePerShare;
+  }
+
+  /**
+   * Value of a grant as of a date, or null when its company has no valuation yet
+   */
+  static getGrantValue(
+    grant: DecryptedEquityData,
+    valuations: DecryptedValuationData[],
+    asOf: Date = new Date()
+  ): GrantValue | null {
+    const valuation = this.getValuationAsOf(valuations, grant.company, asOf);
+    if (!valuation) return null;
+
+    const valuePerShare = this.getValuePerShare(grant, valuation.pricePerShare);
+    const { vestedShares, unvestedShares } = VestingSchedule.getVestingProgress(grant, asOf);
+
+    return {
+      valuation,
+      valuePerShare,
+      vestedShares,
+      unvestedShares,
+      vestedValue: vestedShares * valuePerShare,
+      unvestedValue: unvestedShares * valuePerShare,
+      totalValue: (vestedShares + unvestedShares) * valuePerShare,
+    };
+  }
+
+  /**
+   * Combined value of several grants. Grants without a valuation are counted
+   * but contribute nothing.
+   */
+  static getPortfolioValue(
+    grants: DecryptedEquityData[],
+    valuations: DecryptedValuationData[],
+    asOf: Date = new Date()
+  ): PortfolioValue {
+    const currencies = new Set<string>();
+    const result = grants.reduce((acc, grant) => {
+      const value = this.getGrantValue(grant, valuations, asOf);
+      if (!value) {
+        acc.unpricedGrants += 1;
+        return acc;
+      }
+      currencies.add(value.valuation.currency);
+      acc.vestedValue += value.vestedValue;
+      acc.unvestedValue += value.unvestedValue;
+      acc.totalValue += value.totalValue;
+      acc.pricedGrants += 1;
+      return acc;
+    }, { vestedValue: 0, unvestedValue: 0, totalValue: 0, pricedGrants: 0, unpricedGrants: 0 });
+
+    return {
+      ...result,
+      currency: currencies.size === 1 ? Array.from(currencies)[0] : null,
+    };
+  }
+
+  /**
+   * Companies are typed by hand on both records, so match loosely
+   */
+  private static companyKey(company: string): string {
+    return company.trim().toLowerCase();
+  }
+
+  private static parseDate(value: string): Date {
+    return startOfDay(parseISO(value));
+  }
+}
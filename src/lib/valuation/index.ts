@@ -0,0 +1,2 @@
+export { EquityValuation } from './equityValuation';
+export type { GrantValue, PortfolioValue } from './equityValuation';
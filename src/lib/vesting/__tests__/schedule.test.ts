@@ -0,0 +1,407 @@
+/**
+ * Vesting schedule tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { format } from 'date-fns';
+import { VestingSchedule, type VestingTerms } from '../schedule';
+import { check, expectEqual } from '@/lib/testing';
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const standardGrant: VestingTerms = {
+  shares: 4800,
+  vestingStart: '2024-01-15',
+  vestingCliff: 12,
+  vestingPeriod: 48,
+  vestingFrequency: 'monthly',
+};
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const vestingTests = {
+  testFourYearMonthlyWithCliff() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents(standardGrant);
+
+    expectEqual(failures, 'event count', events.length, 37);
+    expectEqual(failures, 'cliff date', day(events[0].date), '2025-01-15');
+    expectEqual(failures, 'cliff shares', events[0].shares, 1200);
+    expectEqual(failures, 'cliff flag', events[0].isCliff, true);
+    expectEqual(failures, 'first monthly date', day(events[1].date), '2025-02-15');
+    expectEqual(failures, 'first monthly shares', events[1].shares, 100);
+    expectEqual(failures, 'final date', day(events[36].date), '2028-01-15');
+    expectEqual(failures, 'final flag', events[36].isFinal, true);
+    expectEqual(failures, 'cumulative total', events[36].cumulativeShares, 4800);
+
+    return check('4-year monthly schedule with 1-year cliff', failures);
+  },
+
+  testRemainderLandsOnFinalTranche() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({ ...standardGrant, shares: 1000 });
+
+    expectEqual(failures, 'cliff shares', events[0].shares, 250);
+    expectEqual(failures, 'monthly shares', events[1].shares, 20);
+    expectEqual(failures, 'final shares', events[events.length - 1].shares, 50);
+    expectEqual(failures, 'sum of shares', events.reduce((sum, e) => sum + e.shares, 0), 1000);
+
+    return check('Fractional shares round down and the remainder lands on the final tranche', failures);
+  },
+
+  testQuarterlyWithoutCliff() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      ...standardGrant,
+      vestingCliff: 0,
+      vestingFrequency: 'quarterly',
+    });
+
+    expectEqual(failures, 'event count', events.length, 16);
+    expectEqual(failures, 'first date', day(events[0].date), '2024-04-15');
+    expectEqual(failures, 'first is not a cliff', events[0].isCliff, false);
+    expectEqual(failures, 'every tranche', events.every(e => e.shares === 300), true);
+
+    return check('Quarterly schedule without a cliff', failures);
+  },
+
+  testAnnual() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({ ...standardGrant, vestingFrequency: 'annual' });
+
+    expectEqual(failures, 'dates', events.map(e => day(e.date)), [
+      '2025-01-15',
+      '2026-01-15',
+      '2027-01-15',
+      '2028-01-15',
+    ]);
+    expectEqual(failures, 'shares', events.map(e => e.shares), [1200, 1200, 1200, 1200]);
+
+    return check('Annual schedule', failures);
+  },
+
+  testCliffNotAlignedWithFrequency() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      shares: 1200,
+      vestingStart: '2024-01-01',
+      vestingCliff: 4,
+      vestingPeriod: 12,
+      vestingFrequency: 'quarterly',
+    });
+
+    expectEqual(failures, 'dates', events.map(e => day(e.date)), [
+      '2024-05-01',
+      '2024-07-01',
+      '2024-10-01',
+      '2025-01-01',
+    ]);
+    expectEqual(failures, 'shares', events.map(e => e.shares), [400, 200, 300, 300]);
+
+    return check('Cliff between tranches catches up pro rata', failures);
+  },
+
+  testPeriodNotDivisibleByFrequency() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      shares: 1000,
+      vestingStart: '2024-01-01',
+      vestingPeriod: 10,
+      vestingFrequency: 'quarterly',
+    });
+
+    expectEqual(failures, 'dates', events.map(e => day(e.date)), [
+      '2024-04-01',
+      '2024-07-01',
+      '2024-10-01',
+      '2024-11-01',
+    ]);
+    expectEqual(failures, 'shares', events.map(e => e.shares), [300, 300, 300, 100]);
+
+    return check('Short final tranche when the period is not a multiple of the frequency', failures);
+  },
+
+  testCliffCoversWholePeriod() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      shares: 500,
+      vestingStart: '2024-01-01',
+      vestingCliff: 24,
+      vestingPeriod: 12,
+      vestingFrequency: 'monthly',
+    });
+
+    expectEqual(failures, 'event count', events.length, 1);
+    expectEqual(failures, 'date', day(events[0].date), '2025-01-01');
+    expectEqual(failures, 'shares', events[0].shares, 500);
+    expectEqual(failures, 'flags', [events[0].isCliff, events[0].isFinal], [true, true]);
+
+    return check('Cliff at or beyond the vesting period vests everything at the end', failures);
+  },
+
+  testImmediateVesting() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      ...standardGrant,
+      vestingCliff: 0,
+      vestingPeriod: 0,
+    });
+
+    expectEqual(failures, 'event count', events.length, 1);
+    expectEqual(failures, 'date', day(events[0].date), '2024-01-15');
+    expectEqual(failures, 'shares', events[0].shares, 4800);
+
+    return check('Zero vesting period vests on the start date', failures);
+  },
+
+  testEndOfMonthStart() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      shares: 1200,
+      vestingStart: '2024-01-31',
+      vestingPeriod: 12,
+      vestingFrequency: 'monthly',
+    });
+
+    expectEqual(failures, 'february', day(events[0].date), '2024-02-29');
+    expectEqual(failures, 'march', day(events[1].date), '2024-03-31');
+    expectEqual(failures, 'april', day(events[2].date), '2024-04-30');
+
+    return check('Month-end start dates clamp to the last day of shorter months', failures);
+  },
+
+  testSmallGrantSkipsEmptyTranches() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      ...standardGrant,
+      shares: 10,
+      vestingCliff: 0,
+    });
+
+    expectEqual(failures, 'no empty events', events.every(e => e.shares > 0), true);
+    expectEqual(failures, 'sum of shares', events.reduce((sum, e) => sum + e.shares, 0), 10);
+    expectEqual(failures, 'final flag', events[events.length - 1].isFinal, true);
+    expectEqual(failures, 'final date', day(events[events.length - 1].date), '2028-01-15');
+
+    return check('Grants smaller than the tranche count skip empty tranches', failures);
+  },
+
+  testVestedAsOf() {
+    const failures: string[] = [];
+    const vestedOn = (date: string) => VestingSchedule.getVestedShares(standardGrant, new Date(`${date}T12:00:00`));
+
+    expectEqual(failures, 'before start', vestedOn('2023-12-31'), 0);
+    expectEqual(failures, 'day before cliff', vestedOn('2025-01-14'), 0);
+    expectEqual(failures, 'on cliff date', vestedOn('2025-01-15'), 1200);
+    expectEqual(failures, 'between tranches', vestedOn('2025-03-01'), 1300);
+    expectEqual(failures, 'fully vested', vestedOn('2030-01-01'), 4800);
+
+    return check('Vested shares as of a date', failures);
+  },
+
+  testNextVestDate() {
+    const failures: string[] = [];
+    const nextOn = (date: string) => {
+      const event = VestingSchedule.getNextVestEvent(standardGrant, new Date(`${date}T12:00:00`));
+      return event ? day(event.date) : null;
+    };
+
+    expectEqual(failures, 'before start', nextOn('2023-06-01'), '2025-01-15');
+    expectEqual(failures, 'on cliff date', nextOn('2025-01-15'), '2025-02-15');
+    expectEqual(failures, 'mid-schedule', nextOn('2026-06-20'), '2026-07-15');
+    expectEqual(failures, 'after final', nextOn('2028-01-15'), null);
+
+    return check('Next vest date', failures);
+  },
+
+  testVestingProgress() {
+    const failures: string[] = [];
+    const midway = VestingSchedule.getVestingProgress(standardGrant, new Date('2026-01-15T12:00:00'));
+    const done = VestingSchedule.getVestingProgress(standardGrant, new Date('2028-02-01T12:00:00'));
+
+    expectEqual(failures, 'midway vested', midway.vestedShares, 2400);
+    expectEqual(failures, 'midway unvested', midway.unvestedShares, 2400);
+    expectEqual(failures, 'midway percentage', midway.progressPercentage, 50);
+    expectEqual(failures, 'midway next', midway.nextVestingDate && day(midway.nextVestingDate), '2026-02-15');
+    expectEqual(failures, 'midway not done', midway.isFullyVested, false);
+    expectEqual(failures, 'done', [done.vestedShares, done.isFullyVested, done.nextVestingDate], [4800, true, null]);
+
+    return check('Vesting progress summary', failures);
+  },
+
+  testBackWeightedYearly() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      shares: 1000,
+      vestingStart: '2024-01-01',
+      vestingCliff: 12,
+      vestingPeriod: 48,
+      vestingFrequency: 'annual',
+      vestingScheduleType: 'yearly',
+      vestingYearlyPercentages: [5, 15, 40, 40],
+    });
+
+    expectEqual(failures, 'dates', events.map(e => day(e.date)), [
+      '2025-01-01',
+      '2026-01-01',
+      '2027-01-01',
+      '2028-01-01',
+    ]);
+    expectEqual(failures, 'shares', events.map(e => e.shares), [50, 150, 400, 400]);
+
+    return check('Back-weighted 5/15/40/40 schedule', failures);
+  },
+
+  testYearlyQuarterlyTranches() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      shares: 4000,
+      vestingStart: '2024-01-01',
+      vestingCliff: 12,
+      vestingPeriod: 48,
+      vestingFrequency: 'quarterly',
+      vestingScheduleType: 'yearly',
+      vestingYearlyPercentages: [10, 20, 30, 40],
+    });
+
+    expectEqual(failures, 'cliff shares', events[0].shares, 400);
+    expectEqual(failures, 'year two quarter', events[1].shares, 200);
+    expectEqual(failures, 'year three quarter', events[5].shares, 300);
+    expectEqual(failures, 'year four quarter', events[9].shares, 400);
+    expectEqual(failures, 'event count', events.length, 13);
+    expectEqual(failures, 'total', events[events.length - 1].cumulativeShares, 4000);
+
+    return check('Yearly percentages spread across quarterly tranches', failures);
+  },
+
+  testCustomTranches() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      shares: 1000,
+      vestingStart: '2024-01-01',
+      vestingPeriod: 0,
+      vestingFrequency: 'monthly',
+      vestingScheduleType: 'custom',
+      vestingTranches: [
+        { monthsFromStart: 24, percentage: 50 },
+        { monthsFromStart: 6, percentage: 20 },
+        { monthsFromStart: 12, percentage: 30 },
+      ],
+    });
+
+    expectEqual(failures, 'dates are sorted', events.map(e => day(e.date)), [
+      '2024-07-01',
+      '2025-01-01',
+      '2026-01-01',
+    ]);
+    expectEqual(failures, 'shares', events.map(e => e.shares), [200, 300, 500]);
+    expectEqual(failures, 'schedule length', VestingSchedule.getScheduleLength({
+      shares: 1000,
+      vestingStart: '2024-01-01',
+      vestingPeriod: 0,
+      vestingFrequency: 'monthly',
+      vestingScheduleType: 'custom',
+      vestingTranches: [{ monthsFromStart: 24, percentage: 100 }],
+    }), 24);
+
+    return check('Custom tranches vest on their own months', failures);
+  },
+
+  testCustomTranchesWithCliff() {
+    const failures: string[] = [];
+    const events = VestingSchedule.getVestEvents({
+      shares: 1000,
+      vestingStart: '2024-01-01',
+      vestingCliff: 12,
+      vestingPeriod: 0,
+      vestingFrequency: 'monthly',
+      vestingScheduleType: 'custom',
+      vestingTranches: [
+        { monthsFromStart: 3, percentage: 10 },
+        { monthsFromStart: 6, percentage: 10 },
+        { monthsFromStart: 12, percentage: 30 },
+        { monthsFromStart: 24, percentage: 50 },
+      ],
+    });
+
+    expectEqual(failures, 'months', events.map(e => day(e.date)), ['2025-01-01', '2026-01-01']);
+    expectEqual(failures, 'shares', events.map(e => e.shares), [500, 500]);
+    expectEqual(failures, 'cliff flag', events[0].isCliff, true);
+
+    return check('Custom tranches before the cliff fold into the cliff event', failures);
+  },
+
+  testLegacyGrantDefaultsToUniform() {
+    const failures: string[] = [];
+    const legacy = VestingSchedule.getVestEvents(standardGrant);
+    const explicit = VestingSchedule.getVestEvents({ ...standardGrant, vestingScheduleType: 'uniform' });
+
+    expectEqual(failures, 'same schedule', legacy.map(e => [day(e.date), e.shares]), explicit.map(e => [day(e.date), e.shares]));
+
+    return check('Grants without a schedule type vest uniformly', failures);
+  },
+
+  testDescribeSchedule() {
+    const failures: string[] = [];
+
+    expectEqual(failures, 'uniform', VestingSchedule.describeSchedule(standardGrant), 'Even');
+    expectEqual(failures, 'yearly', VestingSchedule.describeSchedule({
+      ...standardGrant,
+      vestingScheduleType: 'yearly',
+      vestingYearlyPercentages: [5, 15, 40, 40],
+    }), '5/15/40/40 by year');
+    expectEqual(failures, 'custom', VestingSchedule.describeSchedule({
+      ...standardGrant,
+      vestingScheduleType: 'custom',
+      vestingTranches: [
+        { monthsFromStart: 24, percentage: 60 },
+        { monthsFromStart: 12, percentage: 40 },
+      ],
+    }), '40% at 12mo, 60% at 24mo');
+
+    return check('Schedule summaries', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running vesting schedule tests...');
+
+    const results = [
+      this.testFourYearMonthlyWithCliff(),
+      this.testRemainderLandsOnFinalTranche(),
+      this.testQuarterlyWithoutCliff(),
+      this.testAnnual(),
+      this.testCliffNotAlignedWithFrequency(),
+      this.testPeriodNotDivisibleByFrequency(),
+      this.testCliffCoversWholePeriod(),
+      this.testImmediateVesting(),
+      this.testEndOfMonthStart(),
+      this.testSmallGrantSkipsEmptyTranches(),
+      this.testVestedAsOf(),
+      this.testNextVestDate(),
+      this.testVestingProgress(),
+      this.testBackWeightedYearly(),
+      this.testYearlyQuarterlyTranches(),
+      this.testCustomTranches(),
+      this.testCustomTranchesWithCliff(),
+      this.testLegacyGrantDefaultsToUniform(),
+      this.testDescribeSchedule(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All vesting schedule tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).vestingTests = vestingTests;
+}
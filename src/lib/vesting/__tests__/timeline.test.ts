@@ -0,0 +1,120 @@
+/**
+ * Vesting timeline tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { VestingTimeline, type TimelineGrant } from '../timeline';
+import { check, expectEqual } from '@/lib/testing';
+
+const grants: TimelineGrant[] = [
+  {
+    id: 'acme-rsu',
+    data: {
+      company: 'Acme',
+      type: 'RSU',
+      shares: 1200,
+      grantDate: '2024-01-01',
+      vestingStart: '2024-01-01',
+      vestingPeriod: 12,
+      vestingFrequency: 'monthly',
+    },
+  },
+  {
+    id: 'globex-iso',
+    data: {
+      company: 'Globex',
+      type: 'ISO',
+      shares: 400,
+      grantDate: '2024-02-15',
+      vestingStart: '2024-02-15',
+      vestingPeriod: 12,
+      vestingFrequency: 'quarterly',
+    },
+  },
+];
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const timelineTests = {
+  testGroupsByMonth() {
+    const failures: string[] = [];
+    const periods = VestingTimeline.build(grants, { groupBy: 'month', asOf: new Date('2024-05-20T12:00:00') });
+
+    expectEqual(failures, 'period count', periods.length, 13);
+    expectEqual(failures, 'first label', periods[0].label, 'Feb 2024');
+    expectEqual(failures, 'may shares', periods[3].shares, 200);
+    expectEqual(failures, 'may events', periods[3].events.map(e => e.grantId), ['acme-rsu', 'globex-iso']);
+    expectEqual(failures, 'final cumulative', periods[periods.length - 1].cumulativeShares, 1600);
+    expectEqual(failures, 'past flags', periods.slice(0, 5).map(p => [p.isPast, p.isCurrent]), [
+      [true, false],
+      [true, false],
+      [true, false],
+      [false, true],
+      [false, false],
+    ]);
+
+    return check('Events from several grants group into months with running totals', failures);
+  },
+
+  testGroupsByQuarter() {
+    const failures: string[] = [];
+    const periods = VestingTimeline.build(grants, { groupBy: 'quarter' });
+
+    expectEqual(failures, 'labels', periods.map(p => p.label), ['Q1 2024', 'Q2 2024', 'Q3 2024', 'Q4 2024', 'Q1 2025']);
+    expectEqual(failures, 'shares', periods.map(p => p.shares), [200, 400, 400, 400, 200]);
+
+    return check('Events group into calendar quarters', failures);
+  },
+
+  testValuesUsePricedCompaniesOnly() {
+    const failures: string[] = [];
+    const periods = VestingTimeline.build(grants, {
+      groupBy: 'quarter',
+      getValuePerShare: grant => (grant.company === 'Acme' ? 10 : undefined),
+    });
+
+    expectEqual(failures, 'first value', periods[0].value, 2000);
+    expectEqual(failures, 'unpriced event', periods[1].events.find(e => e.company === 'Globex')?.value, null);
+    expectEqual(failures, 'cumulative value', periods[periods.length - 1].cumulativeValue, 12000);
+
+    return check('Estimated value only counts companies with a share price', failures);
+  },
+
+  testNoPricesMeansNoValue() {
+    const failures: string[] = [];
+    const periods = VestingTimeline.build(grants, { groupBy: 'month' });
+
+    expectEqual(failures, 'values', periods.every(p => p.value === null && p.cumulativeValue === null), true);
+    expectEqual(failures, 'empty input', VestingTimeline.build([], { groupBy: 'month' }), []);
+
+    return check('Timelines without prices leave values empty', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running vesting timeline tests...');
+
+    const results = [
+      this.testGroupsByMonth(),
+      this.testGroupsByQuarter(),
+      this.testValuesUsePricedCompaniesOnly(),
+      this.testNoPricesMeansNoValue(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All vesting timeline tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).timelineTests = timelineTests;
+}
@@ -0,0 +1,4 @@
+export { VestingSchedule } from './schedule';
+export type { VestingTerms, VestEvent, VestingProgress } from './schedule';
+export { VestingTimeline } from './timeline';
+export type { TimelineGrouping, TimelineGrant, TimelineEvent, TimelinePeriod, TimelineOptions } from './timeline';
@@ -0,0 +1,261 @@
+import { addMonths, isAfter, parseISO, startOfDay } from 'date-fns';
+import type { DecryptedEquityData } from '@/lib/db/types';
+
+export type VestingTerms = Pick<
+  DecryptedEquityData,
+  | 'shares'
+  | 'vestingStart'
+  | 'vestingCliff'
+  | 'vestingPeriod'
+  | 'vestingFrequency'
+  | 'vestingScheduleType'
+  | 'vestingYearlyPercentages'
+  | 'vestingTranches'
+>;
+
+export interface VestEvent {
+  date: Date;
+  shares: number;
+  cumulativeShares: number; // Shares vested once this event has landed
+  isCliff: boolean; // Catch-up for every tranche that fell inside the cliff
+  isFinal: boolean; // Last tranche, which also absorbs any rounding remainder
+}
+
+export interface VestingProgress {
+  vestedShares: number;
+  unvestedShares: number;
+  progressPercentage: number;
+  nextVestEvent: VestEvent | null;
+  nextVestingDate: Date | null;
+  isFullyVested: boolean;
+}
+
+interface Tranche {
+  month: number;
+  fraction: number; // Share of the grant, 0-1
+  isCliff: boolean;
+}
+
+const FREQUENCY_MONTHS: Record<VestingTerms['vestingFrequency'], number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+};
+
+export class VestingSchedule {
+  /**
+   * Builds the dated list of vest events for a grant. Uniform and yearly
+   * schedules land every vestingFrequency months from vestingStart; custom
+   * schedules land on their own tranche months. Anything before the cliff
+   * vests in one catch-up event on the cliff date. Each tranche gets whole
+   * shares (rounded down) and the final tranche picks up the remainder.
+   */
+  static getVestEvents(terms: VestingTerms): VestEvent[] {
+    const start = this.parseDate(terms.vestingStart);
+    const totalShares = Math.max(0, Math.floor(terms.shares));
+    const tranches = this.getTranches(terms);
+
+    const events: VestEvent[] = [];
+    let cumulativeShares = 0;
+
+    tranches.forEach((tranche, index) => {
+      const isFinal = index === tranches.length - 1;
+      // Epsilon guards against float error such as 0.29 * 100 = 28.999...
+      const shares = isFinal
+        ? totalShares - cumulativeShares
+        : Math.floor(totalShares * tranche.fraction + 1e-9);
+
+      if (shares <= 0) return;
+
+      cumulativeShares += shares;
+      events.push({
+        date: addMonths(start, tranche.month),
+        shares,
+        cumulativeShares,
+        isCliff: tranche.isCliff,
+        isFinal,
+      });
+    });
+
+    // The final tranche may have rounded to zero shares; flag whatever landed last
+    if (events.length > 0) {
+      events[events.length - 1].isFinal = true;
+    }
+
+    return events;
+  }
+
+  /**
+   * Total vesting length in months implied by the schedule
+   */
+  static getScheduleLength(terms: VestingTerms): number {
+    switch (terms.vestingScheduleType) {
+      case 'yearly':
+        return (terms.vestingYearlyPercentages?.length ?? 0) * 12;
+      case 'custom':
+        return Math.max(0, ...(terms.vestingTranches ?? []).map(tranche => tranche.monthsFromStart));
+      default:
+        return Math.max(0, Math.round(terms.vestingPeriod));
+    }
+  }
+
+  /**
+   * Short human-readable summary of how the grant vests, e.g. "5/15/40/40 by year"
+   */
+  static describeSchedule(terms: VestingTerms): string {
+    switch (terms.vestingScheduleType) {
+      case 'yearly':
+        return `${(terms.vestingYearlyPercentages ?? []).join('/')} by year`;
+      case 'custom':
+        return [...(terms.vestingTranches ?? [])]
+          .sort((a, b) => a.monthsFromStart - b.monthsFromStart)
+          .map(tranche => `${tranche.percentage}% at ${tranche.monthsFromStart}mo`)
+          .join(', ');
+      default:
+        return 'Even';
+    }
+  }
+
+  /**
+   * Months (from vestingStart) on which shares land and the fraction of the
+   * grant each one carries, with the cliff already applied
+   */
+  private static getTranches(terms: VestingTerms): Tranche[] {
+    const cliff = Math.max(0, Math.round(terms.vestingCliff || 0));
+
+    if (terms.vestingScheduleType === 'custom') {
+      return this.applyCliff(
+        (terms.vestingTranches ?? [])
+          .filter(tranche => tranche.percentage > 0)
+          .map(tranche => ({
+            month: Math.max(0, Math.round(tranche.monthsFromStart)),
+            fraction: tranche.percentage / 100,
+            isCliff: false,
+          }))
+          .sort((a, b) => a.month - b.month),
+        cliff
+      );
+    }
+
+    const period = this.getScheduleLength(terms);
+    const accrued = terms.vestingScheduleType === 'yearly'
+      ? this.yearlyAccrual(terms.vestingYearlyPercentages ?? [])
+      : (month: number) => month / period;
+
+    // No vesting period means the whole grant is vested at the start date
+    if (period === 0) {
+      return [{ month: 0, fraction: 1, isCliff: false }];
+    }
+
+    const step = FREQUENCY_MONTHS[terms.vestingFrequency] ?? 1;
+    const cappedCliff = Math.min(cliff, period);
+
+    // Accrual is continuous, so a cliff between tranches vests what accrued up to it
+    const months: number[] = [];
+    if (cappedCliff > 0) {
+      months.push(cappedCliff);
+    }
+    for (let month = step; month < period; month += step) {
+      if (month > cappedCliff) {
+        months.push(month);
+      }
+    }
+    if (months[months.length - 1] !== period) {
+      months.push(period);
+    }
+
+    let previousMonth = 0;
+    return months.map(month => {
+      const fraction = accrued(month) - accrued(previousMonth);
+      previousMonth = month;
+      return { month, fraction, isCliff: cappedCliff > 0 && month === cappedCliff };
+    });
+  }
+
+  /**
+   * Fold discrete tranches that land before the cliff into one event on the cliff
+   */
+  private static applyCliff(tranches: Tranche[], cliff: number): Tranche[] {
+    if (cliff <= 0 || tranches.length === 0 || tranches[0].month >= cliff) {
+      return tranches;
+    }
+
+    const beforeCliff = tranches.filter(tranche => tranche.month < cliff);
+    const afterCliff = tranches.filter(tranche => tranche.month >= cliff);
+    const catchUp = beforeCliff.reduce((sum, tranche) => sum + tranche.fraction, 0);
+
+    // A tranche already on the cliff date absorbs the catch-up
+    if (afterCliff[0]?.month === cliff) {
+      return [
+        { ...afterCliff[0], fraction: afterCliff[0].fraction + catchUp, isCliff: true },
+        ...afterCliff.slice(1),
+      ];
+    }
+    return [{ month: cliff, fraction: catchUp, isCliff: true }, ...afterCliff];
+  }
+
+  /**
+   * Cumulative fraction vested after a number of months when each year vests
+   * its own percentage, spread evenly across that year
+   */
+  private static yearlyAccrual(percentages: number[]): (month: number) => number {
+    return (month: number) => {
+      const fullYears = Math.floor(month / 12);
+      const completed = percentages.slice(0, fullYears).reduce((sum, pct) => sum + pct, 0);
+      const partial = ((percentages[fullYears] ?? 0) * (month % 12)) / 12;
+      return (completed + partial) / 100;
+    };
+  }
+
+  /**
+   * Number of shares vested on or before the given date
+   */
+  static getVestedShares(terms: VestingTerms, asOf: Date = new Date()): number {
+    const lastVested = this.getVestEvents(terms)
+      .filter(event => !isAfter(event.date, asOf))
+      .pop();
+    return lastVested?.cumulativeShares ?? 0;
+  }
+
+  /**
+   * The first vest event strictly after the given date, or null once fully vested
+   */
+  static getNextVestEvent(terms: VestingTerms, asOf: Date = new Date()): VestEvent | null {
+    return this.getVestEvents(terms).find(event => isAfter(event.date, asOf)) ?? null;
+  }
+
+  /**
+   * Vested/unvested split and the next vest date as of the given date
+   */
+  static getVestingProgress(terms: VestingTerms, asOf: Date = new Date()): VestingProgress {
+    const events = this.getVestEvents(terms);
+    const totalShares = events.length > 0 ? events[events.length - 1].cumulativeShares : 0;
+
+    let vestedShares = 0;
+    let nextVestEvent: VestEvent | null = null;
+    for (const event of events) {
+      if (isAfter(event.date, asOf)) {
+        nextVestEvent = event;
+        break;
+      }
+      vestedShares = event.cumulativeShares;
+    }
+
+    return {
+      vestedShares,
+      unvestedShares: totalShares - vestedShares,
+      progressPercentage: totalShares > 0 ? Math.floor((vestedShares / totalShares) * 100) : 0,
+      nextVestEvent,
+      nextVestingDate: nextVestEvent?.date ?? null,
+      isFullyVested: totalShares > 0 && vestedShares === totalShares,
+    };
+  }
+
+  /**
+   * Parse a stored ISO date as a local calendar date (a bare "YYYY-MM-DD"
+   * would otherwise be read as UTC midnight and can shift a day)
+   */
+  private static parseDate(value: string): Date {
+    return startOfDay(parseISO(value));
+  }
+}
@@ -0,0 +1,108 @@
+import { endOfMonth, endOfQuarter, format, isAfter, isBefore, startOfMonth, startOfQuarter } from 'date-fns';
+import type { DecryptedEquityData } from '@/lib/db/types';
+import { VestingSchedule, type VestEvent } from './schedule';
+
+export type TimelineGrouping = 'month' | 'quarter';
+
+export interface TimelineGrant {
+  id: string;
+  data: DecryptedEquityData;
+}
+
+export interface TimelineEvent extends VestEvent {
+  grantId: string;
+  company: string;
+  equityType: DecryptedEquityData['type'];
+  value: number | null; // shares x value per share on the vest date, null when unpriced
+}
+
+export interface TimelinePeriod {
+  key: string;
+  label: string;
+  start: Date;
+  end: Date;
+  events: TimelineEvent[];
+  shares: number;
+  cumulativeShares: number; // Vested across all grants once this period has ended
+  value: number | null;
+  cumulativeValue: number | null;
+  isPast: boolean;
+  isCurrent: boolean;
+}
+
+export interface TimelineOptions {
+  groupBy: TimelineGrouping;
+  asOf?: Date;
+  getValuePerShare?: (grant: DecryptedEquityData, date: Date) => number | undefined;
+}
+
+export class VestingTimeline {
+  /**
+   * Merges the vest events of several grants into month or quarter buckets,
+   * in date order, with running totals. Periods without events are skipped.
+   * Values only count events that have a value per share.
+   */
+  static build(grants: TimelineGrant[], options: TimelineOptions): TimelinePeriod[] {
+    const asOf = options.asOf ?? new Date();
+    const events = grants
+      .flatMap(grant => this.getEvents(grant, options.getValuePerShare))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    const periods = new Map<string, TimelinePeriod>();
+    for (const event of events) {
+      const start = options.groupBy === 'quarter' ? startOfQuarter(event.date) : startOfMonth(event.date);
+      const key = format(start, options.groupBy === 'quarter' ? "yyyy-'Q'Q" : 'yyyy-MM');
+
+      let period = periods.get(key);
+      if (!period) {
+        const end = options.groupBy === 'quarter' ? endOfQuarter(start) : endOfMonth(start);
+        period = {
+          key,
+          label: format(start, options.groupBy === 'quarter' ? 'QQQ yyyy' : 'MMM yyyy'),
+          start,
+          end,
+          events: [],
+          shares: 0,
+          cumulativeShares: 0,
+          value: null,
+          cumulativeValue: null,
+          isPast: isBefore(end, asOf),
+          isCurrent: !isAfter(start, asOf) && !isBefore(end, asOf),
+        };
+        periods.set(key, period);
+      }
+
+      period.events.push(event);
+      period.shares += event.shares;
+      if (event.value !== null) {
+        period.value = (period.value ?? 0) + event.value;
+      }
+    }
+
+    let cumulativeShares = 0;
+    let cumulativeValue: number | null = null;
+    return Array.from(periods.values()).map(period => {
+      cumulativeShares += period.shares;
+      if (period.value !== null) {
+        cumulativeValue = (cumulativeValue ?? 0) + period.value;
+      }
+      return { ...period, cumulativeShares, cumulativeValue };
+    });
+  }
+
+  private static getEvents(
+    grant: TimelineGrant,
+    getValuePerShare?: TimelineOptions['getValuePerShare']
+  ): TimelineEvent[] {
+    return VestingSchedule.getVestEvents(grant.data).map(event => {
+      const valuePerShare = getValuePerShare?.(grant.data, event.date);
+      return {
+        ...event,
+        grantId: grant.id,
+        company: grant.data.company,
+        equityType: grant.data.type,
+        value: valuePerShare !== undefined ? event.shares * valuePerShare : null,
+      };
+    });
+  }
+}
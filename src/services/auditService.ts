@@ -0,0 +1,105 @@
+import { getDb } from '@/lib/db/database';
+import { EncryptionService } from './encryptionService';
+import type {
+  AuditEvent,
+  AuditEventType,
+  CompensationType,
+  DatabaseChangeEvent,
+  DecryptedAuditEventData,
+} from '@/lib/db/types';
+
+interface BufferedEvent {
+  userId: string;
+  timestamp: number;
+  data: DecryptedAuditEventData;
+}
+
+export class AuditService {
+  private static userId: string | null = null;
+  private static dataKey: CryptoKey | null = null;
+  // Events that happened while the vault was locked, written on the next unlock
+  private static buffered: BufferedEvent[] = [];
+
+  /**
+   * Hand over the unlocked data key so events can be encrypted as they happen
+   */
+  static async attach(userId: string, dataKey: CryptoKey): Promise<void> {
+    this.userId = userId;
+    this.dataKey = dataKey;
+
+    const waiting = this.buffered.filter(event => event.userId === userId);
+    this.buffered = [];
+    for (const event of waiting) {
+      await this.write(event, dataKey);
+    }
+  }
+
+  /**
+   * Forget the data key when the vault locks or the user changes
+   */
+  static detach(): void {
+    this.userId = null;
+    this.dataKey = null;
+  }
+
+  /**
+   * Record a change to a local record
+   */
+  static async logChange(
+    event: DatabaseChangeEvent,
+    options: { type?: AuditEventType; recordType?: CompensationType; details?: string } = {}
+  ): Promise<void> {
+    await this.queue({
+      userId: event.userId,
+      timestamp: event.timestamp,
+      data: {
+        type: options.type ?? event.operation,
+        table: event.table,
+        recordId: event.recordId,
+        recordType: options.recordType,
+        details: options.details,
+      },
+    });
+  }
+
+  /**
+   * Record an account-level action such as an unlock or an export
+   */
+  static async log(userId: string, type: AuditEventType, details?: string): Promise<void> {
+    await this.queue({ userId, timestamp: Date.now(), data: { type, details } });
+  }
+
+  /**
+   * Get a user's audit events, newest first
+   */
+  static async getEvents(userId: string): Promise<AuditEvent[]> {
+    const db = getDb();
+    const events = await db.auditEvents.where('userId').equals(userId).toArray();
+    return events.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private static async queue(event: BufferedEvent): Promise<void> {
+    if (this.dataKey && this.userId === event.userId) {
+      await this.write(event, this.dataKey);
+    } else {
+      this.buffered.push(event);
+    }
+  }
+
+  // Auditing must never get in the way of the action being audited
+  private static async write(event: BufferedEvent, dataKey: CryptoKey): Promise<void> {
+    try {
+      const encryptedData = await EncryptionService.encryptWithDataKey(JSON.stringify(event.data), dataKey);
+      const db = getDb();
+      await db.auditEvents.add({
+        userId: event.userId,
+        eventUid: crypto.randomUUID(),
+        timestamp: event.timestamp,
+        encryptedData,
+        syncStatus: 'pending',
+      });
+    } catch (error) {
+      console.error('Failed to write audit event:', error);
+    }
+  }
+}
@@ -5,6 +5,9 @@ import {
   EncryptionOptions,
   DecryptionResult,
   EncryptionError,
+  KdfVersion,
+  KDF_VERSION,
+  CURRENT_KDF_VERSION,
 } from '@/lib/crypto/types';
 
 export class EncryptionService {
@@ -38,6 +41,7 @@ export class EncryptionService {
         password,
         salt,
         ...options?.keyDerivationParams,
+        kdfVersion: CURRENT_KDF_VERSION,
       });
 
       // Encrypt the data
@@ -50,6 +54,7 @@ export class EncryptionService {
         salt: CryptoUtils.uint8ArrayToBase64(salt),
         algorithm: 'AES-GCM',
         keyDerivation: 'Argon2id',
+        kdfVersion: CURRENT_KDF_VERSION,
       };
     } catch (error) {
       if (error instanceof EncryptionError) {
@@ -107,6 +112,7 @@ export class EncryptionService {
         password,
         salt,
         ...options?.keyDerivationParams,
+        kdfVersion: encryptedData.kdfVersion ?? KDF_VERSION.PBKDF2_SHA256,
       });
 
       // Decrypt the data
@@ -129,6 +135,134 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Encrypts data with an already-derived key (e.g. the unlocked session key).
+   * The salt and KDF the key was derived with are recorded so the envelope stays portable.
+   */
+  static async encryptWithKey(
+    data: string,
+    key: CryptoKey,
+    salt: string,
+    kdfVersion: KdfVersion = CURRENT_KDF_VERSION
+  ): Promise<EncryptedData> {
+    try {
+      if (!data) {
+        throw new EncryptionError('Data cannot be empty', 'INVALID_INPUT');
+      }
+
+      const { encryptedData, iv } = await CryptoUtils.encrypt(data, key);
+
+      return {
+        encryptedData: CryptoUtils.arrayBufferToBase64(encryptedData),
+        iv: CryptoUtils.uint8ArrayToBase64(iv),
+        salt,
+        algorithm: 'AES-GCM',
+        keyDerivation: 'Argon2id',
+        kdfVersion,
+      };
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        throw error;
+      }
+      throw new EncryptionError(
+        `Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'ENCRYPTION_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Decrypts data with an already-derived key, skipping key derivation
+   */
+  static async decryptWithKey(
+    encryptedData: EncryptedData,
+    key: CryptoKey
+  ): Promise<DecryptionResult> {
+    try {
+      if (!encryptedData || encryptedData.algorithm !== 'AES-GCM') {
+        return {
+          data: '',
+          success: false,
+          error: 'Unsupported encryption algorithm',
+        };
+      }
+
+      const dataBuffer = CryptoUtils.base64ToArrayBuffer(encryptedData.encryptedData);
+      const iv = CryptoUtils.base64ToUint8Array(encryptedData.iv);
+      const decryptedData = await CryptoUtils.decrypt(dataBuffer, key, iv);
+
+      return {
+        data: decryptedData,
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof EncryptionError
+        ? error.message
+        : 'Decryption failed - invalid key or corrupted data';
+
+      return {
+        data: '',
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Encrypts data with the user's unwrapped data key. No KDF is involved, so
+   * the envelope carries no salt.
+   */
+  static async encryptWithDataKey(data: string, dataKey: CryptoKey): Promise<EncryptedData> {
+    const { encryptedData, iv, salt, algorithm } = await this.encryptWithKey(data, dataKey, '');
+    return {
+      encryptedData,
+      iv,
+      salt,
+      algorithm,
+      keyDerivation: 'DataKey',
+    };
+  }
+
+  /**
+   * Wraps raw data key material with a password-derived key
+   */
+  static async wrapDataKey(
+    rawDataKey: Uint8Array,
+    wrappingKey: CryptoKey,
+    salt: string,
+    kdfVersion: KdfVersion = CURRENT_KDF_VERSION
+  ): Promise<EncryptedData> {
+    return this.encryptWithKey(
+      CryptoUtils.uint8ArrayToBase64(rawDataKey),
+      wrappingKey,
+      salt,
+      kdfVersion
+    );
+  }
+
+  /**
+   * Unwraps raw data key material. Fails when the wrapping key is wrong.
+   */
+  static async unwrapDataKey(
+    wrappedKey: EncryptedData,
+    wrappingKey: CryptoKey
+  ): Promise<Uint8Array> {
+    const result = await this.decryptWithKey(wrappedKey, wrappingKey);
+    if (!result.success) {
+      throw new EncryptionError('Failed to unwrap data key', 'KEY_UNWRAP_FAILED');
+    }
+    return CryptoUtils.base64ToUint8Array(result.data);
+  }
+
+  /**
+   * Imports raw data key material as a non-extractable session key
+   */
+  static async importDataKey(rawDataKey: Uint8Array): Promise<CryptoKey> {
+    const keyBuffer = new ArrayBuffer(rawDataKey.byteLength);
+    new Uint8Array(keyBuffer).set(rawDataKey);
+    return CryptoUtils.importKey(keyBuffer);
+  }
+
   /**
    * Changes the password for encrypted data by decrypting with old password
    * and re-encrypting with new password
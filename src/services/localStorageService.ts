@@ -1,10 +1,19 @@
 import { getDb } from '@/lib/db/database';
 import type {
   CompensationRecord,
+  ConflictResolution,
   PendingSyncItem,
   CompensationType,
   SyncOperation,
+  PriceHistoryRecord,
+  FxRateRecord,
+  UserPreferences,
+  RecordRevision,
+  AuditEventType,
 } from '@/lib/db/types';
+import type { EncryptedData } from '@/lib/crypto/types';
+import type { PreferenceSettings } from '@/lib/preferences';
+import { AuditService } from './auditService';
 
 export class LocalStorageError extends Error {
   constructor(message: string, public readonly code: string) {
@@ -24,7 +33,8 @@ export class LocalStorageService {
       
       // Add to sync queue if not already synced
       if (record.syncStatus === 'pending') {
-        await this.addToSyncQueue('create', 'compensationRecords', id);
+        await this.addToSyncQueue('create', 'compensationRecords', id, record.userId);
+        await this.audit(record, id, 'create');
       }
       
       return id;
@@ -36,6 +46,43 @@ export class LocalStorageService {
     }
   }
 
+  /**
+   * Add many compensation records in one transaction, so an import either
+   * lands completely or not at all. Records must already be encrypted.
+   */
+  static async importCompensationRecords(records: Omit<CompensationRecord, 'id'>[]): Promise<number[]> {
+    if (records.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = getDb();
+      const ids = await db.transaction('rw', db.compensationRecords, db.pendingSync, async () => {
+        const added: number[] = [];
+        for (const record of records) {
+          const id = await db.compensationRecords.add(record as CompensationRecord);
+          await this.addToSyncQueue('create', 'compensationRecords', id, record.userId);
+          added.push(id);
+        }
+        return added;
+      });
+
+      // Auditing encrypts with WebCrypto, which cannot run inside a Dexie transaction
+      await AuditService.log(
+        records[0].userId,
+        'create',
+        `Imported ${records.length} ${records[0].type} record${records.length > 1 ? 's' : ''} from CSV`
+      );
+
+      return ids;
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to import compensation records: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'IMPORT_FAILED'
+      );
+    }
+  }
+
   /**
    * Get compensation records by user and type
    */
@@ -45,7 +92,11 @@ export class LocalStorageService {
   ): Promise<CompensationRecord[]> {
     try {
       const db = getDb();
-      let query = db.compensationRecords.where('userId').equals(userId);
+      // Records in the trash are only listed by getDeletedCompensationRecords
+      let query = db.compensationRecords
+        .where('userId')
+        .equals(userId)
+        .and(record => !record.deletedAt);
       
       if (type) {
         query = query.and(record => record.type === type);
@@ -69,6 +120,16 @@ export class LocalStorageService {
   ): Promise<void> {
     try {
       const db = getDb();
+      const existing = await db.compensationRecords.get(id);
+      if (!existing) {
+        throw new Error('Record not found');
+      }
+
+      // Keep the payload being replaced so the edit can be reviewed or reverted
+      if (updates.encryptedData) {
+        await this.addRevision(existing);
+      }
+
       await db.compensationRecords.update(id, {
         ...updates,
         updatedAt: Date.now(),
@@ -77,7 +138,8 @@ export class LocalStorageService {
       });
       
       // Add to sync queue
-      await this.addToSyncQueue('update', 'compensationRecords', id);
+      await this.addToSyncQueue('update', 'compensationRecords', id, existing.userId);
+      await this.audit(existing, id, 'update');
     } catch (error) {
       throw new LocalStorageError(
         `Failed to update compensation record: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -87,15 +149,78 @@ export class LocalStorageService {
   }
 
   /**
-   * Delete a compensation record
+   * Store the same payload under a new key. Unlike an edit this keeps no
+   * revision of the old ciphertext and adds nothing to the audit log.
+   */
+  static async reencryptCompensationRecord(id: number, encryptedData: EncryptedData): Promise<void> {
+    try {
+      const db = getDb();
+      const existing = await db.compensationRecords.get(id);
+      if (!existing) {
+        throw new Error('Record not found');
+      }
+
+      await db.compensationRecords.update(id, {
+        encryptedData,
+        version: existing.version + 1,
+        syncStatus: 'pending',
+      });
+
+      await this.addToSyncQueue('update', 'compensationRecords', id, existing.userId);
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to re-encrypt compensation record: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'UPDATE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Flag a pre-vault record that could not be decrypted so it is not retried
+   * on every unlock. Local bookkeeping only: the record is not synced again.
+   */
+  static async markLegacyRecordUnreadable(id: number): Promise<void> {
+    try {
+      const db = getDb();
+      const existing = await db.compensationRecords.get(id);
+      if (!existing) {
+        throw new Error('Record not found');
+      }
+
+      // The current version and status stop the updating hook treating this as an edit
+      await db.compensationRecords.update(id, {
+        legacyUnreadableAt: Date.now(),
+        version: existing.version,
+        syncStatus: existing.syncStatus,
+      });
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to flag compensation record: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'UPDATE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Move a compensation record to the trash. The tombstone syncs like any other
+   * edit, so other devices hide the record too.
    */
   static async deleteCompensationRecord(id: number): Promise<void> {
     try {
       const db = getDb();
-      await db.compensationRecords.delete(id);
-      
-      // Add to sync queue
-      await this.addToSyncQueue('delete', 'compensationRecords', id);
+      const existing = await db.compensationRecords.get(id);
+      if (!existing) {
+        throw new Error('Record not found');
+      }
+
+      await db.compensationRecords.update(id, {
+        deletedAt: Date.now(),
+        version: existing.version + 1,
+        syncStatus: 'pending',
+      });
+
+      await this.addToSyncQueue('update', 'compensationRecords', id, existing.userId);
+      await this.audit(existing, id, 'update', 'delete');
     } catch (error) {
       throw new LocalStorageError(
         `Failed to delete compensation record: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -104,6 +229,256 @@ export class LocalStorageService {
     }
   }
 
+  /**
+   * Take a compensation record back out of the trash
+   */
+  static async restoreCompensationRecord(id: number): Promise<void> {
+    try {
+      const db = getDb();
+      const existing = await db.compensationRecords.get(id);
+      if (!existing || !existing.deletedAt) {
+        throw new Error('Record is not in the trash');
+      }
+
+      await db.compensationRecords.update(id, {
+        deletedAt: undefined,
+        version: existing.version + 1,
+        syncStatus: 'pending',
+      });
+
+      await this.addToSyncQueue('update', 'compensationRecords', id, existing.userId);
+      await this.audit(existing, id, 'update', 'restore');
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to restore compensation record: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'RESTORE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Get the records in the trash, most recently deleted first
+   */
+  static async getDeletedCompensationRecords(userId: string): Promise<CompensationRecord[]> {
+    try {
+      const db = getDb();
+      const records = await db.compensationRecords
+        .where('userId')
+        .equals(userId)
+        .and(record => !!record.deletedAt)
+        .toArray();
+      return records.sort((a, b) => b.deletedAt! - a.deletedAt!);
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to get deleted records: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'READ_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Permanently delete a compensation record, here and on the server
+   */
+  static async purgeCompensationRecord(id: number): Promise<void> {
+    try {
+      const db = getDb();
+      const existing = await db.compensationRecords.get(id);
+      if (!existing) {
+        throw new Error('Record not found');
+      }
+
+      await db.compensationRecords.delete(id);
+      await db.recordRevisions.where('recordId').equals(id).delete();
+      
+      // Add to sync queue - keep the Convex id since the local record is gone
+      await this.addToSyncQueue('delete', 'compensationRecords', id, existing.userId, {
+        convexId: existing.convexId,
+      });
+      await this.audit(existing, id, 'delete', 'purge');
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to purge compensation record: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'PURGE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Purge records that have been in the trash longer than the retention.
+   * Returns how many were purged; a retention of 0 keeps them all.
+   */
+  static async purgeExpiredTrash(userId: string, retentionDays: number): Promise<number> {
+    if (retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const expired = (await this.getDeletedCompensationRecords(userId))
+      .filter(record => record.deletedAt! < cutoff);
+
+    for (const record of expired) {
+      await this.purgeCompensationRecord(record.id!);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Get records whose last sync hit a version conflict
+   */
+  static async getConflictedRecords(userId: string): Promise<CompensationRecord[]> {
+    try {
+      const db = getDb();
+      return await db.compensationRecords
+        .where('userId')
+        .equals(userId)
+        .and(record => record.syncStatus === 'conflict')
+        .toArray();
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to get conflicted records: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'READ_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Resolve a version conflict. Keeping the server copy just adopts it; keeping
+   * the local copy or a merge is resubmitted against the server's version.
+   */
+  static async resolveConflict(
+    id: number,
+    resolution: ConflictResolution
+  ): Promise<void> {
+    try {
+      const db = getDb();
+      const record = await db.compensationRecords.get(id);
+      if (!record || !record.conflictData) {
+        throw new Error('Record has no conflict to resolve');
+      }
+
+      const remote = record.conflictData;
+
+      // The local edit is replaced either way; keep it in the history
+      if (resolution.strategy !== 'keep-mine') {
+        await this.addRevision(record);
+      }
+
+      if (resolution.strategy === 'keep-theirs') {
+        await db.compensationRecords.update(id, {
+          encryptedData: remote.encryptedData,
+          currency: remote.currency,
+          version: remote.version,
+          remoteVersion: remote.version,
+          deletedAt: remote.deletedAt,
+          syncStatus: 'synced',
+          lastSyncAt: Date.now(),
+          conflictData: undefined,
+        });
+        await this.audit(record, id, 'update', 'update', 'Resolved a sync conflict with the server copy');
+        return;
+      }
+
+      await db.compensationRecords.update(id, {
+        ...(resolution.strategy === 'merge' && {
+          encryptedData: resolution.encryptedData,
+          currency: resolution.currency,
+        }),
+        version: Math.max(record.version, remote.version) + 1,
+        remoteVersion: remote.version,
+        syncStatus: 'pending',
+        conflictData: undefined,
+      });
+
+      await this.addToSyncQueue('update', 'compensationRecords', id, record.userId);
+      await this.audit(
+        record,
+        id,
+        'update',
+        'update',
+        resolution.strategy === 'merge' ? 'Resolved a sync conflict by merging' : 'Resolved a sync conflict with this copy'
+      );
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to resolve conflict: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'CONFLICT_RESOLUTION_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Get the earlier payloads of a record, newest first
+   */
+  static async getRecordRevisions(recordId: number): Promise<RecordRevision[]> {
+    try {
+      const db = getDb();
+      const revisions = await db.recordRevisions.where('recordId').equals(recordId).toArray();
+      return revisions.sort((a, b) => b.version - a.version || b.createdAt - a.createdAt);
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to get record revisions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'READ_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Put an earlier payload back as the record's current one. This is an
+   * ordinary update, so the payload it replaces becomes a revision too.
+   */
+  static async revertCompensationRecord(id: number, revisionId: number): Promise<void> {
+    const db = getDb();
+    const [record, revision] = await Promise.all([
+      db.compensationRecords.get(id),
+      db.recordRevisions.get(revisionId),
+    ]);
+    if (!record || !revision || revision.recordId !== id) {
+      throw new LocalStorageError('Failed to revert compensation record: Revision not found', 'UPDATE_FAILED');
+    }
+
+    await this.updateCompensationRecord(id, {
+      encryptedData: revision.encryptedData,
+      currency: revision.currency,
+      version: record.version,
+    });
+  }
+
+  /**
+   * Store a record's current payload as a revision, queued to sync
+   */
+  private static async addRevision(record: CompensationRecord): Promise<void> {
+    const now = Date.now();
+    const revision: Omit<RecordRevision, 'id'> = {
+      userId: record.userId,
+      revisionUid: crypto.randomUUID(),
+      recordId: record.id!,
+      version: record.version,
+      encryptedData: record.encryptedData,
+      currency: record.currency,
+      syncStatus: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const db = getDb();
+    await db.recordRevisions.add(revision as RecordRevision);
+  }
+
+  /**
+   * Add a change to the audit log, described by the sync operation it queued
+   */
+  private static async audit(
+    record: CompensationRecord,
+    id: number,
+    operation: SyncOperation,
+    type: AuditEventType = operation,
+    details?: string
+  ): Promise<void> {
+    await AuditService.logChange(
+      { table: 'compensationRecords', operation, recordId: id, timestamp: Date.now(), userId: record.userId },
+      { type, recordType: record.type, details }
+    );
+  }
+
   /**
    * Add an operation to the sync queue
    */
@@ -111,10 +486,11 @@ export class LocalStorageService {
     operation: SyncOperation,
     tableName: string,
     recordId: number,
+    userId: string,
     data?: any
   ): Promise<void> {
     const syncItem: Omit<PendingSyncItem, 'id'> = {
-      userId: 'current-user', // TODO: Get from auth context
+      userId,
       createdAt: Date.now(),
       updatedAt: Date.now(),
       operation,
@@ -135,7 +511,11 @@ export class LocalStorageService {
   static async getPendingSyncItems(userId: string): Promise<PendingSyncItem[]> {
     try {
       const db = getDb();
-      return await db.pendingSync.where('userId').equals(userId).toArray();
+      return await db.pendingSync
+        .where('userId')
+        .equals(userId)
+        .and(item => item.status === 'pending')
+        .toArray();
     } catch (error) {
       throw new LocalStorageError(
         `Failed to get pending sync items: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -166,6 +546,168 @@ export class LocalStorageService {
       updatedAt: Date.now(),
     });
   }
+
+  /**
+   * Get a user's imported price histories. These stay on this device.
+   */
+  static async getPriceHistories(userId: string): Promise<PriceHistoryRecord[]> {
+    try {
+      const db = getDb();
+      return await db.priceHistories.where('userId').equals(userId).toArray();
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to get price histories: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'READ_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Store an encrypted price history, replacing the one with the given id if present
+   */
+  static async savePriceHistory(userId: string, encryptedData: EncryptedData, id?: number): Promise<number> {
+    try {
+      const db = getDb();
+      if (id !== undefined) {
+        await db.priceHistories.update(id, { encryptedData });
+        return id;
+      }
+      return await db.priceHistories.add({
+        userId,
+        encryptedData,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to save price history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        id !== undefined ? 'UPDATE_FAILED' : 'CREATE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Get a user's exchange rate tables. These stay on this device.
+   */
+  static async getFxRates(userId: string): Promise<FxRateRecord[]> {
+    try {
+      const db = getDb();
+      return await db.fxRates.where('userId').equals(userId).toArray();
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to get exchange rates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'READ_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Store an encrypted exchange rate table, replacing the one with the given id if present
+   */
+  static async saveFxRates(userId: string, encryptedData: EncryptedData, id?: number): Promise<number> {
+    try {
+      const db = getDb();
+      if (id !== undefined) {
+        await db.fxRates.update(id, { encryptedData });
+        return id;
+      }
+      return await db.fxRates.add({
+        userId,
+        encryptedData,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to save exchange rates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        id !== undefined ? 'UPDATE_FAILED' : 'CREATE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Delete an exchange rate table
+   */
+  static async deleteFxRates(id: number): Promise<void> {
+    try {
+      const db = getDb();
+      await db.fxRates.delete(id);
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to delete exchange rates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'DELETE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Get a user's saved preferences, or null before they change any
+   */
+  static async getUserPreferences(userId: string): Promise<UserPreferences | null> {
+    try {
+      const db = getDb();
+      return await db.getUserPreferences(userId);
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to get user preferences: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'READ_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Store a user's preferences with the encrypted copy that syncs to Convex.
+   * Settings that came from the server are saved as already synced.
+   */
+  static async saveUserPreferences(
+    userId: string,
+    settings: PreferenceSettings,
+    encryptedData: EncryptedData,
+    syncStatus: 'pending' | 'synced' = 'pending'
+  ): Promise<void> {
+    try {
+      const db = getDb();
+      const existing = await db.getUserPreferences(userId);
+      if (existing) {
+        await db.userPreferences.update(existing.id!, {
+          ...settings,
+          encryptedData,
+          syncStatus,
+          remoteData: undefined,
+        });
+        return;
+      }
+
+      await db.userPreferences.add({
+        userId,
+        ...settings,
+        encryptedData,
+        syncStatus,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to save user preferences: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'UPDATE_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Delete an imported price history
+   */
+  static async deletePriceHistory(id: number): Promise<void> {
+    try {
+      const db = getDb();
+      await db.priceHistories.delete(id);
+    } catch (error) {
+      throw new LocalStorageError(
+        `Failed to delete price history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'DELETE_FAILED'
+      );
+    }
+  }
 }
 
 // Export a singleton instance
@@ -1,12 +1,27 @@
+import Dexie from 'dexie';
+import type { ConvexReactClient } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
 import { getDb } from '@/lib/db/database';
 import { LocalStorageService } from './localStorageService';
-import type { PendingSyncItem, OfflineQueueItem } from '@/lib/db/types';
+import type { CompensationRecord, PendingSyncItem, OfflineQueueItem, RecordRevision, AuditEvent } from '@/lib/db/types';
+import type { EncryptedData, KdfVersion } from '@/lib/crypto/types';
+import { Preferences } from '@/lib/preferences';
+
+/**
+ * The subset of the Convex client used by the sync engine. Accepting this
+ * instead of a concrete client lets tests pass a stand-in or mock.
+ */
+export type ConvexSyncClient = Pick<ConvexReactClient, 'mutation' | 'query'>;
 
 export class SyncService {
   private static isOnline = true;
   private static syncInProgress = false;
   private static syncInterval: NodeJS.Timeout | null = null;
   private static listeners: Array<(status: SyncStatus) => void> = [];
+  private static vaultListeners: Array<(userId: string) => void> = [];
+  private static convexClient: ConvexSyncClient | null = null;
+  private static currentUserId: string | null = null;
 
   // Sync status interface
   static readonly syncStatus = {
@@ -29,6 +44,19 @@ export class SyncService {
     }
   }
 
+  /**
+   * Provide the Convex client and the signed-in user whose queue should be drained
+   */
+  static configure(client: ConvexSyncClient | null, userId: string | null): void {
+    const userChanged = this.currentUserId !== userId;
+    this.convexClient = client;
+    this.currentUserId = userId;
+
+    if (userChanged && client && userId && this.isOnline) {
+      this.triggerSync();
+    }
+  }
+
   /**
    * Setup online/offline detection
    */
@@ -76,13 +104,33 @@ export class SyncService {
     this.notifyListeners(this.syncStatus.syncing);
 
     try {
+      // Upload the wrapped data key before any records that depend on it.
+      // Until the server has it, other devices could not decrypt what we push.
+      const vaultSynced = await this.pushVault();
+      if (vaultSynced) {
+        await this.pushPreferences();
+      }
+
       // Process offline queue first
       await this.processOfflineQueue();
       
-      // Then process pending sync items
-      await this.processPendingSync();
+      if (vaultSynced) {
+        // Then process pending sync items
+        await this.processPendingSync();
+
+        // Revisions reference their record's Convex id, so they follow the records
+        await this.pushRevisions();
+        await this.pushAuditEvents();
+      }
+
+      // Finally bring down anything changed on other devices
+      await this.pullRemoteChanges();
+      await this.pullPreferences();
+
+      // Once the trash reflects every device, clear out what has expired
+      await this.purgeExpiredTrash();
       
-      this.notifyListeners(this.syncStatus.idle);
+      this.notifyListeners(vaultSynced ? this.syncStatus.idle : this.syncStatus.error);
     } catch (error) {
       console.error('Sync failed:', error);
       this.notifyListeners(this.syncStatus.error);
@@ -147,12 +195,14 @@ export class SyncService {
   }
 
   /**
-   * Process pending sync items
+   * Process pending sync items for the current user
    */
   private static async processPendingSync(): Promise<void> {
-    // TODO: Get current user ID from auth context
-    const currentUserId = 'current-user'; // Placeholder
-    const pendingItems = await LocalStorageService.getPendingSyncItems(currentUserId);
+    if (!this.convexClient || !this.currentUserId) {
+      return;
+    }
+
+    const pendingItems = await LocalStorageService.getPendingSyncItems(this.currentUserId);
 
     for (const item of pendingItems) {
       try {
@@ -176,69 +226,671 @@ export class SyncService {
   }
 
   /**
-   * Execute a sync item
+   * Execute a sync item against the Convex compensationRecords mutations
    */
   private static async executeSyncItem(item: PendingSyncItem): Promise<void> {
-    // This would normally make API calls to Convex
-    // For now, we'll simulate the sync operation
-    
-    const baseUrl = process.env.NEXT_PUBLIC_CONVEX_URL || 'http://localhost:3000';
-    let url: string;
-    let method: string;
-    let data: any = undefined;
+    if (item.tableName !== 'compensationRecords') {
+      throw new Error(`Unsupported sync table: ${item.tableName}`);
+    }
+
+    const client = this.convexClient;
+    if (!client) {
+      throw new Error('Convex client not configured');
+    }
+
+    const db = getDb();
 
     switch (item.operation) {
-      case 'create':
-        url = `${baseUrl}/api/compensation`;
-        method = 'POST';
-        data = item.data;
+      case 'create': {
+        const record = await db.compensationRecords.get(item.recordId);
+        
+        // Deleted locally before it was ever pushed, or already pushed by an earlier item
+        if (!record || record.convexId) {
+          return;
+        }
+
+        await this.createRemoteRecord(client, record);
         break;
-      
-      case 'update':
-        url = `${baseUrl}/api/compensation/${item.recordId}`;
-        method = 'PUT';
-        data = item.data;
+      }
+
+      case 'update': {
+        const record = await db.compensationRecords.get(item.recordId);
+        // Conflicted records wait for the user; resolving queues a fresh update
+        if (!record || record.syncStatus === 'conflict') {
+          return;
+        }
+
+        // Its create was never pushed (e.g. queued under the old placeholder
+        // user id), so create it now with the latest payload
+        if (!record.convexId) {
+          await this.createRemoteRecord(client, record);
+          return;
+        }
+
+        const convexId = record.convexId as Id<'compensationRecords'>;
+        const remoteVersion = record.remoteVersion ?? 1;
+        try {
+          await client.mutation(api.compensationRecords.updateCompensationRecord, {
+            id: convexId,
+            encryptedData: this.toRemoteEncryptedData(record.encryptedData),
+            currency: record.currency,
+            version: remoteVersion,
+            deletedAt: record.deletedAt,
+          });
+        } catch (error) {
+          // A newer server version means another device got there first
+          const remote = await client.query(api.compensationRecords.getCompensationRecord, {
+            id: convexId,
+          });
+          if (remote && remote.version !== remoteVersion) {
+            await this.captureConflict(item.recordId, remote);
+            return;
+          }
+          throw error;
+        }
+
+        await db.compensationRecords.update(item.recordId, {
+          remoteVersion: remoteVersion + 1,
+          version: record.version,
+          syncStatus: 'synced',
+          lastSyncAt: Date.now(),
+        });
         break;
-      
-      case 'delete':
-        url = `${baseUrl}/api/compensation/${item.recordId}`;
-        method = 'DELETE';
+      }
+
+      case 'delete': {
+        const convexId = item.data?.convexId as string | undefined;
+        
+        // Never reached the server, so there is nothing to delete remotely
+        if (!convexId) {
+          return;
+        }
+
+        await client.mutation(api.compensationRecords.deleteCompensationRecord, {
+          id: convexId as Id<'compensationRecords'>,
+        });
         break;
-      
+      }
+
       default:
         throw new Error(`Unknown sync operation: ${item.operation}`);
     }
+  }
 
-    // Add to offline queue if we're offline
-    if (!this.isOnline) {
-      await this.addToOfflineQueue(method as any, url, data);
+  /**
+   * Create a local record on the server and remember its Convex id
+   */
+  private static async createRemoteRecord(client: ConvexSyncClient, record: CompensationRecord): Promise<void> {
+    const convexId = await client.mutation(api.compensationRecords.createCompensationRecord, {
+      userId: record.userId,
+      type: record.type,
+      encryptedData: this.toRemoteEncryptedData(record.encryptedData),
+      currency: record.currency,
+      deletedAt: record.deletedAt,
+    });
+
+    const db = getDb();
+    await db.compensationRecords.update(record.id!, {
+      convexId,
+      remoteVersion: 1,
+      version: record.version,
+      syncStatus: 'synced',
+      lastSyncAt: Date.now(),
+    });
+  }
+
+  /**
+   * Upload revisions recorded on this device once their record exists on the server
+   */
+  private static async pushRevisions(): Promise<void> {
+    const client = this.convexClient;
+    const userId = this.currentUserId;
+    if (!client || !userId) {
       return;
     }
 
-    // Execute the sync operation
-    const response = await fetch(url, {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.getAuthToken()}`,
+    const db = getDb();
+    const pending = await db.recordRevisions
+      .where('syncStatus')
+      .equals('pending')
+      .and(revision => revision.userId === userId)
+      .toArray();
+
+    for (const revision of pending) {
+      const record = await db.compensationRecords.get(revision.recordId);
+      if (!record?.convexId) {
+        continue;
+      }
+
+      try {
+        const convexId = await client.mutation(api.recordRevisions.addRevision, {
+          userId,
+          recordId: record.convexId as Id<'compensationRecords'>,
+          revisionUid: revision.revisionUid,
+          version: revision.version,
+          encryptedData: this.toRemoteEncryptedData(revision.encryptedData),
+          currency: revision.currency,
+          createdAt: revision.createdAt,
+        });
+
+        await db.recordRevisions.update(revision.id!, {
+          syncStatus: 'synced',
+          convexId,
+          updatedAt: Date.now(),
+        });
+      } catch (error) {
+        console.error('Failed to push revision:', error);
+      }
+    }
+  }
+
+  /**
+   * Upload audit events recorded on this device. The server only stores the
+   * encrypted payload and the time of the event.
+   */
+  private static async pushAuditEvents(): Promise<void> {
+    const client = this.convexClient;
+    const userId = this.currentUserId;
+    if (!client || !userId) {
+      return;
+    }
+
+    const db = getDb();
+    const pending = await db.auditEvents
+      .where('syncStatus')
+      .equals('pending')
+      .and(event => event.userId === userId)
+      .toArray();
+
+    for (const event of pending) {
+      try {
+        const convexId = await client.mutation(api.auditEvents.addAuditEvent, {
+          userId,
+          eventUid: event.eventUid,
+          timestamp: event.timestamp,
+          encryptedData: this.toRemoteEncryptedData(event.encryptedData),
+        });
+
+        await db.auditEvents.update(event.id!, { syncStatus: 'synced', convexId });
+      } catch (error) {
+        console.error('Failed to push audit event:', error);
+      }
+    }
+  }
+
+  /**
+   * Fetch audit events recorded on other devices since the last pull. Like
+   * revisions, the log is only pulled when someone opens it.
+   */
+  static async pullAuditEvents(userId: string): Promise<void> {
+    const client = this.convexClient;
+    if (!client || !this.isOnline) {
+      return;
+    }
+
+    try {
+      const db = getDb();
+      const lastSeen = await db.auditEvents
+        .where('[userId+serverCreatedAt]')
+        .between([userId, Dexie.minKey], [userId, Dexie.maxKey])
+        .last();
+
+      const remoteEvents = await client.query(api.auditEvents.getAuditEvents, {
+        userId,
+        since: lastSeen?.serverCreatedAt,
+      });
+
+      for (const remote of remoteEvents) {
+        // Events pushed from this device come back too; they only need the watermark
+        const known = await db.auditEvents.where('eventUid').equals(remote.eventUid).first();
+        if (known) {
+          await db.auditEvents.update(known.id!, {
+            syncStatus: 'synced',
+            convexId: remote._id,
+            serverCreatedAt: remote._creationTime,
+          });
+          continue;
+        }
+
+        const event: Omit<AuditEvent, 'id'> = {
+          userId: remote.userId,
+          eventUid: remote.eventUid,
+          timestamp: remote.timestamp,
+          encryptedData: this.fromRemoteEncryptedData(remote.encryptedData),
+          syncStatus: 'synced',
+          convexId: remote._id,
+          serverCreatedAt: remote._creationTime,
+        };
+        await db.auditEvents.add(event as AuditEvent);
+      }
+    } catch (error) {
+      console.error('Failed to pull audit events:', error);
+    }
+  }
+
+  /**
+   * Fetch a record's revisions made on other devices. History is only needed
+   * when someone looks at it, so it is pulled per record rather than every sync.
+   */
+  static async pullRevisions(record: CompensationRecord): Promise<void> {
+    const client = this.convexClient;
+    if (!client || !this.isOnline || !record.convexId || record.id === undefined) {
+      return;
+    }
+
+    try {
+      const remoteRevisions = await client.query(api.recordRevisions.getRevisions, {
+        recordId: record.convexId as Id<'compensationRecords'>,
+      });
+
+      const db = getDb();
+      const known = new Set(
+        (await db.recordRevisions.where('recordId').equals(record.id).toArray()).map(revision => revision.revisionUid)
+      );
+
+      for (const remote of remoteRevisions) {
+        if (known.has(remote.revisionUid)) {
+          continue;
+        }
+
+        const revision: Omit<RecordRevision, 'id'> = {
+          userId: remote.userId,
+          revisionUid: remote.revisionUid,
+          recordId: record.id,
+          version: remote.version,
+          encryptedData: this.fromRemoteEncryptedData(remote.encryptedData),
+          currency: remote.currency,
+          syncStatus: 'synced',
+          convexId: remote._id,
+          createdAt: remote.createdAt,
+          updatedAt: remote.createdAt,
+        };
+        await db.recordRevisions.add(revision as RecordRevision);
+      }
+    } catch (error) {
+      console.error('Failed to pull revisions:', error);
+    }
+  }
+
+  /**
+   * Pull records changed on the server since the user's watermark and merge
+   * them into IndexedDB without overwriting local edits that are still pending
+   */
+  private static async pullRemoteChanges(): Promise<void> {
+    const client = this.convexClient;
+    const userId = this.currentUserId;
+    if (!client || !userId) {
+      return;
+    }
+
+    const db = getDb();
+    const since = await db.getLastPulledAt(userId);
+    const remoteRecords = await client.query(
+      api.compensationRecords.getCompensationRecordsUpdatedSince,
+      { userId, since }
+    );
+
+    let watermark = since;
+    for (const remote of remoteRecords) {
+      await this.mergeRemoteRecord(remote);
+      watermark = Math.max(watermark, remote.updatedAt);
+    }
+
+    if (watermark > since) {
+      await db.setLastPulledAt(userId, watermark);
+    }
+  }
+
+  /**
+   * Merge a single server record into the local database
+   */
+  private static async mergeRemoteRecord(remote: Doc<'compensationRecords'>): Promise<void> {
+    const db = getDb();
+    const local = await db.compensationRecords
+      .where('convexId')
+      .equals(remote._id)
+      .first();
+
+    // Permanently deleted on another device; that always wins over local edits
+    if (remote.purgedAt) {
+      if (local) {
+        await db.compensationRecords.delete(local.id!);
+        await db.recordRevisions.where('recordId').equals(local.id!).delete();
+      }
+      return;
+    }
+
+    if (!local) {
+      const record: Omit<CompensationRecord, 'id'> = {
+        userId: remote.userId,
+        type: remote.type,
+        encryptedData: this.fromRemoteEncryptedData(remote.encryptedData),
+        currency: remote.currency,
+        createdAt: remote.createdAt,
+        updatedAt: remote.updatedAt,
+        syncStatus: 'synced',
+        lastSyncAt: Date.now(),
+        version: remote.version,
+        convexId: remote._id,
+        remoteVersion: remote.version,
+        deletedAt: remote.deletedAt,
+      };
+      await db.compensationRecords.add(record as CompensationRecord);
+      return;
+    }
+
+    // Already have this version (usually our own push coming back)
+    if (remote.version <= (local.remoteVersion ?? 0)) {
+      return;
+    }
+
+    // Both sides changed since the last sync - keep both for the user to resolve
+    if (local.syncStatus !== 'synced') {
+      await this.captureConflict(local.id!, remote);
+      return;
+    }
+
+    await db.compensationRecords.update(local.id!, {
+      encryptedData: this.fromRemoteEncryptedData(remote.encryptedData),
+      currency: remote.currency,
+      version: remote.version,
+      remoteVersion: remote.version,
+      deletedAt: remote.deletedAt,
+      syncStatus: 'synced',
+      lastSyncAt: Date.now(),
+    });
+  }
+
+  /**
+   * Keep the server copy alongside the local edit and flag the record as conflicted
+   */
+  private static async captureConflict(
+    recordId: number,
+    remote: Doc<'compensationRecords'>
+  ): Promise<void> {
+    const db = getDb();
+    const local = await db.compensationRecords.get(recordId);
+    if (!local) {
+      return;
+    }
+
+    await db.compensationRecords.update(recordId, {
+      version: local.version,
+      syncStatus: 'conflict',
+      conflictData: {
+        encryptedData: this.fromRemoteEncryptedData(remote.encryptedData),
+        currency: remote.currency,
+        version: remote.version,
+        updatedAt: remote.updatedAt,
+        deletedAt: remote.deletedAt,
       },
-      body: data ? JSON.stringify(data) : undefined,
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Sync failed: HTTP ${response.status}`);
+  /**
+   * Fetch the user's wrapped data key from Convex so a new device can unlock
+   * with the same master password
+   */
+  static async pullVault(userId: string): Promise<void> {
+    const client = this.convexClient;
+    if (!client || !this.isOnline) {
+      return;
     }
 
-    // Update local record sync status
-    if (item.tableName === 'compensationRecords') {
+    try {
+      const remote = await client.query(api.vaults.getVault, { userId });
+      if (!remote) {
+        return;
+      }
+
       const db = getDb();
-      await db.compensationRecords.update(item.recordId, {
+      const local = await db.vaults.get(userId);
+
+      // Unpushed local changes win; the push will surface any version conflict
+      if (local && (local.syncStatus !== 'synced' || remote.version <= (local.remoteVersion ?? 0))) {
+        return;
+      }
+
+      await this.storeRemoteVault(remote);
+    } catch (error) {
+      console.error('Failed to pull vault:', error);
+    }
+  }
+
+  private static async storeRemoteVault(remote: Doc<'vaults'>): Promise<void> {
+    const db = getDb();
+    await db.vaults.put({
+      userId: remote.userId,
+      salt: remote.wrappedKey.salt,
+      wrappedKey: this.fromRemoteEncryptedData(remote.wrappedKey),
+      recoveryKey: remote.recoveryKey && this.fromRemoteEncryptedData(remote.recoveryKey),
+      syncStatus: 'synced',
+      remoteVersion: remote.version,
+      createdAt: remote.createdAt,
+      updatedAt: remote.updatedAt,
+    });
+  }
+
+  /**
+   * Upload a newly created or re-wrapped data key for the current user.
+   * Resolves to whether the server now holds the local data key.
+   */
+  private static async pushVault(): Promise<boolean> {
+    const client = this.convexClient;
+    const userId = this.currentUserId;
+    if (!client || !userId) {
+      return false;
+    }
+
+    const db = getDb();
+    const vault = await db.vaults.get(userId);
+    if (!vault?.wrappedKey || vault.syncStatus !== 'pending') {
+      return true;
+    }
+
+    const wrappedKey = this.toRemoteWrappedKey(vault.wrappedKey);
+    const recoveryKey = vault.recoveryKey && this.toRemoteWrappedKey(vault.recoveryKey);
+
+    try {
+      if (vault.remoteVersion === undefined) {
+        await client.mutation(api.vaults.createVault, { userId, wrappedKey, recoveryKey });
+      } else {
+        await client.mutation(api.vaults.updateWrappedKey, {
+          userId,
+          wrappedKey,
+          recoveryKey,
+          version: vault.remoteVersion,
+        });
+      }
+
+      await db.vaults.update(userId, {
         syncStatus: 'synced',
-        lastSyncAt: Date.now(),
+        remoteVersion: (vault.remoteVersion ?? 0) + 1,
       });
+      return true;
+    } catch (error) {
+      console.error('Failed to push vault:', error);
+      if (vault.remoteVersion === undefined) {
+        await this.adoptRemoteVault(client, userId);
+      }
+      return false;
     }
   }
 
+  /**
+   * Another device set up the vault first (e.g. this one was reinstalled and
+   * made a fresh data key). Retrying the create can never succeed, so take the
+   * account's vault and have the user unlock with its key.
+   */
+  private static async adoptRemoteVault(client: ConvexSyncClient, userId: string): Promise<void> {
+    try {
+      const remote = await client.query(api.vaults.getVault, { userId });
+      if (!remote) {
+        return;
+      }
+
+      await this.storeRemoteVault(remote);
+      this.vaultListeners.forEach(listener => {
+        try {
+          listener(userId);
+        } catch (error) {
+          console.error('Error in vault listener:', error);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to pull vault:', error);
+    }
+  }
+
+  /**
+   * Upload the encrypted copy of the current user's preferences after a local change
+   */
+  private static async pushPreferences(): Promise<void> {
+    const client = this.convexClient;
+    const userId = this.currentUserId;
+    if (!client || !userId) {
+      return;
+    }
+
+    const db = getDb();
+    const preferences = await db.getUserPreferences(userId);
+    if (!preferences?.encryptedData || preferences.syncStatus !== 'pending') {
+      return;
+    }
+
+    try {
+      const remoteVersion = await client.mutation(api.userPreferences.savePreferences, {
+        userId,
+        encryptedData: this.toRemoteEncryptedData(preferences.encryptedData),
+        version: preferences.remoteVersion,
+      });
+
+      await db.userPreferences.update(preferences.id!, {
+        syncStatus: 'synced',
+        remoteVersion,
+      });
+    } catch (error) {
+      console.error('Failed to push preferences:', error);
+    }
+  }
+
+  /**
+   * Fetch preferences changed on another device. They stay encrypted in
+   * `remoteData` until the vault unlocks and the preferences provider applies them.
+   */
+  private static async pullPreferences(): Promise<void> {
+    const client = this.convexClient;
+    const userId = this.currentUserId;
+    if (!client || !userId) {
+      return;
+    }
+
+    const remote = await client.query(api.userPreferences.getPreferences, { userId });
+    if (!remote) {
+      return;
+    }
+
+    const db = getDb();
+    const local = await db.getUserPreferences(userId);
+    if (local && remote.version <= (local.remoteVersion ?? 0)) {
+      return;
+    }
+
+    // An unpushed local change wins: take the server version so the next push replaces it
+    if (local?.syncStatus === 'pending') {
+      await db.userPreferences.update(local.id!, { remoteVersion: remote.version });
+      return;
+    }
+
+    const remoteData = this.fromRemoteEncryptedData(remote.encryptedData);
+    if (local) {
+      await db.userPreferences.update(local.id!, { remoteData, remoteVersion: remote.version });
+      return;
+    }
+
+    // First time on this device: the settings themselves are filled in once decrypted
+    await db.userPreferences.add({
+      userId,
+      ...Preferences.withDefaults(null),
+      remoteData,
+      remoteVersion: remote.version,
+      syncStatus: 'synced',
+      createdAt: remote.createdAt,
+      updatedAt: remote.updatedAt,
+    });
+  }
+
+  /**
+   * Purge trashed records older than the user's retention. Skipped until this
+   * device has the user's own settings, so a default never purges early.
+   */
+  private static async purgeExpiredTrash(): Promise<void> {
+    const userId = this.currentUserId;
+    if (!userId) {
+      return;
+    }
+
+    const preferences = await LocalStorageService.getUserPreferences(userId);
+    if (!preferences || preferences.remoteData) {
+      return;
+    }
+
+    try {
+      const { trashRetentionDays } = Preferences.withDefaults(preferences).privacy;
+      await LocalStorageService.purgeExpiredTrash(userId, trashRetentionDays);
+    } catch (error) {
+      console.error('Failed to purge expired trash:', error);
+    }
+  }
+
+  /**
+   * Convert the Convex encrypted payload back into the local EncryptedData shape
+   */
+  private static fromRemoteEncryptedData(
+    encryptedData:
+      | Doc<'compensationRecords'>['encryptedData']
+      | Doc<'vaults'>['wrappedKey']
+      | Doc<'userPreferences'>['encryptedData']
+      | Doc<'recordRevisions'>['encryptedData']
+      | Doc<'auditEvents'>['encryptedData']
+  ): EncryptedData {
+    return {
+      encryptedData: encryptedData.data,
+      iv: encryptedData.iv,
+      salt: encryptedData.salt,
+      algorithm: 'AES-GCM',
+      keyDerivation: 'keyDerivation' in encryptedData && encryptedData.keyDerivation
+        ? encryptedData.keyDerivation
+        : 'Argon2id',
+      kdfVersion: encryptedData.kdfVersion as KdfVersion | undefined,
+    };
+  }
+
+  /**
+   * Convert local encrypted payload into the shape stored by Convex
+   */
+  private static toRemoteEncryptedData(encryptedData: EncryptedData) {
+    return {
+      data: encryptedData.encryptedData,
+      iv: encryptedData.iv,
+      salt: encryptedData.salt,
+      kdfVersion: encryptedData.kdfVersion,
+      keyDerivation: encryptedData.keyDerivation,
+    };
+  }
+
+  /**
+   * Convert a locally wrapped key into the shape stored by Convex
+   */
+  private static toRemoteWrappedKey(wrappedKey: EncryptedData): Doc<'vaults'>['wrappedKey'] {
+    return {
+      data: wrappedKey.encryptedData,
+      iv: wrappedKey.iv,
+      salt: wrappedKey.salt,
+      kdfVersion: wrappedKey.kdfVersion,
+    };
+  }
+
   /**
    * Add an item to the offline queue
    */
@@ -263,23 +915,6 @@ export class SyncService {
     await db.offlineQueue.add(queueItem as OfflineQueueItem);
   }
 
-  /**
-   * Get auth token (placeholder implementation)
-   */
-  private static getAuthToken(): string {
-    // This would get the actual auth token from the auth context
-    if (typeof window !== 'undefined' && 
-        window.localStorage && 
-        typeof window.localStorage.getItem === 'function') {
-      try {
-        return window.localStorage.getItem('authToken') || '';
-      } catch {
-        return '';
-      }
-    }
-    return '';
-  }
-
   /**
    * Get sync statistics
    */
@@ -324,6 +959,21 @@ export class SyncService {
     };
   }
 
+  /**
+   * Be told when the local vault is replaced by the account's, so a data key
+   * unwrapped from the old one stops being used
+   */
+  static addVaultListener(listener: (userId: string) => void): () => void {
+    this.vaultListeners.push(listener);
+
+    return () => {
+      const index = this.vaultListeners.indexOf(listener);
+      if (index > -1) {
+        this.vaultListeners.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * Notify all listeners of status change
    */
@@ -346,6 +996,7 @@ export class SyncService {
       this.syncInterval = null;
     }
     this.listeners = [];
+    this.vaultListeners = [];
   }
 
   /**
@@ -0,0 +1,314 @@
+import { getDb } from '@/lib/db/database';
+import { CryptoUtils } from '@/lib/crypto/encryption';
+import { KeyDerivation } from '@/lib/crypto/keyDerivation';
+import { RecoveryPhrase } from '@/lib/crypto/recoveryPhrase';
+import { EncryptionError, EncryptedData, KDF_VERSION } from '@/lib/crypto/types';
+import { EncryptionService } from './encryptionService';
+import { LocalStorageService } from './localStorageService';
+import { SyncService } from './syncService';
+import type { VaultMetadata } from '@/lib/db/types';
+
+// Known plaintext that vaults created before data keys used to check a password
+const VERIFIER_PLAINTEXT = 'comptrails-vault-verifier-v1';
+
+// Records written before the vault existed were encrypted with this placeholder
+const LEGACY_PLACEHOLDER_PASSWORD = 'default-password';
+
+export interface UnlockedVault {
+  key: CryptoKey; // The user's data key; records are encrypted with it directly
+}
+
+export interface CreatedVault extends UnlockedVault {
+  recoveryPhrase: string; // Shown once at setup, never stored or sent anywhere
+}
+
+export class VaultService {
+  /**
+   * Get the vault metadata for a user, if a master password has been set up
+   */
+  static async getVault(userId: string): Promise<VaultMetadata | null> {
+    const db = getDb();
+    const vault = await db.vaults.get(userId);
+    return vault || null;
+  }
+
+  /**
+   * Get the vault, first picking up one set up (or re-wrapped) on another device
+   */
+  static async loadVault(userId: string): Promise<VaultMetadata | null> {
+    await SyncService.pullVault(userId);
+    return this.getVault(userId);
+  }
+
+  /**
+   * Set up the master password: generate the data key and store it wrapped by
+   * the password-derived key and by a new recovery phrase
+   */
+  static async createVault(userId: string, password: string): Promise<CreatedVault> {
+    this.assertStrongPassword(password);
+
+    const existing = await this.loadVault(userId);
+    if (existing) {
+      throw new EncryptionError('Vault already exists', 'VAULT_EXISTS');
+    }
+
+    const rawDataKey = CryptoUtils.generateRawKey();
+    const recoveryPhrase = RecoveryPhrase.generate();
+    const now = Date.now();
+    const db = getDb();
+    await db.vaults.add({
+      userId,
+      ...(await this.wrapWithPassword(rawDataKey, password)),
+      recoveryKey: await this.wrapWithRecoveryPhrase(rawDataKey, recoveryPhrase),
+      syncStatus: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    });
+    SyncService.triggerSync();
+
+    const key = await EncryptionService.importDataKey(rawDataKey);
+    await this.migrateLegacyRecords(userId, password, key);
+
+    return { key, recoveryPhrase };
+  }
+
+  /**
+   * Unwrap the data key with the master password
+   */
+  static async unlockVault(userId: string, password: string): Promise<UnlockedVault> {
+    const vault = await this.getVault(userId);
+    if (!vault) {
+      throw new EncryptionError('Vault has not been set up', 'VAULT_NOT_FOUND');
+    }
+
+    if (!vault.wrappedKey) {
+      return this.upgradeLegacyVault(vault, password);
+    }
+
+    const kdfVersion = vault.wrappedKey.kdfVersion ?? KDF_VERSION.PBKDF2_SHA256;
+    const rawDataKey = await this.unwrapWithPassword(vault, password);
+
+    if (kdfVersion !== KDF_VERSION.ARGON2ID) {
+      await this.rewrapDataKey(userId, rawDataKey, password);
+    }
+
+    const key = await EncryptionService.importDataKey(rawDataKey);
+    await this.migrateLegacyRecords(userId, password, key);
+
+    return { key };
+  }
+
+  /**
+   * Change the master password. Only the data key is re-wrapped; records are untouched.
+   */
+  static async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<void> {
+    this.assertStrongPassword(newPassword);
+
+    const vault = await this.getVault(userId);
+    if (!vault?.wrappedKey) {
+      throw new EncryptionError('Vault has not been set up', 'VAULT_NOT_FOUND');
+    }
+
+    const rawDataKey = await this.unwrapWithPassword(vault, currentPassword);
+    await this.rewrapDataKey(userId, rawDataKey, newPassword);
+  }
+
+  /**
+   * Replace the recovery phrase. The previous phrase stops working once this syncs.
+   */
+  static async createRecoveryPhrase(userId: string, password: string): Promise<string> {
+    const vault = await this.getVault(userId);
+    if (!vault?.wrappedKey) {
+      throw new EncryptionError('Vault has not been set up', 'VAULT_NOT_FOUND');
+    }
+
+    const rawDataKey = await this.unwrapWithPassword(vault, password);
+    const recoveryPhrase = RecoveryPhrase.generate();
+
+    const db = getDb();
+    await db.vaults.update(userId, {
+      recoveryKey: await this.wrapWithRecoveryPhrase(rawDataKey, recoveryPhrase),
+      syncStatus: 'pending',
+      updatedAt: Date.now(),
+    });
+    SyncService.triggerSync();
+
+    return recoveryPhrase;
+  }
+
+  /**
+   * Set a new master password using the recovery phrase instead of the old
+   * password. The phrase is only used locally to unwrap the data key.
+   */
+  static async resetPassword(
+    userId: string,
+    recoveryPhrase: string,
+    newPassword: string
+  ): Promise<UnlockedVault> {
+    this.assertStrongPassword(newPassword);
+
+    if (!RecoveryPhrase.isValid(recoveryPhrase)) {
+      throw new EncryptionError('That is not a valid recovery phrase', 'INVALID_RECOVERY_PHRASE');
+    }
+
+    const vault = await this.getVault(userId);
+    if (!vault?.recoveryKey) {
+      throw new EncryptionError('No recovery phrase has been set up for this vault', 'RECOVERY_KEY_NOT_FOUND');
+    }
+
+    const recoveryKey = await KeyDerivation.deriveKey({
+      password: RecoveryPhrase.normalize(recoveryPhrase),
+      salt: CryptoUtils.base64ToUint8Array(vault.recoveryKey.salt),
+      kdfVersion: vault.recoveryKey.kdfVersion ?? KDF_VERSION.PBKDF2_SHA256,
+    });
+
+    let rawDataKey: Uint8Array;
+    try {
+      rawDataKey = await EncryptionService.unwrapDataKey(vault.recoveryKey, recoveryKey);
+    } catch {
+      throw new EncryptionError('Recovery phrase does not match this vault', 'INVALID_RECOVERY_PHRASE');
+    }
+
+    await this.rewrapDataKey(userId, rawDataKey, newPassword);
+
+    return { key: await EncryptionService.importDataKey(rawDataKey) };
+  }
+
+  private static assertStrongPassword(password: string): void {
+    const validation = EncryptionService.validatePassword(password);
+    if (!validation.isValid) {
+      throw new EncryptionError(
+        validation.feedback[0] || 'Password is too weak',
+        'WEAK_PASSWORD'
+      );
+    }
+  }
+
+  /**
+   * Derive a fresh password key under a new salt and wrap the data key with it
+   */
+  private static async wrapWithPassword(
+    rawDataKey: Uint8Array,
+    password: string
+  ): Promise<Pick<VaultMetadata, 'salt' | 'wrappedKey'>> {
+    const { key, salt } = await KeyDerivation.deriveKeyWithSalt(password);
+    const saltBase64 = CryptoUtils.uint8ArrayToBase64(salt);
+    const wrappedKey = await EncryptionService.wrapDataKey(rawDataKey, key, saltBase64);
+    return { salt: saltBase64, wrappedKey };
+  }
+
+  private static async wrapWithRecoveryPhrase(
+    rawDataKey: Uint8Array,
+    recoveryPhrase: string
+  ): Promise<EncryptedData> {
+    const { key, salt } = await KeyDerivation.deriveKeyWithSalt(RecoveryPhrase.normalize(recoveryPhrase));
+    return EncryptionService.wrapDataKey(rawDataKey, key, CryptoUtils.uint8ArrayToBase64(salt));
+  }
+
+  private static async unwrapWithPassword(vault: VaultMetadata, password: string): Promise<Uint8Array> {
+    const passwordKey = await KeyDerivation.deriveKey({
+      password,
+      salt: CryptoUtils.base64ToUint8Array(vault.salt),
+      kdfVersion: vault.wrappedKey!.kdfVersion ?? KDF_VERSION.PBKDF2_SHA256,
+    });
+
+    try {
+      return await EncryptionService.unwrapDataKey(vault.wrappedKey!, passwordKey);
+    } catch {
+      throw new EncryptionError('Incorrect master password', 'INVALID_PASSWORD');
+    }
+  }
+
+  /**
+   * Store the data key under a new password and queue the change for sync
+   */
+  private static async rewrapDataKey(
+    userId: string,
+    rawDataKey: Uint8Array,
+    password: string
+  ): Promise<void> {
+    const db = getDb();
+    await db.vaults.update(userId, {
+      ...(await this.wrapWithPassword(rawDataKey, password)),
+      verifier: undefined,
+      syncStatus: 'pending',
+      updatedAt: Date.now(),
+    });
+    SyncService.triggerSync();
+  }
+
+  /**
+   * Vaults created before data keys encrypted records with the password key
+   * itself. Check the password against the old verifier, then introduce a data
+   * key and move every record onto it.
+   */
+  private static async upgradeLegacyVault(
+    vault: VaultMetadata,
+    password: string
+  ): Promise<UnlockedVault> {
+    const passwordKey = await KeyDerivation.deriveKey({
+      password,
+      salt: CryptoUtils.base64ToUint8Array(vault.salt),
+      kdfVersion: vault.verifier?.kdfVersion ?? KDF_VERSION.PBKDF2_SHA256,
+    });
+
+    const result = vault.verifier
+      ? await EncryptionService.decryptWithKey(vault.verifier, passwordKey)
+      : null;
+    if (!result?.success || result.data !== VERIFIER_PLAINTEXT) {
+      throw new EncryptionError('Incorrect master password', 'INVALID_PASSWORD');
+    }
+
+    const rawDataKey = CryptoUtils.generateRawKey();
+    await this.rewrapDataKey(vault.userId, rawDataKey, password);
+
+    const key = await EncryptionService.importDataKey(rawDataKey);
+    await this.migrateLegacyRecords(vault.userId, password, key, passwordKey);
+
+    return { key };
+  }
+
+  /**
+   * Re-encrypt records that are not yet under the data key (each used to carry
+   * its own salt) so every later read can skip key derivation. The old
+   * ciphertext is replaced outright: keeping it as a revision would preserve
+   * and upload the weakly keyed copy.
+   */
+  private static async migrateLegacyRecords(
+    userId: string,
+    password: string,
+    dataKey: CryptoKey,
+    previousKey?: CryptoKey
+  ): Promise<void> {
+    const records = await LocalStorageService.getCompensationRecords(userId);
+    const legacyRecords = records.filter(
+      record => record.encryptedData.keyDerivation !== 'DataKey' && !record.legacyUnreadableAt
+    );
+
+    for (const record of legacyRecords) {
+      let decrypted = previousKey
+        ? await EncryptionService.decryptWithKey(record.encryptedData, previousKey)
+        : { data: '', success: false };
+      if (!decrypted.success) {
+        decrypted = await EncryptionService.decryptData(record.encryptedData, password);
+      }
+      if (!decrypted.success) {
+        decrypted = await EncryptionService.decryptData(record.encryptedData, LEGACY_PLACEHOLDER_PASSWORD);
+      }
+
+      // Not ours to read (e.g. encrypted under a different password) - leave it
+      // alone, and skip the two key derivations on later unlocks
+      if (!decrypted.success) {
+        await LocalStorageService.markLegacyRecordUnreadable(record.id!);
+        continue;
+      }
+
+      const encryptedData = await EncryptionService.encryptWithDataKey(decrypted.data, dataKey);
+      await LocalStorageService.reencryptCompensationRecord(record.id!, encryptedData);
+    }
+  }
+}
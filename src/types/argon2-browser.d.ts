@@ -1,4 +1,10 @@
 declare module 'argon2-browser' {
+  export enum ArgonType {
+    Argon2d = 0,
+    Argon2i = 1,
+    Argon2id = 2,
+  }
+
   export interface HashOptions {
     pass: string;
     salt: Uint8Array;
@@ -10,10 +16,15 @@ declare module 'argon2-browser' {
   }
 
   export interface HashResult {
-    hash: ArrayBuffer;
+    hash: Uint8Array;
     hashHex: string;
     encoded: string;
   }
 
   export function hash(options: HashOptions): Promise<HashResult>;
-}
\ No newline at end of file
+}
+
+// Single-file build with the WASM inlined, so no separate .wasm fetch is needed
+declare module 'argon2-browser/dist/argon2-bundled.min.js' {
+  export * from 'argon2-browser';
+}
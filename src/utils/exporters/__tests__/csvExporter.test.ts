@@ -0,0 +1,81 @@
+/**
+ * CSV exporter tests - these would normally be run with a proper test framework
+ * For now, this serves as documentation and basic validation
+ */
+
+import { CSVExporter, type CSVExportOptions, type ExportRecord } from '../csvExporter';
+import type { DecryptedEquityData } from '@/lib/db/types';
+import { check, expectEqual, inTimeZone } from '@/lib/testing';
+
+// Vests monthly from Oct 2098, so the next vest is always 1 Nov 2098
+const grant: DecryptedEquityData = {
+  company: 'Acme',
+  type: 'RSU',
+  shares: 1200,
+  grantDate: '2098-10-01',
+  vestingStart: '2098-10-01',
+  vestingPeriod: 12,
+  vestingFrequency: 'monthly',
+  vestingScheduleType: 'uniform',
+};
+
+const record: ExportRecord = { id: 1, type: 'equity', data: grant, createdAt: Date.UTC(2024, 0, 1), currency: 'USD' };
+
+const nextVestDate = (dateFormat: CSVExportOptions['dateFormat']) =>
+  CSVExporter.export([record], { dateFormat, includeColumns: ['nextVestDate'] }).split('\n')[1];
+
+// These tests would be run with Jest/Vitest in a proper test environment
+export const csvExporterTests = {
+  testNextVestDate() {
+    const failures: string[] = [];
+
+    // Vest dates are local midnight; east of UTC that is the previous UTC day
+    for (const timeZone of ['Europe/Berlin', 'Asia/Tokyo', 'America/Los_Angeles']) {
+      inTimeZone(timeZone, () => {
+        expectEqual(failures, `${timeZone} iso`, nextVestDate('iso'), '2098-11-01');
+        expectEqual(failures, `${timeZone} us`, nextVestDate('us'), '11/1/2098');
+        expectEqual(failures, `${timeZone} eu`, nextVestDate('eu'), '01/11/2098');
+      });
+    }
+
+    return check('Export next vest date on its local day', failures);
+  },
+
+  testDateOnlyFields() {
+    const failures: string[] = [];
+
+    const csv = inTimeZone('Asia/Tokyo', () =>
+      CSVExporter.export([record], { dateFormat: 'eu', includeColumns: ['grantDate', 'vestingStart'] })
+    );
+    expectEqual(failures, 'grant dates', csv.split('\n')[1], '01/10/2098,01/10/2098');
+
+    return check('Export date-only fields unchanged', failures);
+  },
+
+  async runAllTests() {
+    console.log('🧪 Running CSV exporter tests...\n');
+
+    const results = [
+      this.testNextVestDate(),
+      this.testDateOnlyFields(),
+    ];
+
+    const passed = results.filter(Boolean).length;
+    const total = results.length;
+
+    console.log(`\n📊 Test Results: ${passed}/${total} tests passed`);
+
+    if (passed === total) {
+      console.log('🎉 All CSV exporter tests passed!');
+    } else {
+      console.log('⚠️ Some tests failed. Check implementation.');
+    }
+
+    return passed === total;
+  }
+};
+
+// Export for potential use in browser console
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).csvExporterTests = csvExporterTests;
+}
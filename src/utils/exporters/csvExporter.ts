@@ -1,9 +1,33 @@
-import type { DecryptedSalaryData, DecryptedBonusData, DecryptedEquityData } from '@/lib/db/types';
+import type {
+  CompensationType,
+  DecryptedSalaryData,
+  DecryptedBonusData,
+  DecryptedEquityData,
+  DecryptedValuationData,
+  DecryptedExerciseData,
+  DecryptedShareLotData,
+  DecryptedShareSaleData,
+  DecryptedEsppData,
+} from '@/lib/db/types';
+import { VestingSchedule } from '@/lib/vesting';
+import { EquityValuation } from '@/lib/valuation';
+import { ExerciseLots } from '@/lib/exercise';
+import { ShareLots } from '@/lib/lots';
+import { EsppCalculator } from '@/lib/espp';
+import { format as formatDateFns } from 'date-fns';
 
 export interface ExportRecord {
   id: number;
-  type: 'salary' | 'bonus' | 'equity';
-  data: DecryptedSalaryData | DecryptedBonusData | DecryptedEquityData;
+  type: CompensationType;
+  data:
+    | DecryptedSalaryData
+    | DecryptedBonusData
+    | DecryptedEquityData
+    | DecryptedValuationData
+    | DecryptedExerciseData
+    | DecryptedShareLotData
+    | DecryptedShareSaleData
+    | DecryptedEsppData;
   createdAt: number;
   currency: string;
 }
@@ -12,12 +36,22 @@ export interface CSVExportOptions {
   includeColumns?: string[];
   dateFormat?: 'iso' | 'us' | 'eu';
   currencyFormat?: 'symbol' | 'code';
+  valuations?: DecryptedValuationData[]; // Share prices used to value equity rows
+  shareLots?: DecryptedShareLotData[]; // Lots that share sale rows draw from
 }
 
 interface FlattenedRecord {
   [key: string]: string | number | boolean | null;
 }
 
+// A row and column of a computed table, such as a report
+export type CSVTableRow = FlattenedRecord;
+
+export interface CSVTableColumn {
+  key: string;
+  label: string;
+}
+
 export class CSVExporter {
   private static defaultColumns = {
     salary: [
@@ -56,12 +90,99 @@ export class CSVExporter {
       'vestingCliff',
       'vestingPeriod',
       'vestingFrequency',
+      'vestingSchedule',
+      'vestedShares',
+      'unvestedShares',
+      'nextVestDate',
+      'sharePrice',
+      'sharePriceDate',
+      'vestedValue',
+      'unvestedValue',
+      'totalValue',
+      'valueCurrency',
+      'notes',
+      'createdAt'
+    ],
+    valuation: [
+      'type',
+      'company',
+      'date',
+      'pricePerShare',
+      'currency',
+      'valuationSource',
+      'notes',
+      'createdAt'
+    ],
+    exercise: [
+      'type',
+      'company',
+      'equityType',
+      'date',
+      'shares',
+      'strikePrice',
+      'fmvAtExercise',
+      'currency',
+      'exerciseMethod',
+      'sharesSold',
+      'sharesHeld',
+      'exerciseCost',
+      'bargainElement',
+      'costBasis',
+      'ordinaryIncome',
+      'amtPreference',
+      'earlyExercise',
+      'election83bDate',
+      'notes',
+      'createdAt'
+    ],
+    shareLot: [
+      'type',
+      'company',
+      'acquiredDate',
+      'shares',
+      'sharesWithheld',
+      'costBasisPerShare',
+      'costBasis',
+      'currency',
+      'notes',
+      'createdAt'
+    ],
+    shareSale: [
+      'type',
+      'company',
+      'date',
+      'shares',
+      'pricePerShare',
+      'fees',
+      'proceeds',
+      'costBasis',
+      'realizedGain',
+      'holdingTerm',
+      'currency',
+      'lotSelection',
+      'notes',
+      'createdAt'
+    ],
+    espp: [
+      'type',
+      'company',
+      'offeringStart',
+      'offeringEnd',
+      'offeringFmv',
+      'discountPercent',
+      'hasLookback',
+      'contributionPercent',
+      'purchaseCount',
+      'sharesPurchased',
+      'purchaseCost',
+      'discountGain',
+      'currency',
       'notes',
       'createdAt'
     ]
   };
 
-  static getAvailableColumns(recordType?: 'salary' | 'bonus' | 'equity'): string[] {
+  static getAvailableColumns(recordType?: CompensationType): string[] {
     if (recordType) {
       return this.defaultColumns[recordType];
     }
@@ -91,32 +212,48 @@ export class CSVExporter {
     const columnsToInclude = options.includeColumns || 
       this.getColumnsFromRecords(flattenedRecords);
 
+    return this.exportTable(
+      flattenedRecords,
+      columnsToInclude.map(column => ({ key: column, label: column }))
+    );
+  }
+
+  /**
+   * CSV for rows that are not compensation records, with a header per column
+   */
+  static exportTable(rows: CSVTableRow[], columns: CSVTableColumn[]): string {
     // Generate CSV
-    const headers = columnsToInclude;
-    const rows = flattenedRecords.map(record => 
-      columnsToInclude.map(column => this.escapeCSVValue(record[column]))
+    const headers = columns.map(column => this.escapeCSVValue(column.label));
+    const values = rows.map(row =>
+      columns.map(column => this.escapeCSVValue(row[column.key]))
     );
 
     // Combine headers and rows
     const csvLines = [
       headers.join(','),
-      ...rows.map(row => row.join(','))
+      ...values.map(row => row.join(','))
     ];
 
     return csvLines.join('\n');
   }
 
+  static downloadTable(rows: CSVTableRow[], columns: CSVTableColumn[], filename: string): void {
+    this.saveFile(this.exportTable(rows, columns), filename);
+  }
+
   static downloadCSV(
     records: ExportRecord[],
     filename?: string,
     options: CSVExportOptions = {}
   ): void {
     const csvContent = this.export(records, options);
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    
     const defaultFilename = `compensation-data-${new Date().toISOString().split('T')[0]}.csv`;
-    const finalFilename = filename || defaultFilename;
-    
+    this.saveFile(csvContent, filename || defaultFilename);
+  }
+
+  private static saveFile(csvContent: string, finalFilename: string): void {
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+
     // Create download link
     const link = document.createElement('a');
     if (link.download !== undefined) {
@@ -172,6 +309,8 @@ export class CSVExporter {
 
       case 'equity':
         const equity = record.data as DecryptedEquityData;
+        const vesting = VestingSchedule.getVestingProgress(equity);
+        const value = EquityValuation.getGrantValue(equity, options.valuations ?? []);
         Object.assign(flattened, {
           company: equity.company,
           equityType: equity.type,
@@ -182,26 +321,141 @@ export class CSVExporter {
           vestingCliff: equity.vestingCliff || null,
           vestingPeriod: equity.vestingPeriod,
           vestingFrequency: equity.vestingFrequency,
+          vestingSchedule: VestingSchedule.describeSchedule(equity),
+          vestedShares: vesting.vestedShares,
+          unvestedShares: vesting.unvestedShares,
+          nextVestDate: vesting.nextVestingDate ? this.formatLocalDate(vesting.nextVestingDate, options.dateFormat) : null,
+          sharePrice: value?.valuation.pricePerShare ?? null,
+          sharePriceDate: value ? this.formatDate(new Date(value.valuation.date), options.dateFormat) : null,
+          vestedValue: value?.vestedValue ?? null,
+          unvestedValue: value?.unvestedValue ?? null,
+          totalValue: value?.totalValue ?? null,
+          valueCurrency: value?.valuation.currency ?? null,
           notes: equity.notes || null,
         });
         break;
+
+      case 'valuation':
+        const valuation = record.data as DecryptedValuationData;
+        Object.assign(flattened, {
+          company: valuation.company,
+          date: this.formatDate(new Date(valuation.date), options.dateFormat),
+          pricePerShare: valuation.pricePerShare,
+          currency: valuation.currency,
+          valuationSource: valuation.source,
+          notes: valuation.notes || null,
+        });
+        break;
+
+      case 'exercise':
+        const exercise = record.data as DecryptedExerciseData;
+        const lot = ExerciseLots.getLot(exercise);
+        Object.assign(flattened, {
+          company: exercise.company,
+          equityType: exercise.equityType,
+          date: this.formatDate(new Date(exercise.date), options.dateFormat),
+          shares: exercise.shares,
+          strikePrice: exercise.strikePrice,
+          fmvAtExercise: exercise.fmvAtExercise,
+          currency: exercise.currency,
+          exerciseMethod: exercise.method,
+          sharesSold: lot.sharesSold,
+          sharesHeld: lot.sharesHeld,
+          exerciseCost: lot.exerciseCost,
+          bargainElement: lot.bargainElement,
+          costBasis: lot.costBasis,
+          ordinaryIncome: lot.ordinaryIncome,
+          amtPreference: lot.amtPreference,
+          earlyExercise: exercise.isEarlyExercise,
+          election83bDate: exercise.election83bDate ? this.formatDate(new Date(exercise.election83bDate), options.dateFormat) : null,
+          notes: exercise.notes || null,
+        });
+        break;
+
+      case 'shareLot':
+        const shareLot = record.data as DecryptedShareLotData;
+        Object.assign(flattened, {
+          company: shareLot.company,
+          acquiredDate: this.formatDate(new Date(shareLot.acquiredDate), options.dateFormat),
+          shares: shareLot.shares,
+          sharesWithheld: shareLot.sharesWithheld ?? null,
+          costBasisPerShare: shareLot.costBasisPerShare,
+          costBasis: shareLot.shares * shareLot.costBasisPerShare,
+          currency: shareLot.currency,
+          notes: shareLot.notes || null,
+        });
+        break;
+
+      case 'shareSale':
+        const sale = record.data as DecryptedShareSaleData;
+        const gains = ShareLots.getRealizedGains(options.shareLots ?? [], [sale]);
+        const terms = new Set(gains.map(gain => gain.term));
+        Object.assign(flattened, {
+          company: sale.company,
+          date: this.formatDate(new Date(sale.date), options.dateFormat),
+          shares: sale.shares,
+          pricePerShare: sale.pricePerShare,
+          fees: sale.fees ?? null,
+          proceeds: sale.shares * sale.pricePerShare - (sale.fees ?? 0),
+          costBasis: gains.length > 0 ? gains.reduce((sum, gain) => sum + gain.costBasis, 0) : null,
+          realizedGain: gains.length > 0 ? gains.reduce((sum, gain) => sum + gain.gain, 0) : null,
+          holdingTerm: terms.size === 1 ? Array.from(terms)[0] : terms.size > 1 ? 'mixed' : null,
+          currency: sale.currency,
+          lotSelection: sale.lotSelection,
+          notes: sale.notes || null,
+        });
+        break;
+
+      case 'espp':
+        const espp = record.data as DecryptedEsppData;
+        const esppSummary = EsppCalculator.summarizePlan(espp);
+        Object.assign(flattened, {
+          company: espp.company,
+          offeringStart: this.formatDate(new Date(espp.offeringStart), options.dateFormat),
+          offeringEnd: this.formatDate(new Date(espp.offeringEnd), options.dateFormat),
+          offeringFmv: espp.offeringFmv,
+          discountPercent: espp.discountPercent,
+          hasLookback: espp.hasLookback,
+          contributionPercent: espp.contributionPercent,
+          purchaseCount: espp.purchases.length,
+          sharesPurchased: esppSummary.sharesPurchased,
+          purchaseCost: esppSummary.cost,
+          discountGain: esppSummary.gain,
+          currency: espp.currency,
+          notes: espp.notes || null,
+        });
+        break;
     }
 
     return flattened;
   }
 
+  // Date-only fields parse as UTC midnight, so every format reads the UTC day like 'iso' does
   private static formatDate(date: Date, format: CSVExportOptions['dateFormat'] = 'iso'): string {
     switch (format) {
       case 'us':
-        return date.toLocaleDateString('en-US');
+        return date.toLocaleDateString('en-US', { timeZone: 'UTC' });
       case 'eu':
-        return date.toLocaleDateString('en-GB');
+        return date.toLocaleDateString('en-GB', { timeZone: 'UTC' });
       case 'iso':
       default:
         return date.toISOString().split('T')[0];
     }
   }
 
+  // Dates the vesting engine computes are at local midnight, so read the local day
+  private static formatLocalDate(date: Date, format: CSVExportOptions['dateFormat'] = 'iso'): string {
+    switch (format) {
+      case 'us':
+        return formatDateFns(date, 'M/d/yyyy');
+      case 'eu':
+        return formatDateFns(date, 'dd/MM/yyyy');
+      case 'iso':
+      default:
+        return formatDateFns(date, 'yyyy-MM-dd');
+    }
+  }
+
   private static getColumnsFromRecords(records: FlattenedRecord[]): string[] {
     const columns = new Set<string>();
     records.forEach(record => {
@@ -1,7 +1,7 @@
 export { CSVExporter } from './csvExporter';
 export { JSONExporter } from './jsonExporter';
-export type { ExportRecord, CSVExportOptions } from './csvExporter';
-export type { JSONExportOptions, ExportMetadata, JSONExportData, ExportSchema } from './jsonExporter';
+export type { ExportRecord, CSVExportOptions, CSVTableRow, CSVTableColumn } from './csvExporter';
+export type { JSONExportOptions, ExportMetadata, JSONExportData, ExportSchema, JSONTable, JSONTableExport } from './jsonExporter';
 
 // Shared utility functions
 export const exportUtils = {
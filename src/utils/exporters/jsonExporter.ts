@@ -1,10 +1,27 @@
-import type { DecryptedSalaryData, DecryptedBonusData, DecryptedEquityData } from '@/lib/db/types';
+import type {
+  DecryptedSalaryData,
+  DecryptedBonusData,
+  DecryptedEquityData,
+  DecryptedValuationData,
+  DecryptedExerciseData,
+  DecryptedShareLotData,
+  DecryptedShareSaleData,
+  DecryptedEsppData,
+} from '@/lib/db/types';
 import type { ExportRecord } from './csvExporter';
+import { VestingSchedule } from '@/lib/vesting';
+import { EquityValuation } from '@/lib/valuation';
+import { ExerciseLots } from '@/lib/exercise';
+import { ShareLots, type HoldingTerm } from '@/lib/lots';
+import { EsppCalculator } from '@/lib/espp';
+import { format } from 'date-fns';
 
 export interface JSONExportOptions {
   includeMetadata?: boolean;
   prettifyOutput?: boolean;
   includeSchema?: boolean;
+  valuations?: DecryptedValuationData[]; // Share prices used to value equity grants
+  shareLots?: DecryptedShareLotData[]; // Lots that share sales draw from
 }
 
 export interface ExportMetadata {
@@ -19,14 +36,106 @@ export interface ExportMetadata {
   currencies: string[];
 }
 
+export interface ExportedVestEvent {
+  date: string;
+  shares: number;
+  cumulativeShares: number;
+  isCliff: boolean;
+}
+
+export interface ExportedEquityValue {
+  asOf: string;
+  pricePerShare: number;
+  priceDate: string;
+  priceSource: DecryptedValuationData['source'];
+  currency: string;
+  vestedValue: number;
+  unvestedValue: number;
+  totalValue: number;
+}
+
+// Equity grants are exported with their computed vest events and value alongside the stored terms
+export type ExportedEquityData = DecryptedEquityData & {
+  vestingSchedule?: ExportedVestEvent[];
+  value?: ExportedEquityValue;
+};
+
+export interface ExportedExerciseLot {
+  exerciseCost: number;
+  bargainElement: number;
+  sharesSold: number;
+  sharesHeld: number;
+  costBasis: number;
+  ordinaryIncome: number;
+  amtPreference: number;
+}
+
+// Exercises are exported with their computed tax lot alongside the stored event
+export type ExportedExerciseData = DecryptedExerciseData & {
+  lot?: ExportedExerciseLot;
+};
+
+export interface ExportedSaleGain {
+  lotUid: string;
+  shares: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  term: HoldingTerm;
+}
+
+// Share sales are exported with the gain on each lot they drew from
+export type ExportedShareSaleData = DecryptedShareSaleData & {
+  gains?: ExportedSaleGain[];
+};
+
+export interface ExportedEsppSummary {
+  sharesPurchased: number;
+  cost: number;
+  marketValue: number;
+  gain: number;
+}
+
+// ESPP offerings are exported with the totals of their purchases
+export type ExportedEsppData = DecryptedEsppData & {
+  summary?: ExportedEsppSummary;
+};
+
 export interface JSONExportData {
   metadata?: ExportMetadata;
   schema?: ExportSchema;
   data: {
     salaries: DecryptedSalaryData[];
     bonuses: DecryptedBonusData[];
-    equity: DecryptedEquityData[];
+    equity: ExportedEquityData[];
+    valuations?: DecryptedValuationData[];
+    exercises?: ExportedExerciseData[];
+    shareLots?: DecryptedShareLotData[];
+    shareSales?: ExportedShareSaleData[];
+    espp?: ExportedEsppData[];
+  };
+}
+
+// A computed table, such as a report, exported with its column definitions
+export interface JSONTable {
+  id: string;
+  title: string;
+  currency?: string;
+  columns: Array<{ key: string; label: string; kind?: string }>;
+  rows: Array<Record<string, string | number | boolean | null>>;
+}
+
+export interface JSONTableExport {
+  metadata: {
+    exportDate: string;
+    exportVersion: string;
+    table: string;
+    title: string;
+    currency?: string;
+    rowCount: number;
   };
+  columns: JSONTable['columns'];
+  rows: JSONTable['rows'];
 }
 
 export interface ExportSchema {
@@ -48,7 +157,7 @@ export interface ExportSchema {
 
 export class JSONExporter {
   private static readonly EXPORT_VERSION = '1.0.0';
-  private static readonly SCHEMA_VERSION = '1.0.0';
+  private static readonly SCHEMA_VERSION = '1.6.0';
 
   static export(
     records: ExportRecord[],
@@ -61,17 +170,45 @@ export class JSONExporter {
       : JSON.stringify(exportData);
   }
 
+  /**
+   * JSON for a table that is not made of compensation records
+   */
+  static exportTable(table: JSONTable, options: Pick<JSONExportOptions, 'prettifyOutput'> = {}): string {
+    const exportData: JSONTableExport = {
+      metadata: {
+        exportDate: new Date().toISOString(),
+        exportVersion: this.EXPORT_VERSION,
+        table: table.id,
+        title: table.title,
+        ...(table.currency && { currency: table.currency }),
+        rowCount: table.rows.length,
+      },
+      columns: table.columns,
+      rows: table.rows,
+    };
+
+    return options.prettifyOutput
+      ? JSON.stringify(exportData, null, 2)
+      : JSON.stringify(exportData);
+  }
+
+  static downloadTable(table: JSONTable, filename: string): void {
+    this.saveFile(this.exportTable(table, { prettifyOutput: true }), filename);
+  }
+
   static downloadJSON(
     records: ExportRecord[],
     filename?: string,
     options: JSONExportOptions = {}
   ): void {
     const jsonContent = this.export(records, options);
-    const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
-    
     const defaultFilename = `compensation-data-${new Date().toISOString().split('T')[0]}.json`;
-    const finalFilename = filename || defaultFilename;
-    
+    this.saveFile(jsonContent, filename || defaultFilename);
+  }
+
+  private static saveFile(jsonContent: string, finalFilename: string): void {
+    const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' });
+
     // Create download link
     const link = document.createElement('a');
     if (link.download !== undefined) {
@@ -93,7 +230,13 @@ export class JSONExporter {
     // Separate records by type
     const salaries: DecryptedSalaryData[] = [];
     const bonuses: DecryptedBonusData[] = [];
-    const equity: DecryptedEquityData[] = [];
+    const equity: ExportedEquityData[] = [];
+    const valuations: DecryptedValuationData[] = [];
+    const exercises: ExportedExerciseData[] = [];
+    const shareLots: DecryptedShareLotData[] = [];
+    const shareSales: ExportedShareSaleData[] = [];
+    const espp: ExportedEsppData[] = [];
+    const now = new Date();
 
     records.forEach(record => {
       switch (record.type) {
@@ -103,9 +246,87 @@ export class JSONExporter {
         case 'bonus':
           bonuses.push(record.data as DecryptedBonusData);
           break;
-        case 'equity':
-          equity.push(record.data as DecryptedEquityData);
+        case 'equity': {
+          const grant = record.data as DecryptedEquityData;
+          const value = EquityValuation.getGrantValue(grant, options.valuations ?? [], now);
+          equity.push({
+            ...grant,
+            vestingSchedule: VestingSchedule.getVestEvents(grant).map(event => ({
+              date: format(event.date, 'yyyy-MM-dd'),
+              shares: event.shares,
+              cumulativeShares: event.cumulativeShares,
+              isCliff: event.isCliff,
+            })),
+            ...(value && {
+              value: {
+                asOf: format(now, 'yyyy-MM-dd'),
+                pricePerShare: value.valuation.pricePerShare,
+                priceDate: value.valuation.date,
+                priceSource: value.valuation.source,
+                currency: value.valuation.currency,
+                vestedValue: value.vestedValue,
+                unvestedValue: value.unvestedValue,
+                totalValue: value.totalValue,
+              },
+            }),
+          });
+          break;
+        }
+        case 'valuation':
+          valuations.push(record.data as DecryptedValuationData);
+          break;
+        case 'exercise': {
+          const exercise = record.data as DecryptedExerciseData;
+          const lot = ExerciseLots.getLot(exercise);
+          exercises.push({
+            ...exercise,
+            lot: {
+              exerciseCost: lot.exerciseCost,
+              bargainElement: lot.bargainElement,
+              sharesSold: lot.sharesSold,
+              sharesHeld: lot.sharesHeld,
+              costBasis: lot.costBasis,
+              ordinaryIncome: lot.ordinaryIncome,
+              amtPreference: lot.amtPreference,
+            },
+          });
+          break;
+        }
+        case 'shareLot':
+          shareLots.push(record.data as DecryptedShareLotData);
+          break;
+        case 'shareSale': {
+          const sale = record.data as DecryptedShareSaleData;
+          const gains = ShareLots.getRealizedGains(options.shareLots ?? [], [sale]);
+          shareSales.push({
+            ...sale,
+            ...(gains.length > 0 && {
+              gains: gains.map(gain => ({
+                lotUid: gain.lot.lotUid,
+                shares: gain.shares,
+                proceeds: gain.proceeds,
+                costBasis: gain.costBasis,
+                gain: gain.gain,
+                term: gain.term,
+              })),
+            }),
+          });
+          break;
+        }
+        case 'espp': {
+          const plan = record.data as DecryptedEsppData;
+          const summary = EsppCalculator.summarizePlan(plan);
+          espp.push({
+            ...plan,
+            summary: {
+              sharesPurchased: summary.sharesPurchased,
+              cost: summary.cost,
+              marketValue: summary.marketValue,
+              gain: summary.gain,
+            },
+          });
           break;
+        }
       }
     });
 
@@ -114,6 +335,11 @@ export class JSONExporter {
         salaries,
         bonuses,
         equity,
+        valuations,
+        exercises,
+        shareLots,
+        shareSales,
+        espp,
       },
     };
 
@@ -187,6 +413,7 @@ export class JSONExporter {
         equity: {
           description: 'Equity grant information',
           fields: {
+            grantUid: { type: 'string', required: false, description: 'Stable grant id referenced by exercises' },
             company: { type: 'string', required: true, description: 'Company name' },
             type: { type: 'string', required: true, description: 'Equity type (ISO, NSO, RSU, ESPP, other)' },
             shares: { type: 'number', required: true, description: 'Number of shares' },
@@ -196,7 +423,87 @@ export class JSONExporter {
             vestingCliff: { type: 'number', required: false, description: 'Vesting cliff period in months' },
             vestingPeriod: { type: 'number', required: true, description: 'Total vesting period in months' },
             vestingFrequency: { type: 'string', required: true, description: 'Vesting frequency (monthly, quarterly, annual)' },
+            vestingScheduleType: { type: 'string', required: false, description: 'Schedule type (uniform, yearly, custom); uniform when absent' },
+            vestingYearlyPercentages: { type: 'array', required: false, description: 'Percent of the grant vesting in each year, summing to 100 (yearly schedules)' },
+            vestingTranches: { type: 'array', required: false, description: 'Tranches of monthsFromStart and percentage, summing to 100 (custom schedules)' },
+            notes: { type: 'string', required: false, description: 'Additional notes' },
+            vestingSchedule: { type: 'array', required: false, description: 'Computed vest events (date, shares, cumulativeShares, isCliff); ignored on import' },
+            value: { type: 'object', required: false, description: 'Computed value as of the export date from the latest share price (intrinsic value for ISO/NSO); ignored on import' },
+          },
+        },
+        valuations: {
+          description: 'Share price history used to value equity grants',
+          fields: {
+            company: { type: 'string', required: true, description: 'Company name, matched against equity grants' },
+            date: { type: 'string', required: true, description: 'Date the price applies from (ISO 8601)' },
+            pricePerShare: { type: 'number', required: true, description: 'Price per share' },
+            currency: { type: 'string', required: true, description: 'Currency code (ISO 4217)' },
+            source: { type: 'string', required: true, description: 'Price source (409a, preferred, tender, public, other)' },
+            notes: { type: 'string', required: false, description: 'Additional notes' },
+          },
+        },
+        exercises: {
+          description: 'Option exercises, one tax lot each',
+          fields: {
+            grantUid: { type: 'string', required: true, description: 'grantUid of the exercised equity grant' },
+            company: { type: 'string', required: true, description: 'Company name' },
+            equityType: { type: 'string', required: true, description: 'Option type (ISO, NSO)' },
+            date: { type: 'string', required: true, description: 'Exercise date (ISO 8601)' },
+            shares: { type: 'number', required: true, description: 'Shares exercised' },
+            strikePrice: { type: 'number', required: true, description: 'Strike price per share' },
+            fmvAtExercise: { type: 'number', required: true, description: 'Fair market value per share at exercise' },
+            currency: { type: 'string', required: true, description: 'Currency code (ISO 4217)' },
+            method: { type: 'string', required: true, description: 'Exercise method (cash, cashless, sell-to-cover)' },
+            sharesSold: { type: 'number', required: false, description: 'Shares sold to cover (sell-to-cover)' },
+            isEarlyExercise: { type: 'boolean', required: true, description: 'Whether unvested shares were exercised' },
+            election83bDate: { type: 'string', required: false, description: '83(b) election filing date (ISO 8601)' },
+            notes: { type: 'string', required: false, description: 'Additional notes' },
+            lot: { type: 'object', required: false, description: 'Computed cost, bargain element, cost basis and income of the lot; ignored on import' },
+          },
+        },
+        shareLots: {
+          description: 'Shares received when RSUs vest',
+          fields: {
+            lotUid: { type: 'string', required: true, description: 'Stable lot id referenced by share sales' },
+            grantUid: { type: 'string', required: true, description: 'grantUid of the vesting equity grant' },
+            company: { type: 'string', required: true, description: 'Company name' },
+            acquiredDate: { type: 'string', required: true, description: 'Vest date (ISO 8601)' },
+            shares: { type: 'number', required: true, description: 'Shares deposited after withholding' },
+            sharesWithheld: { type: 'number', required: false, description: 'Shares withheld for tax' },
+            costBasisPerShare: { type: 'number', required: true, description: 'FMV per share on the vest date' },
+            currency: { type: 'string', required: true, description: 'Currency code (ISO 4217)' },
+            notes: { type: 'string', required: false, description: 'Additional notes' },
+          },
+        },
+        shareSales: {
+          description: 'Sales of shares from share lots',
+          fields: {
+            company: { type: 'string', required: true, description: 'Company name' },
+            date: { type: 'string', required: true, description: 'Sale date (ISO 8601)' },
+            shares: { type: 'number', required: true, description: 'Shares sold' },
+            pricePerShare: { type: 'number', required: true, description: 'Sale price per share' },
+            fees: { type: 'number', required: false, description: 'Commissions and fees for the sale' },
+            currency: { type: 'string', required: true, description: 'Currency code (ISO 4217)' },
+            lotSelection: { type: 'string', required: true, description: 'How lots were chosen (fifo, specific)' },
+            allocations: { type: 'array', required: true, description: 'Shares taken from each lot (lotUid, shares)' },
+            notes: { type: 'string', required: false, description: 'Additional notes' },
+            gains: { type: 'array', required: false, description: 'Computed proceeds, basis, gain and holding term per lot; ignored on import' },
+          },
+        },
+        espp: {
+          description: 'ESPP offering periods and their purchases',
+          fields: {
+            company: { type: 'string', required: true, description: 'Company name' },
+            offeringStart: { type: 'string', required: true, description: 'Offering period start (ISO 8601)' },
+            offeringEnd: { type: 'string', required: true, description: 'Offering period end (ISO 8601)' },
+            offeringFmv: { type: 'number', required: true, description: 'FMV per share on the offering date' },
+            contributionPercent: { type: 'number', required: true, description: 'Percent of salary contributed' },
+            discountPercent: { type: 'number', required: true, description: 'Discount off the purchase price basis' },
+            hasLookback: { type: 'boolean', required: true, description: 'Price off the lower of the offering and purchase date FMV' },
+            currency: { type: 'string', required: true, description: 'Currency code (ISO 4217)' },
+            purchases: { type: 'array', required: true, description: 'Purchases (date, fmv, purchasePrice, shares, contribution)' },
             notes: { type: 'string', required: false, description: 'Additional notes' },
+            summary: { type: 'object', required: false, description: 'Computed shares, cost, market value and discount gain; ignored on import' },
           },
         },
       },
@@ -212,7 +519,7 @@ export class JSONExporter {
       return { isValid: false, errors };
     }
 
-    const { salaries, bonuses, equity } = data.data;
+    const { salaries, bonuses, equity, valuations, exercises, shareLots, shareSales, espp } = data.data;
 
     // Validate salary records
     if (salaries && Array.isArray(salaries)) {
@@ -238,6 +545,46 @@ export class JSONExporter {
       });
     }
 
+    // Validate valuation records
+    if (valuations && Array.isArray(valuations)) {
+      valuations.forEach((valuation, index) => {
+        const valuationErrors = this.validateValuationRecord(valuation, index);
+        errors.push(...valuationErrors);
+      });
+    }
+
+    // Validate exercise records
+    if (exercises && Array.isArray(exercises)) {
+      exercises.forEach((exercise, index) => {
+        const exerciseErrors = this.validateExerciseRecord(exercise, index);
+        errors.push(...exerciseErrors);
+      });
+    }
+
+    // Validate share lot records
+    if (shareLots && Array.isArray(shareLots)) {
+      shareLots.forEach((lot, index) => {
+        const lotErrors = this.validateShareLotRecord(lot, index);
+        errors.push(...lotErrors);
+      });
+    }
+
+    // Validate share sale records
+    if (shareSales && Array.isArray(shareSales)) {
+      shareSales.forEach((sale, index) => {
+        const saleErrors = this.validateShareSaleRecord(sale, index);
+        errors.push(...saleErrors);
+      });
+    }
+
+    // Validate ESPP records
+    if (espp && Array.isArray(espp)) {
+      espp.forEach((plan, index) => {
+        const planErrors = this.validateEsppRecord(plan, index);
+        errors.push(...planErrors);
+      });
+    }
+
     return { isValid: errors.length === 0, errors };
   }
 
@@ -282,6 +629,104 @@ export class JSONExporter {
     if (typeof equity.vestingPeriod !== 'number' || equity.vestingPeriod < 1) errors.push(`${prefix} vestingPeriod must be a positive number`);
     if (!equity.vestingFrequency) errors.push(`${prefix} vestingFrequency is required`);
 
+    const sumsToHundred = (percentages: number[]) =>
+      Math.abs(percentages.reduce((sum, pct) => sum + pct, 0) - 100) <= 0.01;
+    if (equity.vestingScheduleType === 'yearly' && !sumsToHundred(equity.vestingYearlyPercentages ?? [])) {
+      errors.push(`${prefix} vestingYearlyPercentages must add up to 100`);
+    }
+    if (equity.vestingScheduleType === 'custom' && !sumsToHundred((equity.vestingTranches ?? []).map(t => t.percentage))) {
+      errors.push(`${prefix} vestingTranches percentages must add up to 100`);
+    }
+
+    return errors;
+  }
+
+  private static validateValuationRecord(valuation: DecryptedValuationData, index: number): string[] {
+    const errors: string[] = [];
+    const prefix = `Valuation record ${index}:`;
+
+    if (!valuation.company) errors.push(`${prefix} company is required`);
+    if (!valuation.date) errors.push(`${prefix} date is required`);
+    if (typeof valuation.pricePerShare !== 'number' || valuation.pricePerShare < 0) errors.push(`${prefix} pricePerShare must be a positive number`);
+    if (!valuation.currency) errors.push(`${prefix} currency is required`);
+    if (!valuation.source) errors.push(`${prefix} source is required`);
+
+    return errors;
+  }
+
+  private static validateExerciseRecord(exercise: DecryptedExerciseData, index: number): string[] {
+    const errors: string[] = [];
+    const prefix = `Exercise record ${index}:`;
+
+    if (!exercise.grantUid) errors.push(`${prefix} grantUid is required`);
+    if (!exercise.date) errors.push(`${prefix} date is required`);
+    if (typeof exercise.shares !== 'number' || exercise.shares < 1) errors.push(`${prefix} shares must be a positive number`);
+    if (typeof exercise.strikePrice !== 'number' || exercise.strikePrice < 0) errors.push(`${prefix} strikePrice must be a positive number`);
+    if (typeof exercise.fmvAtExercise !== 'number' || exercise.fmvAtExercise < 0) errors.push(`${prefix} fmvAtExercise must be a positive number`);
+    if (!exercise.currency) errors.push(`${prefix} currency is required`);
+    if (!exercise.method) errors.push(`${prefix} method is required`);
+    if (exercise.sharesSold !== undefined && exercise.sharesSold > exercise.shares) errors.push(`${prefix} sharesSold cannot exceed shares`);
+
+    return errors;
+  }
+
+  private static validateShareLotRecord(lot: DecryptedShareLotData, index: number): string[] {
+    const errors: string[] = [];
+    const prefix = `Share lot record ${index}:`;
+
+    if (!lot.lotUid) errors.push(`${prefix} lotUid is required`);
+    if (!lot.company) errors.push(`${prefix} company is required`);
+    if (!lot.acquiredDate) errors.push(`${prefix} acquiredDate is required`);
+    if (typeof lot.shares !== 'number' || lot.shares < 0) errors.push(`${prefix} shares must be a positive number`);
+    if (typeof lot.costBasisPerShare !== 'number' || lot.costBasisPerShare < 0) errors.push(`${prefix} costBasisPerShare must be a positive number`);
+    if (!lot.currency) errors.push(`${prefix} currency is required`);
+
+    return errors;
+  }
+
+  private static validateShareSaleRecord(sale: DecryptedShareSaleData, index: number): string[] {
+    const errors: string[] = [];
+    const prefix = `Share sale record ${index}:`;
+
+    if (!sale.company) errors.push(`${prefix} company is required`);
+    if (!sale.date) errors.push(`${prefix} date is required`);
+    if (typeof sale.shares !== 'number' || sale.shares < 1) errors.push(`${prefix} shares must be a positive number`);
+    if (typeof sale.pricePerShare !== 'number' || sale.pricePerShare < 0) errors.push(`${prefix} pricePerShare must be a positive number`);
+    if (!sale.currency) errors.push(`${prefix} currency is required`);
+
+    const allocated = (sale.allocations ?? []).reduce((sum, allocation) => sum + allocation.shares, 0);
+    if (allocated !== sale.shares) errors.push(`${prefix} allocations must add up to shares`);
+
+    return errors;
+  }
+
+  private static validateEsppRecord(plan: DecryptedEsppData, index: number): string[] {
+    const errors: string[] = [];
+    const prefix = `ESPP record ${index}:`;
+
+    if (!plan.company) errors.push(`${prefix} company is required`);
+    if (!plan.offeringStart) errors.push(`${prefix} offeringStart is required`);
+    if (!plan.offeringEnd) errors.push(`${prefix} offeringEnd is required`);
+    if (typeof plan.offeringFmv !== 'number' || plan.offeringFmv <= 0) errors.push(`${prefix} offeringFmv must be a positive number`);
+    if (typeof plan.discountPercent !== 'number' || plan.discountPercent < 0 || plan.discountPercent > 100) {
+      errors.push(`${prefix} discountPercent must be between 0 and 100`);
+    }
+    if (typeof plan.hasLookback !== 'boolean') errors.push(`${prefix} hasLookback must be true or false`);
+    if (!plan.currency) errors.push(`${prefix} currency is required`);
+    if (!Array.isArray(plan.purchases)) {
+      errors.push(`${prefix} purchases must be an array`);
+    } else {
+      plan.purchases.forEach((purchase, purchaseIndex) => {
+        if (!purchase.date) errors.push(`${prefix} purchase ${purchaseIndex} date is required`);
+        if (typeof purchase.purchasePrice !== 'number' || purchase.purchasePrice < 0) {
+          errors.push(`${prefix} purchase ${purchaseIndex} purchasePrice must be a positive number`);
+        }
+        if (typeof purchase.shares !== 'number' || purchase.shares < 0) {
+          errors.push(`${prefix} purchase ${purchaseIndex} shares must be a positive number`);
+        }
+      });
+    }
+
     return errors;
   }
 }
\ No newline at end of file